@@ -0,0 +1,53 @@
+// scripts/loanLifecycleJob.ts
+// Daily loan lifecycle job: marks overdue EMIs, accrues penalties, reclassifies DPD
+// and auto-defaults loans past the threshold. Schedule it once a day (cron, CI, etc.).
+//
+// Usage:
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm run lifecycle:daily
+//   npm run lifecycle:daily -- --as-of=2024-06-30   (replay a date against a test database)
+//   AUTO_DEFAULT_DPD=120 npm run lifecycle:daily     (default once past 120 DPD instead of the NPA threshold)
+
+import { LifecycleService } from '../src/services/lifecycle';
+import { supabaseAdmin } from './supabaseAdmin';
+
+const parseAsOfDate = (args: string[]): Date => {
+  const arg = args.find(a => a.startsWith('--as-of='));
+  if (!arg) return new Date();
+
+  const value = arg.split('=')[1];
+  const date = new Date(value);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+    throw new Error(`Invalid --as-of date "${value}". Use YYYY-MM-DD.`);
+  }
+  return date;
+};
+
+const main = async () => {
+  const asOfDate = parseAsOfDate(process.argv.slice(2));
+  console.log(`Running loan lifecycle job as of ${asOfDate.toISOString().split('T')[0]}`);
+
+  const result = await LifecycleService.runDailyJob(asOfDate, supabaseAdmin);
+  if (!result.success || !result.data) {
+    console.error(result.error);
+    process.exit(1);
+  }
+
+  const summary = result.data;
+  console.log(`Loans processed: ${summary.loans_processed}`);
+  console.log(`Auto-defaulted: ${summary.loans_defaulted}`);
+  console.log(`Completed: ${summary.loans_completed}`);
+  console.log(`NPA: ${summary.npa_loans}`);
+
+  if (summary.failures.length > 0) {
+    console.error(`Failed: ${summary.failures.length}`);
+    summary.failures.forEach(failure => {
+      console.error(`  ${failure.loan_number} (${failure.loan_id}): ${failure.error}`);
+    });
+    process.exit(1);
+  }
+};
+
+main().catch(error => {
+  console.error('Loan lifecycle job failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,27 @@
+// scripts/supabaseAdmin.ts
+// Service role Supabase client for Node scripts such as the loan lifecycle job
+// Must not import React Native; the app client lives in src/services/supabase/config.ts
+
+import { createClient } from '@supabase/supabase-js';
+
+// Service role key: scheduled jobs act on every loan, so row-level security must not filter them
+const supabaseUrl = process.env.SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be provided in environment variables');
+}
+
+// No session to persist: the job authenticates with the service role key on every request
+export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false,
+    detectSessionInUrl: false,
+  },
+  global: {
+    headers: {
+      'x-application-name': 'microloan-jobs',
+    },
+  },
+});
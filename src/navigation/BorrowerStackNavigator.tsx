@@ -10,6 +10,7 @@ import { BorrowerTabNavigator } from './BorrowerTabNavigator';
 import { PaymentHistoryScreen } from '../screens/borrower/PaymentHistoryScreen';
 import { EMIScheduleScreen } from '../screens/borrower/EMIScheduleScreen';
 import { DocumentsScreen } from '../screens/borrower/DocumentsScreen';
+import { LoanDetailsScreen } from '../screens/borrower/LoanDetailsScreen';
 import { PlaceholderScreen } from '../components/common';
 import { BorrowerStackParamList } from '../types';
 
@@ -26,15 +27,6 @@ const MakePaymentPlaceholder = ({ route }: any) => (
   />
 );
 
-const LoanDetailsPlaceholder = ({ route }: any) => (
-  <PlaceholderScreen 
-    title={route.params?.title || 'Loan Details'}
-    subtitle={route.params?.subtitle || 'Detailed loan view coming soon! You will see complete loan information, EMI history, and payment tracking.'}
-    icon={route.params?.icon || 'document-text'}
-    role ={route.params?.role || 'borrower'}
-  />
-);
-
 const DocumentUploadPlaceholder = ({ route }: any) => (
   <PlaceholderScreen 
     title={route.params?.title || 'Upload Document'}
@@ -106,7 +98,7 @@ export const BorrowerStackNavigator: React.FC = () => {
       
       <Stack.Screen 
         name="LoanDetails" 
-        component={LoanDetailsPlaceholder}
+        component={LoanDetailsScreen}
         options={{
           presentation: 'modal',
           headerShown: true,
@@ -10,6 +10,7 @@ import { LenderTabNavigator } from './LenderTabNavigator';
 import { CreateLoanWizardScreen } from '../screens/lender/CreateLoanWizardScreen';
 import { RecordPaymentScreen } from '../screens/lender/RecordPaymentScreen';
 import { EMIManagementScreen } from '../screens/lender/EMIManagementScreen'; // NEW IMPORT
+import { ChequeClearingScreen } from '../screens/lender/ChequeClearingScreen';
 
 const Stack = createStackNavigator<LenderStackParamList>();
 
@@ -52,6 +53,14 @@ export const LenderStackNavigator: React.FC = () => {
           headerShown: false,
         }}
       />
+
+      <Stack.Screen
+        name="ChequeClearing"
+        component={ChequeClearingScreen}
+        options={{
+          headerShown: false,
+        }}
+      />
     </Stack.Navigator>
   );
 };
\ No newline at end of file
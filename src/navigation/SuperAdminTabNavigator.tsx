@@ -11,6 +11,7 @@ import { SuperAdminTabParamList } from '../types';
 import { SuperAdminDashboardScreen } from '../screens/superadmin/SuperAdminDashboardScreen';
 import { ManageLendersScreen } from '../screens/superadmin/ManageLendersScreen';
 import { AllLoansScreen } from '../screens/superadmin/AllLoansScreen';
+import { LoanProductsScreen } from '../screens/superadmin/LoanProductsScreen';
 import { AnalyticsScreen } from '../screens/superadmin/AnalyticsScreen';
 import { SettingsScreen } from '../screens/superadmin';
 import { UniversalTabWrapper, getUniversalTabBarOptions } from '../components/common/UniversalTabWrapper';
@@ -36,6 +37,9 @@ export const SuperAdminTabNavigator: React.FC = () => {
               case 'AllLoans':
                 iconName = focused ? 'document-text' : 'document-text-outline';
                 break;
+              case 'LoanProducts':
+                iconName = focused ? 'pricetags' : 'pricetags-outline';
+                break;
               case 'Analytics':
                 iconName = focused ? 'bar-chart' : 'bar-chart-outline';
                 break;
@@ -95,6 +99,14 @@ export const SuperAdminTabNavigator: React.FC = () => {
           tabBarLabel: 'All Loans',
         }}
       />
+
+      <Tab.Screen
+        name="LoanProducts"
+        component={LoanProductsScreen}
+        options={{
+          tabBarLabel: 'Products',
+        }}
+      />
       
       <Tab.Screen
         name="Analytics"
@@ -29,7 +29,7 @@ import { LoanService } from '../../services/loans/loanService';
 import { AuthService } from '../../services/auth/authService';
 import { supabase } from '../../services/supabase/config';
 import { User, Loan, BorrowerStackParamList, BorrowerTabParamList } from '../../types';
-import { formatCurrency, formatDate } from '../../utils';
+import { formatCurrency, formatDate, Money } from '../../utils';
 
 // Navigation type
 type BorrowerDashboardNavigationProp = CompositeNavigationProp<
@@ -160,10 +160,10 @@ export const BorrowerDashboardScreen: React.FC = () => {
       // Calculate metrics
       let totalLoans = loans.length;
       let activeLoans = loans.filter((loan: any) => loan.status === 'active').length;
-      let totalBorrowed = 0;
-      let totalPaid = 0;
-      let outstandingAmount = 0;
-      let overdueAmount = 0;
+      let totalBorrowed = Money.ZERO;
+      let totalPaid = Money.ZERO;
+      let outstandingAmount = Money.ZERO;
+      let overdueAmount = Money.ZERO;
       let upcomingEMIAmount = 0;
       let upcomingEMIDate: string | null = null;
       let paymentScore = 100;
@@ -171,18 +171,14 @@ export const BorrowerDashboardScreen: React.FC = () => {
       const today = new Date();
 
       for (const loan of loans) {
-        totalBorrowed += loan.principal_amount;
+        totalBorrowed = totalBorrowed.add(Money.of(loan.principal_amount));
         
-        // Calculate paid amount from payments
-        const payments = loan.payments || [];
-        const loanPaidAmount = payments.reduce((sum: number, payment: any) => sum + payment.amount, 0);
-        totalPaid += loanPaidAmount;
+        // Calculate paid and outstanding amounts from the loan's schedule
+        const balance = LoanService.getLoanBalance(loan);
+        totalPaid = totalPaid.add(Money.of(balance.totalPaid));
 
         if (loan.status === 'active') {
-          // Calculate outstanding with interest
-          const totalLoanAmount = loan.principal_amount * (1 + loan.interest_rate / 100);
-          const remaining = Math.max(0, totalLoanAmount - loanPaidAmount);
-          outstandingAmount += remaining;
+          outstandingAmount = outstandingAmount.add(Money.of(balance.outstanding));
 
           // Find upcoming EMI
           const emis = loan.emis || [];
@@ -204,7 +200,9 @@ export const BorrowerDashboardScreen: React.FC = () => {
           );
           
           for (const overdueEMI of overdueEMIs) {
-            overdueAmount += overdueEMI.amount - (overdueEMI.paid_amount || 0);
+            overdueAmount = overdueAmount.add(
+              Money.of(overdueEMI.amount).subtract(Money.of(overdueEMI.paid_amount || 0))
+            );
           }
 
           // Calculate payment score based on payment history
@@ -231,12 +229,12 @@ export const BorrowerDashboardScreen: React.FC = () => {
         data: {
           total_loans: totalLoans,
           active_loans: activeLoans,
-          total_borrowed: totalBorrowed,
-          total_paid: totalPaid,
-          outstanding_amount: outstandingAmount,
+          total_borrowed: totalBorrowed.toNumber(),
+          total_paid: totalPaid.toNumber(),
+          outstanding_amount: outstandingAmount.toNumber(),
           upcoming_emi_amount: upcomingEMIAmount,
           upcoming_emi_date: upcomingEMIDate,
-          overdue_amount: overdueAmount,
+          overdue_amount: overdueAmount.toNumber(),
           payment_score: paymentScore,
           credit_health: creditHealth
         }
@@ -293,7 +291,7 @@ export const BorrowerDashboardScreen: React.FC = () => {
 
       for (const loan of loans) {
         // Get recent payments (last 30 days)
-        const payments = loan.payments || [];
+        const payments = (loan.payments || []).filter((payment: any) => LoanService.isCollectedPayment(payment));
         const recent = payments
           .filter((payment: any) => {
             const paymentDate = new Date(payment.payment_date);
@@ -140,12 +140,9 @@ export const BorrowerMyLoansScreen: React.FC = () => {
    * Calculate loan progress
    */
   const calculateLoanProgress = (loan: any) => {
-    const emis = loan.emis || [];
-    const payments = loan.payments || [];
+    const emis = (loan.emis || []).filter((emi: any) => emi.status !== 'restructured');
     
-    const totalPaid = payments.reduce((sum: number, payment: any) => sum + payment.amount, 0);
-    const totalLoanAmount = loan.principal_amount * (1 + loan.interest_rate / 100);
-    const remaining = Math.max(0, totalLoanAmount - totalPaid);
+    const { totalPaid, totalPayable: totalLoanAmount, outstanding: remaining } = LoanService.getLoanBalance(loan);
     const progressPercentage = totalLoanAmount > 0 ? (totalPaid / totalLoanAmount) * 100 : 0;
     
     const paidEMIs = emis.filter((emi: any) => emi.status === 'paid').length;
@@ -182,8 +179,11 @@ export const BorrowerMyLoansScreen: React.FC = () => {
     const statusConfig = {
       'active': { color: '#4caf50', text: 'Active' },
       'pending_approval': { color: '#ff9800', text: 'Pending' },
+      'approved': { color: '#00bcd4', text: 'Approved' },
       'completed': { color: '#2196f3', text: 'Completed' },
-      'defaulted': { color: '#f44336', text: 'Defaulted' }
+      'defaulted': { color: '#f44336', text: 'Defaulted' },
+      'written_off': { color: '#795548', text: 'Written Off' },
+      'rejected': { color: '#9e9e9e', text: 'Rejected' }
     };
     
     const config = statusConfig[status as keyof typeof statusConfig] || { color: '#9e9e9e', text: status };
@@ -25,6 +25,7 @@ import { useNavigation } from '@react-navigation/native';
 
 import { AuthService } from '../../services/auth/authService';
 import { UserService } from '../../services/users/userService';
+import { LoanService } from '../../services/loans/loanService';
 import { supabase } from '../../services/supabase/config';
 import { User } from '../../types';
 import { formatCurrency, formatDate } from '../../utils';
@@ -240,7 +241,7 @@ export const BorrowerProfileScreen: React.FC = () => {
         totalBorrowed += loan.principal_amount;
         
         // Calculate paid amount from payments
-        const payments = loan.payments || [];
+        const payments = (loan.payments || []).filter((payment: any) => LoanService.isCollectedPayment(payment));
         const loanPaidAmount = payments.reduce((sum: number, payment: any) => sum + payment.amount, 0);
         totalPaid += loanPaidAmount;
       }
@@ -26,8 +26,8 @@ import { StackNavigationProp } from '@react-navigation/stack';
 
 import { AuthService } from '../../services/auth/authService';
 import { supabase } from '../../services/supabase/config';
-import { User, EMI, Loan, BorrowerStackParamList } from '../../types';
-import { formatCurrency, formatDate } from '../../utils';
+import { User, EMI, Loan, BorrowerStackParamList, RateType } from '../../types';
+import { formatCurrency, formatDate, Money } from '../../utils';
 
 // Navigation types
 type EMIScheduleRouteProp = RouteProp<BorrowerStackParamList, 'EMISchedule'>;
@@ -48,6 +48,7 @@ interface EMIWithLoan extends Omit<EMI, 'loan'> {
     loan_number: string;
     principal_amount: number;
     interest_rate: number;
+    rate_type?: RateType;
     tenure_months: number;
   };
   days_until_due?: number;
@@ -128,16 +129,19 @@ export const EMIScheduleScreen: React.FC = () => {
         .from('emis')
         .select(`
           *,
+          charges:emi_charges(*),
           loan:loans!emis_loan_id_fkey(
             id,
             loan_number,
             principal_amount,
             interest_rate,
+            rate_type,
             tenure_months,
             borrower_id
           )
         `)
         .eq('loan.borrower_id', borrowerData.id)
+        .neq('status', 'restructured')
         .order('due_date', { ascending: true });
 
       // Apply loan filter if specified
@@ -278,13 +282,13 @@ export const EMIScheduleScreen: React.FC = () => {
       emi.status === 'overdue' || (emi.status === 'pending' && (emi.days_overdue || 0) > 0)
     ).length;
     
-    const totalAmount = emis.reduce((sum, emi) => sum + emi.amount, 0);
-    const paidAmount = emis
+    const totalAmount = Money.sumOf(emis.map(emi => emi.amount)).toNumber();
+    const paidAmount = Money.sumOf(emis
       .filter(emi => emi.status === 'paid')
-      .reduce((sum, emi) => sum + emi.amount, 0);
-    const pendingAmount = emis
+      .map(emi => emi.amount)).toNumber();
+    const pendingAmount = Money.sumOf(emis
       .filter(emi => emi.status === 'pending')
-      .reduce((sum, emi) => sum + emi.amount, 0);
+      .map(emi => emi.amount)).toNumber();
 
     return {
       totalEMIs,
@@ -324,6 +328,9 @@ export const EMIScheduleScreen: React.FC = () => {
     const isPaid = emi.status === 'paid';
     const isOverdue = emi.status === 'overdue' || (emi.status === 'pending' && (emi.days_overdue || 0) > 0);
     const isDueSoon = emi.status === 'pending' && (emi.days_until_due || 0) <= 3;
+    const lateFeeCharged = Money.sumOf((emi.charges || []).map(charge => charge.amount));
+    const lateFee = lateFeeCharged.toNumber();
+    const lateFeeDue = lateFeeCharged.subtract(Money.sumOf((emi.charges || []).map(charge => charge.paid_amount))).toNumber();
 
     return (
       <View style={[
@@ -360,6 +367,15 @@ export const EMIScheduleScreen: React.FC = () => {
               </Text>
             </View>
             
+            {emi.loan?.rate_type === 'floating' && (
+              <View style={styles.emiRow}>
+                <Text style={styles.emiLabel}>Rate:</Text>
+                <Text style={styles.emiValue}>
+                  {emi.interest_rate ?? emi.loan.interest_rate}% p.a.
+                </Text>
+              </View>
+            )}
+            
             {emi.paid_amount && emi.paid_amount > 0 && (
               <View style={styles.emiRow}>
                 <Text style={styles.emiLabel}>Paid:</Text>
@@ -377,9 +393,18 @@ export const EMIScheduleScreen: React.FC = () => {
                 </Text>
               </View>
             )}
+
+            {lateFee > 0 && (
+              <View style={styles.emiRow}>
+                <Text style={styles.emiLabel}>Late Fee:</Text>
+                <Text style={[styles.emiValue, { color: lateFeeDue > 0 ? '#f44336' : '#4caf50' }]}>
+                  {formatCurrency(lateFee)}{lateFeeDue > 0 ? ` (${formatCurrency(lateFeeDue)} due)` : ' (paid)'}
+                </Text>
+              </View>
+            )}
           </View>
 
-          {!isPaid && (
+          {!isPaid && emi.status !== 'closed' && (
             <View style={styles.emiActions}>
               <TouchableOpacity
                 style={[
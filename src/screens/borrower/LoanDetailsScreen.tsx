@@ -0,0 +1,314 @@
+// src/screens/borrower/LoanDetailsScreen.tsx
+// Borrower loan detail view with repayment progress and foreclosure quote
+// Lets borrowers see exactly what it would cost to close their loan today
+
+import React, { useState } from 'react';
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  Text,
+  RefreshControl
+} from 'react-native';
+import { Divider, Badge } from 'react-native-elements';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery } from '@tanstack/react-query';
+import { useRoute, RouteProp } from '@react-navigation/native';
+
+import { LoanService } from '../../services/loans/loanService';
+import { BorrowerStackParamList } from '../../types';
+import {
+  formatCurrency,
+  formatDate,
+  formatInterestMethod,
+  formatLoanPartyRole,
+  formatCollateralType,
+  formatLienStatus,
+  formatRepaymentFrequency
+} from '../../utils';
+
+type LoanDetailsRouteProp = RouteProp<BorrowerStackParamList, 'LoanDetails'>;
+
+export const LoanDetailsScreen: React.FC = () => {
+  const route = useRoute<LoanDetailsRouteProp>();
+  const { loanId } = route.params;
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Fetch loan details
+  const {
+    data: loanResponse,
+    isLoading,
+    refetch: refetchLoan
+  } = useQuery({
+    queryKey: ['loanDetails', loanId],
+    queryFn: () => LoanService.getLoanDetails(loanId),
+  });
+
+  const loan = loanResponse?.success ? loanResponse.data : undefined;
+
+  // Foreclosure quote as of today (active loans only)
+  const {
+    data: quoteResponse,
+    refetch: refetchQuote
+  } = useQuery({
+    queryKey: ['foreclosureQuote', loanId],
+    queryFn: () => LoanService.getForeclosureQuote(loanId),
+    enabled: loan?.status === 'active',
+  });
+
+  /**
+   * Handle pull-to-refresh
+   */
+  const onRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await Promise.all([refetchLoan(), refetchQuote()]);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centerContainer}>
+        <Ionicons name="document-text" size={48} color="#2196f3" />
+        <Text style={styles.centerText}>Loading loan details...</Text>
+      </View>
+    );
+  }
+
+  if (!loan) {
+    return (
+      <View style={styles.centerContainer}>
+        <Ionicons name="alert-circle" size={48} color="#f44336" />
+        <Text style={styles.centerText}>{loanResponse?.error || 'Loan not found'}</Text>
+      </View>
+    );
+  }
+
+  const balance = LoanService.getLoanBalance(loan);
+  const emis = (loan.emis || []).filter(emi => emi.status !== 'restructured');
+  const paidEMIs = emis.filter(emi => emi.status === 'paid').length;
+  const quote = quoteResponse?.success ? quoteResponse.data : undefined;
+
+  return (
+    <ScrollView
+      style={styles.container}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+    >
+      {/* Loan Summary */}
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle}>{loan.loan_number}</Text>
+          <Badge
+            value={loan.status.replace('_', ' ').toUpperCase()}
+            badgeStyle={{ backgroundColor: loan.status === 'active' ? '#4caf50' : '#2196f3' }}
+            textStyle={{ fontSize: 10 }}
+          />
+        </View>
+        <Divider style={styles.divider} />
+
+        <View style={styles.row}>
+          <Text style={styles.label}>Principal</Text>
+          <Text style={styles.value}>{formatCurrency(loan.principal_amount)}</Text>
+        </View>
+        {loan.disbursed_amount !== undefined && loan.disbursed_amount < loan.principal_amount && (
+          <View style={styles.row}>
+            <Text style={styles.label}>Disbursed So Far</Text>
+            <Text style={styles.value}>
+              {formatCurrency(loan.disbursed_amount)} • {(loan.disbursements || []).length} tranche(s)
+            </Text>
+          </View>
+        )}
+        <View style={styles.row}>
+          <Text style={styles.label}>Interest Rate</Text>
+          <Text style={styles.value}>
+            {loan.interest_rate}% ({formatInterestMethod(loan.interest_method)})
+          </Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.label}>Tenure</Text>
+          <Text style={styles.value}>
+            {loan.tenure_months} months • {formatRepaymentFrequency(loan.repayment_frequency)}
+          </Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.label}>EMIs Paid</Text>
+          <Text style={styles.value}>{paidEMIs} / {emis.length}</Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.label}>Total Paid</Text>
+          <Text style={styles.value}>{formatCurrency(balance.totalPaid)}</Text>
+        </View>
+        <View style={styles.row}>
+          <Text style={styles.labelBold}>Outstanding</Text>
+          <Text style={styles.valueBold}>{formatCurrency(balance.outstanding)}</Text>
+        </View>
+        {(loan.restructure_count || 0) > 0 && (
+          <View style={styles.row}>
+            <Text style={styles.label}>Restructured</Text>
+            <Text style={styles.value}>
+              {loan.restructure_count}x{loan.last_restructured_at ? ` • ${formatDate(loan.last_restructured_at)}` : ''}
+            </Text>
+          </View>
+        )}
+        {loan.closure_reason && (
+          <View style={styles.row}>
+            <Text style={styles.label}>Closed</Text>
+            <Text style={styles.value}>
+              {loan.closed_at ? formatDate(loan.closed_at) : ''} • {loan.closure_reason}
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {/* Co-borrowers & Guarantors */}
+      {(loan.parties || []).length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Co-borrowers & Guarantors</Text>
+          <Divider style={styles.divider} />
+
+          {(loan.parties || []).map((party) => (
+            <View key={party.id} style={styles.row}>
+              <Text style={styles.label}>{formatLoanPartyRole(party.role)}</Text>
+              <Text style={styles.value}>
+                {party.full_name} • {party.relationship}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Collateral */}
+      {(loan.collaterals || []).length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Collateral</Text>
+          <Divider style={styles.divider} />
+
+          {(loan.collaterals || []).map((collateral) => (
+            <View key={collateral.id} style={styles.row}>
+              <Text style={styles.label}>
+                {formatCollateralType(collateral.collateral_type)} • {collateral.description}
+              </Text>
+              <Text style={styles.value}>
+                {formatCurrency(collateral.valuation)} • {formatLienStatus(collateral.lien_status)}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Foreclosure Quote */}
+      {quote && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Close Loan Today</Text>
+          <Text style={styles.cardSubtitle}>
+            Quote as of {formatDate(quote.quoteDate)}. Contact your lender to foreclose.
+          </Text>
+          <Divider style={styles.divider} />
+
+          <View style={styles.row}>
+            <Text style={styles.label}>Outstanding Principal</Text>
+            <Text style={styles.value}>{formatCurrency(quote.outstandingPrincipal)}</Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.label}>Interest ({quote.accruedDays} days)</Text>
+            <Text style={styles.value}>{formatCurrency(quote.accruedInterest)}</Text>
+          </View>
+          {quote.overdueAmount > 0 && (
+            <View style={styles.row}>
+              <Text style={styles.label}>Unpaid Dues</Text>
+              <Text style={styles.value}>{formatCurrency(quote.overdueAmount)}</Text>
+            </View>
+          )}
+          {quote.outstandingCharges > 0 && (
+            <View style={styles.row}>
+              <Text style={styles.label}>Unpaid Charges</Text>
+              <Text style={styles.value}>{formatCurrency(quote.outstandingCharges)}</Text>
+            </View>
+          )}
+          <View style={styles.row}>
+            <Text style={styles.label}>Foreclosure Charge ({quote.foreclosureChargeRate}%)</Text>
+            <Text style={styles.value}>{formatCurrency(quote.foreclosureCharge)}</Text>
+          </View>
+          <Divider style={styles.divider} />
+          <View style={styles.row}>
+            <Text style={styles.labelBold}>Total Payable</Text>
+            <Text style={styles.valueBold}>{formatCurrency(quote.totalPayable)}</Text>
+          </View>
+        </View>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    paddingHorizontal: 40,
+  },
+  centerText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    margin: 16,
+    marginBottom: 0,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  cardSubtitle: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  divider: {
+    marginVertical: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    flex: 1,
+  },
+  value: {
+    fontSize: 14,
+    color: '#333',
+    textAlign: 'right',
+    flex: 1,
+  },
+  labelBold: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  valueBold: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#2196f3',
+  },
+});
@@ -25,6 +25,7 @@ import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 
 import { AuthService } from '../../services/auth/authService';
+import { LoanService } from '../../services/loans/loanService';
 import { supabase } from '../../services/supabase/config';
 import { User, Payment, BorrowerStackParamList } from '../../types';
 import { formatCurrency, formatDate } from '../../utils';
@@ -208,9 +209,31 @@ export const PaymentHistoryScreen: React.FC = () => {
   };
 
   /**
-   * Calculate payment summary
+   * Get badge for a payment's status; voided and reversed payments stay listed
    */
-  const calculateSummary = (payments: PaymentWithLoan[]) => {
+  const getPaymentStatusInfo = (payment: PaymentWithLoan) => {
+    const statusConfig = {
+      'posted': { label: 'Paid', color: '#4caf50' },
+      'clearing': { label: 'In Clearing', color: '#ff9800' },
+      'voided': { label: 'Voided', color: '#9e9e9e' },
+      'reversed': { label: 'Reversed', color: '#f44336' },
+      'bounced': { label: 'Bounced', color: '#f44336' }
+    };
+
+    const status = payment.cheque_status === 'bounced'
+      ? 'bounced'
+      : (payment.status || 'posted') === 'posted' && !LoanService.isCollectedPayment(payment)
+        ? 'clearing'
+        : payment.status || 'posted';
+
+    return statusConfig[status as keyof typeof statusConfig] || statusConfig.posted;
+  };
+
+  /**
+   * Calculate payment summary from payments that still count
+   */
+  const calculateSummary = (allPayments: PaymentWithLoan[]) => {
+    const payments = allPayments.filter(payment => LoanService.isCollectedPayment(payment));
     const totalAmount = payments.reduce((sum, payment) => sum + payment.amount, 0);
     const paymentCount = payments.length;
     const averagePayment = paymentCount > 0 ? totalAmount / paymentCount : 0;
@@ -258,9 +281,11 @@ export const PaymentHistoryScreen: React.FC = () => {
    */
   const renderPaymentItem = ({ item: payment }: { item: PaymentWithLoan }) => {
     const methodInfo = getPaymentMethodInfo(payment.payment_method);
+    const statusInfo = getPaymentStatusInfo(payment);
+    const isAdjusted = (payment.status || 'posted') !== 'posted';
     
     return (
-      <View style={styles.paymentCard}>
+      <View style={[styles.paymentCard, isAdjusted && styles.paymentCardAdjusted]}>
         <View style={styles.paymentHeader}>
           <View style={styles.paymentTitleSection}>
             <View style={styles.paymentMethodIcon}>
@@ -272,12 +297,12 @@ export const PaymentHistoryScreen: React.FC = () => {
             </View>
           </View>
           <View style={styles.paymentAmountSection}>
-            <Text style={styles.paymentAmount}>
+            <Text style={[styles.paymentAmount, isAdjusted && styles.paymentAmountAdjusted]}>
               {formatCurrency(payment.amount)}
             </Text>
             <Badge 
-              value="Paid" 
-              badgeStyle={{ backgroundColor: '#4caf50' }}
+              value={statusInfo.label} 
+              badgeStyle={{ backgroundColor: statusInfo.color }}
               textStyle={{ fontSize: 10 }}
             />
           </View>
@@ -304,6 +329,16 @@ export const PaymentHistoryScreen: React.FC = () => {
               <Text style={styles.paymentValue}>{payment.notes}</Text>
             </View>
           )}
+
+          {isAdjusted && (
+            <View style={styles.paymentRow}>
+              <Text style={styles.paymentLabel}>{statusInfo.label}:</Text>
+              <Text style={styles.paymentValue}>
+                {payment.adjusted_at ? formatDate(new Date(payment.adjusted_at)) : ''}
+                {payment.adjustment_reason ? ` • ${payment.adjustment_reason}` : ''}
+              </Text>
+            </View>
+          )}
           
           <View style={styles.paymentRow}>
             <Text style={styles.paymentLabel}>Loan Amount:</Text>
@@ -681,6 +716,9 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  paymentCardAdjusted: {
+    opacity: 0.7,
+  },
   paymentHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -723,6 +761,10 @@ const styles = StyleSheet.create({
     color: '#4caf50',
     marginBottom: 4,
   },
+  paymentAmountAdjusted: {
+    color: '#9e9e9e',
+    textDecorationLine: 'line-through',
+  },
   paymentDetails: {
     marginBottom: 12,
   },
@@ -6,4 +6,5 @@ export { BorrowerMyLoansScreen } from './BorrowerMyLoansScreen';
 export { PaymentHistoryScreen } from './PaymentHistoryScreen';
 export { EMIScheduleScreen } from './EMIScheduleScreen';
 export { DocumentsScreen } from './DocumentsScreen';
+export { LoanDetailsScreen } from './LoanDetailsScreen';
 export { BorrowerProfileScreen } from './BorrowerProfileScreen';
\ No newline at end of file
@@ -0,0 +1,734 @@
+// src/screens/lender/ChequeClearingScreen.tsx
+// Cheque clearing tracker - cheque payments received but not yet cleared
+// Deposit, clear or bounce each cheque; only cleared cheques are applied to EMIs
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  Text,
+  RefreshControl,
+  Alert,
+  TouchableOpacity,
+  FlatList,
+  Modal
+} from 'react-native';
+import {
+  Button,
+  Badge,
+  Input
+} from 'react-native-elements';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+
+import { LoanService } from '../../services/loans/loanService';
+import { AuthService } from '../../services/auth/authService';
+import { User, Payment, ChequeStatus, LenderStackParamList } from '../../types';
+import { formatCurrency, formatDate, formatChequeStatus } from '../../utils';
+
+// Navigation type
+type ChequeClearingNavigationProp = StackNavigationProp<LenderStackParamList, 'ChequeClearing'>;
+
+// Filter options
+const CHEQUE_FILTERS: Array<{ label: string; value: ChequeStatus | 'all' }> = [
+  { label: 'All', value: 'all' },
+  { label: 'Received', value: 'received' },
+  { label: 'Deposited', value: 'deposited' }
+];
+
+// Cheque with the loan and borrower it was received for
+interface ChequeWithLoan extends Omit<Payment, 'loan'> {
+  loan: {
+    id: string;
+    loan_number: string;
+    borrower: {
+      user: {
+        full_name: string;
+        phone: string;
+      };
+    };
+  };
+}
+
+export const ChequeClearingScreen: React.FC = () => {
+  const navigation = useNavigation<ChequeClearingNavigationProp>();
+  const queryClient = useQueryClient();
+
+  // State management
+  const [refreshing, setRefreshing] = useState(false);
+  const [selectedFilter, setSelectedFilter] = useState<ChequeStatus | 'all'>('all');
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [bouncingCheque, setBouncingCheque] = useState<ChequeWithLoan | null>(null);
+  const [bounceDate, setBounceDate] = useState('');
+  const [bounceReason, setBounceReason] = useState('');
+
+  // Get current user
+  useEffect(() => {
+    const getCurrentUser = async () => {
+      const user = await AuthService.getCurrentUser();
+      setCurrentUser(user);
+    };
+    getCurrentUser();
+  }, []);
+
+  // Fetch cheques awaiting clearance
+  const {
+    data: chequesResponse,
+    isLoading,
+    error,
+    refetch
+  } = useQuery({
+    queryKey: ['chequesInClearing', currentUser?.id],
+    queryFn: async () => {
+      if (!currentUser?.id) return { success: false, data: [] };
+      return LoanService.getChequesInClearing(currentUser.id);
+    },
+    enabled: !!currentUser?.id,
+    refetchInterval: 60000,
+  });
+
+  /**
+   * Refresh the clearing list and the loans a cheque may have paid
+   */
+  const invalidateCheques = () => {
+    queryClient.invalidateQueries({ queryKey: ['chequesInClearing'] });
+    queryClient.invalidateQueries({ queryKey: ['loans'] });
+    queryClient.invalidateQueries({ queryKey: ['emiManagement'] });
+  };
+
+  // Deposit or clear a cheque as of today
+  const statusMutation = useMutation({
+    mutationFn: ({ cheque, status }: { cheque: ChequeWithLoan; status: 'deposited' | 'cleared' }) => {
+      const today = new Date().toISOString().split('T')[0];
+      return status === 'deposited'
+        ? LoanService.depositCheque(cheque.id, today)
+        : LoanService.clearCheque(cheque.id, today);
+    },
+    onSuccess: (result, { cheque, status }) => {
+      if (result.success) {
+        invalidateCheques();
+        Alert.alert(
+          status === 'deposited' ? 'Cheque Deposited' : 'Cheque Cleared',
+          status === 'deposited'
+            ? `Cheque ${cheque.reference_number || ''} is now awaiting clearance.`
+            : `${formatCurrency(cheque.amount)} has been applied to ${cheque.loan.loan_number}.`
+        );
+      } else {
+        Alert.alert('Error', result.error || 'Failed to update the cheque');
+      }
+    },
+    onError: (error) => {
+      Alert.alert('Error', 'An unexpected error occurred while updating the cheque');
+      console.error('Update cheque error:', error);
+    }
+  });
+
+  // Record a returned cheque; the service reverses it and raises the bounce charge
+  const bounceMutation = useMutation({
+    mutationFn: (cheque: ChequeWithLoan) => {
+      if (!currentUser?.id) {
+        return Promise.reject(new Error('No current user'));
+      }
+      return LoanService.bounceCheque(cheque.id, bounceDate, bounceReason, currentUser.id);
+    },
+    onSuccess: (result, cheque) => {
+      if (result.success && result.data) {
+        invalidateCheques();
+        setBouncingCheque(null);
+        Alert.alert(
+          'Cheque Bounced',
+          `${formatCurrency(cheque.amount)} has been reversed on ${cheque.loan.loan_number}.` +
+          (result.data.bounceCharge > 0 ? ` A bounce charge of ${formatCurrency(result.data.bounceCharge)} has been added.` : '')
+        );
+      } else {
+        Alert.alert('Error', result.error || 'Failed to record the bounced cheque');
+      }
+    },
+    onError: (error) => {
+      Alert.alert('Error', 'An unexpected error occurred while recording the bounced cheque');
+      console.error('Bounce cheque error:', error);
+    }
+  });
+
+  /**
+   * Handle pull-to-refresh
+   */
+  const onRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await refetch();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  /**
+   * Confirm moving a cheque to deposited or cleared
+   */
+  const handleUpdateStatus = (cheque: ChequeWithLoan, status: 'deposited' | 'cleared') => {
+    Alert.alert(
+      status === 'deposited' ? 'Deposit Cheque' : 'Clear Cheque',
+      status === 'deposited'
+        ? `Mark cheque ${cheque.reference_number || ''} for ${formatCurrency(cheque.amount)} as deposited today?`
+        : `Mark cheque ${cheque.reference_number || ''} as cleared today? ${formatCurrency(cheque.amount)} will be applied to the loan's EMIs.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: status === 'deposited' ? 'Deposit' : 'Cleared',
+          onPress: () => statusMutation.mutate({ cheque, status })
+        }
+      ]
+    );
+  };
+
+  /**
+   * Open the bounce form, dated today
+   */
+  const openBounce = (cheque: ChequeWithLoan) => {
+    setBounceDate(new Date().toISOString().split('T')[0]);
+    setBounceReason('');
+    setBouncingCheque(cheque);
+  };
+
+  /**
+   * Days since the cheque was received
+   */
+  const getDaysInClearing = (cheque: ChequeWithLoan): number => {
+    const received = new Date(cheque.payment_date);
+    return Math.max(0, Math.floor((Date.now() - received.getTime()) / (1000 * 3600 * 24)));
+  };
+
+  /**
+   * Render cheque item
+   */
+  const renderChequeItem = ({ item: cheque }: { item: ChequeWithLoan }) => {
+    const borrowerUser = cheque.loan?.borrower?.user;
+    const isDeposited = cheque.cheque_status === 'deposited';
+
+    return (
+      <View style={styles.chequeCard}>
+        <View style={styles.chequeHeader}>
+          <View style={styles.chequeTitleSection}>
+            <Text style={styles.loanNumber}>{cheque.loan?.loan_number}</Text>
+            <Text style={styles.chequeNumber}>Cheque #{cheque.reference_number || '—'}</Text>
+          </View>
+          <Badge
+            value={formatChequeStatus(cheque.cheque_status)}
+            badgeStyle={{ backgroundColor: isDeposited ? '#2196f3' : '#ff9800' }}
+            textStyle={{ fontSize: 10 }}
+          />
+        </View>
+
+        <View style={styles.chequeContent}>
+          <View style={styles.chequeDetails}>
+            <Text style={styles.borrowerName}>
+              {borrowerUser?.full_name || 'Unknown Borrower'}
+            </Text>
+            <Text style={styles.chequeMeta}>
+              Received: {formatDate(new Date(cheque.payment_date), 'short')} • {getDaysInClearing(cheque)} days
+            </Text>
+            {cheque.cheque_deposited_at && (
+              <Text style={styles.chequeMeta}>
+                Deposited: {formatDate(new Date(cheque.cheque_deposited_at), 'short')}
+              </Text>
+            )}
+          </View>
+          <Text style={styles.chequeAmount}>
+            {formatCurrency(cheque.amount)}
+          </Text>
+        </View>
+
+        <View style={styles.chequeActions}>
+          {!isDeposited && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.depositButton]}
+              onPress={() => handleUpdateStatus(cheque, 'deposited')}
+            >
+              <Ionicons name="business" size={14} color="#2196f3" />
+              <Text style={styles.actionButtonText}>Deposit</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.actionButton, styles.clearButton]}
+            onPress={() => handleUpdateStatus(cheque, 'cleared')}
+          >
+            <Ionicons name="checkmark-circle" size={14} color="#4caf50" />
+            <Text style={styles.actionButtonText}>Cleared</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.bounceButton]}
+            onPress={() => openBounce(cheque)}
+          >
+            <Ionicons name="close-circle" size={14} color="#f44336" />
+            <Text style={styles.actionButtonText}>Bounced</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  // Show loading state
+  if (isLoading && !chequesResponse) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Ionicons name="document-text" size={48} color="#2196f3" />
+        <Text style={styles.loadingText}>Loading Cheques...</Text>
+      </View>
+    );
+  }
+
+  // Show error state
+  if (error || (chequesResponse && !chequesResponse.success)) {
+    return (
+      <View style={styles.errorContainer}>
+        <Ionicons name="alert-circle" size={48} color="#f44336" />
+        <Text style={styles.errorText}>Failed to load cheques</Text>
+        <Button title="Retry" onPress={() => refetch()} />
+      </View>
+    );
+  }
+
+  const allCheques = (chequesResponse?.data || []) as unknown as ChequeWithLoan[];
+  const cheques = selectedFilter === 'all'
+    ? allCheques
+    : allCheques.filter(cheque => cheque.cheque_status === selectedFilter);
+  const totalInClearing = allCheques.reduce((sum, cheque) => sum + cheque.amount, 0);
+
+  return (
+    <View style={styles.container}>
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+        >
+          <Ionicons name="arrow-back" size={24} color="#333" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Text style={styles.headerTitle}>Cheques in Clearing</Text>
+          <Text style={styles.headerSubtitle}>
+            {allCheques.length} cheque{allCheques.length !== 1 ? 's' : ''} awaiting clearance
+          </Text>
+        </View>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {/* Summary */}
+      {allCheques.length > 0 && (
+        <View style={styles.summaryContainer}>
+          <View style={styles.summaryCard}>
+            <View style={styles.summaryRow}>
+              <View style={styles.summaryItem}>
+                <Text style={styles.summaryValue}>{allCheques.length}</Text>
+                <Text style={styles.summaryLabel}>In Clearing</Text>
+              </View>
+              <View style={styles.summaryItem}>
+                <Text style={[styles.summaryValue, { color: '#ff9800' }]}>
+                  {formatCurrency(totalInClearing)}
+                </Text>
+                <Text style={styles.summaryLabel}>Not Yet Applied</Text>
+              </View>
+            </View>
+          </View>
+        </View>
+      )}
+
+      {/* Status Filter */}
+      <View style={styles.filtersContainer}>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.filterScrollContainer}
+        >
+          {CHEQUE_FILTERS.map((filter) => (
+            <TouchableOpacity
+              key={filter.value}
+              style={[
+                styles.filterButton,
+                selectedFilter === filter.value && styles.filterButtonActive
+              ]}
+              onPress={() => setSelectedFilter(filter.value)}
+            >
+              <Text style={[
+                styles.filterText,
+                selectedFilter === filter.value && styles.filterTextActive
+              ]}>
+                {filter.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+
+      {/* Cheque List */}
+      {cheques.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="document-text-outline" size={64} color="#9e9e9e" />
+          <Text style={styles.emptyStateText}>No cheques in clearing</Text>
+          <Text style={styles.emptyStateSubtext}>
+            Cheque payments appear here until they clear or bounce
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={cheques}
+          keyExtractor={(item) => item.id}
+          renderItem={renderChequeItem}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+          }
+          contentContainerStyle={styles.listContainer}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+
+      {/* Bounce Modal */}
+      <Modal
+        visible={!!bouncingCheque}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        {bouncingCheque && (
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <TouchableOpacity onPress={() => setBouncingCheque(null)}>
+                <Text style={styles.modalCancel}>Cancel</Text>
+              </TouchableOpacity>
+              <Text style={styles.modalTitle}>Cheque Bounced</Text>
+              <View />
+            </View>
+
+            <ScrollView style={styles.modalContent}>
+              <Text style={styles.modalSectionTitle}>
+                {bouncingCheque.loan.loan_number} • Cheque #{bouncingCheque.reference_number || '—'}
+              </Text>
+              <Text style={styles.modalText}>Amount: {formatCurrency(bouncingCheque.amount)}</Text>
+              <Text style={styles.modalHint}>
+                The payment is reversed and the loan's bounce charge is added to the EMI it was meant to pay.
+              </Text>
+
+              <Input
+                label="Bounce Date *"
+                value={bounceDate}
+                onChangeText={setBounceDate}
+                placeholder="YYYY-MM-DD"
+                leftIcon={<Ionicons name="calendar" size={20} color="#666" />}
+              />
+              <Input
+                label="Reason *"
+                value={bounceReason}
+                onChangeText={setBounceReason}
+                placeholder="e.g. Insufficient funds"
+                multiline
+              />
+            </ScrollView>
+
+            <View style={styles.modalFooter}>
+              <Button
+                title="Record Bounce"
+                buttonStyle={styles.bounceSubmitButton}
+                loading={bounceMutation.isPending}
+                onPress={() => {
+                  if (!bounceReason.trim()) {
+                    Alert.alert('Validation Error', 'Please give the reason the cheque was returned');
+                    return;
+                  }
+                  bounceMutation.mutate(bouncingCheque);
+                }}
+              />
+            </View>
+          </View>
+        )}
+      </Modal>
+
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  errorText: {
+    marginTop: 16,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    textAlign: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerContent: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerSpacer: {
+    width: 32,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  headerSubtitle: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  summaryContainer: {
+    padding: 16,
+  },
+  summaryCard: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  summaryItem: {
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+  },
+  filtersContainer: {
+    backgroundColor: 'white',
+    paddingTop: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  filterScrollContainer: {
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+  },
+  filterButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginRight: 8,
+    borderRadius: 20,
+    backgroundColor: '#f8f9fa',
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  filterButtonActive: {
+    backgroundColor: '#2196f3',
+    borderColor: '#2196f3',
+  },
+  filterText: {
+    fontSize: 12,
+    color: '#666',
+    fontWeight: '500',
+  },
+  filterTextActive: {
+    color: 'white',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyStateText: {
+    fontSize: 18,
+    fontWeight: '500',
+    color: '#666',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  emptyStateSubtext: {
+    fontSize: 14,
+    color: '#999',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  chequeCard: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+    borderLeftWidth: 4,
+    borderLeftColor: '#ff9800',
+  },
+  chequeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  chequeTitleSection: {
+    flex: 1,
+  },
+  loanNumber: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  chequeNumber: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  chequeContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  chequeDetails: {
+    flex: 1,
+  },
+  borrowerName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  chequeMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  chequeAmount: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  chequeActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-start',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8f9fa',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    marginRight: 8,
+  },
+  depositButton: {
+    borderColor: '#2196f3',
+  },
+  clearButton: {
+    borderColor: '#4caf50',
+  },
+  bounceButton: {
+    borderColor: '#f44336',
+  },
+  actionButtonText: {
+    fontSize: 12,
+    color: '#333',
+    marginLeft: 4,
+    fontWeight: '500',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalCancel: {
+    fontSize: 16,
+    color: '#666',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 16,
+  },
+  modalSectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+    marginHorizontal: 10,
+  },
+  modalText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 6,
+    marginHorizontal: 10,
+  },
+  modalHint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+    marginBottom: 16,
+    marginHorizontal: 10,
+  },
+  modalFooter: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#e0e0e0',
+  },
+  bounceSubmitButton: {
+    backgroundColor: '#f44336',
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+});
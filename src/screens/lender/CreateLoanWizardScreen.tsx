@@ -25,16 +25,48 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 
-import { LoanService, CreateLoanForm } from '../../services/loans/loanService';
-import { EMICalculationService, LoanParameters } from '../../services/calculations/emiCalculationService';
+import { LoanService, CreateLoanForm, LoanPartyForm, CollateralForm } from '../../services/loans/loanService';
+import { ProductService } from '../../services/products/productService';
+import {
+  EMICalculationService,
+  LoanParameters,
+  UpfrontChargeParameters
+} from '../../services/calculations/emiCalculationService';
 import { AuthService } from '../../services/auth/authService';
-import { Borrower, User, ApiResponse, Loan } from '../../types';
-import { formatCurrency, formatDate } from '../../utils';
+import {
+  Borrower,
+  LoanProduct,
+  User,
+  ApiResponse,
+  Loan,
+  LoanPartyRole,
+  LoanPartyDocument,
+  CollateralType,
+  RepaymentFrequency,
+  InterestMethod,
+  MoratoriumTreatment,
+  RateType,
+  RepaymentStructure
+} from '../../types';
+import {
+  formatCurrency,
+  formatDate,
+  formatPercentage,
+  formatRepaymentFrequency,
+  formatInterestMethod,
+  formatMoratoriumTreatment,
+  formatRateType,
+  formatChargeTreatment,
+  formatRepaymentStructure,
+  formatLoanPartyRole,
+  formatCollateralType,
+  Money
+} from '../../utils';
 
 // Navigation types
 type LenderStackParamList = {
   MyBorrowers: undefined;
-  CreateLoanWizard: { borrowerId?: string };
+  CreateLoanWizard: { borrowerId?: string; topUpOfLoanId?: string };
 };
 
 type CreateLoanWizardRouteProp = RouteProp<LenderStackParamList, 'CreateLoanWizard'>;
@@ -42,26 +74,121 @@ type CreateLoanWizardNavigationProp = StackNavigationProp<LenderStackParamList,
 
 // Wizard step enum
 enum WizardStep {
-  SELECT_BORROWER = 1,
-  LOAN_PARAMETERS = 2,
-  EMI_PREVIEW = 3,
-  CONFIRMATION = 4
+  SELECT_PRODUCT = 1,
+  SELECT_BORROWER = 2,
+  LOAN_PARAMETERS = 3,
+  EMI_PREVIEW = 4,
+  CONFIRMATION = 5
 }
 
+const REPAYMENT_FREQUENCIES: RepaymentFrequency[] = ['daily', 'weekly', 'bi_weekly', 'monthly'];
+const INTEREST_METHODS: InterestMethod[] = ['reducing_balance', 'flat', 'interest_only_bullet'];
+const MORATORIUM_TREATMENTS: MoratoriumTreatment[] = ['capitalize', 'interest_only'];
+const RATE_TYPES: RateType[] = ['fixed', 'floating'];
+const LOAN_PARTY_ROLES: LoanPartyRole[] = ['guarantor', 'co_borrower'];
+const COLLATERAL_TYPES: CollateralType[] = ['gold', 'vehicle', 'property', 'fixed_deposit', 'other'];
+const REPAYMENT_STRUCTURES: RepaymentStructure[] = ['level', 'step_up', 'step_down', 'balloon'];
+
+// Parse an optional YYYY-MM-DD date entered in the form as a local date
+const parseDateInput = (value: string): Date | undefined => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) return undefined;
+  const date = EMICalculationService.parseDateKey(value.trim());
+  // Reject dates that roll over, e.g. 2024-02-30
+  return EMICalculationService.toDateKey(date) === value.trim() ? date : undefined;
+};
+
 interface LoanFormData {
+  product_id: string;
   borrower_id: string;
   principal_amount: string;
   interest_rate: string;
+  rate_type: RateType;
   tenure_months: string;
+  repayment_frequency: RepaymentFrequency;
+  interest_method: InterestMethod;
+  repayment_structure: RepaymentStructure;
+  step_percent: string;
+  step_interval_months: string;
+  balloon_percent: string;
+  moratorium_months: string;
+  moratorium_treatment: MoratoriumTreatment;
+  first_emi_date: string;
   purpose: string;
-  collateral_details: string;
 }
 
+// Upfront charges the product levies on the amount entered
+const toUpfrontCharges = (formData: LoanFormData, product: LoanProduct): UpfrontChargeParameters =>
+  ProductService.getUpfrontCharges(product, parseFloat(formData.principal_amount) || 0);
+
+// Keep a value inside a product range, falling back to the range minimum
+const clampToRange = (value: string, min: number, max: number): string => {
+  const parsed = parseFloat(value);
+  return !isNaN(parsed) && parsed >= min && parsed <= max ? value : min.toString();
+};
+
+// Repayment structure as entered in the form; only reducing-balance loans can be structured
+const toRepaymentStructure = (formData: LoanFormData): Pick<
+  LoanParameters,
+  'repaymentStructure' | 'stepPercent' | 'stepIntervalMonths' | 'balloonPercent'
+> => {
+  const structure = formData.interest_method === 'reducing_balance' ? formData.repayment_structure : 'level';
+  return {
+    repaymentStructure: structure,
+    stepPercent: structure === 'step_up' || structure === 'step_down' ? parseFloat(formData.step_percent) || 0 : undefined,
+    stepIntervalMonths: structure === 'step_up' || structure === 'step_down' ? parseInt(formData.step_interval_months) || 0 : undefined,
+    balloonPercent: structure === 'balloon' ? parseFloat(formData.balloon_percent) || 0 : undefined
+  };
+};
+
+// Co-borrower or guarantor being entered; ID numbers become KYC documents
+interface LoanPartyDraft {
+  role: LoanPartyRole;
+  full_name: string;
+  phone: string;
+  email: string;
+  relationship: string;
+  aadhar_number: string;
+  pan_number: string;
+}
+
+const EMPTY_PARTY_DRAFT: LoanPartyDraft = {
+  role: 'guarantor',
+  full_name: '',
+  phone: '',
+  email: '',
+  relationship: '',
+  aadhar_number: '',
+  pan_number: ''
+};
+
+// Collateral being entered
+interface CollateralDraft {
+  collateral_type: CollateralType;
+  description: string;
+  valuation: string;
+  valuation_date: string;
+  photo_url: string;
+}
+
+const EMPTY_COLLATERAL_DRAFT: CollateralDraft = {
+  collateral_type: 'gold',
+  description: '',
+  valuation: '',
+  valuation_date: new Date().toISOString().split('T')[0],
+  photo_url: ''
+};
+
 interface LoanFormErrors {
+  product_id?: string;
   borrower_id?: string;
   principal_amount?: string;
   interest_rate?: string;
   tenure_months?: string;
+  step_percent?: string;
+  step_interval_months?: string;
+  balloon_percent?: string;
+  moratorium_months?: string;
+  first_emi_date?: string;
   purpose?: string;
 }
 
@@ -71,21 +198,35 @@ export const CreateLoanWizardScreen: React.FC = () => {
   const queryClient = useQueryClient();
 
   // State management
-  const [currentStep, setCurrentStep] = useState<WizardStep>(
-    route.params?.borrowerId ? WizardStep.LOAN_PARAMETERS : WizardStep.SELECT_BORROWER
-  );
+  const [currentStep, setCurrentStep] = useState<WizardStep>(WizardStep.SELECT_PRODUCT);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [selectedBorrower, setSelectedBorrower] = useState<Borrower | null>(null);
   const [formData, setFormData] = useState<LoanFormData>({
+    product_id: '',
     borrower_id: route.params?.borrowerId || '',
     principal_amount: '',
     interest_rate: '12',
+    rate_type: 'fixed',
     tenure_months: '12',
-    purpose: '',
-    collateral_details: ''
+    repayment_frequency: 'monthly',
+    interest_method: 'reducing_balance',
+    repayment_structure: 'level',
+    step_percent: '10',
+    step_interval_months: '12',
+    balloon_percent: '',
+    moratorium_months: '',
+    moratorium_treatment: 'capitalize',
+    first_emi_date: '',
+    purpose: ''
   });
   const [formErrors, setFormErrors] = useState<LoanFormErrors>({});
   const [termsAccepted, setTermsAccepted] = useState(false);
+  const [parties, setParties] = useState<LoanPartyForm[]>([]);
+  const [partyDraft, setPartyDraft] = useState<LoanPartyDraft>(EMPTY_PARTY_DRAFT);
+  const [partyError, setPartyError] = useState('');
+  const [collaterals, setCollaterals] = useState<CollateralForm[]>([]);
+  const [collateralDraft, setCollateralDraft] = useState<CollateralDraft>(EMPTY_COLLATERAL_DRAFT);
+  const [collateralError, setCollateralError] = useState('');
 
   // Get current user
   useEffect(() => {
@@ -115,6 +256,25 @@ export const CreateLoanWizardScreen: React.FC = () => {
     enabled: !!currentUser?.id,
   });
 
+  // Products currently offered on new loans
+  const { data: productsResponse, isLoading: productsLoading } = useQuery({
+    queryKey: ['loanProducts', 'active'],
+    queryFn: () => ProductService.getProducts({ active_only: true }),
+  });
+
+  const selectedProduct = useMemo(
+    () => productsResponse?.data?.find(product => product.id === formData.product_id) || null,
+    [productsResponse, formData.product_id]
+  );
+
+  // Amount needed to close the loan being topped up
+  const { data: topUpQuoteResponse } = useQuery({
+    queryKey: ['foreclosureQuote', route.params?.topUpOfLoanId],
+    queryFn: () => LoanService.getForeclosureQuote(route.params!.topUpOfLoanId!),
+    enabled: !!route.params?.topUpOfLoanId,
+  });
+  const topUpQuote = topUpQuoteResponse?.success ? topUpQuoteResponse.data : undefined;
+
   // Find selected borrower
   useEffect(() => {
     if (formData.borrower_id && borrowersResponse?.success) {
@@ -137,8 +297,10 @@ onSuccess: (result) => {
     queryClient.invalidateQueries({ queryKey: ['borrowers'] });
     queryClient.invalidateQueries({ queryKey: ['loans'] });
     Alert.alert(
-      'Success!', 
-      `Loan ${result.data?.loan_number} created successfully!`,
+      'Submitted for Approval',
+      result.data?.requires_super_admin_approval
+        ? `Loan ${result.data?.loan_number} was submitted and needs super admin approval before it can be disbursed.`
+        : `Loan ${result.data?.loan_number} was submitted and can be disbursed once a second approver reviews it.`,
       [
         {
           text: 'OK',
@@ -161,7 +323,7 @@ onSuccess: (result) => {
 
   // Calculate EMI preview
   const emiCalculation = useMemo(() => {
-    if (!formData.principal_amount || !formData.interest_rate || !formData.tenure_months) {
+    if (!selectedProduct || !formData.principal_amount || !formData.interest_rate || !formData.tenure_months) {
       return null;
     }
 
@@ -176,16 +338,58 @@ onSuccess: (result) => {
     const loanParams: LoanParameters = {
       principal,
       annualInterestRate: rate,
-      tenureMonths: tenure
+      tenureMonths: tenure,
+      repaymentFrequency: formData.repayment_frequency,
+      interestMethod: formData.interest_method,
+      ...toRepaymentStructure(formData),
+      moratoriumMonths: parseInt(formData.moratorium_months) || 0,
+      moratoriumTreatment: formData.moratorium_treatment,
+      firstEMIDate: parseDateInput(formData.first_emi_date),
+      upfrontCharges: toUpfrontCharges(formData, selectedProduct)
     };
 
-    const validation = EMICalculationService.validateLoanParameters(loanParams);
+    const startDate = new Date();
+    const validation = EMICalculationService.validateLoanParameters(
+      loanParams,
+      startDate,
+      ProductService.getLimits(selectedProduct)
+    );
     if (!validation.isValid) {
       return null;
     }
 
-    return EMICalculationService.calculateEMI(loanParams);
-  }, [formData.principal_amount, formData.interest_rate, formData.tenure_months]);
+    const calculation = EMICalculationService.calculateEMI(loanParams, startDate);
+
+    return {
+      ...calculation,
+      apr: EMICalculationService.calculateAPR(
+        calculation.charges.loanPrincipal,
+        calculation.schedule,
+        startDate,
+        calculation.charges.totalCharges
+      )
+    };
+  }, [
+    selectedProduct,
+    formData.principal_amount,
+    formData.interest_rate,
+    formData.tenure_months,
+    formData.repayment_frequency,
+    formData.interest_method,
+    formData.repayment_structure,
+    formData.step_percent,
+    formData.step_interval_months,
+    formData.balloon_percent,
+    formData.moratorium_months,
+    formData.moratorium_treatment,
+    formData.first_emi_date
+  ]);
+
+  const hasDeferral = !!emiCalculation && (
+    emiCalculation.moratorium.moratoriumMonths > 0 || !!formData.first_emi_date.trim()
+  );
+
+  const installmentLabel = `${formatRepaymentFrequency(formData.repayment_frequency)} EMI`;
 
   /**
    * Validate current step data
@@ -194,35 +398,101 @@ onSuccess: (result) => {
     const errors: LoanFormErrors = {};
 
     switch (currentStep) {
+      case WizardStep.SELECT_PRODUCT:
+        if (!selectedProduct) {
+          errors.product_id = 'Please select a loan product';
+        }
+        break;
+
       case WizardStep.SELECT_BORROWER:
         if (!formData.borrower_id) {
           errors.borrower_id = 'Please select a borrower';
+        } else if (selectedProduct && selectedBorrower) {
+          const eligibility = ProductService.checkEligibility(selectedProduct, selectedBorrower);
+          if (!eligibility.isValid) {
+            errors.borrower_id = eligibility.message;
+          }
         }
         break;
 
       case WizardStep.LOAN_PARAMETERS:
+        if (!selectedProduct) {
+          errors.principal_amount = 'Please select a loan product first';
+          break;
+        }
+
         if (!formData.principal_amount.trim()) {
           errors.principal_amount = 'Loan amount is required';
         } else if (isNaN(Number(formData.principal_amount)) || Number(formData.principal_amount) <= 0) {
           errors.principal_amount = 'Please enter a valid loan amount';
-        } else if (Number(formData.principal_amount) > 10000000) {
-          errors.principal_amount = 'Loan amount cannot exceed ₹1,00,00,000';
         }
 
         if (!formData.interest_rate.trim()) {
           errors.interest_rate = 'Interest rate is required';
         } else if (isNaN(Number(formData.interest_rate)) || Number(formData.interest_rate) < 0) {
           errors.interest_rate = 'Please enter a valid interest rate';
-        } else if (Number(formData.interest_rate) > 50) {
-          errors.interest_rate = 'Interest rate cannot exceed 50%';
         }
 
         if (!formData.tenure_months.trim()) {
           errors.tenure_months = 'Loan tenure is required';
         } else if (isNaN(Number(formData.tenure_months)) || Number(formData.tenure_months) <= 0) {
           errors.tenure_months = 'Please enter a valid tenure';
-        } else if (Number(formData.tenure_months) > 360) {
-          errors.tenure_months = 'Tenure cannot exceed 360 months';
+        }
+
+        if (formData.moratorium_months.trim()) {
+          const months = Number(formData.moratorium_months);
+          if (isNaN(months) || months < 0 || !Number.isInteger(months)) {
+            errors.moratorium_months = 'Please enter the moratorium in whole months';
+          }
+        }
+
+        if (formData.first_emi_date.trim() && !parseDateInput(formData.first_emi_date)) {
+          errors.first_emi_date = 'Please enter the date as YYYY-MM-DD';
+        }
+
+        if (Object.keys(errors).length === 0) {
+          const validation = EMICalculationService.validateLoanParameters({
+            principal: Number(formData.principal_amount),
+            annualInterestRate: Number(formData.interest_rate),
+            tenureMonths: Number(formData.tenure_months),
+            repaymentFrequency: formData.repayment_frequency,
+            interestMethod: formData.interest_method,
+            ...toRepaymentStructure(formData),
+            moratoriumMonths: Number(formData.moratorium_months) || 0,
+            moratoriumTreatment: formData.moratorium_treatment,
+            firstEMIDate: parseDateInput(formData.first_emi_date),
+            upfrontCharges: toUpfrontCharges(formData, selectedProduct)
+          }, new Date(), ProductService.getLimits(selectedProduct));
+          if (!validation.isValid) {
+            const error = validation.errors[0];
+            if (error.includes('Principal') || error.includes('charges')) {
+              errors.principal_amount = error;
+            } else if (error.includes('Interest rate')) {
+              errors.interest_rate = error;
+            } else if (error.includes('Step interval')) {
+              errors.step_interval_months = error;
+            } else if (error.includes('tep')) {
+              errors.step_percent = error;
+            } else if (error.includes('alloon')) {
+              errors.balloon_percent = error;
+            } else if (error.includes('First EMI')) {
+              errors.first_emi_date = error;
+            } else if (error.includes('oratorium')) {
+              errors.moratorium_months = error;
+            } else {
+              errors.tenure_months = error;
+            }
+          }
+        }
+
+        if (Object.keys(errors).length === 0 && collaterals.length > 0) {
+          const loanPrincipal = emiCalculation
+            ? emiCalculation.charges.loanPrincipal
+            : Number(formData.principal_amount);
+          const { ltvPercent, maxEligible } = LoanService.calculateLoanToValue(loanPrincipal, collaterals);
+          if (loanPrincipal > maxEligible) {
+            errors.principal_amount = `LTV of ${ltvPercent}% is too high. At most ${formatCurrency(maxEligible)} can be lent against the collateral`;
+          }
         }
         break;
 
@@ -244,7 +514,17 @@ onSuccess: (result) => {
   const handleNext = () => {
     if (!validateCurrentStep()) return;
 
-    if (currentStep < WizardStep.CONFIRMATION) {
+    if (currentStep === WizardStep.SELECT_PRODUCT && route.params?.borrowerId) {
+      // Borrower was chosen before opening the wizard; only check eligibility
+      if (selectedProduct && selectedBorrower) {
+        const eligibility = ProductService.checkEligibility(selectedProduct, selectedBorrower);
+        if (!eligibility.isValid) {
+          setFormErrors({ product_id: eligibility.message });
+          return;
+        }
+      }
+      setCurrentStep(WizardStep.LOAN_PARAMETERS);
+    } else if (currentStep < WizardStep.CONFIRMATION) {
       setCurrentStep(currentStep + 1);
     } else {
       handleCreateLoan();
@@ -255,24 +535,130 @@ onSuccess: (result) => {
    * Handle previous step
    */
   const handlePrevious = () => {
-    if (currentStep > WizardStep.SELECT_BORROWER) {
+    if (currentStep === WizardStep.LOAN_PARAMETERS && route.params?.borrowerId) {
+      setCurrentStep(WizardStep.SELECT_PRODUCT);
+    } else if (currentStep > WizardStep.SELECT_PRODUCT) {
       setCurrentStep(currentStep - 1);
     }
   };
 
+  /**
+   * Add the co-borrower or guarantor being entered to the loan
+   */
+  const handleAddParty = () => {
+    if (!partyDraft.full_name.trim()) {
+      setPartyError('Name is required');
+      return;
+    }
+    if (!/^\+?[\d\s\-\(\)]{10,}$/.test(partyDraft.phone)) {
+      setPartyError('Please enter a valid phone number');
+      return;
+    }
+    if (partyDraft.email.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(partyDraft.email.trim())) {
+      setPartyError('Please enter a valid email address');
+      return;
+    }
+    if (!partyDraft.relationship.trim()) {
+      setPartyError('Relationship to the borrower is required');
+      return;
+    }
+
+    const kycDocuments: LoanPartyDocument[] = [];
+    if (partyDraft.aadhar_number.trim()) {
+      kycDocuments.push({ document_type: 'aadhar', document_number: partyDraft.aadhar_number.trim() });
+    }
+    if (partyDraft.pan_number.trim()) {
+      kycDocuments.push({ document_type: 'pan', document_number: partyDraft.pan_number.trim().toUpperCase() });
+    }
+
+    setParties([...parties, {
+      role: partyDraft.role,
+      full_name: partyDraft.full_name.trim(),
+      phone: partyDraft.phone.trim(),
+      email: partyDraft.email.trim() || undefined,
+      relationship: partyDraft.relationship.trim(),
+      kyc_documents: kycDocuments
+    }]);
+    setPartyDraft({ ...EMPTY_PARTY_DRAFT, role: partyDraft.role });
+    setPartyError('');
+  };
+
+  /**
+   * Add the collateral being entered to the loan
+   */
+  const handleAddCollateral = () => {
+    if (!collateralDraft.description.trim()) {
+      setCollateralError('Description is required');
+      return;
+    }
+    const valuation = parseFloat(collateralDraft.valuation);
+    if (isNaN(valuation) || valuation <= 0) {
+      setCollateralError('Please enter a valid valuation');
+      return;
+    }
+    const valuationDate = parseDateInput(collateralDraft.valuation_date);
+    if (!valuationDate || valuationDate > new Date()) {
+      setCollateralError('Please enter a past valuation date as YYYY-MM-DD');
+      return;
+    }
+
+    setCollaterals([...collaterals, {
+      collateral_type: collateralDraft.collateral_type,
+      description: collateralDraft.description.trim(),
+      valuation,
+      valuation_date: collateralDraft.valuation_date.trim(),
+      photo_urls: collateralDraft.photo_url.trim() ? [collateralDraft.photo_url.trim()] : []
+    }]);
+    setCollateralDraft({ ...EMPTY_COLLATERAL_DRAFT, collateral_type: collateralDraft.collateral_type });
+    setCollateralError('');
+  };
+
+  /**
+   * Select a product and bring the loan terms inside its ranges
+   */
+  const handleSelectProduct = (product: LoanProduct) => {
+    setFormData({
+      ...formData,
+      product_id: product.id,
+      interest_rate: clampToRange(formData.interest_rate, product.min_interest_rate, product.max_interest_rate),
+      tenure_months: clampToRange(formData.tenure_months, product.min_tenure_months, product.max_tenure_months),
+      repayment_frequency: product.repayment_frequencies.includes(formData.repayment_frequency)
+        ? formData.repayment_frequency
+        : product.repayment_frequencies[0],
+      interest_method: product.interest_methods.includes(formData.interest_method)
+        ? formData.interest_method
+        : product.interest_methods[0]
+    });
+    setFormErrors({});
+  };
+
   /**
    * Handle loan creation
    */
   const handleCreateLoan = () => {
     if (!validateCurrentStep() || !selectedBorrower) return;
 
+    const structure = toRepaymentStructure(formData);
     const loanData: CreateLoanForm = {
       borrower_id: formData.borrower_id,
+      product_id: formData.product_id,
       principal_amount: Number(formData.principal_amount),
       interest_rate: Number(formData.interest_rate),
+      rate_type: formData.rate_type,
       tenure_months: Number(formData.tenure_months),
+      repayment_frequency: formData.repayment_frequency,
+      interest_method: formData.interest_method,
+      repayment_structure: structure.repaymentStructure,
+      step_percent: structure.stepPercent,
+      step_interval_months: structure.stepIntervalMonths,
+      balloon_percent: structure.balloonPercent,
+      moratorium_months: Number(formData.moratorium_months) || 0,
+      moratorium_treatment: formData.moratorium_treatment,
+      first_emi_date: formData.first_emi_date.trim() || undefined,
       purpose: formData.purpose.trim() || undefined,
-      collateral_details: formData.collateral_details.trim() || undefined
+      collaterals: collaterals.length > 0 ? collaterals : undefined,
+      parties: parties.length > 0 ? parties : undefined,
+      top_up_of_loan_id: route.params?.topUpOfLoanId
     };
 
     createLoanMutation.mutate(loanData);
@@ -283,6 +669,7 @@ onSuccess: (result) => {
    */
   const getStepTitle = (): string => {
     switch (currentStep) {
+      case WizardStep.SELECT_PRODUCT: return 'Select Product';
       case WizardStep.SELECT_BORROWER: return 'Select Borrower';
       case WizardStep.LOAN_PARAMETERS: return 'Loan Details';
       case WizardStep.EMI_PREVIEW: return 'EMI Preview';
@@ -296,7 +683,7 @@ onSuccess: (result) => {
    */
   const renderProgressIndicator = () => (
     <View style={styles.progressContainer}>
-      {[1, 2, 3, 4].map((step) => (
+      {Array.from({ length: WizardStep.CONFIRMATION }, (_, index) => index + 1).map((step) => (
         <View key={step} style={styles.progressStep}>
           <View style={[
             styles.progressCircle,
@@ -309,7 +696,7 @@ onSuccess: (result) => {
               {step}
             </Text>
           </View>
-          {step < 4 && (
+          {step < WizardStep.CONFIRMATION && (
             <View style={[
               styles.progressLine,
               step < currentStep ? styles.progressLineActive : styles.progressLineInactive
@@ -320,6 +707,79 @@ onSuccess: (result) => {
     </View>
   );
 
+  /**
+   * Render product selection step
+   */
+  const renderProductSelection = () => {
+    if (productsLoading) {
+      return (
+        <View style={styles.loadingContainer}>
+          <Ionicons name="pricetags" size={48} color="#2196f3" />
+          <Text style={styles.loadingText}>Loading products...</Text>
+        </View>
+      );
+    }
+
+    const products = productsResponse?.data || [];
+
+    if (products.length === 0) {
+      return (
+        <View style={styles.emptyState}>
+          <Ionicons name="pricetags-outline" size={64} color="#9e9e9e" />
+          <Text style={styles.emptyStateText}>No loan products available</Text>
+          <Text style={styles.emptyStateSubtext}>Ask a super admin to set up a loan product</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.stepContainer}>
+        <Text style={styles.stepDescription}>
+          Choose the loan product. Its terms set the limits for this loan.
+        </Text>
+
+        <FlatList
+          data={products}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item: product }) => {
+            const isSelected = formData.product_id === product.id;
+
+            return (
+              <TouchableOpacity
+                style={[
+                  styles.borrowerCard,
+                  isSelected && styles.borrowerCardSelected
+                ]}
+                onPress={() => handleSelectProduct(product)}
+              >
+                <View style={styles.borrowerDetails}>
+                  <Text style={styles.borrowerName}>{product.name}</Text>
+                  {product.description ? (
+                    <Text style={styles.borrowerEmail}>{product.description}</Text>
+                  ) : null}
+                  <Text style={styles.borrowerPhone}>
+                    {formatCurrency(product.min_principal)} - {formatCurrency(product.max_principal)} • {product.min_tenure_months}-{product.max_tenure_months} months
+                  </Text>
+                  <Text style={styles.borrowerIncome}>
+                    {product.min_interest_rate}% - {product.max_interest_rate}% p.a. • {product.processing_fee_rate || 0}% processing fee
+                  </Text>
+                </View>
+                {isSelected && (
+                  <Ionicons name="checkmark-circle" size={24} color="#4caf50" />
+                )}
+              </TouchableOpacity>
+            );
+          }}
+          style={styles.borrowersList}
+        />
+
+        {formErrors.product_id && (
+          <Text style={styles.errorText}>{formErrors.product_id}</Text>
+        )}
+      </View>
+    );
+  };
+
   /**
    * Render borrower selection step
    */
@@ -362,6 +822,9 @@ onSuccess: (result) => {
           renderItem={({ item: borrower }) => {
             const user = (borrower as any).user;
             const isSelected = formData.borrower_id === borrower.id;
+            const eligibility = selectedProduct
+              ? ProductService.checkEligibility(selectedProduct, borrower)
+              : { isValid: true };
             
             return (
               <TouchableOpacity
@@ -385,6 +848,9 @@ onSuccess: (result) => {
                     <Text style={styles.borrowerIncome}>
                       Income: {formatCurrency(borrower.monthly_income || 0)}/month
                     </Text>
+                    {!eligibility.isValid && (
+                      <Text style={styles.borrowerIneligible}>{eligibility.message}</Text>
+                    )}
                   </View>
                 </View>
                 {isSelected && (
@@ -421,6 +887,13 @@ onSuccess: (result) => {
         </View>
       )}
 
+      {selectedProduct && (
+        <View style={styles.selectedBorrowerCard}>
+          <Text style={styles.selectedBorrowerLabel}>Product:</Text>
+          <Text style={styles.selectedBorrowerName}>{selectedProduct.name}</Text>
+        </View>
+      )}
+
       <View style={styles.formContainer}>
         <Input
           label="Loan Amount (₹) *"
@@ -428,7 +901,9 @@ onSuccess: (result) => {
           onChangeText={(value) => setFormData({...formData, principal_amount: value})}
           errorMessage={formErrors.principal_amount}
           keyboardType="numeric"
-          placeholder="e.g., 100000"
+          placeholder={selectedProduct
+            ? `${formatCurrency(selectedProduct.min_principal)} - ${formatCurrency(selectedProduct.max_principal)}`
+            : 'e.g., 100000'}
           leftIcon={<Ionicons name="cash" size={20} color="#9CA3AF" />}
           containerStyle={styles.inputContainer}
         />
@@ -439,22 +914,218 @@ onSuccess: (result) => {
           onChangeText={(value) => setFormData({...formData, interest_rate: value})}
           errorMessage={formErrors.interest_rate}
           keyboardType="numeric"
-          placeholder="e.g., 12.5"
+          placeholder={selectedProduct
+            ? `${selectedProduct.min_interest_rate}% - ${selectedProduct.max_interest_rate}%`
+            : 'e.g., 12.5'}
           leftIcon={<Ionicons name="trending-up" size={20} color="#9CA3AF" />}
           containerStyle={styles.inputContainer}
         />
 
+        <View style={styles.optionGroup}>
+          <Text style={styles.optionGroupLabel}>Rate Type *</Text>
+          <View style={styles.optionRow}>
+            {RATE_TYPES.map((rateType) => {
+              const isSelected = formData.rate_type === rateType;
+              return (
+                <TouchableOpacity
+                  key={rateType}
+                  style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                  onPress={() => setFormData({...formData, rate_type: rateType})}
+                >
+                  <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                    {formatRateType(rateType)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
         <Input
           label="Loan Tenure (Months) *"
           value={formData.tenure_months}
           onChangeText={(value) => setFormData({...formData, tenure_months: value})}
           errorMessage={formErrors.tenure_months}
           keyboardType="numeric"
-          placeholder="e.g., 24"
+          placeholder={selectedProduct
+            ? `${selectedProduct.min_tenure_months} - ${selectedProduct.max_tenure_months} months`
+            : 'e.g., 24'}
           leftIcon={<Ionicons name="calendar" size={20} color="#9CA3AF" />}
           containerStyle={styles.inputContainer}
         />
 
+        <View style={styles.optionGroup}>
+          <Text style={styles.optionGroupLabel}>Repayment Frequency *</Text>
+          <View style={styles.optionRow}>
+            {REPAYMENT_FREQUENCIES.filter(frequency =>
+              !selectedProduct || selectedProduct.repayment_frequencies.includes(frequency)
+            ).map((frequency) => {
+              const isSelected = formData.repayment_frequency === frequency;
+              return (
+                <TouchableOpacity
+                  key={frequency}
+                  style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                  onPress={() => setFormData({...formData, repayment_frequency: frequency})}
+                >
+                  <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                    {formatRepaymentFrequency(frequency)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={styles.optionGroup}>
+          <Text style={styles.optionGroupLabel}>Interest Method *</Text>
+          <View style={styles.optionRow}>
+            {INTEREST_METHODS.filter(method =>
+              !selectedProduct || selectedProduct.interest_methods.includes(method)
+            ).map((method) => {
+              const isSelected = formData.interest_method === method;
+              return (
+                <TouchableOpacity
+                  key={method}
+                  style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                  onPress={() => setFormData({...formData, interest_method: method})}
+                >
+                  <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                    {formatInterestMethod(method)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {formData.interest_method === 'reducing_balance' && (
+          <View style={styles.optionGroup}>
+            <Text style={styles.optionGroupLabel}>Repayment Structure</Text>
+            <View style={styles.optionRow}>
+              {REPAYMENT_STRUCTURES.map((structure) => {
+                const isSelected = formData.repayment_structure === structure;
+                return (
+                  <TouchableOpacity
+                    key={structure}
+                    style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                    onPress={() => setFormData({...formData, repayment_structure: structure})}
+                  >
+                    <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                      {formatRepaymentStructure(structure)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {formData.interest_method === 'reducing_balance' &&
+          (formData.repayment_structure === 'step_up' || formData.repayment_structure === 'step_down') && (
+          <>
+            <Input
+              label={`EMI ${formData.repayment_structure === 'step_up' ? 'Increase' : 'Decrease'} per Step (%) *`}
+              value={formData.step_percent}
+              onChangeText={(value) => setFormData({...formData, step_percent: value})}
+              errorMessage={formErrors.step_percent}
+              keyboardType="numeric"
+              placeholder="e.g., 10"
+              leftIcon={<Ionicons name={formData.repayment_structure === 'step_up' ? 'arrow-up' : 'arrow-down'} size={20} color="#9CA3AF" />}
+              containerStyle={styles.inputContainer}
+            />
+            <Input
+              label="Step Every (Months) *"
+              value={formData.step_interval_months}
+              onChangeText={(value) => setFormData({...formData, step_interval_months: value})}
+              errorMessage={formErrors.step_interval_months}
+              keyboardType="numeric"
+              placeholder="e.g., 12"
+              leftIcon={<Ionicons name="repeat" size={20} color="#9CA3AF" />}
+              containerStyle={styles.inputContainer}
+            />
+          </>
+        )}
+
+        {formData.interest_method === 'reducing_balance' && formData.repayment_structure === 'balloon' && (
+          <Input
+            label="Balloon (% of Principal) *"
+            value={formData.balloon_percent}
+            onChangeText={(value) => setFormData({...formData, balloon_percent: value})}
+            errorMessage={formErrors.balloon_percent}
+            keyboardType="numeric"
+            placeholder="e.g., 25"
+            leftIcon={<Ionicons name="flag" size={20} color="#9CA3AF" />}
+            containerStyle={styles.inputContainer}
+          />
+        )}
+
+        {selectedProduct && (
+          <View style={styles.quickPreviewCard}>
+            <Text style={styles.quickPreviewTitle}>Product Charges</Text>
+            <View style={styles.quickPreviewRow}>
+              <Text style={styles.quickPreviewLabel}>Processing Fee:</Text>
+              <Text style={styles.quickPreviewValue}>
+                {selectedProduct.processing_fee_rate || 0}% + GST
+              </Text>
+            </View>
+            {selectedProduct.insurance_rate > 0 && (
+              <View style={styles.quickPreviewRow}>
+                <Text style={styles.quickPreviewLabel}>Insurance:</Text>
+                <Text style={styles.quickPreviewValue}>{selectedProduct.insurance_rate}%</Text>
+              </View>
+            )}
+            <View style={styles.quickPreviewRow}>
+              <Text style={styles.quickPreviewLabel}>Upfront Charges:</Text>
+              <Text style={styles.quickPreviewValue}>
+                {formatChargeTreatment(selectedProduct.charges_treatment)}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        <Input
+          label="Moratorium (Months) (Optional)"
+          value={formData.moratorium_months}
+          onChangeText={(value) => setFormData({...formData, moratorium_months: value})}
+          errorMessage={formErrors.moratorium_months}
+          keyboardType="numeric"
+          placeholder="e.g., 3"
+          leftIcon={<Ionicons name="pause-circle" size={20} color="#9CA3AF" />}
+          containerStyle={styles.inputContainer}
+        />
+
+        {Number(formData.moratorium_months) > 0 && (
+          <View style={styles.optionGroup}>
+            <Text style={styles.optionGroupLabel}>Interest During Moratorium</Text>
+            <View style={styles.optionRow}>
+              {MORATORIUM_TREATMENTS.map((treatment) => {
+                const isSelected = formData.moratorium_treatment === treatment;
+                return (
+                  <TouchableOpacity
+                    key={treatment}
+                    style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                    onPress={() => setFormData({...formData, moratorium_treatment: treatment})}
+                  >
+                    <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                      {formatMoratoriumTreatment(treatment)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        <Input
+          label="First EMI Date (Optional)"
+          value={formData.first_emi_date}
+          onChangeText={(value) => setFormData({...formData, first_emi_date: value})}
+          errorMessage={formErrors.first_emi_date}
+          placeholder="YYYY-MM-DD"
+          leftIcon={<Ionicons name="calendar-outline" size={20} color="#9CA3AF" />}
+          containerStyle={styles.inputContainer}
+        />
+
         <Input
           label="Purpose (Optional)"
           value={formData.purpose}
@@ -464,26 +1135,221 @@ onSuccess: (result) => {
           containerStyle={styles.inputContainer}
         />
 
+        {/* Collateral */}
+        <View style={styles.optionGroup}>
+          <Text style={styles.optionGroupLabel}>Collateral (Optional)</Text>
+
+          {collaterals.map((collateral, index) => (
+            <View key={`${collateral.description}-${index}`} style={styles.partyCard}>
+              <View style={styles.partyDetails}>
+                <Text style={styles.partyName}>
+                  {collateral.description} • {formatCollateralType(collateral.collateral_type)}
+                </Text>
+                <Text style={styles.partyMeta}>
+                  {formatCurrency(collateral.valuation)} as of {formatDate(collateral.valuation_date)}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={() => setCollaterals(collaterals.filter((_, i) => i !== index))}>
+                <Ionicons name="close-circle" size={22} color="#f44336" />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          {collaterals.length > 0 && Number(formData.principal_amount) > 0 && (() => {
+            const { ltvPercent, maxEligible } = LoanService.calculateLoanToValue(
+              emiCalculation ? emiCalculation.charges.loanPrincipal : Number(formData.principal_amount),
+              collaterals
+            );
+            return (
+              <Text style={styles.partyMeta}>
+                LTV {ltvPercent}% • up to {formatCurrency(maxEligible)} can be lent against this collateral
+              </Text>
+            );
+          })()}
+
+          <View style={[styles.optionRow, { marginTop: 8 }]}>
+            {COLLATERAL_TYPES.map((collateralType) => {
+              const isSelected = collateralDraft.collateral_type === collateralType;
+              return (
+                <TouchableOpacity
+                  key={collateralType}
+                  style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                  onPress={() => setCollateralDraft({...collateralDraft, collateral_type: collateralType})}
+                >
+                  <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                    {formatCollateralType(collateralType)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
         <Input
-          label="Collateral Details (Optional)"
-          value={formData.collateral_details}
-          onChangeText={(value) => setFormData({...formData, collateral_details: value})}
-          placeholder="e.g., Property documents, Vehicle RC"
-          multiline
+          label="Description"
+          value={collateralDraft.description}
+          onChangeText={(value) => setCollateralDraft({...collateralDraft, description: value})}
+          placeholder="e.g., 20g gold chain, MH-12 AB 1234"
           leftIcon={<Ionicons name="shield-checkmark" size={20} color="#9CA3AF" />}
           containerStyle={styles.inputContainer}
         />
 
+        <Input
+          label="Valuation (₹)"
+          value={collateralDraft.valuation}
+          onChangeText={(value) => setCollateralDraft({...collateralDraft, valuation: value})}
+          keyboardType="numeric"
+          leftIcon={<Ionicons name="cash" size={20} color="#9CA3AF" />}
+          containerStyle={styles.inputContainer}
+        />
+
+        <Input
+          label="Valuation Date"
+          value={collateralDraft.valuation_date}
+          onChangeText={(value) => setCollateralDraft({...collateralDraft, valuation_date: value})}
+          placeholder="YYYY-MM-DD"
+          leftIcon={<Ionicons name="calendar-outline" size={20} color="#9CA3AF" />}
+          containerStyle={styles.inputContainer}
+        />
+
+        <Input
+          label="Photo Link (Optional)"
+          value={collateralDraft.photo_url}
+          onChangeText={(value) => setCollateralDraft({...collateralDraft, photo_url: value})}
+          autoCapitalize="none"
+          errorMessage={collateralError}
+          leftIcon={<Ionicons name="camera" size={20} color="#9CA3AF" />}
+          containerStyle={styles.inputContainer}
+        />
+
+        <Button
+          title="Add Collateral"
+          type="outline"
+          icon={<Ionicons name="add" size={16} color="#2196f3" />}
+          buttonStyle={styles.addPartyButton}
+          onPress={handleAddCollateral}
+        />
+
+        {/* Co-borrowers & Guarantors */}
+        <View style={styles.optionGroup}>
+          <Text style={styles.optionGroupLabel}>Co-borrowers & Guarantors</Text>
+
+          {parties.map((party, index) => (
+            <View key={`${party.phone}-${index}`} style={styles.partyCard}>
+              <View style={styles.partyDetails}>
+                <Text style={styles.partyName}>
+                  {party.full_name} • {formatLoanPartyRole(party.role)}
+                </Text>
+                <Text style={styles.partyMeta}>
+                  {party.relationship} • {party.phone}
+                  {(party.kyc_documents || []).length > 0
+                    ? ` • ${(party.kyc_documents || []).map(doc => doc.document_type.toUpperCase()).join(', ')}`
+                    : ''}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={() => setParties(parties.filter((_, i) => i !== index))}>
+                <Ionicons name="close-circle" size={22} color="#f44336" />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          <View style={styles.optionRow}>
+            {LOAN_PARTY_ROLES.map((role) => {
+              const isSelected = partyDraft.role === role;
+              return (
+                <TouchableOpacity
+                  key={role}
+                  style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                  onPress={() => setPartyDraft({...partyDraft, role})}
+                >
+                  <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                    {formatLoanPartyRole(role)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        <Input
+          label="Name"
+          value={partyDraft.full_name}
+          onChangeText={(value) => setPartyDraft({...partyDraft, full_name: value})}
+          leftIcon={<Ionicons name="person" size={20} color="#9CA3AF" />}
+          containerStyle={styles.inputContainer}
+        />
+
+        <Input
+          label="Phone"
+          value={partyDraft.phone}
+          onChangeText={(value) => setPartyDraft({...partyDraft, phone: value})}
+          keyboardType="phone-pad"
+          leftIcon={<Ionicons name="call" size={20} color="#9CA3AF" />}
+          containerStyle={styles.inputContainer}
+        />
+
+        <Input
+          label="Email (Optional)"
+          value={partyDraft.email}
+          onChangeText={(value) => setPartyDraft({...partyDraft, email: value})}
+          keyboardType="email-address"
+          autoCapitalize="none"
+          leftIcon={<Ionicons name="mail" size={20} color="#9CA3AF" />}
+          containerStyle={styles.inputContainer}
+        />
+
+        <Input
+          label="Relationship to Borrower"
+          value={partyDraft.relationship}
+          onChangeText={(value) => setPartyDraft({...partyDraft, relationship: value})}
+          placeholder="e.g., Spouse, Employer, Group member"
+          leftIcon={<Ionicons name="people" size={20} color="#9CA3AF" />}
+          containerStyle={styles.inputContainer}
+        />
+
+        <Input
+          label="Aadhar Number (Optional)"
+          value={partyDraft.aadhar_number}
+          onChangeText={(value) => setPartyDraft({...partyDraft, aadhar_number: value})}
+          keyboardType="numeric"
+          leftIcon={<Ionicons name="card" size={20} color="#9CA3AF" />}
+          containerStyle={styles.inputContainer}
+        />
+
+        <Input
+          label="PAN Number (Optional)"
+          value={partyDraft.pan_number}
+          onChangeText={(value) => setPartyDraft({...partyDraft, pan_number: value})}
+          autoCapitalize="characters"
+          errorMessage={partyError}
+          leftIcon={<Ionicons name="document-text" size={20} color="#9CA3AF" />}
+          containerStyle={styles.inputContainer}
+        />
+
+        <Button
+          title={`Add ${formatLoanPartyRole(partyDraft.role)}`}
+          type="outline"
+          icon={<Ionicons name="person-add" size={16} color="#2196f3" />}
+          buttonStyle={styles.addPartyButton}
+          onPress={handleAddParty}
+        />
+
         {/* Quick EMI Preview */}
         {emiCalculation && (
           <View style={styles.quickPreviewCard}>
             <Text style={styles.quickPreviewTitle}>Quick Preview</Text>
             <View style={styles.quickPreviewRow}>
-              <Text style={styles.quickPreviewLabel}>Monthly EMI:</Text>
+              <Text style={styles.quickPreviewLabel}>{installmentLabel}:</Text>
               <Text style={styles.quickPreviewValue}>
                 {formatCurrency(emiCalculation.emiAmount)}
               </Text>
             </View>
+            <View style={styles.quickPreviewRow}>
+              <Text style={styles.quickPreviewLabel}>Installments:</Text>
+              <Text style={styles.quickPreviewValue}>
+                {emiCalculation.numberOfInstallments}
+              </Text>
+            </View>
             <View style={styles.quickPreviewRow}>
               <Text style={styles.quickPreviewLabel}>Total Interest:</Text>
               <Text style={styles.quickPreviewValue}>
@@ -522,29 +1388,75 @@ onSuccess: (result) => {
           <View style={styles.summaryRow}>
             <Text style={styles.summaryLabel}>Principal Amount:</Text>
             <Text style={styles.summaryValue}>
-              {formatCurrency(Number(formData.principal_amount))}
+              {formatCurrency(emiCalculation.charges.loanPrincipal)}
             </Text>
           </View>
           
           <View style={styles.summaryRow}>
             <Text style={styles.summaryLabel}>Interest Rate:</Text>
-            <Text style={styles.summaryValue}>{formData.interest_rate}% per annum</Text>
+            <Text style={styles.summaryValue}>
+              {formData.interest_rate}% per annum ({formatRateType(formData.rate_type)})
+            </Text>
           </View>
           
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Interest Method:</Text>
+            <Text style={styles.summaryValue}>{formatInterestMethod(formData.interest_method)}</Text>
+          </View>
+          
+          {emiCalculation.repaymentStructure !== 'level' && (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Structure:</Text>
+              <Text style={styles.summaryValue}>
+                {formatRepaymentStructure(emiCalculation.repaymentStructure)}
+                {emiCalculation.repaymentStructure === 'balloon'
+                  ? ` • ${formData.balloon_percent}% at end`
+                  : ` • ${formData.step_percent}% every ${formData.step_interval_months} months`}
+              </Text>
+            </View>
+          )}
+          
           <View style={styles.summaryRow}>
             <Text style={styles.summaryLabel}>Tenure:</Text>
             <Text style={styles.summaryValue}>{formData.tenure_months} months</Text>
           </View>
           
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Repayment:</Text>
+            <Text style={styles.summaryValue}>
+              {formatRepaymentFrequency(formData.repayment_frequency)} • {emiCalculation.numberOfInstallments} installments
+            </Text>
+          </View>
+          
           <Divider style={styles.summaryDivider} />
           
           <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabelBold}>Monthly EMI:</Text>
+            <Text style={styles.summaryLabelBold}>
+              {emiCalculation.repaymentStructure.startsWith('step_') ? `First ${installmentLabel}` : installmentLabel}:
+            </Text>
             <Text style={styles.summaryValueBold}>
               {formatCurrency(emiCalculation.emiAmount)}
             </Text>
           </View>
           
+          {emiCalculation.repaymentStructure.startsWith('step_') && (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Final {installmentLabel}:</Text>
+              <Text style={styles.summaryValue}>
+                {formatCurrency(emiCalculation.schedule[emiCalculation.schedule.length - 1].emiAmount)}
+              </Text>
+            </View>
+          )}
+          
+          {emiCalculation.balloonAmount > 0 && (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Balloon Payment:</Text>
+              <Text style={styles.summaryValue}>
+                {formatCurrency(emiCalculation.balloonAmount)} with the final EMI
+              </Text>
+            </View>
+          )}
+          
           <View style={styles.summaryRow}>
             <Text style={styles.summaryLabel}>Total Interest:</Text>
             <Text style={styles.summaryValue}>
@@ -560,20 +1472,79 @@ onSuccess: (result) => {
           </View>
         </View>
 
+        {/* Repayment Deferral */}
+        {hasDeferral && (
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryTitle}>Repayment Deferral</Text>
+            <Divider style={styles.summaryDivider} />
+
+            {emiCalculation.moratorium.moratoriumMonths > 0 && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Moratorium:</Text>
+                <Text style={styles.summaryValue}>
+                  {emiCalculation.moratorium.moratoriumMonths} months • {formatMoratoriumTreatment(emiCalculation.moratorium.treatment)}
+                </Text>
+              </View>
+            )}
+
+            {emiCalculation.moratorium.moratoriumInstallments > 0 && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Interest-only Installments:</Text>
+                <Text style={styles.summaryValue}>{emiCalculation.moratorium.moratoriumInstallments}</Text>
+              </View>
+            )}
+
+            {emiCalculation.moratorium.capitalizedInterest > 0 && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Capitalized Interest:</Text>
+                <Text style={styles.summaryValue}>
+                  {formatCurrency(emiCalculation.moratorium.capitalizedInterest)}
+                </Text>
+              </View>
+            )}
+
+            {emiCalculation.moratorium.brokenPeriodInterest !== 0 && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Broken-period Interest:</Text>
+                <Text style={styles.summaryValue}>
+                  {formatCurrency(emiCalculation.moratorium.brokenPeriodInterest)}
+                </Text>
+              </View>
+            )}
+
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabelBold}>First EMI Date:</Text>
+              <Text style={styles.summaryValueBold}>
+                {formatDate(emiCalculation.moratorium.firstEMIDate)}
+              </Text>
+            </View>
+          </View>
+        )}
+
         {/* EMI Schedule Preview (First 6 months) */}
         <View style={styles.scheduleCard}>
-          <Text style={styles.scheduleTitle}>EMI Schedule (First 6 months)</Text>
+          <Text style={styles.scheduleTitle}>EMI Schedule (First 6 installments)</Text>
           <Divider style={styles.scheduleDivider} />
           
           {emiCalculation.schedule.slice(0, 6).map((emi) => (
             <View key={emi.emiNumber} style={styles.scheduleRow}>
-              <Text style={styles.scheduleEmiNumber}>EMI {emi.emiNumber}</Text>
+              <View style={styles.scheduleEmiColumn}>
+                <Text style={styles.scheduleEmiNumber}>EMI {emi.emiNumber}</Text>
+                {emi.isMoratorium && (
+                  <Text style={styles.scheduleMoratoriumTag}>Interest only</Text>
+                )}
+              </View>
               <Text style={styles.scheduleDate}>
                 {formatDate(emi.dueDate, 'short')}
               </Text>
-              <Text style={styles.scheduleAmount}>
-                {formatCurrency(emi.emiAmount)}
-              </Text>
+              <View style={styles.scheduleAmountColumn}>
+                <Text style={styles.scheduleAmount}>
+                  {formatCurrency(emi.emiAmount)}
+                </Text>
+                <Text style={styles.scheduleSplit}>
+                  P {formatCurrency(emi.principalComponent)} • I {formatCurrency(emi.interestComponent)}
+                </Text>
+              </View>
             </View>
           ))}
           
@@ -616,15 +1587,24 @@ onSuccess: (result) => {
 
         <View style={styles.confirmationSection}>
           <Text style={styles.confirmationSectionTitle}>Loan Details</Text>
+          {selectedProduct && (
+            <Text style={styles.confirmationText}>
+              Product: {selectedProduct.name} ({selectedProduct.code})
+            </Text>
+          )}
           <Text style={styles.confirmationText}>
             Amount: {formatCurrency(Number(formData.principal_amount))}
           </Text>
           <Text style={styles.confirmationText}>
-            Interest Rate: {formData.interest_rate}% per annum
+            Interest Rate: {formData.interest_rate}% per annum ({formatInterestMethod(formData.interest_method)})
           </Text>
           <Text style={styles.confirmationText}>
             Tenure: {formData.tenure_months} months
           </Text>
+          <Text style={styles.confirmationText}>
+            Repayment: {formatRepaymentFrequency(formData.repayment_frequency)}
+            {emiCalculation ? ` (${emiCalculation.numberOfInstallments} installments)` : ''}
+          </Text>
           {formData.purpose && (
             <Text style={styles.confirmationText}>
               Purpose: {formData.purpose}
@@ -632,18 +1612,107 @@ onSuccess: (result) => {
           )}
         </View>
 
+        {collaterals.length > 0 && (
+          <View style={styles.confirmationSection}>
+            <Text style={styles.confirmationSectionTitle}>Collateral</Text>
+            {collaterals.map((collateral, index) => (
+              <Text key={`${collateral.description}-${index}`} style={styles.confirmationText}>
+                {formatCollateralType(collateral.collateral_type)}: {collateral.description} • {formatCurrency(collateral.valuation)}
+              </Text>
+            ))}
+            {emiCalculation && (
+              <Text style={styles.confirmationTextBold}>
+                Loan-to-Value: {LoanService.calculateLoanToValue(emiCalculation.charges.loanPrincipal, collaterals).ltvPercent}%
+              </Text>
+            )}
+          </View>
+        )}
+
+        {parties.length > 0 && (
+          <View style={styles.confirmationSection}>
+            <Text style={styles.confirmationSectionTitle}>Co-borrowers & Guarantors</Text>
+            {parties.map((party, index) => (
+              <Text key={`${party.phone}-${index}`} style={styles.confirmationText}>
+                {formatLoanPartyRole(party.role)}: {party.full_name} ({party.relationship}) • {party.phone}
+              </Text>
+            ))}
+          </View>
+        )}
+
         {emiCalculation && (
           <View style={styles.confirmationSection}>
             <Text style={styles.confirmationSectionTitle}>EMI Details</Text>
             <Text style={styles.confirmationTextBold}>
-              Monthly EMI: {formatCurrency(emiCalculation.emiAmount)}
+              {emiCalculation.repaymentStructure.startsWith('step_') ? `First ${installmentLabel}` : installmentLabel}: {formatCurrency(emiCalculation.emiAmount)}
             </Text>
+            {emiCalculation.repaymentStructure !== 'level' && (
+              <Text style={styles.confirmationText}>
+                Structure: {formatRepaymentStructure(emiCalculation.repaymentStructure)}
+                {emiCalculation.balloonAmount > 0 ? ` (balloon ${formatCurrency(emiCalculation.balloonAmount)})` : ''}
+              </Text>
+            )}
             <Text style={styles.confirmationText}>
               Total Interest: {formatCurrency(emiCalculation.totalInterest)}
             </Text>
             <Text style={styles.confirmationTextBold}>
               Total Amount: {formatCurrency(emiCalculation.totalAmount)}
             </Text>
+            {emiCalculation.moratorium.moratoriumMonths > 0 && (
+              <Text style={styles.confirmationText}>
+                Moratorium: {emiCalculation.moratorium.moratoriumMonths} months ({formatMoratoriumTreatment(emiCalculation.moratorium.treatment)})
+              </Text>
+            )}
+            {hasDeferral && (
+              <Text style={styles.confirmationText}>
+                First EMI Date: {formatDate(emiCalculation.moratorium.firstEMIDate)}
+              </Text>
+            )}
+            <Text style={styles.confirmationTextBold}>
+              APR (incl. fees): {formatPercentage(emiCalculation.apr, 2)}
+            </Text>
+          </View>
+        )}
+
+        {emiCalculation && (
+          <View style={styles.confirmationSection}>
+            <Text style={styles.confirmationSectionTitle}>Charges & Disbursement</Text>
+            {emiCalculation.charges.processingFee > 0 && (
+              <Text style={styles.confirmationText}>
+                Processing Fee: {formatCurrency(emiCalculation.charges.processingFee)}
+              </Text>
+            )}
+            {emiCalculation.charges.gstOnFees > 0 && (
+              <Text style={styles.confirmationText}>
+                GST on Fees ({emiCalculation.charges.gstRate}%): {formatCurrency(emiCalculation.charges.gstOnFees)}
+              </Text>
+            )}
+            {emiCalculation.charges.insurancePremium > 0 && (
+              <Text style={styles.confirmationText}>
+                Insurance Premium: {formatCurrency(emiCalculation.charges.insurancePremium)}
+              </Text>
+            )}
+            <Text style={styles.confirmationText}>
+              Total Charges: {formatCurrency(emiCalculation.charges.totalCharges)}
+              {emiCalculation.charges.totalCharges > 0 ? ` (${formatChargeTreatment(emiCalculation.charges.treatment)})` : ''}
+            </Text>
+            {emiCalculation.charges.treatment === 'financed' && emiCalculation.charges.totalCharges > 0 && (
+              <Text style={styles.confirmationText}>
+                Loan Principal: {formatCurrency(emiCalculation.charges.loanPrincipal)}
+              </Text>
+            )}
+            <Text style={styles.confirmationTextBold}>
+              Net Disbursement: {formatCurrency(emiCalculation.charges.netDisbursement)}
+            </Text>
+            {topUpQuote && (
+              <>
+                <Text style={styles.confirmationText}>
+                  Closes Previous Loan: {formatCurrency(topUpQuote.totalPayable)} (as of {formatDate(topUpQuote.quoteDate)})
+                </Text>
+                <Text style={styles.confirmationTextBold}>
+                  Paid to Borrower: {formatCurrency(Money.max(Money.ZERO, Money.of(emiCalculation.charges.netDisbursement).subtract(Money.of(topUpQuote.totalPayable))))}
+                </Text>
+              </>
+            )}
           </View>
         )}
       </View>
@@ -669,6 +1738,8 @@ onSuccess: (result) => {
    */
   const renderStepContent = () => {
     switch (currentStep) {
+      case WizardStep.SELECT_PRODUCT:
+        return renderProductSelection();
       case WizardStep.SELECT_BORROWER:
         return renderBorrowerSelection();
       case WizardStep.LOAN_PARAMETERS:
@@ -718,15 +1789,15 @@ onSuccess: (result) => {
           buttonStyle={[
             styles.navButton,
             styles.previousButton,
-            currentStep === WizardStep.SELECT_BORROWER && styles.navButtonDisabled
+            currentStep === WizardStep.SELECT_PRODUCT && styles.navButtonDisabled
           ]}
           titleStyle={styles.previousButtonText}
-          disabled={currentStep === WizardStep.SELECT_BORROWER}
+          disabled={currentStep === WizardStep.SELECT_PRODUCT}
           onPress={handlePrevious}
         />
         
         <Button
-          title={currentStep === WizardStep.CONFIRMATION ? 'Create Loan' : 'Next'}
+          title={currentStep === WizardStep.CONFIRMATION ? 'Submit for Approval' : 'Next'}
           buttonStyle={[styles.navButton, styles.nextButton]}
           titleStyle={styles.nextButtonText}
           loading={createLoanMutation.isPending}
@@ -912,6 +1983,40 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginTop: 4,
   },
+  borrowerIneligible: {
+    fontSize: 12,
+    color: '#f44336',
+    marginTop: 4,
+  },
+  partyCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  partyDetails: {
+    flex: 1,
+  },
+  partyName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  partyMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  addPartyButton: {
+    borderColor: '#2196f3',
+    borderRadius: 8,
+    marginHorizontal: 10,
+    marginBottom: 16,
+  },
   selectedBorrowerCard: {
     backgroundColor: '#e8f5e8',
     borderRadius: 8,
@@ -934,6 +2039,41 @@ const styles = StyleSheet.create({
   inputContainer: {
     marginBottom: 8,
   },
+  optionGroup: {
+    paddingHorizontal: 10,
+    marginBottom: 16,
+  },
+  optionGroupLabel: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#86939e',
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: 'white',
+  },
+  optionChipSelected: {
+    borderColor: '#2196f3',
+    backgroundColor: '#f3f8ff',
+  },
+  optionChipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  optionChipTextSelected: {
+    color: '#2196f3',
+    fontWeight: '600',
+  },
   quickPreviewCard: {
     backgroundColor: '#f8f9fa',
     borderRadius: 8,
@@ -1020,11 +2160,18 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#f0f0f0',
   },
+  scheduleEmiColumn: {
+    flex: 1,
+  },
   scheduleEmiNumber: {
     fontSize: 14,
     fontWeight: '500',
     color: '#333',
-    flex: 1,
+  },
+  scheduleMoratoriumTag: {
+    fontSize: 11,
+    color: '#ff9800',
+    marginTop: 2,
   },
   scheduleDate: {
     fontSize: 12,
@@ -1039,6 +2186,15 @@ const styles = StyleSheet.create({
     flex: 1,
     textAlign: 'right',
   },
+  scheduleAmountColumn: {
+    flex: 1,
+    alignItems: 'flex-end',
+  },
+  scheduleSplit: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
   scheduleMore: {
     fontSize: 12,
     color: '#999',
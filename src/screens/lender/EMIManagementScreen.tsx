@@ -130,48 +130,37 @@ export const EMIManagementScreen: React.FC = () => {
         borrowerIds.includes(loan.borrower_id)
       );
 
-      // Generate mock EMI data based on loans
+      // Build EMI data from each loan's stored schedule
       const emiData: EMIData[] = [];
       const today = new Date();
       
       for (const loan of lenderLoans) {
-        const loanStartDate = new Date(loan.created_at);
-        const monthlyEMI = (loan.principal_amount * (1 + loan.interest_rate / 100)) / loan.tenure_months;
+        const emis = [...(loan.emis || [])].sort((a, b) => a.emi_number - b.emi_number);
         
-        for (let i = 1; i <= loan.tenure_months; i++) {
-          const dueDate = new Date(loanStartDate);
-          dueDate.setMonth(dueDate.getMonth() + i);
-          
+        for (const emi of emis) {
+          const dueDate = new Date(emi.due_date);
           const daysDiff = Math.floor((today.getTime() - dueDate.getTime()) / (1000 * 3600 * 24));
           const isOverdue = daysDiff > 0;
-          const isDueToday = daysDiff === 0;
-          const isDueThisWeek = daysDiff >= -7 && daysDiff <= 0;
-          
-          // Simulate some payments (70% paid, 20% overdue, 10% pending)
-          let status = 'pending';
-          let paidAmount = 0;
-          const rand = Math.random();
           
-          if (i <= Math.floor(loan.tenure_months * 0.7)) {
-            status = 'paid';
-            paidAmount = monthlyEMI;
-          } else if (isOverdue && rand < 0.5) {
+          // Unpaid EMIs past their due date are overdue even if not yet flagged
+          let status: string = emi.status;
+          if (isOverdue && (status === 'pending' || status === 'partially_paid')) {
             status = 'overdue';
           }
 
           const emiItem: EMIData = {
-            id: `${loan.id}-${i}`,
+            id: emi.id,
             loan_id: loan.id,
-            emi_number: i,
-            due_date: dueDate.toISOString().split('T')[0],
-            amount: monthlyEMI,
+            emi_number: emi.emi_number,
+            due_date: emi.due_date,
+            amount: emi.amount,
             status,
-            paid_amount: paidAmount,
+            paid_amount: emi.paid_amount || 0,
             loan: {
               loan_number: loan.loan_number,
               borrower: (loan as any).borrower
             },
-            days_overdue: isOverdue ? daysDiff : 0
+            days_overdue: isOverdue && status !== 'paid' ? daysDiff : 0
           };
           
           emiData.push(emiItem);
@@ -29,7 +29,7 @@ import { AnalyticsService } from '../../services/analytics/analyticsService';
 import { LoanService } from '../../services/loans/loanService';
 import { AuthService } from '../../services/auth/authService';
 import { User, Borrower, Loan, LenderStackParamList, LenderTabParamList } from '../../types';
-import { formatCurrency, formatDate } from '../../utils';
+import { formatCurrency, formatDate, Money } from '../../utils';
 
 // Navigation type
 type LenderDashboardNavigationProp = CompositeNavigationProp<
@@ -117,9 +117,9 @@ export const LenderDashboardScreen: React.FC = () => {
       // Calculate loan metrics
       let totalLoans = 0;
       let activeLoans = 0;
-      let totalDisbursed = 0;
+      let totalDisbursed = Money.ZERO;
       let totalCollected = 0;
-      let pendingCollections = 0;
+      let pendingCollections = Money.ZERO;
       let overdueAmount = 0;
 
       for (const borrower of borrowers) {
@@ -127,28 +127,29 @@ export const LenderDashboardScreen: React.FC = () => {
         
         for (const loan of loans) {
           totalLoans++;
-          totalDisbursed += loan.principal_amount;
+          totalDisbursed = totalDisbursed.add(Money.of(loan.principal_amount));
           
           if (loan.status === 'active') {
             activeLoans++;
             // Calculate pending amount (simplified - would need EMI data for exact calculation)
-            pendingCollections += loan.principal_amount * 0.1; // Placeholder calculation
+            pendingCollections = pendingCollections.add(Money.of(loan.principal_amount).multiply(0.1)); // Placeholder calculation
           }
         }
       }
 
       // Calculate collection rate (simplified)
-      const collectionRate = totalDisbursed > 0 ? ((totalDisbursed - pendingCollections) / totalDisbursed) * 100 : 0;
-      const averageLoanSize = totalLoans > 0 ? totalDisbursed / totalLoans : 0;
+      const collected = totalDisbursed.subtract(pendingCollections);
+      const collectionRate = totalDisbursed.isPositive() ? (collected.minor / totalDisbursed.minor) * 100 : 0;
+      const averageLoanSize = totalLoans > 0 ? totalDisbursed.divide(totalLoans).toNumber() : 0;
 
       return {
         success: true,
         data: {
           total_borrowers: totalBorrowers,
           active_loans: activeLoans,
-          total_disbursed: totalDisbursed,
-          total_collected: totalDisbursed - pendingCollections,
-          pending_collections: pendingCollections,
+          total_disbursed: totalDisbursed.toNumber(),
+          total_collected: collected.toNumber(),
+          pending_collections: pendingCollections.toNumber(),
           overdue_amount: overdueAmount,
           collection_rate: collectionRate,
           average_loan_size: averageLoanSize
@@ -253,8 +254,11 @@ export const LenderDashboardScreen: React.FC = () => {
     const statusConfig = {
       'active': { color: '#4caf50', text: 'Active' },
       'pending_approval': { color: '#ff9800', text: 'Pending' },
+      'approved': { color: '#00bcd4', text: 'Approved' },
       'completed': { color: '#2196f3', text: 'Completed' },
-      'defaulted': { color: '#f44336', text: 'Defaulted' }
+      'defaulted': { color: '#f44336', text: 'Defaulted' },
+      'written_off': { color: '#795548', text: 'Written Off' },
+      'rejected': { color: '#9e9e9e', text: 'Rejected' }
     };
     
     const config = statusConfig[status as keyof typeof statusConfig] || { color: '#9e9e9e', text: status };
@@ -440,6 +444,14 @@ export const LenderDashboardScreen: React.FC = () => {
               <Ionicons name="calendar" size={24} color="#9c27b0" />
               <Text style={styles.actionButtonText}>EMI Management</Text>
             </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={styles.actionButton}
+              onPress={() => (navigation as any).navigate('ChequeClearing')}
+            >
+              <Ionicons name="document-text" size={24} color="#795548" />
+              <Text style={styles.actionButtonText}>Cheques in Clearing</Text>
+            </TouchableOpacity>
           </View>
         </View>
 
@@ -11,7 +11,8 @@ import {
   RefreshControl,
   Alert,
   TouchableOpacity,
-  FlatList
+  FlatList,
+  Modal
 } from 'react-native';
 import { 
   Button, 
@@ -22,15 +23,27 @@ import {
   ButtonGroup
 } from 'react-native-elements';
 import { Ionicons } from '@expo/vector-icons';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useNavigation, CompositeNavigationProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 
-import { LoanService } from '../../services/loans/loanService';
+import { LoanService, WriteOffPreview } from '../../services/loans/loanService';
+import { DPD_BUCKETS } from '../../services/calculations/delinquencyService';
 import { AuthService } from '../../services/auth/authService';
-import { Loan, User, ApiResponse, PaginatedResponse, LoanStatus, LenderStackParamList, LenderTabParamList } from '../../types';
-import { formatCurrency, formatDate } from '../../utils';
+import { Loan, User, ApiResponse, PaginatedResponse, LoanStatus, DPDBucket, DisbursementMode, Payment, PaymentMethod, PaymentAdjustmentAction, LenderStackParamList, LenderTabParamList } from '../../types';
+import {
+  formatCurrency,
+  formatDate,
+  formatDisbursementMode,
+  formatLoanPartyRole,
+  formatCollateralType,
+  formatLienStatus,
+  formatDPDBucket,
+  formatPaymentStatus,
+  formatChequeStatus,
+  Money
+} from '../../utils';
 
 // Navigation type
 type MyLoansNavigationProp = CompositeNavigationProp<
@@ -43,10 +56,57 @@ const LOAN_STATUSES: Array<{ label: string; value: LoanStatus | 'all' }> = [
   { label: 'All', value: 'all' },
   { label: 'Active', value: 'active' },
   { label: 'Pending', value: 'pending_approval' },
+  { label: 'Approved', value: 'approved' },
   { label: 'Completed', value: 'completed' },
-  { label: 'Defaulted', value: 'defaulted' }
+  { label: 'Defaulted', value: 'defaulted' },
+  { label: 'Written Off', value: 'written_off' },
+  { label: 'Rejected', value: 'rejected' }
 ];
 
+const DPD_FILTERS: Array<{ label: string; value: DPDBucket | 'all' }> = [
+  { label: 'Any DPD', value: 'all' },
+  ...DPD_BUCKETS.map(bucket => ({ label: formatDPDBucket(bucket), value: bucket }))
+];
+
+const DISBURSEMENT_MODES: DisbursementMode[] = ['bank_transfer', 'upi', 'cash'];
+
+const RECOVERY_METHODS: Array<{ label: string; value: PaymentMethod }> = [
+  { label: 'Cash', value: 'cash' },
+  { label: 'Bank', value: 'bank_transfer' },
+  { label: 'UPI', value: 'upi' },
+  { label: 'Cheque', value: 'cheque' }
+];
+
+const ADJUSTMENT_ACTIONS: Array<{ label: string; value: PaymentAdjustmentAction }> = [
+  { label: 'Void', value: 'void' },
+  { label: 'Reverse', value: 'reversal' },
+  { label: 'Correct', value: 'correction' }
+];
+
+interface RecoveryFormData {
+  amount: string;
+  recovery_date: string;
+  payment_method: PaymentMethod;
+  reference_number: string;
+}
+
+interface DisbursementFormData {
+  amount: string;
+  disbursement_date: string;
+  disbursement_mode: DisbursementMode;
+  reference_number: string;
+}
+
+/**
+ * Sanctioned principal not yet paid out; loans activated before
+ * disbursements were tracked count as fully disbursed
+ */
+const getUndisbursedAmount = (loan: Loan): number => {
+  if (loan.status !== 'approved' && loan.status !== 'active') return 0;
+  const disbursed = loan.disbursed_amount ?? (loan.status === 'approved' ? 0 : loan.principal_amount);
+  return Money.max(Money.ZERO, Money.of(loan.principal_amount).subtract(Money.of(disbursed))).toNumber();
+};
+
 const SORT_OPTIONS = [
   { label: 'Recent', value: 'created_at' },
   { label: 'Amount', value: 'principal_amount' },
@@ -61,9 +121,32 @@ export const MyLoansScreen: React.FC = () => {
   const [refreshing, setRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedStatus, setSelectedStatus] = useState<LoanStatus | 'all'>('all');
+  const [selectedBucket, setSelectedBucket] = useState<DPDBucket | 'all'>('all');
   const [selectedSort, setSelectedSort] = useState('created_at');
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [page, setPage] = useState(1);
+  const [disbursementLoan, setDisbursementLoan] = useState<Loan | null>(null);
+  const [disbursementForm, setDisbursementForm] = useState<DisbursementFormData>({
+    amount: '',
+    disbursement_date: '',
+    disbursement_mode: 'bank_transfer',
+    reference_number: ''
+  });
+  const [writeOffLoan, setWriteOffLoan] = useState<Loan | null>(null);
+  const [writeOffPreview, setWriteOffPreview] = useState<WriteOffPreview | null>(null);
+  const [writeOffReason, setWriteOffReason] = useState('');
+  const [recoveryLoan, setRecoveryLoan] = useState<Loan | null>(null);
+  const [paymentsLoan, setPaymentsLoan] = useState<Loan | null>(null);
+  const [adjustingPayment, setAdjustingPayment] = useState<Payment | null>(null);
+  const [adjustmentAction, setAdjustmentAction] = useState<PaymentAdjustmentAction>('void');
+  const [adjustmentReason, setAdjustmentReason] = useState('');
+  const [correctedAmount, setCorrectedAmount] = useState('');
+  const [recoveryForm, setRecoveryForm] = useState<RecoveryFormData>({
+    amount: '',
+    recovery_date: '',
+    payment_method: 'cash',
+    reference_number: ''
+  });
 
   // Get current user
   useEffect(() => {
@@ -91,7 +174,7 @@ export const MyLoansScreen: React.FC = () => {
     error, 
     refetch 
   } = useQuery<ApiResponse<PaginatedResponse<Loan>>>({
-    queryKey: ['loans', currentUser?.id, selectedStatus, searchQuery, selectedSort, page],
+    queryKey: ['loans', currentUser?.id, selectedStatus, selectedBucket, searchQuery, selectedSort, page],
     queryFn: async (): Promise<ApiResponse<PaginatedResponse<Loan>>> => {
       if (!currentUser?.id || !borrowersResponse?.success) {
         return { success: false, data: { data: [], count: 0, page: 1, limit: 20, total_pages: 0 } };
@@ -111,6 +194,9 @@ export const MyLoansScreen: React.FC = () => {
       if (selectedStatus !== 'all') {
         filters.status = selectedStatus;
       }
+      if (selectedBucket !== 'all') {
+        filters.dpd_bucket = selectedBucket;
+      }
       if (searchQuery.trim()) {
         filters.search = searchQuery;
       }
@@ -168,6 +254,14 @@ export const MyLoansScreen: React.FC = () => {
     setPage(1); // Reset to first page on filter change
   };
 
+  /**
+   * Handle DPD bucket filter change
+   */
+  const handleBucketChange = (bucket: DPDBucket | 'all') => {
+    setSelectedBucket(bucket);
+    setPage(1); // Reset to first page on filter change
+  };
+
   /**
    * Get loan status badge
    */
@@ -175,8 +269,11 @@ export const MyLoansScreen: React.FC = () => {
     const statusConfig = {
       'active': { color: '#4caf50', text: 'Active' },
       'pending_approval': { color: '#ff9800', text: 'Pending' },
+      'approved': { color: '#00bcd4', text: 'Approved' },
       'completed': { color: '#2196f3', text: 'Completed' },
-      'defaulted': { color: '#f44336', text: 'Defaulted' }
+      'defaulted': { color: '#f44336', text: 'Defaulted' },
+      'written_off': { color: '#795548', text: 'Written Off' },
+      'rejected': { color: '#9e9e9e', text: 'Rejected' }
     };
     
     const config = statusConfig[status] || { color: '#9e9e9e', text: status };
@@ -195,26 +292,19 @@ export const MyLoansScreen: React.FC = () => {
    */
   const calculateLoanProgress = (loan: any): { progress: number; remaining: number; paidEMIs: number; totalEMIs: number } => {
     try {
-      // Get EMIs and payments from loan data
-      const emis = loan.emis || [];
-      const payments = loan.payments || [];
-      
-      // Calculate total paid amount from payments
-      const totalPaid = payments.reduce((sum: number, payment: any) => sum + payment.amount, 0);
+      // Get EMIs from loan data (EMIs archived by a restructure are not part of the schedule)
+      const emis = (loan.emis || []).filter((emi: any) => emi.status !== 'restructured');
       
       // Count paid EMIs
       const paidEMIs = emis.filter((emi: any) => emi.status === 'paid').length;
       const totalEMIs = emis.length || loan.tenure_months;
       
-      // Calculate total loan amount with interest
-      const totalLoanAmount = loan.principal_amount * (1 + loan.interest_rate / 100);
-      
-      // Calculate remaining amount
-      const remaining = Math.max(0, totalLoanAmount - totalPaid);
+      // Paid and remaining amounts from the loan's schedule and payments
+      const { totalPaid, outstanding } = LoanService.getLoanBalance(loan);
       
       return {
         progress: totalPaid,
-        remaining,
+        remaining: outstanding,
         paidEMIs,
         totalEMIs
       };
@@ -234,11 +324,53 @@ export const MyLoansScreen: React.FC = () => {
    * Handle loan item press
    */
   const handleLoanPress = (loan: Loan) => {
+    const heldCollateral = (loan.collaterals || []).filter(collateral => collateral.lien_status !== 'released');
+    const pendingWriteOff = (loan.write_offs || []).find(writeOff => writeOff.status === 'pending');
+    const recovery = LoanService.getRecoverySummary(loan);
+
     Alert.alert(
       'Loan Details',
-      `Loan: ${loan.loan_number}\nAmount: ${formatCurrency(loan.principal_amount)}\nStatus: ${loan.status}`,
+      `Loan: ${loan.loan_number}\nAmount: ${formatCurrency(loan.principal_amount)}\nStatus: ${loan.status}` +
+      (loan.dpd_bucket && loan.dpd_bucket !== 'current'
+        ? `\nDPD: ${loan.dpd} (${formatDPDBucket(loan.dpd_bucket)})` + (loan.npa_since ? ` • NPA since ${formatDate(loan.npa_since)}` : '')
+        : '') +
+      (loan.parties || [])
+        .map(party => `\n${formatLoanPartyRole(party.role)}: ${party.full_name} (${party.relationship}) • ${party.phone}`)
+        .join('') +
+      (loan.collaterals || [])
+        .map(collateral => `\n${formatCollateralType(collateral.collateral_type)}: ${collateral.description} • ` +
+          `${formatCurrency(collateral.valuation)} (${formatLienStatus(collateral.lien_status)})`)
+        .join('') +
+      (pendingWriteOff ? `\nWrite-off pending approval: ${formatCurrency(pendingWriteOff.total_written_off)}` : '') +
+      (loan.status === 'written_off'
+        ? `\nWritten off: ${formatCurrency(recovery.writtenOff)} • Recovered: ${formatCurrency(recovery.recovered)}`
+        : ''),
       [
         { text: 'Close', style: 'cancel' },
+        ...(loan.status === 'defaulted' && !pendingWriteOff ? [{
+          text: 'Write Off',
+          onPress: () => openWriteOff(loan)
+        }] : []),
+        ...(loan.status === 'written_off' ? [{
+          text: 'Record Recovery',
+          onPress: () => openRecovery(loan)
+        }] : []),
+        ...((loan.status === 'active' || loan.status === 'defaulted' || loan.status === 'completed') &&
+          (loan.payments || []).length > 0 ? [{
+          text: 'Payments',
+          onPress: () => openPayments(loan)
+        }] : []),
+        ...(loan.status === 'completed' && heldCollateral.length > 0 ? [{
+          text: 'Release Collateral',
+          onPress: () => handleReleaseCollateral(loan)
+        }] : []),
+        ...(loan.status === 'active' ? [{
+          text: 'Foreclose',
+          onPress: () => handleForeclose(loan)
+        }, {
+          text: 'Top-Up',
+          onPress: () => navigation.navigate('CreateLoanWizard', { borrowerId: loan.borrower_id, topUpOfLoanId: loan.id })
+        }] : []),
         { 
           text: 'View Details', 
           onPress: () => {
@@ -249,6 +381,332 @@ export const MyLoansScreen: React.FC = () => {
     );
   };
 
+  /**
+   * Show foreclosure quote and close the loan on confirmation
+   */
+  const handleForeclose = async (loan: Loan) => {
+    if (!currentUser?.id) return;
+
+    const quoteResult = await LoanService.getForeclosureQuote(loan.id);
+    if (!quoteResult.success || !quoteResult.data) {
+      Alert.alert('Error', quoteResult.error || 'Failed to get foreclosure quote');
+      return;
+    }
+
+    const quote = quoteResult.data;
+    Alert.alert(
+      'Foreclosure Quote',
+      `Outstanding Principal: ${formatCurrency(quote.outstandingPrincipal)}\n` +
+      `Accrued Interest (${quote.accruedDays} days): ${formatCurrency(quote.accruedInterest)}\n` +
+      (quote.overdueAmount > 0 ? `Unpaid Dues: ${formatCurrency(quote.overdueAmount)}\n` : '') +
+      (quote.outstandingCharges > 0 ? `Unpaid Charges: ${formatCurrency(quote.outstandingCharges)}\n` : '') +
+      `Foreclosure Charge (${quote.foreclosureChargeRate}%): ${formatCurrency(quote.foreclosureCharge)}\n\n` +
+      `Total Payable: ${formatCurrency(quote.totalPayable)}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Collect & Close',
+          onPress: async () => {
+            const result = await LoanService.forecloseLoan({
+              loan_id: loan.id,
+              payment_date: new Date().toISOString().split('T')[0],
+              payment_method: 'cash',
+              closure_reason: 'Foreclosed at borrower request'
+            }, currentUser.id);
+
+            if (result.success) {
+              queryClient.invalidateQueries({ queryKey: ['loans'] });
+              Alert.alert('Loan Closed', `${loan.loan_number} has been foreclosed.`);
+            } else {
+              Alert.alert('Error', result.error || 'Failed to foreclose loan');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  /**
+   * Release the lien on a completed loan's collateral
+   */
+  const handleReleaseCollateral = (loan: Loan) => {
+    if (!currentUser?.id) return;
+
+    Alert.alert(
+      'Release Collateral',
+      `Release the collateral held against ${loan.loan_number}? Return the assets to the borrower once released.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Release',
+          onPress: async () => {
+            const result = await LoanService.releaseCollateral(loan.id, currentUser.id);
+
+            if (result.success) {
+              queryClient.invalidateQueries({ queryKey: ['loans'] });
+              Alert.alert('Collateral Released', `${result.data?.length} item(s) released for ${loan.loan_number}.`);
+            } else {
+              Alert.alert('Error', result.error || 'Failed to release collateral');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  /**
+   * Open the write-off request with the amounts outstanding today
+   */
+  const openWriteOff = async (loan: Loan) => {
+    const previewResult = await LoanService.previewWriteOff(loan.id);
+    if (!previewResult.success || !previewResult.data) {
+      Alert.alert('Error', previewResult.error || 'Failed to calculate the write-off');
+      return;
+    }
+
+    setWriteOffPreview(previewResult.data);
+    setWriteOffReason('');
+    setWriteOffLoan(loan);
+  };
+
+  // Submit a write-off for approval by another officer
+  const writeOffMutation = useMutation({
+    mutationFn: (loan: Loan) => {
+      if (!currentUser?.id) {
+        return Promise.reject(new Error('No current user'));
+      }
+      return LoanService.requestWriteOff({ loan_id: loan.id, reason: writeOffReason }, currentUser.id);
+    },
+    onSuccess: (result, loan) => {
+      if (result.success && result.data) {
+        queryClient.invalidateQueries({ queryKey: ['loans'] });
+        setWriteOffLoan(null);
+        Alert.alert(
+          'Write-Off Requested',
+          `A write-off of ${formatCurrency(result.data.total_written_off)} for ${loan.loan_number} has been sent for approval.`
+        );
+      } else {
+        Alert.alert('Error', result.error || 'Failed to request the write-off');
+      }
+    },
+    onError: (error) => {
+      Alert.alert('Error', 'An unexpected error occurred while requesting the write-off');
+      console.error('Request write-off error:', error);
+    }
+  });
+
+  /**
+   * Open the recovery form for a written-off loan, dated today
+   */
+  const openRecovery = (loan: Loan) => {
+    setRecoveryForm({
+      amount: '',
+      recovery_date: new Date().toISOString().split('T')[0],
+      payment_method: 'cash',
+      reference_number: ''
+    });
+    setRecoveryLoan(loan);
+  };
+
+  // Record an amount recovered on a written-off loan
+  const recoveryMutation = useMutation({
+    mutationFn: (loan: Loan) => {
+      if (!currentUser?.id) {
+        return Promise.reject(new Error('No current user'));
+      }
+      return LoanService.recordRecovery({
+        loan_id: loan.id,
+        amount: parseFloat(recoveryForm.amount),
+        recovery_date: recoveryForm.recovery_date,
+        payment_method: recoveryForm.payment_method,
+        reference_number: recoveryForm.reference_number.trim() || undefined
+      }, currentUser.id);
+    },
+    onSuccess: (result, loan) => {
+      if (result.success && result.data) {
+        queryClient.invalidateQueries({ queryKey: ['loans'] });
+        setRecoveryLoan(null);
+        Alert.alert('Recovery Recorded', `${formatCurrency(result.data.amount)} recovered on ${loan.loan_number}.`);
+      } else {
+        Alert.alert('Error', result.error || 'Failed to record the recovery');
+      }
+    },
+    onError: (error) => {
+      Alert.alert('Error', 'An unexpected error occurred while recording the recovery');
+      console.error('Record recovery error:', error);
+    }
+  });
+
+  /**
+   * Validate the recovery form before submitting
+   */
+  const handleRecordRecovery = () => {
+    if (!recoveryLoan) return;
+
+    const amount = parseFloat(recoveryForm.amount);
+    if (isNaN(amount) || amount <= 0) {
+      Alert.alert('Validation Error', 'Please enter a valid recovery amount');
+      return;
+    }
+    if (recoveryForm.payment_method !== 'cash' && !recoveryForm.reference_number.trim()) {
+      Alert.alert('Validation Error', 'Reference number is required for bank transfers, UPI and cheques');
+      return;
+    }
+
+    recoveryMutation.mutate(recoveryLoan);
+  };
+
+  /**
+   * Open the loan's payments for voiding, reversal or correction
+   */
+  const openPayments = (loan: Loan) => {
+    setAdjustingPayment(null);
+    setPaymentsLoan(loan);
+  };
+
+  /**
+   * Start adjusting a posted payment, defaulting to a void
+   */
+  const selectPaymentForAdjustment = (payment: Payment) => {
+    setAdjustmentAction('void');
+    setAdjustmentReason('');
+    setCorrectedAmount(payment.amount.toString());
+    setAdjustingPayment(payment);
+  };
+
+  // Void, reverse or correct a payment; EMIs are re-allocated by the service
+  const adjustmentMutation = useMutation({
+    mutationFn: (payment: Payment) => {
+      if (!currentUser?.id) {
+        return Promise.reject(new Error('No current user'));
+      }
+      if (adjustmentAction === 'correction') {
+        return LoanService.correctPayment({
+          payment_id: payment.id,
+          amount: parseFloat(correctedAmount),
+          payment_date: payment.payment_date,
+          payment_method: payment.payment_method,
+          reference_number: payment.reference_number,
+          notes: payment.notes,
+          reason: adjustmentReason
+        }, currentUser.id);
+      }
+      return adjustmentAction === 'reversal'
+        ? LoanService.reversePayment(payment.id, adjustmentReason, currentUser.id)
+        : LoanService.voidPayment(payment.id, adjustmentReason, currentUser.id);
+    },
+    onSuccess: (result, payment) => {
+      if (result.success) {
+        queryClient.invalidateQueries({ queryKey: ['loans'] });
+        setAdjustingPayment(null);
+        setPaymentsLoan(null);
+        Alert.alert(
+          'Payment Updated',
+          adjustmentAction === 'correction'
+            ? `${formatCurrency(payment.amount)} corrected to ${formatCurrency(result.data?.amount || 0)}. EMIs have been re-allocated.`
+            : `${formatCurrency(payment.amount)} has been ${adjustmentAction === 'reversal' ? 'reversed' : 'voided'}. EMIs have been re-allocated.`
+        );
+      } else {
+        Alert.alert('Error', result.error || 'Failed to update the payment');
+      }
+    },
+    onError: (error) => {
+      Alert.alert('Error', 'An unexpected error occurred while updating the payment');
+      console.error('Adjust payment error:', error);
+    }
+  });
+
+  /**
+   * Validate the adjustment before submitting
+   */
+  const handleAdjustPayment = () => {
+    if (!adjustingPayment) return;
+
+    if (!adjustmentReason.trim()) {
+      Alert.alert('Validation Error', 'Please give a reason for the change');
+      return;
+    }
+    if (adjustmentAction === 'correction') {
+      const amount = parseFloat(correctedAmount);
+      if (isNaN(amount) || amount <= 0) {
+        Alert.alert('Validation Error', 'Please enter a valid corrected amount');
+        return;
+      }
+      if (amount === adjustingPayment.amount) {
+        Alert.alert('Validation Error', 'The corrected amount is the same as the original');
+        return;
+      }
+    }
+
+    adjustmentMutation.mutate(adjustingPayment);
+  };
+
+  /**
+   * Open the disbursement form, defaulting to the full undisbursed amount today
+   */
+  const openDisbursement = (loan: Loan) => {
+    setDisbursementForm({
+      amount: getUndisbursedAmount(loan).toString(),
+      disbursement_date: new Date().toISOString().split('T')[0],
+      disbursement_mode: 'bank_transfer',
+      reference_number: ''
+    });
+    setDisbursementLoan(loan);
+  };
+
+  // Pay out an approved loan or its next tranche
+  const disbursementMutation = useMutation({
+    mutationFn: (loan: Loan) => {
+      if (!currentUser?.id) {
+        return Promise.reject(new Error('No current user'));
+      }
+      return LoanService.disburseLoan({
+        loan_id: loan.id,
+        amount: parseFloat(disbursementForm.amount),
+        disbursement_date: disbursementForm.disbursement_date,
+        disbursement_mode: disbursementForm.disbursement_mode,
+        reference_number: disbursementForm.reference_number
+      }, currentUser.id);
+    },
+    onSuccess: (result, loan) => {
+      if (result.success && result.data) {
+        queryClient.invalidateQueries({ queryKey: ['loans'] });
+        setDisbursementLoan(null);
+        Alert.alert(
+          'Loan Disbursed',
+          result.data.tranche_number === 1
+            ? `${formatCurrency(result.data.net_amount)} paid out for ${loan.loan_number}. The EMI schedule starts from ${formatDate(result.data.disbursement_date)}.`
+            : `Tranche ${result.data.tranche_number} of ${formatCurrency(result.data.amount)} paid out for ${loan.loan_number}. Remaining EMIs have been revised.`
+        );
+      } else {
+        Alert.alert('Error', result.error || 'Failed to disburse the loan');
+      }
+    },
+    onError: (error) => {
+      Alert.alert('Error', 'An unexpected error occurred while disbursing the loan');
+      console.error('Disburse loan error:', error);
+    }
+  });
+
+  /**
+   * Validate the disbursement form before submitting
+   */
+  const handleDisburse = () => {
+    if (!disbursementLoan) return;
+
+    const amount = parseFloat(disbursementForm.amount);
+    if (isNaN(amount) || amount <= 0) {
+      Alert.alert('Validation Error', 'Please enter a valid disbursement amount');
+      return;
+    }
+    if (disbursementForm.disbursement_mode !== 'cash' && !disbursementForm.reference_number.trim()) {
+      Alert.alert('Validation Error', 'Reference number is required for bank transfers and UPI');
+      return;
+    }
+
+    disbursementMutation.mutate(disbursementLoan);
+  };
+
   /**
    * Render loan item
    */
@@ -256,8 +714,9 @@ export const MyLoansScreen: React.FC = () => {
     const { progress, remaining, paidEMIs, totalEMIs } = calculateLoanProgress(loan);
     const borrower = (loan as any).borrower;
     const borrowerUser = borrower?.user;
-    const totalLoanAmount = loan.principal_amount * (1 + loan.interest_rate / 100);
+    const totalLoanAmount = LoanService.getLoanBalance(loan).totalPayable;
     const progressPercentage = totalLoanAmount > 0 ? (progress / totalLoanAmount) * 100 : 0;
+    const undisbursed = getUndisbursedAmount(loan);
 
     return (
       <TouchableOpacity 
@@ -269,6 +728,20 @@ export const MyLoansScreen: React.FC = () => {
           <View style={styles.loanTitleSection}>
             <Text style={styles.loanNumber}>{loan.loan_number}</Text>
             {getLoanStatusBadge(loan.status)}
+            {(loan.restructure_count || 0) > 0 && (
+              <Badge
+                value="Restructured"
+                badgeStyle={styles.restructuredBadge}
+                textStyle={{ fontSize: 10 }}
+              />
+            )}
+            {(loan.status === 'active' || loan.status === 'defaulted') && (loan.dpd_bucket || 'current') !== 'current' && (
+              <Badge
+                value={loan.dpd_bucket === 'npa' ? 'NPA' : `${loan.dpd} DPD`}
+                badgeStyle={loan.dpd_bucket === 'npa' ? styles.npaBadge : styles.dpdBadge}
+                textStyle={{ fontSize: 10 }}
+              />
+            )}
           </View>
           <Text style={styles.loanAmount}>
             {formatCurrency(loan.principal_amount)}
@@ -353,6 +826,18 @@ export const MyLoansScreen: React.FC = () => {
               <Text style={styles.actionButtonText}>Record Payment</Text>
             </TouchableOpacity>
           )}
+
+          {undisbursed > 0 && (
+            <TouchableOpacity 
+              style={[styles.actionButton, { marginLeft: 8 }]}
+              onPress={() => openDisbursement(loan)}
+            >
+              <Ionicons name="cash" size={16} color="#ff9800" />
+              <Text style={styles.actionButtonText}>
+                {loan.status === 'approved' ? 'Disburse' : 'Next Tranche'}
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
       </TouchableOpacity>
     );
@@ -449,6 +934,31 @@ export const MyLoansScreen: React.FC = () => {
             </TouchableOpacity>
           ))}
         </ScrollView>
+
+        {/* DPD Bucket Filter */}
+        <ScrollView 
+          horizontal 
+          showsHorizontalScrollIndicator={false}
+          style={styles.statusFilterContainer}
+        >
+          {DPD_FILTERS.map((bucket) => (
+            <TouchableOpacity
+              key={bucket.value}
+              style={[
+                styles.statusFilterButton,
+                selectedBucket === bucket.value && styles.statusFilterButtonActive
+              ]}
+              onPress={() => handleBucketChange(bucket.value)}
+            >
+              <Text style={[
+                styles.statusFilterText,
+                selectedBucket === bucket.value && styles.statusFilterTextActive
+              ]}>
+                {bucket.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
       </View>
 
       {/* Loans List */}
@@ -457,12 +967,12 @@ export const MyLoansScreen: React.FC = () => {
           <Ionicons name="document-text-outline" size={64} color="#9e9e9e" />
           <Text style={styles.emptyStateText}>No loans found</Text>
           <Text style={styles.emptyStateSubtext}>
-            {searchQuery || selectedStatus !== 'all' 
+            {searchQuery || selectedStatus !== 'all' || selectedBucket !== 'all' 
               ? 'Try adjusting your search or filters' 
               : 'Create your first loan to get started'
             }
           </Text>
-          {!searchQuery && selectedStatus === 'all' && (
+          {!searchQuery && selectedStatus === 'all' && selectedBucket === 'all' && (
             <Button
               title="Create Loan"
               buttonStyle={styles.createLoanButton}
@@ -483,6 +993,314 @@ export const MyLoansScreen: React.FC = () => {
         />
       )}
 
+      {/* Disbursement Modal */}
+      <Modal
+        visible={!!disbursementLoan}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        {disbursementLoan && (
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <TouchableOpacity onPress={() => setDisbursementLoan(null)}>
+                <Text style={styles.modalCancel}>Cancel</Text>
+              </TouchableOpacity>
+              <Text style={styles.modalTitle}>
+                {disbursementLoan.status === 'approved' ? 'Disburse Loan' : 'Disburse Tranche'}
+              </Text>
+              <View />
+            </View>
+
+            <ScrollView style={styles.modalContent}>
+              <Text style={styles.modalSectionTitle}>{disbursementLoan.loan_number}</Text>
+              <Text style={styles.modalText}>
+                Sanctioned: {formatCurrency(disbursementLoan.principal_amount)}
+              </Text>
+              <Text style={styles.modalText}>
+                Undisbursed: {formatCurrency(getUndisbursedAmount(disbursementLoan))}
+              </Text>
+              <Text style={styles.modalHint}>
+                Interest accrues only on the amount disbursed. Pay out less than the full amount to release the loan in tranches.
+              </Text>
+
+              <Input
+                label="Amount *"
+                value={disbursementForm.amount}
+                onChangeText={(amount) => setDisbursementForm(prev => ({ ...prev, amount }))}
+                keyboardType="numeric"
+                leftIcon={<Ionicons name="cash" size={20} color="#666" />}
+              />
+              <Input
+                label="Disbursement Date *"
+                value={disbursementForm.disbursement_date}
+                onChangeText={(disbursement_date) => setDisbursementForm(prev => ({ ...prev, disbursement_date }))}
+                placeholder="YYYY-MM-DD"
+                leftIcon={<Ionicons name="calendar" size={20} color="#666" />}
+              />
+
+              <Text style={styles.modalSectionTitle}>Mode</Text>
+              <ButtonGroup
+                buttons={DISBURSEMENT_MODES.map(mode => formatDisbursementMode(mode))}
+                selectedIndex={DISBURSEMENT_MODES.indexOf(disbursementForm.disbursement_mode)}
+                onPress={(index) => setDisbursementForm(prev => ({ ...prev, disbursement_mode: DISBURSEMENT_MODES[index] }))}
+                containerStyle={styles.modeButtonGroup}
+                selectedButtonStyle={styles.modeButtonSelected}
+              />
+
+              <Input
+                label={`Reference Number ${disbursementForm.disbursement_mode !== 'cash' ? '*' : '(Optional)'}`}
+                value={disbursementForm.reference_number}
+                onChangeText={(reference_number) => setDisbursementForm(prev => ({ ...prev, reference_number }))}
+                placeholder="UTR / transaction reference"
+                leftIcon={<Ionicons name="receipt" size={20} color="#666" />}
+              />
+            </ScrollView>
+
+            <View style={styles.modalFooter}>
+              <Button
+                title="Disburse"
+                buttonStyle={styles.disburseButton}
+                loading={disbursementMutation.isPending}
+                onPress={handleDisburse}
+              />
+            </View>
+          </View>
+        )}
+      </Modal>
+
+      {/* Write-Off Modal */}
+      <Modal
+        visible={!!writeOffLoan}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        {writeOffLoan && writeOffPreview && (
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <TouchableOpacity onPress={() => setWriteOffLoan(null)}>
+                <Text style={styles.modalCancel}>Cancel</Text>
+              </TouchableOpacity>
+              <Text style={styles.modalTitle}>Write Off Loan</Text>
+              <View />
+            </View>
+
+            <ScrollView style={styles.modalContent}>
+              <Text style={styles.modalSectionTitle}>{writeOffLoan.loan_number}</Text>
+              <Text style={styles.modalText}>Principal: {formatCurrency(writeOffPreview.principal)}</Text>
+              <Text style={styles.modalText}>Interest: {formatCurrency(writeOffPreview.interest)}</Text>
+              <Text style={styles.modalText}>Charges: {formatCurrency(writeOffPreview.charges)}</Text>
+              <Text style={styles.modalSectionTitle}>Total: {formatCurrency(writeOffPreview.total)}</Text>
+              <Text style={styles.modalHint}>
+                The loan is written off once another officer approves the request. Later collections are recorded as recoveries.
+              </Text>
+
+              <Input
+                label="Reason *"
+                value={writeOffReason}
+                onChangeText={setWriteOffReason}
+                placeholder="e.g. Borrower untraceable after recovery efforts"
+                multiline
+              />
+            </ScrollView>
+
+            <View style={styles.modalFooter}>
+              <Button
+                title="Request Write-Off"
+                buttonStyle={styles.writeOffButton}
+                loading={writeOffMutation.isPending}
+                onPress={() => {
+                  if (!writeOffReason.trim()) {
+                    Alert.alert('Validation Error', 'Please give a reason for the write-off');
+                    return;
+                  }
+                  writeOffMutation.mutate(writeOffLoan);
+                }}
+              />
+            </View>
+          </View>
+        )}
+      </Modal>
+
+      {/* Recovery Modal */}
+      <Modal
+        visible={!!recoveryLoan}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        {recoveryLoan && (
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <TouchableOpacity onPress={() => setRecoveryLoan(null)}>
+                <Text style={styles.modalCancel}>Cancel</Text>
+              </TouchableOpacity>
+              <Text style={styles.modalTitle}>Record Recovery</Text>
+              <View />
+            </View>
+
+            <ScrollView style={styles.modalContent}>
+              <Text style={styles.modalSectionTitle}>{recoveryLoan.loan_number}</Text>
+              <Text style={styles.modalText}>
+                Written off: {formatCurrency(LoanService.getRecoverySummary(recoveryLoan).writtenOff)}
+              </Text>
+              <Text style={styles.modalText}>
+                Recovered so far: {formatCurrency(LoanService.getRecoverySummary(recoveryLoan).recovered)}
+              </Text>
+
+              <Input
+                label="Amount *"
+                value={recoveryForm.amount}
+                onChangeText={(amount) => setRecoveryForm(prev => ({ ...prev, amount }))}
+                keyboardType="numeric"
+                leftIcon={<Ionicons name="cash" size={20} color="#666" />}
+              />
+              <Input
+                label="Recovery Date *"
+                value={recoveryForm.recovery_date}
+                onChangeText={(recovery_date) => setRecoveryForm(prev => ({ ...prev, recovery_date }))}
+                placeholder="YYYY-MM-DD"
+                leftIcon={<Ionicons name="calendar" size={20} color="#666" />}
+              />
+
+              <Text style={styles.modalSectionTitle}>Method</Text>
+              <ButtonGroup
+                buttons={RECOVERY_METHODS.map(method => method.label)}
+                selectedIndex={RECOVERY_METHODS.findIndex(method => method.value === recoveryForm.payment_method)}
+                onPress={(index) => setRecoveryForm(prev => ({ ...prev, payment_method: RECOVERY_METHODS[index].value }))}
+                containerStyle={styles.modeButtonGroup}
+                selectedButtonStyle={styles.modeButtonSelected}
+              />
+
+              <Input
+                label={`Reference Number ${recoveryForm.payment_method !== 'cash' ? '*' : '(Optional)'}`}
+                value={recoveryForm.reference_number}
+                onChangeText={(reference_number) => setRecoveryForm(prev => ({ ...prev, reference_number }))}
+                placeholder="UTR / cheque number"
+                leftIcon={<Ionicons name="receipt" size={20} color="#666" />}
+              />
+            </ScrollView>
+
+            <View style={styles.modalFooter}>
+              <Button
+                title="Record Recovery"
+                buttonStyle={styles.disburseButton}
+                loading={recoveryMutation.isPending}
+                onPress={handleRecordRecovery}
+              />
+            </View>
+          </View>
+        )}
+      </Modal>
+
+      {/* Payments Modal */}
+      <Modal
+        visible={!!paymentsLoan}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        {paymentsLoan && (
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <TouchableOpacity onPress={() => adjustingPayment ? setAdjustingPayment(null) : setPaymentsLoan(null)}>
+                <Text style={styles.modalCancel}>{adjustingPayment ? 'Back' : 'Close'}</Text>
+              </TouchableOpacity>
+              <Text style={styles.modalTitle}>{adjustingPayment ? 'Adjust Payment' : 'Payments'}</Text>
+              <View />
+            </View>
+
+            {!adjustingPayment ? (
+              <ScrollView style={styles.modalContent}>
+                <Text style={styles.modalSectionTitle}>{paymentsLoan.loan_number}</Text>
+                <Text style={styles.modalHint}>
+                  Tap a posted EMI payment to void, reverse or correct it. The original entry is kept.
+                </Text>
+
+                {[...(paymentsLoan.payments || [])]
+                  .sort((a, b) => b.payment_date.localeCompare(a.payment_date))
+                  .map(payment => {
+                    const isPosted = (payment.status || 'posted') === 'posted';
+                    const isAdjustable = isPosted && (payment.payment_type || 'emi') === 'emi';
+
+                    return (
+                      <TouchableOpacity
+                        key={payment.id}
+                        style={styles.paymentItem}
+                        disabled={!isAdjustable}
+                        onPress={() => selectPaymentForAdjustment(payment)}
+                      >
+                        <View style={styles.paymentItemInfo}>
+                          <Text style={[styles.paymentItemAmount, !isPosted && styles.paymentItemAdjusted]}>
+                            {formatCurrency(payment.amount)}
+                          </Text>
+                          <Text style={styles.paymentItemMeta}>
+                            {formatDate(payment.payment_date)} • {RECOVERY_METHODS.find(method => method.value === payment.payment_method)?.label}
+                            {payment.reference_number ? ` • ${payment.reference_number}` : ''}
+                          </Text>
+                          {!isPosted && payment.adjustment_reason && (
+                            <Text style={styles.paymentItemMeta}>{payment.adjustment_reason}</Text>
+                          )}
+                        </View>
+                        <Text style={styles.paymentItemStatus}>
+                          {isPosted && payment.cheque_status && payment.cheque_status !== 'cleared'
+                            ? `Cheque ${formatChequeStatus(payment.cheque_status)}`
+                            : formatPaymentStatus(payment.status)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+              </ScrollView>
+            ) : (
+              <>
+                <ScrollView style={styles.modalContent}>
+                  <Text style={styles.modalSectionTitle}>
+                    {formatCurrency(adjustingPayment.amount)} on {formatDate(adjustingPayment.payment_date)}
+                  </Text>
+
+                  <ButtonGroup
+                    buttons={ADJUSTMENT_ACTIONS.map(action => action.label)}
+                    selectedIndex={ADJUSTMENT_ACTIONS.findIndex(action => action.value === adjustmentAction)}
+                    onPress={(index) => setAdjustmentAction(ADJUSTMENT_ACTIONS[index].value)}
+                    containerStyle={styles.modeButtonGroup}
+                    selectedButtonStyle={styles.modeButtonSelected}
+                  />
+                  <Text style={styles.modalHint}>
+                    {adjustmentAction === 'void' && 'Void an entry recorded in error.'}
+                    {adjustmentAction === 'reversal' && 'Reverse money that was received but returned, such as a bounced cheque.'}
+                    {adjustmentAction === 'correction' && 'Void this entry and record the corrected amount in its place.'}
+                    {paymentsLoan.status === 'completed' && ' The loan will be reopened if it is no longer fully paid.'}
+                  </Text>
+
+                  {adjustmentAction === 'correction' && (
+                    <Input
+                      label="Corrected Amount *"
+                      value={correctedAmount}
+                      onChangeText={setCorrectedAmount}
+                      keyboardType="numeric"
+                      leftIcon={<Ionicons name="cash" size={20} color="#666" />}
+                    />
+                  )}
+                  <Input
+                    label="Reason *"
+                    value={adjustmentReason}
+                    onChangeText={setAdjustmentReason}
+                    placeholder="e.g. Cheque returned unpaid"
+                    multiline
+                  />
+                </ScrollView>
+
+                <View style={styles.modalFooter}>
+                  <Button
+                    title={adjustmentAction === 'correction' ? 'Correct Payment' : adjustmentAction === 'reversal' ? 'Reverse Payment' : 'Void Payment'}
+                    buttonStyle={styles.writeOffButton}
+                    loading={adjustmentMutation.isPending}
+                    onPress={handleAdjustPayment}
+                  />
+                </View>
+              </>
+            )}
+          </View>
+        )}
+      </Modal>
+
     </View>
   );
 };
@@ -647,6 +1465,18 @@ const styles = StyleSheet.create({
     color: '#333',
     marginRight: 12,
   },
+  restructuredBadge: {
+    backgroundColor: '#9c27b0',
+    marginLeft: 6,
+  },
+  dpdBadge: {
+    backgroundColor: '#ff9800',
+    marginLeft: 6,
+  },
+  npaBadge: {
+    backgroundColor: '#b71c1c',
+    marginLeft: 6,
+  },
   loanAmount: {
     fontSize: 18,
     fontWeight: 'bold',
@@ -748,4 +1578,103 @@ const styles = StyleSheet.create({
     marginLeft: 4,
     fontWeight: '500',
   },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  modalCancel: {
+    fontSize: 16,
+    color: '#666',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 16,
+  },
+  modalSectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+    marginHorizontal: 10,
+  },
+  modalText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 6,
+    marginHorizontal: 10,
+  },
+  modalHint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+    marginBottom: 16,
+    marginHorizontal: 10,
+  },
+  modeButtonGroup: {
+    borderRadius: 8,
+    borderColor: '#e0e0e0',
+    marginBottom: 16,
+  },
+  modeButtonSelected: {
+    backgroundColor: '#2196f3',
+  },
+  modalFooter: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#e0e0e0',
+  },
+  disburseButton: {
+    backgroundColor: '#2196f3',
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  writeOffButton: {
+    backgroundColor: '#f44336',
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  paymentItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginHorizontal: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  paymentItemInfo: {
+    flex: 1,
+  },
+  paymentItemAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  paymentItemAdjusted: {
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+  paymentItemMeta: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  paymentItemStatus: {
+    fontSize: 12,
+    color: '#666',
+    marginLeft: 8,
+  },
 });
\ No newline at end of file
@@ -167,7 +167,9 @@ export const RecordPaymentScreen: React.FC = () => {
         
         Alert.alert(
           'Payment Recorded',
-          `Payment of ${formatCurrency(Number(formData.amount))} recorded successfully!`,
+          formData.payment_method === 'cheque'
+            ? `Cheque of ${formatCurrency(Number(formData.amount))} recorded. It will be applied to EMIs once it clears.`
+            : `Payment of ${formatCurrency(Number(formData.amount))} recorded successfully!`,
           [
             {
               text: 'Record Another',
@@ -312,6 +314,11 @@ export const RecordPaymentScreen: React.FC = () => {
 
   const activeLoans = loansResponse?.data?.data || [];
 
+  // Unpaid late-payment charges on the selected loan
+  const pendingCharges = (selectedLoan?.emis || [])
+    .flatMap(emi => emi.charges || [])
+    .reduce((sum, charge) => sum + (charge.amount - charge.paid_amount), 0);
+
   return (
     <View style={styles.container}>
       
@@ -347,6 +354,11 @@ export const RecordPaymentScreen: React.FC = () => {
               <Text style={styles.selectedLoanDetails}>
                 {formatCurrency(selectedLoan.principal_amount)} • {selectedLoan.interest_rate}% • {selectedLoan.tenure_months} months
               </Text>
+              {pendingCharges > 0 && (
+                <Text style={styles.selectedLoanCharges}>
+                  Late fees due: {formatCurrency(pendingCharges)} (collected before EMIs)
+                </Text>
+              )}
             </View>
           </View>
         )}
@@ -616,6 +628,12 @@ const styles = StyleSheet.create({
     color: '#2e7d32',
     marginTop: 2,
   },
+  selectedLoanCharges: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#f44336',
+    marginTop: 6,
+  },
   selectedLoanDetails: {
     fontSize: 12,
     color: '#388e3c',
@@ -22,15 +22,18 @@ import {
   ButtonGroup
 } from 'react-native-elements';
 import { Ionicons } from '@expo/vector-icons';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 
 import { LoanService } from '../../services/loans/loanService';
+import { DPD_BUCKETS } from '../../services/calculations/delinquencyService';
 import { UserService } from '../../services/users/userService';
-import { Loan, LoanStatus, User } from '../../types';
-import { formatCurrency, formatDate } from '../../utils';
+import { AuthService } from '../../services/auth/authService';
+import { Loan, LoanStatus, DPDBucket, User } from '../../types';
+import { formatCurrency, formatDate, formatLoanPartyRole, formatCollateralType, formatDPDBucket } from '../../utils';
 
 interface LoanFilters {
   status?: LoanStatus;
+  dpd_bucket?: DPDBucket;
   lender_id?: string;
   search?: string;
   date_from?: string;
@@ -53,10 +56,25 @@ export const AllLoansScreen: React.FC = () => {
   const [showFilters, setShowFilters] = useState(false);
   const [selectedLender, setSelectedLender] = useState<string>('');
   const [selectedStatus, setSelectedStatus] = useState<string>('');
+  const [selectedBucket, setSelectedBucket] = useState<DPDBucket | ''>('');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('list');
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [reviewLoan, setReviewLoan] = useState<Loan | null>(null);
+  const [reviewComments, setReviewComments] = useState('');
+  const [writeOffReviewLoan, setWriteOffReviewLoan] = useState<Loan | null>(null);
 
   // Filter options
-  const statusOptions = ['All Status', 'Active', 'Completed', 'Defaulted', 'Pending Approval'];
+  const statusOptions = ['All Status', 'Active', 'Completed', 'Defaulted', 'Written Off', 'Pending Approval', 'Approved', 'Rejected'];
+  const bucketOptions: Array<DPDBucket | ''> = ['', ...DPD_BUCKETS];
+
+  // Get current user (the approver)
+  useEffect(() => {
+    const getCurrentUser = async () => {
+      const user = await AuthService.getCurrentUser();
+      setCurrentUser(user);
+    };
+    getCurrentUser();
+  }, []);
   const viewModeButtons = ['List View', 'Grid View'];
 
   // Fetch all lenders for filter dropdown
@@ -119,6 +137,10 @@ export const AllLoansScreen: React.FC = () => {
       newFilters.status = selectedStatus.toLowerCase().replace(' ', '_') as LoanStatus;
     }
     
+    if (selectedBucket) {
+      newFilters.dpd_bucket = selectedBucket;
+    }
+    
     if (selectedLender) {
       newFilters.lender_id = selectedLender;
     }
@@ -134,6 +156,7 @@ export const AllLoansScreen: React.FC = () => {
   const resetFilters = () => {
     setFilters({});
     setSelectedStatus('');
+    setSelectedBucket('');
     setSelectedLender('');
     setSearchQuery('');
     setCurrentPage(1);
@@ -147,8 +170,11 @@ export const AllLoansScreen: React.FC = () => {
     const statusConfig = {
       'active': { color: '#4caf50', text: 'Active' },
       'pending_approval': { color: '#ff9800', text: 'Pending' },
+      'approved': { color: '#00bcd4', text: 'Approved' },
       'completed': { color: '#2196f3', text: 'Completed' },
-      'defaulted': { color: '#f44336', text: 'Defaulted' }
+      'defaulted': { color: '#f44336', text: 'Defaulted' },
+      'written_off': { color: '#795548', text: 'Written Off' },
+      'rejected': { color: '#9e9e9e', text: 'Rejected' }
     };
     
     const config = statusConfig[status as keyof typeof statusConfig] || { color: '#9e9e9e', text: status };
@@ -167,7 +193,7 @@ export const AllLoansScreen: React.FC = () => {
    */
   const calculateLoanProgress = (loan: Loan): { progress: number; status: string } => {
     const emis = (loan as any).emis || [];
-    const payments = (loan as any).payments || [];
+    const payments = ((loan as any).payments || []).filter((payment: any) => LoanService.isCollectedPayment(payment));
     
     if (emis.length === 0) {
       return { progress: 0, status: 'No EMIs' };
@@ -178,10 +204,10 @@ export const AllLoansScreen: React.FC = () => {
     const progress = totalAmount > 0 ? (totalPaid / totalAmount) * 100 : 0;
     
     const paidEMIs = emis.filter((emi: any) => emi.status === 'paid').length;
-    const overdueEMIs = emis.filter((emi: any) => emi.status === 'overdue').length;
     
     let status = 'On Track';
-    if (overdueEMIs > 0) status = 'Overdue';
+    if (loan.dpd_bucket === 'npa') status = `NPA • ${loan.dpd} DPD`;
+    else if ((loan.dpd || 0) > 0) status = `${loan.dpd} DPD`;
     if (progress >= 100) status = 'Completed';
     
     return { 
@@ -190,13 +216,92 @@ export const AllLoansScreen: React.FC = () => {
     };
   };
 
+  // Approve or reject a pending loan application
+  const reviewMutation = useMutation({
+    mutationFn: ({ loan, decision }: { loan: Loan; decision: 'approve' | 'reject' }) => {
+      if (!currentUser?.id) {
+        return Promise.reject(new Error('No current user'));
+      }
+      return decision === 'approve'
+        ? LoanService.approveLoan(loan.id, currentUser.id, reviewComments)
+        : LoanService.rejectLoan(loan.id, currentUser.id, reviewComments);
+    },
+    onSuccess: (result, { loan, decision }) => {
+      if (result.success) {
+        queryClient.invalidateQueries({ queryKey: ['allLoans'] });
+        setReviewLoan(null);
+        setReviewComments('');
+        Alert.alert(
+          decision === 'approve' ? 'Loan Approved' : 'Loan Rejected',
+          decision === 'approve'
+            ? `${loan.loan_number} is approved and ready for disbursement.`
+            : `${loan.loan_number} has been rejected.`
+        );
+      } else {
+        Alert.alert('Error', result.error || 'Failed to review the loan');
+      }
+    },
+    onError: (error) => {
+      Alert.alert('Error', 'An unexpected error occurred while reviewing the loan');
+      console.error('Review loan error:', error);
+    }
+  });
+
+  // Approve or reject a pending write-off request
+  const writeOffReviewMutation = useMutation({
+    mutationFn: ({ writeOffId, decision }: { loan: Loan; writeOffId: string; decision: 'approve' | 'reject' }) => {
+      if (!currentUser?.id) {
+        return Promise.reject(new Error('No current user'));
+      }
+      return decision === 'approve'
+        ? LoanService.approveWriteOff(writeOffId, currentUser.id, reviewComments)
+        : LoanService.rejectWriteOff(writeOffId, currentUser.id, reviewComments);
+    },
+    onSuccess: (result, { loan, decision }) => {
+      if (result.success) {
+        queryClient.invalidateQueries({ queryKey: ['allLoans'] });
+        setWriteOffReviewLoan(null);
+        setReviewComments('');
+        Alert.alert(
+          decision === 'approve' ? 'Loan Written Off' : 'Write-Off Rejected',
+          decision === 'approve'
+            ? `${loan.loan_number} has been written off. Track later collections as recoveries.`
+            : `The write-off request for ${loan.loan_number} has been rejected.`
+        );
+      } else {
+        Alert.alert('Error', result.error || 'Failed to review the write-off');
+      }
+    },
+    onError: (error) => {
+      Alert.alert('Error', 'An unexpected error occurred while reviewing the write-off');
+      console.error('Review write-off error:', error);
+    }
+  });
+
   /**
    * Handle loan detail view
    */
   const handleLoanDetails = (loan: Loan) => {
+    if (loan.status === 'pending_approval') {
+      setReviewComments('');
+      setReviewLoan(loan);
+      return;
+    }
+
+    if ((loan.write_offs || []).some(writeOff => writeOff.status === 'pending')) {
+      setReviewComments('');
+      setWriteOffReviewLoan(loan);
+      return;
+    }
+
+    const recovery = LoanService.getRecoverySummary(loan);
+
     Alert.alert(
       'Loan Details',
-      `Loan: ${loan.loan_number}\nBorrower: ${(loan as any).borrower?.user?.full_name || 'Unknown'}\nAmount: ${formatCurrency(loan.principal_amount)}\nStatus: ${loan.status}`,
+      `Loan: ${loan.loan_number}\nBorrower: ${(loan as any).borrower?.user?.full_name || 'Unknown'}\nAmount: ${formatCurrency(loan.principal_amount)}\nStatus: ${loan.status}` +
+      (loan.status === 'written_off'
+        ? `\nWritten off: ${formatCurrency(recovery.writtenOff)}\nRecovered: ${formatCurrency(recovery.recovered)}\nNet loss: ${formatCurrency(recovery.netLoss)}`
+        : ''),
       [
         { text: 'Close', style: 'cancel' },
         { 
@@ -354,6 +459,7 @@ export const AllLoansScreen: React.FC = () => {
   const loans = loansResponse.data?.data || [];
   const totalLoans = loansResponse.data?.count || 0;
   const activeFiltersCount = Object.keys(filters).length + (searchQuery ? 1 : 0);
+  const pendingWriteOff = writeOffReviewLoan?.write_offs?.find(writeOff => writeOff.status === 'pending');
 
   return (
     <View style={styles.container}>
@@ -498,6 +604,18 @@ export const AllLoansScreen: React.FC = () => {
               />
             </View>
             
+            <View style={styles.filterSection}>
+              <Text style={styles.filterSectionTitle}>Days Past Due</Text>
+              <ButtonGroup
+                onPress={(index) => setSelectedBucket(bucketOptions[index])}
+                selectedIndex={bucketOptions.indexOf(selectedBucket)}
+                buttons={bucketOptions.map(bucket => bucket ? formatDPDBucket(bucket) : 'Any DPD')}
+                containerStyle={styles.statusButtonGroup}
+                selectedButtonStyle={styles.selectedFilterButton}
+                vertical
+              />
+            </View>
+            
             <View style={styles.filterSection}>
               <Text style={styles.filterSectionTitle}>Lender</Text>
               <ButtonGroup
@@ -521,6 +639,151 @@ export const AllLoansScreen: React.FC = () => {
         </View>
       </Modal>
 
+      {/* Loan Approval Modal */}
+      <Modal
+        visible={!!reviewLoan}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        {reviewLoan && (
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <TouchableOpacity onPress={() => setReviewLoan(null)}>
+                <Text style={styles.modalCancel}>Cancel</Text>
+              </TouchableOpacity>
+              <Text style={styles.modalTitle}>Review Application</Text>
+              <View />
+            </View>
+
+            <ScrollView style={styles.modalContent}>
+              <View style={styles.filterSection}>
+                <Text style={styles.filterSectionTitle}>{reviewLoan.loan_number}</Text>
+                <Text style={styles.reviewText}>
+                  Borrower: {(reviewLoan as any).borrower?.user?.full_name || 'Unknown'}
+                </Text>
+                <Text style={styles.reviewText}>
+                  Amount: {formatCurrency(reviewLoan.principal_amount)}
+                  {reviewLoan.net_disbursement !== undefined ? ` (net disbursement ${formatCurrency(reviewLoan.net_disbursement)})` : ''}
+                </Text>
+                <Text style={styles.reviewText}>
+                  Terms: {reviewLoan.interest_rate}% • {reviewLoan.tenure_months} months
+                </Text>
+                {(reviewLoan.parties || []).map((party) => (
+                  <Text key={party.id} style={styles.reviewText}>
+                    {formatLoanPartyRole(party.role)}: {party.full_name} ({party.relationship}) • {party.phone}
+                    {party.kyc_documents.length > 0 ? ` • ${party.kyc_documents.length} KYC doc(s)` : ' • No KYC documents'}
+                  </Text>
+                ))}
+                {(reviewLoan.collaterals || []).length > 0 && (
+                  <Text style={styles.reviewText}>
+                    Collateral: {(reviewLoan.collaterals || [])
+                      .map(collateral => `${formatCollateralType(collateral.collateral_type)} ${formatCurrency(collateral.valuation)}`)
+                      .join(', ')}
+                    {' '}• LTV {LoanService.calculateLoanToValue(reviewLoan.principal_amount, reviewLoan.collaterals || []).ltvPercent}%
+                  </Text>
+                )}
+                {reviewLoan.submitted_at && (
+                  <Text style={styles.reviewText}>
+                    Submitted: {formatDate(reviewLoan.submitted_at)}
+                  </Text>
+                )}
+                {reviewLoan.requires_super_admin_approval && (
+                  <Text style={styles.reviewWarning}>Above the approval threshold: super admin approval required</Text>
+                )}
+              </View>
+
+              <Input
+                label="Comments"
+                value={reviewComments}
+                onChangeText={setReviewComments}
+                placeholder="Required when rejecting"
+                multiline
+              />
+            </ScrollView>
+
+            <View style={[styles.modalFooter, styles.reviewActions]}>
+              <Button
+                title="Reject"
+                type="outline"
+                buttonStyle={styles.rejectButton}
+                titleStyle={styles.rejectButtonText}
+                containerStyle={styles.reviewActionButton}
+                disabled={reviewMutation.isPending}
+                onPress={() => reviewMutation.mutate({ loan: reviewLoan, decision: 'reject' })}
+              />
+              <Button
+                title="Approve"
+                buttonStyle={styles.applyFiltersButton}
+                containerStyle={styles.reviewActionButton}
+                loading={reviewMutation.isPending}
+                onPress={() => reviewMutation.mutate({ loan: reviewLoan, decision: 'approve' })}
+              />
+            </View>
+          </View>
+        )}
+      </Modal>
+
+      {/* Write-Off Approval Modal */}
+      <Modal
+        visible={!!writeOffReviewLoan}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        {writeOffReviewLoan && pendingWriteOff && (
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <TouchableOpacity onPress={() => setWriteOffReviewLoan(null)}>
+                <Text style={styles.modalCancel}>Cancel</Text>
+              </TouchableOpacity>
+              <Text style={styles.modalTitle}>Review Write-Off</Text>
+              <View />
+            </View>
+
+            <ScrollView style={styles.modalContent}>
+              <View style={styles.filterSection}>
+                <Text style={styles.filterSectionTitle}>{writeOffReviewLoan.loan_number}</Text>
+                <Text style={styles.reviewText}>
+                  Borrower: {(writeOffReviewLoan as any).borrower?.user?.full_name || 'Unknown'}
+                </Text>
+                <Text style={styles.reviewText}>Principal: {formatCurrency(pendingWriteOff.principal_written_off)}</Text>
+                <Text style={styles.reviewText}>Interest: {formatCurrency(pendingWriteOff.interest_written_off)}</Text>
+                <Text style={styles.reviewText}>Charges: {formatCurrency(pendingWriteOff.charges_written_off)}</Text>
+                <Text style={styles.reviewText}>Total: {formatCurrency(pendingWriteOff.total_written_off)}</Text>
+                <Text style={styles.reviewText}>Reason: {pendingWriteOff.reason}</Text>
+                <Text style={styles.reviewText}>Requested: {formatDate(pendingWriteOff.requested_at)}</Text>
+              </View>
+
+              <Input
+                label="Comments"
+                value={reviewComments}
+                onChangeText={setReviewComments}
+                placeholder="Required when rejecting"
+                multiline
+              />
+            </ScrollView>
+
+            <View style={[styles.modalFooter, styles.reviewActions]}>
+              <Button
+                title="Reject"
+                type="outline"
+                buttonStyle={styles.rejectButton}
+                titleStyle={styles.rejectButtonText}
+                containerStyle={styles.reviewActionButton}
+                disabled={writeOffReviewMutation.isPending}
+                onPress={() => writeOffReviewMutation.mutate({ loan: writeOffReviewLoan, writeOffId: pendingWriteOff.id, decision: 'reject' })}
+              />
+              <Button
+                title="Write Off"
+                buttonStyle={styles.applyFiltersButton}
+                containerStyle={styles.reviewActionButton}
+                loading={writeOffReviewMutation.isPending}
+                onPress={() => writeOffReviewMutation.mutate({ loan: writeOffReviewLoan, writeOffId: pendingWriteOff.id, decision: 'approve' })}
+              />
+            </View>
+          </View>
+        )}
+      </Modal>
+
     </View>
   );
 };
@@ -889,4 +1152,29 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     paddingVertical: 12,
   },
+  reviewText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 6,
+  },
+  reviewWarning: {
+    fontSize: 13,
+    color: '#ff9800',
+    marginTop: 6,
+  },
+  reviewActions: {
+    flexDirection: 'row',
+  },
+  reviewActionButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  rejectButton: {
+    borderColor: '#f44336',
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  rejectButtonText: {
+    color: '#f44336',
+  },
 });
\ No newline at end of file
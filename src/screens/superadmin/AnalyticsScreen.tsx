@@ -28,10 +28,19 @@ import { AnalyticsService } from '../../services/analytics/analyticsService';
 import { LoanService } from '../../services/loans/loanService';
 import { UserService } from '../../services/users/userService';
 import { supabase } from '../../services/supabase/config';
-import { formatCurrency, formatDate } from '../../utils';
+import { DPDBucket, LossPeriod } from '../../types';
+import { formatCurrency, formatDate, formatDPDBucket } from '../../utils';
 
 const { width: screenWidth } = Dimensions.get('window');
 
+const DPD_BUCKET_COLORS: Record<DPDBucket, string> = {
+  current: '#4caf50',
+  dpd_1_30: '#ffc107',
+  dpd_31_60: '#ff9800',
+  dpd_61_90: '#f44336',
+  npa: '#b71c1c'
+};
+
 interface AnalyticsData {
   systemMetrics: {
     totalLoans: number;
@@ -80,10 +89,13 @@ export const AnalyticsScreen: React.FC = () => {
   const [selectedPeriod, setSelectedPeriod] = useState<'7d' | '30d' | '90d' | '1y'>('30d');
   const [selectedMetric, setSelectedMetric] = useState<'disbursed' | 'collected' | 'loans'>('disbursed');
   const [showExportModal, setShowExportModal] = useState(false);
+  const [lossPeriod, setLossPeriod] = useState<LossPeriod>('month');
 
   // Period and metric options
   const periodButtons = ['7 Days', '30 Days', '90 Days', '1 Year'];
   const metricButtons = ['Disbursed', 'Collected', 'Loans'];
+  const lossPeriods: LossPeriod[] = ['month', 'quarter', 'year'];
+  const lossPeriodButtons = ['Month', 'Quarter', 'Year'];
 
   // Fetch comprehensive analytics data
   const { 
@@ -98,6 +110,20 @@ export const AnalyticsScreen: React.FC = () => {
     staleTime: 30000, // Consider data stale after 30 seconds
   });
 
+  // Open portfolio by days past due
+  const { data: delinquencyResponse, refetch: refetchDelinquency } = useQuery({
+    queryKey: ['delinquencySummary'],
+    queryFn: () => AnalyticsService.getDelinquencySummary(),
+    staleTime: 60000,
+  });
+
+  // Credit losses on written-off loans and recoveries against them
+  const { data: lossResponse, refetch: refetchLosses } = useQuery({
+    queryKey: ['lossAnalytics', lossPeriod],
+    queryFn: () => AnalyticsService.getLossAnalytics(lossPeriod),
+    staleTime: 60000,
+  });
+
   /**
    * Get comprehensive analytics data
    */
@@ -220,7 +246,7 @@ export const AnalyticsScreen: React.FC = () => {
 
       const disbursed = monthLoans.reduce((sum, loan) => sum + loan.principal_amount, 0);
       const collected = monthLoans.reduce((sum, loan) => {
-        const payments = (loan as any).payments || [];
+        const payments = ((loan as any).payments || []).filter((payment: any) => LoanService.isCollectedPayment(payment));
         return sum + payments.reduce((paySum: number, payment: any) => paySum + payment.amount, 0);
       }, 0);
 
@@ -332,7 +358,7 @@ export const AnalyticsScreen: React.FC = () => {
   const onRefresh = async () => {
     setRefreshing(true);
     try {
-      await refetch();
+      await Promise.all([refetch(), refetchDelinquency(), refetchLosses()]);
       queryClient.invalidateQueries({ queryKey: ['comprehensiveAnalytics'] });
     } finally {
       setRefreshing(false);
@@ -387,6 +413,8 @@ export const AnalyticsScreen: React.FC = () => {
   }
 
   const analytics = analyticsResponse.data!;
+  const losses = lossResponse?.success ? lossResponse.data : undefined;
+  const delinquency = delinquencyResponse?.success ? delinquencyResponse.data : undefined;
 
   return (
     <ScrollView 
@@ -611,6 +639,110 @@ export const AnalyticsScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* Portfolio by DPD */}
+        {delinquency && (
+          <View style={styles.chartCard}>
+            <Text style={styles.chartTitle}>Portfolio by Days Past Due</Text>
+            <Text style={styles.lenderStats}>
+              Outstanding {formatCurrency(delinquency.total_outstanding)} • NPA {delinquency.npa_ratio.toFixed(1)}%
+            </Text>
+
+            <View style={styles.pieChartContainer}>
+              {delinquency.buckets.map((item) => {
+                const share = delinquency.total_outstanding > 0
+                  ? (item.outstanding_principal / delinquency.total_outstanding) * 100
+                  : 0;
+                return (
+                  <View key={item.bucket} style={styles.pieSegment}>
+                    <View style={[styles.pieSegmentBar, { backgroundColor: DPD_BUCKET_COLORS[item.bucket], width: `${share}%` }]} />
+                    <Text style={styles.pieSegmentText}>
+                      {formatDPDBucket(item.bucket)}: {item.loans} loans • {formatCurrency(item.outstanding_principal)} ({share.toFixed(1)}%)
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {/* Credit Losses */}
+        <View style={styles.chartCard}>
+          <View style={styles.chartHeader}>
+            <Text style={styles.chartTitle}>Credit Losses</Text>
+            <View style={styles.metricSelector}>
+              <ButtonGroup
+                onPress={(index) => setLossPeriod(lossPeriods[index])}
+                selectedIndex={lossPeriods.indexOf(lossPeriod)}
+                buttons={lossPeriodButtons}
+                containerStyle={styles.metricButtonGroup}
+                selectedButtonStyle={styles.selectedMetricButton}
+                innerBorderStyle={{ width: 0 }}
+              />
+            </View>
+          </View>
+
+          {!losses || losses.totals.written_off_loans === 0 ? (
+            <Text style={styles.lossEmptyText}>No loans have been written off</Text>
+          ) : (
+            <>
+              <View style={styles.lossTotals}>
+                <View style={styles.lossTotalItem}>
+                  <Text style={styles.lossTotalValue}>{formatCurrency(losses.totals.gross_loss)}</Text>
+                  <Text style={styles.metricLabel}>Gross Loss</Text>
+                </View>
+                <View style={styles.lossTotalItem}>
+                  <Text style={styles.lossTotalValue}>{formatCurrency(losses.totals.recoveries)}</Text>
+                  <Text style={styles.metricLabel}>Recovered</Text>
+                </View>
+                <View style={styles.lossTotalItem}>
+                  <Text style={styles.lossTotalValue}>{formatCurrency(losses.totals.net_loss)}</Text>
+                  <Text style={styles.metricLabel}>Net Loss</Text>
+                </View>
+                <View style={styles.lossTotalItem}>
+                  <Text style={styles.lossTotalValue}>{losses.totals.recovery_rate.toFixed(1)}%</Text>
+                  <Text style={styles.metricLabel}>Recovery Rate</Text>
+                </View>
+              </View>
+
+              <Text style={styles.lossSectionTitle}>By Lender</Text>
+              <View style={styles.lenderList}>
+                {losses.by_lender.map((item) => (
+                  <View key={item.lender.id} style={styles.lenderItem}>
+                    <View style={styles.lenderDetails}>
+                      <Text style={styles.lenderName}>{item.lender.full_name}</Text>
+                      <Text style={styles.lenderStats}>
+                        {item.written_off_loans} loans • Gross {formatCurrency(item.gross_loss)} • Net {formatCurrency(item.net_loss)}
+                      </Text>
+                    </View>
+                    <View style={styles.lenderMetrics}>
+                      <Text style={styles.collectionRate}>{item.recovery_rate.toFixed(1)}%</Text>
+                      <Text style={styles.metricLabel}>Recovered</Text>
+                    </View>
+                  </View>
+                ))}
+              </View>
+
+              <Text style={styles.lossSectionTitle}>By Write-Off Period</Text>
+              <View style={styles.lenderList}>
+                {losses.by_period.map((item) => (
+                  <View key={item.period} style={styles.lenderItem}>
+                    <View style={styles.lenderDetails}>
+                      <Text style={styles.lenderName}>{item.period}</Text>
+                      <Text style={styles.lenderStats}>
+                        {item.written_off_loans} loans • Gross {formatCurrency(item.gross_loss)} • Net {formatCurrency(item.net_loss)}
+                      </Text>
+                    </View>
+                    <View style={styles.lenderMetrics}>
+                      <Text style={styles.collectionRate}>{item.recovery_rate.toFixed(1)}%</Text>
+                      <Text style={styles.metricLabel}>Recovered</Text>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            </>
+          )}
+        </View>
+
         {/* Export Options Modal */}
         {showExportModal && (
           <View style={styles.modalOverlay}>
@@ -961,6 +1093,36 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#4caf50',
   },
+  lossTotals: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  lossTotalItem: {
+    width: '48%',
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  lossTotalValue: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 2,
+  },
+  lossSectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 12,
+  },
+  lossEmptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
   modalOverlay: {
     position: 'absolute',
     top: 0,
@@ -0,0 +1,1126 @@
+// src/screens/superadmin/LoanProductsScreen.tsx
+// Loan products catalog - super admins define the terms lenders can offer
+// Each product sets principal, rate and tenure ranges, fees, penalty policy and eligibility
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  Text,
+  RefreshControl,
+  Alert,
+  TouchableOpacity,
+  Modal
+} from 'react-native';
+import {
+  Button,
+  Badge,
+  Input,
+  ButtonGroup
+} from 'react-native-elements';
+import { Ionicons } from '@expo/vector-icons';
+import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
+
+import { ProductService, LoanProductForm } from '../../services/products/productService';
+import { AuthService } from '../../services/auth/authService';
+import {
+  LoanProduct,
+  User,
+  RepaymentFrequency,
+  InterestMethod,
+  ChargeTreatment
+} from '../../types';
+import {
+  formatCurrency,
+  formatRepaymentFrequency,
+  formatInterestMethod,
+  formatChargeTreatment
+} from '../../utils';
+
+const REPAYMENT_FREQUENCIES: RepaymentFrequency[] = ['daily', 'weekly', 'bi_weekly', 'monthly'];
+const INTEREST_METHODS: InterestMethod[] = ['reducing_balance', 'flat', 'interest_only_bullet'];
+const CHARGE_TREATMENTS: ChargeTreatment[] = ['deducted', 'financed'];
+
+interface ProductFormData {
+  name: string;
+  code: string;
+  description: string;
+  min_principal: string;
+  max_principal: string;
+  min_interest_rate: string;
+  max_interest_rate: string;
+  min_tenure_months: string;
+  max_tenure_months: string;
+  repayment_frequencies: RepaymentFrequency[];
+  interest_methods: InterestMethod[];
+  processing_fee_rate: string;
+  insurance_rate: string;
+  gst_rate: string;
+  charges_treatment: ChargeTreatment;
+  grace_days: string;
+  penal_rate: string;
+  flat_fee: string;
+  bounce_charge: string;
+  min_credit_score: string;
+  min_monthly_income: string;
+  employment_types: string; // Comma-separated
+}
+
+const EMPTY_FORM: ProductFormData = {
+  name: '',
+  code: '',
+  description: '',
+  min_principal: '',
+  max_principal: '',
+  min_interest_rate: '',
+  max_interest_rate: '',
+  min_tenure_months: '',
+  max_tenure_months: '',
+  repayment_frequencies: ['monthly'],
+  interest_methods: ['reducing_balance'],
+  processing_fee_rate: '',
+  insurance_rate: '',
+  gst_rate: '',
+  charges_treatment: 'deducted',
+  grace_days: '3',
+  penal_rate: '24',
+  flat_fee: '',
+  bounce_charge: '',
+  min_credit_score: '',
+  min_monthly_income: '',
+  employment_types: ''
+};
+
+/**
+ * Blank optional numeric fields stay unset rather than becoming zero
+ */
+const toOptionalNumber = (value: string): number | undefined =>
+  value.trim() ? parseFloat(value) : undefined;
+
+export const LoanProductsScreen: React.FC = () => {
+  const queryClient = useQueryClient();
+
+  const [refreshing, setRefreshing] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [viewMode, setViewMode] = useState<'all' | 'active'>('all');
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<LoanProduct | null>(null);
+  const [formData, setFormData] = useState<ProductFormData>(EMPTY_FORM);
+  const [formErrors, setFormErrors] = useState<Partial<Record<keyof ProductFormData, string>>>({});
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+
+  const viewModeButtons = ['All Products', 'Active Only'];
+
+  useEffect(() => {
+    const getCurrentUser = async () => {
+      const user = await AuthService.getCurrentUser();
+      setCurrentUser(user);
+    };
+    getCurrentUser();
+  }, []);
+
+  const {
+    data: productsResponse,
+    isLoading,
+    error,
+    refetch
+  } = useQuery({
+    queryKey: ['loanProducts', searchQuery, viewMode],
+    queryFn: () => ProductService.getProducts({
+      active_only: viewMode === 'active',
+      search: searchQuery || undefined
+    }),
+  });
+
+  const saveProductMutation = useMutation({
+    mutationFn: (productData: LoanProductForm) => {
+      if (editingProduct) {
+        return ProductService.updateProduct(editingProduct.id, productData);
+      }
+      if (!currentUser?.id) {
+        return Promise.resolve({ success: false, error: 'User not authenticated' });
+      }
+      return ProductService.createProduct(productData, currentUser.id);
+    },
+    onSuccess: (result) => {
+      if (result.success) {
+        queryClient.invalidateQueries({ queryKey: ['loanProducts'] });
+        Alert.alert('Success', `Product ${editingProduct ? 'updated' : 'created'} successfully!`);
+        closeFormModal();
+      } else {
+        Alert.alert('Error', result.error || 'Failed to save product');
+      }
+    },
+    onError: (error) => {
+      console.error('Save product error:', error);
+      Alert.alert('Error', 'Failed to save product. Please try again.');
+    }
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: (product: LoanProduct) => ProductService.setProductActive(product.id, !product.active),
+    onSuccess: (result) => {
+      if (result.success) {
+        queryClient.invalidateQueries({ queryKey: ['loanProducts'] });
+      } else {
+        Alert.alert('Error', result.error || 'Failed to update product');
+      }
+    }
+  });
+
+  const deleteProductMutation = useMutation({
+    mutationFn: (productId: string) => ProductService.deleteProduct(productId),
+    onSuccess: (result) => {
+      if (result.success) {
+        queryClient.invalidateQueries({ queryKey: ['loanProducts'] });
+        Alert.alert('Success', 'Product deleted');
+      } else {
+        Alert.alert('Error', result.error || 'Failed to delete product');
+      }
+    }
+  });
+
+  /**
+   * Handle pull-to-refresh
+   */
+  const onRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await refetch();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const openCreateModal = () => {
+    setEditingProduct(null);
+    setFormData(EMPTY_FORM);
+    setFormErrors({});
+    setShowFormModal(true);
+  };
+
+  const openEditModal = (product: LoanProduct) => {
+    setEditingProduct(product);
+    setFormData({
+      name: product.name,
+      code: product.code,
+      description: product.description || '',
+      min_principal: product.min_principal.toString(),
+      max_principal: product.max_principal.toString(),
+      min_interest_rate: product.min_interest_rate.toString(),
+      max_interest_rate: product.max_interest_rate.toString(),
+      min_tenure_months: product.min_tenure_months.toString(),
+      max_tenure_months: product.max_tenure_months.toString(),
+      repayment_frequencies: product.repayment_frequencies,
+      interest_methods: product.interest_methods,
+      processing_fee_rate: product.processing_fee_rate ? product.processing_fee_rate.toString() : '',
+      insurance_rate: product.insurance_rate ? product.insurance_rate.toString() : '',
+      gst_rate: product.gst_rate !== undefined && product.gst_rate !== null ? product.gst_rate.toString() : '',
+      charges_treatment: product.charges_treatment || 'deducted',
+      grace_days: product.penalty_policy ? product.penalty_policy.grace_days.toString() : '',
+      penal_rate: product.penalty_policy?.penal_rate ? product.penalty_policy.penal_rate.toString() : '',
+      flat_fee: product.penalty_policy?.flat_fee ? product.penalty_policy.flat_fee.toString() : '',
+      bounce_charge: product.penalty_policy?.bounce_charge !== undefined ? product.penalty_policy.bounce_charge.toString() : '',
+      min_credit_score: product.eligibility?.min_credit_score?.toString() || '',
+      min_monthly_income: product.eligibility?.min_monthly_income?.toString() || '',
+      employment_types: (product.eligibility?.employment_types || []).join(', ')
+    });
+    setFormErrors({});
+    setShowFormModal(true);
+  };
+
+  const closeFormModal = () => {
+    setShowFormModal(false);
+    setEditingProduct(null);
+    setFormData(EMPTY_FORM);
+    setFormErrors({});
+  };
+
+  /**
+   * Toggle a value in a multi-select chip group, keeping at least one selected
+   */
+  const toggleOption = <T extends string>(values: T[], value: T): T[] => {
+    if (values.includes(value)) {
+      return values.length > 1 ? values.filter(v => v !== value) : values;
+    }
+    return [...values, value];
+  };
+
+  /**
+   * Validate required fields and ranges; limits against the system caps are
+   * checked again by the service
+   */
+  const validateForm = (): boolean => {
+    const errors: Partial<Record<keyof ProductFormData, string>> = {};
+
+    if (!formData.name.trim()) {
+      errors.name = 'Product name is required';
+    }
+
+    if (!formData.code.trim()) {
+      errors.code = 'Product code is required';
+    }
+
+    const minPrincipal = parseFloat(formData.min_principal);
+    const maxPrincipal = parseFloat(formData.max_principal);
+    if (!minPrincipal || minPrincipal <= 0) {
+      errors.min_principal = 'Enter a valid minimum amount';
+    }
+    if (!maxPrincipal || maxPrincipal < minPrincipal) {
+      errors.max_principal = 'Maximum must be at least the minimum';
+    }
+
+    const minRate = parseFloat(formData.min_interest_rate);
+    const maxRate = parseFloat(formData.max_interest_rate);
+    if (isNaN(minRate) || minRate < 0) {
+      errors.min_interest_rate = 'Enter a valid minimum rate';
+    }
+    if (isNaN(maxRate) || maxRate < minRate) {
+      errors.max_interest_rate = 'Maximum must be at least the minimum';
+    }
+
+    const minTenure = parseInt(formData.min_tenure_months);
+    const maxTenure = parseInt(formData.max_tenure_months);
+    if (!minTenure || minTenure <= 0) {
+      errors.min_tenure_months = 'Enter a valid minimum tenure';
+    }
+    if (!maxTenure || maxTenure < minTenure) {
+      errors.max_tenure_months = 'Maximum must be at least the minimum';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSaveProduct = () => {
+    if (!validateForm()) return;
+
+    const employmentTypes = formData.employment_types
+      .split(',')
+      .map(type => type.trim())
+      .filter(Boolean);
+
+    const productData: LoanProductForm = {
+      name: formData.name,
+      code: formData.code,
+      description: formData.description || undefined,
+      min_principal: parseFloat(formData.min_principal),
+      max_principal: parseFloat(formData.max_principal),
+      min_interest_rate: parseFloat(formData.min_interest_rate),
+      max_interest_rate: parseFloat(formData.max_interest_rate),
+      min_tenure_months: parseInt(formData.min_tenure_months),
+      max_tenure_months: parseInt(formData.max_tenure_months),
+      repayment_frequencies: formData.repayment_frequencies,
+      interest_methods: formData.interest_methods,
+      processing_fee_rate: toOptionalNumber(formData.processing_fee_rate),
+      insurance_rate: toOptionalNumber(formData.insurance_rate),
+      gst_rate: toOptionalNumber(formData.gst_rate),
+      charges_treatment: formData.charges_treatment,
+      // Products without grace days fall back to the system penalty policy
+      penalty_policy: formData.grace_days.trim()
+        ? {
+          grace_days: parseInt(formData.grace_days),
+          penal_rate: toOptionalNumber(formData.penal_rate),
+          flat_fee: toOptionalNumber(formData.flat_fee),
+          bounce_charge: toOptionalNumber(formData.bounce_charge)
+        }
+        : undefined,
+      eligibility: {
+        min_credit_score: toOptionalNumber(formData.min_credit_score),
+        min_monthly_income: toOptionalNumber(formData.min_monthly_income),
+        employment_types: employmentTypes.length > 0 ? employmentTypes : undefined
+      }
+    };
+
+    saveProductMutation.mutate(productData);
+  };
+
+  const handleToggleActive = (product: LoanProduct) => {
+    Alert.alert(
+      product.active ? 'Deactivate Product' : 'Activate Product',
+      product.active
+        ? `Stop offering ${product.name} on new loans? Existing loans are not affected.`
+        : `Offer ${product.name} on new loans again?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: product.active ? 'Deactivate' : 'Activate',
+          style: product.active ? 'destructive' : 'default',
+          onPress: () => toggleActiveMutation.mutate(product)
+        }
+      ]
+    );
+  };
+
+  const handleDeleteProduct = (product: LoanProduct) => {
+    Alert.alert(
+      'Delete Product',
+      `Delete ${product.name}? Loans already issued on it keep their terms.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => deleteProductMutation.mutate(product.id)
+        }
+      ]
+    );
+  };
+
+  if (isLoading && !productsResponse) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Ionicons name="pricetags" size={48} color="#2196f3" />
+        <Text style={styles.loadingText}>Loading Products...</Text>
+      </View>
+    );
+  }
+
+  if (error || !productsResponse?.success) {
+    return (
+      <View style={styles.errorContainer}>
+        <Ionicons name="alert-circle" size={48} color="#f44336" />
+        <Text style={styles.errorText}>Failed to load loan products</Text>
+        <Button title="Retry" onPress={() => refetch()} />
+      </View>
+    );
+  }
+
+  const products = productsResponse.data || [];
+  const activeCount = products.filter(product => product.active).length;
+
+  return (
+    <View style={styles.container}>
+
+      {/* Header */}
+      <View style={styles.header}>
+        <View>
+          <Text style={styles.headerTitle}>Loan Products</Text>
+          <Text style={styles.headerSubtitle}>
+            {products.length} product{products.length !== 1 ? 's' : ''} • {activeCount} active
+          </Text>
+        </View>
+        <Button
+          title="Add Product"
+          icon={<Ionicons name="add" size={16} color="white" />}
+          buttonStyle={styles.addButton}
+          onPress={openCreateModal}
+        />
+      </View>
+
+      {/* View Mode Toggle */}
+      <View style={styles.viewModeContainer}>
+        <ButtonGroup
+          onPress={(index) => setViewMode(index === 0 ? 'all' : 'active')}
+          selectedIndex={viewMode === 'all' ? 0 : 1}
+          buttons={viewModeButtons}
+          containerStyle={styles.buttonGroupContainer}
+          selectedButtonStyle={styles.selectedButtonStyle}
+          innerBorderStyle={{ width: 0 }}
+        />
+      </View>
+
+      {/* Search Input */}
+      <View style={styles.searchContainer}>
+        <Input
+          placeholder="Search by name or code..."
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          leftIcon={<Ionicons name="search" size={20} color="#9CA3AF" />}
+          rightIcon={
+            searchQuery ? (
+              <TouchableOpacity onPress={() => setSearchQuery('')}>
+                <Ionicons name="close-circle" size={20} color="#9CA3AF" />
+              </TouchableOpacity>
+            ) : undefined
+          }
+          containerStyle={styles.searchInputWrapper}
+          inputContainerStyle={styles.searchInputContainer}
+        />
+      </View>
+
+      {/* Products List */}
+      <ScrollView
+        style={styles.listContainer}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+      >
+        {products.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="pricetags-outline" size={64} color="#9e9e9e" />
+            <Text style={styles.emptyStateText}>No loan products found</Text>
+            <Text style={styles.emptyStateSubtext}>
+              {searchQuery
+                ? 'Try adjusting your search'
+                : 'Create a product so lenders can start offering loans'
+              }
+            </Text>
+          </View>
+        ) : (
+          products.map((product) => (
+            <View key={product.id} style={styles.productCard}>
+              <View style={styles.productHeader}>
+                <View style={styles.productTitle}>
+                  <Text style={styles.productName}>{product.name}</Text>
+                  <Text style={styles.productCode}>{product.code}</Text>
+                </View>
+                <Badge
+                  value={product.active ? 'Active' : 'Inactive'}
+                  badgeStyle={{ backgroundColor: product.active ? '#4caf50' : '#9e9e9e' }}
+                  textStyle={{ fontSize: 10 }}
+                />
+              </View>
+
+              {product.description ? (
+                <Text style={styles.productDescription}>{product.description}</Text>
+              ) : null}
+
+              <View style={styles.termRow}>
+                <Text style={styles.termLabel}>Amount</Text>
+                <Text style={styles.termValue}>
+                  {formatCurrency(product.min_principal)} - {formatCurrency(product.max_principal)}
+                </Text>
+              </View>
+              <View style={styles.termRow}>
+                <Text style={styles.termLabel}>Interest Rate</Text>
+                <Text style={styles.termValue}>
+                  {product.min_interest_rate}% - {product.max_interest_rate}% p.a.
+                </Text>
+              </View>
+              <View style={styles.termRow}>
+                <Text style={styles.termLabel}>Tenure</Text>
+                <Text style={styles.termValue}>
+                  {product.min_tenure_months} - {product.max_tenure_months} months
+                </Text>
+              </View>
+              <View style={styles.termRow}>
+                <Text style={styles.termLabel}>Repayment</Text>
+                <Text style={styles.termValue}>
+                  {product.repayment_frequencies.map(frequency => formatRepaymentFrequency(frequency)).join(', ')}
+                </Text>
+              </View>
+              <View style={styles.termRow}>
+                <Text style={styles.termLabel}>Interest Method</Text>
+                <Text style={styles.termValue}>
+                  {product.interest_methods.map(method => formatInterestMethod(method)).join(', ')}
+                </Text>
+              </View>
+              <View style={styles.termRow}>
+                <Text style={styles.termLabel}>Fees</Text>
+                <Text style={styles.termValue}>
+                  {product.processing_fee_rate || 0}% processing
+                  {product.insurance_rate ? ` + ${product.insurance_rate}% insurance` : ''}
+                  {' '}({formatChargeTreatment(product.charges_treatment)})
+                </Text>
+              </View>
+
+              <View style={styles.productActions}>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => openEditModal(product)}
+                >
+                  <Ionicons name="pencil" size={16} color="#2196f3" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, { marginLeft: 8 }]}
+                  onPress={() => handleToggleActive(product)}
+                >
+                  <Ionicons
+                    name={product.active ? 'pause' : 'play'}
+                    size={16}
+                    color={product.active ? '#ff9800' : '#4caf50'}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, { marginLeft: 8 }]}
+                  onPress={() => handleDeleteProduct(product)}
+                >
+                  <Ionicons name="trash" size={16} color="#f44336" />
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))
+        )}
+      </ScrollView>
+
+      {/* Create / Edit Product Modal */}
+      <Modal
+        visible={showFormModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={closeFormModal}>
+              <Ionicons name="close" size={24} color="#333" />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>{editingProduct ? 'Edit Product' : 'New Loan Product'}</Text>
+            <View style={{ width: 24 }} />
+          </View>
+
+          <ScrollView style={styles.modalContent} showsVerticalScrollIndicator={false}>
+            <View style={styles.formContainer}>
+
+              <Input
+                label="Product Name *"
+                value={formData.name}
+                onChangeText={(value) => setFormData({...formData, name: value})}
+                errorMessage={formErrors.name}
+                containerStyle={styles.inputContainer}
+              />
+
+              <Input
+                label="Product Code *"
+                placeholder="e.g., PL-STD"
+                value={formData.code}
+                onChangeText={(value) => setFormData({...formData, code: value})}
+                errorMessage={formErrors.code}
+                autoCapitalize="characters"
+                containerStyle={styles.inputContainer}
+              />
+
+              <Input
+                label="Description (Optional)"
+                value={formData.description}
+                onChangeText={(value) => setFormData({...formData, description: value})}
+                multiline
+                containerStyle={styles.inputContainer}
+              />
+
+              <Text style={styles.sectionTitle}>Loan Terms</Text>
+
+              <View style={styles.rangeRow}>
+                <Input
+                  label="Min Amount (₹) *"
+                  value={formData.min_principal}
+                  onChangeText={(value) => setFormData({...formData, min_principal: value})}
+                  errorMessage={formErrors.min_principal}
+                  keyboardType="numeric"
+                  containerStyle={styles.rangeInput}
+                />
+                <Input
+                  label="Max Amount (₹) *"
+                  value={formData.max_principal}
+                  onChangeText={(value) => setFormData({...formData, max_principal: value})}
+                  errorMessage={formErrors.max_principal}
+                  keyboardType="numeric"
+                  containerStyle={styles.rangeInput}
+                />
+              </View>
+
+              <View style={styles.rangeRow}>
+                <Input
+                  label="Min Rate (% p.a.) *"
+                  value={formData.min_interest_rate}
+                  onChangeText={(value) => setFormData({...formData, min_interest_rate: value})}
+                  errorMessage={formErrors.min_interest_rate}
+                  keyboardType="decimal-pad"
+                  containerStyle={styles.rangeInput}
+                />
+                <Input
+                  label="Max Rate (% p.a.) *"
+                  value={formData.max_interest_rate}
+                  onChangeText={(value) => setFormData({...formData, max_interest_rate: value})}
+                  errorMessage={formErrors.max_interest_rate}
+                  keyboardType="decimal-pad"
+                  containerStyle={styles.rangeInput}
+                />
+              </View>
+
+              <View style={styles.rangeRow}>
+                <Input
+                  label="Min Tenure (Months) *"
+                  value={formData.min_tenure_months}
+                  onChangeText={(value) => setFormData({...formData, min_tenure_months: value})}
+                  errorMessage={formErrors.min_tenure_months}
+                  keyboardType="numeric"
+                  containerStyle={styles.rangeInput}
+                />
+                <Input
+                  label="Max Tenure (Months) *"
+                  value={formData.max_tenure_months}
+                  onChangeText={(value) => setFormData({...formData, max_tenure_months: value})}
+                  errorMessage={formErrors.max_tenure_months}
+                  keyboardType="numeric"
+                  containerStyle={styles.rangeInput}
+                />
+              </View>
+
+              <View style={styles.optionGroup}>
+                <Text style={styles.optionGroupLabel}>Repayment Frequencies *</Text>
+                <View style={styles.optionRow}>
+                  {REPAYMENT_FREQUENCIES.map((frequency) => {
+                    const isSelected = formData.repayment_frequencies.includes(frequency);
+                    return (
+                      <TouchableOpacity
+                        key={frequency}
+                        style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                        onPress={() => setFormData({
+                          ...formData,
+                          repayment_frequencies: toggleOption(formData.repayment_frequencies, frequency)
+                        })}
+                      >
+                        <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                          {formatRepaymentFrequency(frequency)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+
+              <View style={styles.optionGroup}>
+                <Text style={styles.optionGroupLabel}>Interest Methods *</Text>
+                <View style={styles.optionRow}>
+                  {INTEREST_METHODS.map((method) => {
+                    const isSelected = formData.interest_methods.includes(method);
+                    return (
+                      <TouchableOpacity
+                        key={method}
+                        style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                        onPress={() => setFormData({
+                          ...formData,
+                          interest_methods: toggleOption(formData.interest_methods, method)
+                        })}
+                      >
+                        <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                          {formatInterestMethod(method)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+
+              <Text style={styles.sectionTitle}>Fees</Text>
+
+              <View style={styles.rangeRow}>
+                <Input
+                  label="Processing Fee (%)"
+                  placeholder="Excl. GST"
+                  value={formData.processing_fee_rate}
+                  onChangeText={(value) => setFormData({...formData, processing_fee_rate: value})}
+                  keyboardType="decimal-pad"
+                  containerStyle={styles.rangeInput}
+                />
+                <Input
+                  label="Insurance (%)"
+                  value={formData.insurance_rate}
+                  onChangeText={(value) => setFormData({...formData, insurance_rate: value})}
+                  keyboardType="decimal-pad"
+                  containerStyle={styles.rangeInput}
+                />
+              </View>
+
+              <Input
+                label="GST on Fees (%)"
+                placeholder="Default 18"
+                value={formData.gst_rate}
+                onChangeText={(value) => setFormData({...formData, gst_rate: value})}
+                keyboardType="decimal-pad"
+                containerStyle={styles.inputContainer}
+              />
+
+              <View style={styles.optionGroup}>
+                <Text style={styles.optionGroupLabel}>Upfront Charges</Text>
+                <View style={styles.optionRow}>
+                  {CHARGE_TREATMENTS.map((treatment) => {
+                    const isSelected = formData.charges_treatment === treatment;
+                    return (
+                      <TouchableOpacity
+                        key={treatment}
+                        style={[styles.optionChip, isSelected && styles.optionChipSelected]}
+                        onPress={() => setFormData({...formData, charges_treatment: treatment})}
+                      >
+                        <Text style={[styles.optionChipText, isSelected && styles.optionChipTextSelected]}>
+                          {formatChargeTreatment(treatment)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+
+              <Text style={styles.sectionTitle}>Penalty Policy</Text>
+              <Text style={styles.sectionHint}>Leave grace days blank to use the system default policy.</Text>
+
+              <Input
+                label="Grace Days"
+                value={formData.grace_days}
+                onChangeText={(value) => setFormData({...formData, grace_days: value})}
+                keyboardType="numeric"
+                containerStyle={styles.inputContainer}
+              />
+
+              <View style={styles.rangeRow}>
+                <Input
+                  label="Penal Rate (% p.a.)"
+                  value={formData.penal_rate}
+                  onChangeText={(value) => setFormData({...formData, penal_rate: value})}
+                  keyboardType="decimal-pad"
+                  containerStyle={styles.rangeInput}
+                />
+                <Input
+                  label="Late Fee (₹)"
+                  value={formData.flat_fee}
+                  onChangeText={(value) => setFormData({...formData, flat_fee: value})}
+                  keyboardType="numeric"
+                  containerStyle={styles.rangeInput}
+                />
+              </View>
+
+              <Input
+                label="Cheque Bounce Charge (₹)"
+                value={formData.bounce_charge}
+                onChangeText={(value) => setFormData({...formData, bounce_charge: value})}
+                keyboardType="numeric"
+                placeholder="System default when blank"
+                containerStyle={styles.inputContainer}
+              />
+
+              <Text style={styles.sectionTitle}>Eligibility</Text>
+              <Text style={styles.sectionHint}>Blank criteria are not checked.</Text>
+
+              <View style={styles.rangeRow}>
+                <Input
+                  label="Min Credit Score"
+                  value={formData.min_credit_score}
+                  onChangeText={(value) => setFormData({...formData, min_credit_score: value})}
+                  keyboardType="numeric"
+                  containerStyle={styles.rangeInput}
+                />
+                <Input
+                  label="Min Monthly Income (₹)"
+                  value={formData.min_monthly_income}
+                  onChangeText={(value) => setFormData({...formData, min_monthly_income: value})}
+                  keyboardType="numeric"
+                  containerStyle={styles.rangeInput}
+                />
+              </View>
+
+              <Input
+                label="Employment Types"
+                placeholder="e.g., salaried, self-employed"
+                value={formData.employment_types}
+                onChangeText={(value) => setFormData({...formData, employment_types: value})}
+                autoCapitalize="none"
+                containerStyle={styles.inputContainer}
+              />
+
+            </View>
+          </ScrollView>
+
+          <View style={styles.modalFooter}>
+            <Button
+              title="Cancel"
+              type="outline"
+              buttonStyle={styles.cancelButton}
+              titleStyle={styles.cancelButtonText}
+              onPress={closeFormModal}
+            />
+            <Button
+              title={editingProduct ? 'Update Product' : 'Create Product'}
+              buttonStyle={styles.createButton}
+              titleStyle={styles.createButtonText}
+              loading={saveProductMutation.isPending}
+              onPress={handleSaveProduct}
+            />
+          </View>
+        </View>
+      </Modal>
+
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#666',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    padding: 20,
+  },
+  errorText: {
+    marginTop: 16,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    textAlign: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  headerSubtitle: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  addButton: {
+    backgroundColor: '#2196f3',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+  },
+  viewModeContainer: {
+    backgroundColor: 'white',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  buttonGroupContainer: {
+    marginBottom: 12,
+    borderRadius: 8,
+    borderColor: '#e0e0e0',
+    height: 40,
+  },
+  selectedButtonStyle: {
+    backgroundColor: '#2196f3',
+  },
+  searchContainer: {
+    backgroundColor: 'white',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  searchInputWrapper: {
+    paddingHorizontal: 0,
+  },
+  searchInputContainer: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    borderBottomWidth: 0,
+    paddingHorizontal: 12,
+  },
+  listContainer: {
+    flex: 1,
+    padding: 16,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyStateText: {
+    fontSize: 18,
+    fontWeight: '500',
+    color: '#666',
+    marginTop: 16,
+  },
+  emptyStateSubtext: {
+    fontSize: 14,
+    color: '#999',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  productCard: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  productHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  productTitle: {
+    flex: 1,
+  },
+  productName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  productCode: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  productDescription: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  termRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  termLabel: {
+    fontSize: 13,
+    color: '#999',
+  },
+  termValue: {
+    fontSize: 13,
+    color: '#333',
+    fontWeight: '500',
+    flex: 1,
+    textAlign: 'right',
+    marginLeft: 12,
+  },
+  productActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+  actionButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f8f9fa',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+    backgroundColor: 'white',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  modalContent: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  formContainer: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  inputContainer: {
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 16,
+    marginBottom: 8,
+    paddingHorizontal: 10,
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 8,
+    paddingHorizontal: 10,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+  },
+  rangeInput: {
+    flex: 1,
+    marginBottom: 8,
+  },
+  optionGroup: {
+    paddingHorizontal: 10,
+    marginBottom: 16,
+  },
+  optionGroupLabel: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#86939e',
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    backgroundColor: 'white',
+  },
+  optionChipSelected: {
+    borderColor: '#2196f3',
+    backgroundColor: '#f3f8ff',
+  },
+  optionChipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  optionChipTextSelected: {
+    color: '#2196f3',
+    fontWeight: '600',
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    padding: 16,
+    paddingBottom: 32,
+    borderTopWidth: 1,
+    borderTopColor: '#e0e0e0',
+    backgroundColor: 'white',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    borderColor: '#d1d5db',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  cancelButtonText: {
+    color: '#6b7280',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  createButton: {
+    flex: 1,
+    backgroundColor: '#2196f3',
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  createButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -93,8 +93,11 @@ const handleLogout = async () => {
     const statusConfig = {
       'active': { color: '#4caf50', text: 'Active' },
       'pending_approval': { color: '#ff9800', text: 'Pending' },
+      'approved': { color: '#00bcd4', text: 'Approved' },
       'completed': { color: '#2196f3', text: 'Completed' },
-      'defaulted': { color: '#f44336', text: 'Defaulted' }
+      'defaulted': { color: '#f44336', text: 'Defaulted' },
+      'written_off': { color: '#795548', text: 'Written Off' },
+      'rejected': { color: '#9e9e9e', text: 'Rejected' }
     };
     
     const config = statusConfig[status as keyof typeof statusConfig] || { color: '#9e9e9e', text: status };
@@ -4,5 +4,6 @@
 export { SuperAdminDashboardScreen } from './SuperAdminDashboardScreen';
 export { ManageLendersScreen } from './ManageLendersScreen';
 export { AllLoansScreen } from './AllLoansScreen';
+export { LoanProductsScreen } from './LoanProductsScreen';
 export { AnalyticsScreen } from './AnalyticsScreen';
 export { SettingsScreen } from './SettingsScreen';
\ No newline at end of file
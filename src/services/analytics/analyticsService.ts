@@ -7,8 +7,17 @@ import {
   LoanAnalytics, 
   LenderPerformance, 
   SuperAdminDashboard,
+  LossAnalytics,
+  LossSummary,
+  LossPeriod,
+  DelinquencySummary,
+  DPDBucket,
+  User,
   ApiResponse 
 } from '../../types';
+import { Money } from '../../utils/money';
+import { DPD_BUCKETS } from '../calculations/delinquencyService';
+import { LoanService } from '../loans/loanService';
 
 export class AnalyticsService {
 
@@ -83,7 +92,7 @@ export class AnalyticsService {
         .select(`
           principal_amount,
           status,
-          payments(amount)
+          payments(amount, status, payment_method, cheque_status)
         `)
         .is('deleted_at', null);
 
@@ -95,14 +104,13 @@ export class AnalyticsService {
       const totalLoans = loanCounts?.length || 0;
       const activeLoans = loanCounts?.filter(loan => loan.status === 'active').length || 0;
       
-      const totalAmountDisbursed = financialData?.reduce((sum, loan) => 
-        sum + (loan.principal_amount || 0), 0) || 0;
+      const totalAmountDisbursed = Money.sumOf((financialData || []).map(loan =>
+        loan.principal_amount || 0)).toNumber();
       
-      const totalAmountCollected = financialData?.reduce((sum, loan) => {
-        const loanPayments = loan.payments?.reduce((paymentSum: number, payment: any) => 
-          paymentSum + (payment.amount || 0), 0) || 0;
-        return sum + loanPayments;
-      }, 0) || 0;
+      const totalAmountCollected = Money.sumOf((financialData || []).flatMap(loan =>
+        (loan.payments || [])
+          .filter((payment: any) => LoanService.isCollectedPayment(payment))
+          .map((payment: any) => payment.amount || 0))).toNumber();
 
       // Calculate default rate (defaulted loans / total loans)
       const defaultedLoans = loanCounts?.filter(loan => loan.status === 'defaulted').length || 0;
@@ -222,7 +230,7 @@ export class AnalyticsService {
             id,
             principal_amount,
             status,
-            payments(amount)
+            payments(amount, status, payment_method, cheque_status)
           `)
           .in('borrower_id', borrowerIds)
           .is('deleted_at', null);
@@ -235,12 +243,11 @@ export class AnalyticsService {
         const defaultRate = totalLoans > 0 ? (defaultedLoans / totalLoans) * 100 : 0;
 
         // Calculate collection rate
-        const totalDisbursed = loans?.reduce((sum, loan) => sum + loan.principal_amount, 0) || 0;
-        const totalCollected = loans?.reduce((sum, loan) => {
-          const loanPayments = loan.payments?.reduce((paymentSum: number, payment: any) => 
-            paymentSum + payment.amount, 0) || 0;
-          return sum + loanPayments;
-        }, 0) || 0;
+        const totalDisbursed = Money.sumOf((loans || []).map(loan => loan.principal_amount)).toNumber();
+        const totalCollected = Money.sumOf((loans || []).flatMap(loan =>
+          (loan.payments || [])
+            .filter((payment: any) => LoanService.isCollectedPayment(payment))
+            .map((payment: any) => payment.amount))).toNumber();
         
         const collectionRate = totalDisbursed > 0 ? (totalCollected / totalDisbursed) * 100 : 0;
 
@@ -270,6 +277,169 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Get credit loss on written-off loans: gross loss, recoveries, net loss and
+   * recovery rate overall, by lender and by the period the loans were written off
+   * @param period - Grouping for the period breakdown
+   * @param dateFrom - Only loans written off on or after this date
+   * @param dateTo - Only loans written off on or before this date
+   * @returns Promise with loss analytics
+   */
+  static async getLossAnalytics(
+    period: LossPeriod = 'month',
+    dateFrom?: string,
+    dateTo?: string
+  ): Promise<ApiResponse<LossAnalytics>> {
+    try {
+      let query = supabase
+        .from('loans')
+        .select(`
+          id,
+          written_off_at,
+          borrower:borrowers(
+            lender:users!borrowers_lender_id_fkey(id, full_name, email, role, phone, created_at, updated_at)
+          ),
+          write_offs:loan_write_offs(total_written_off, status),
+          recoveries:loan_recoveries(amount)
+        `)
+        .eq('status', 'written_off')
+        .is('deleted_at', null);
+
+      if (dateFrom) {
+        query = query.gte('written_off_at', dateFrom);
+      }
+
+      if (dateTo) {
+        query = query.lte('written_off_at', dateTo);
+      }
+
+      const { data, error } = await query.order('written_off_at', { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      const loans = (data || []).map((loan: any) => ({
+        writtenOffAt: loan.written_off_at as string,
+        lender: loan.borrower?.lender as User | undefined,
+        grossLoss: Money.sumOf((loan.write_offs || [])
+          .filter((writeOff: any) => writeOff.status === 'approved')
+          .map((writeOff: any) => writeOff.total_written_off)).toNumber(),
+        recoveries: Money.sumOf((loan.recoveries || []).map((recovery: any) => recovery.amount)).toNumber()
+      }));
+
+      // Group by lender
+      const lenderGroups: { [lenderId: string]: { lender: User; loans: typeof loans } } = {};
+      loans.forEach(loan => {
+        if (!loan.lender) return;
+        if (!lenderGroups[loan.lender.id]) {
+          lenderGroups[loan.lender.id] = { lender: loan.lender, loans: [] };
+        }
+        lenderGroups[loan.lender.id].loans.push(loan);
+      });
+
+      // Group by write-off period; recoveries count towards the period the loan was written off
+      const periodGroups: { [period: string]: typeof loans } = {};
+      loans.forEach(loan => {
+        const key = this.getPeriodKey(loan.writtenOffAt, period);
+        if (!periodGroups[key]) {
+          periodGroups[key] = [];
+        }
+        periodGroups[key].push(loan);
+      });
+
+      return {
+        success: true,
+        data: {
+          totals: this.summarizeLoss(loans),
+          by_lender: Object.values(lenderGroups)
+            .map(group => ({ lender: group.lender, ...this.summarizeLoss(group.loans) }))
+            .sort((a, b) => b.net_loss - a.net_loss),
+          by_period: Object.entries(periodGroups)
+            .map(([key, periodLoans]) => ({ period: key, ...this.summarizeLoss(periodLoans) }))
+            .sort((a, b) => a.period.localeCompare(b.period))
+        }
+      };
+
+    } catch (error) {
+      console.error('Loss analytics error:', error);
+      return {
+        success: false,
+        error: 'Failed to calculate loss analytics.'
+      };
+    }
+  }
+
+  /**
+   * Get the open portfolio by DPD bucket: loans and outstanding principal in
+   * each bucket, and the share of outstanding principal classified NPA
+   * @param lenderId - Only loans to this lender's borrowers
+   * @returns Promise with delinquency summary
+   */
+  static async getDelinquencySummary(lenderId?: string): Promise<ApiResponse<DelinquencySummary>> {
+    try {
+      let query = supabase
+        .from('loans')
+        .select(`
+          dpd_bucket,
+          borrower:borrowers!inner(lender_id),
+          emis(principal_component, amount, status)
+        `)
+        .in('status', ['active', 'defaulted'])
+        .is('deleted_at', null);
+
+      if (lenderId) {
+        query = query.eq('borrower.lender_id', lenderId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      const totals: { [bucket: string]: { loans: number; outstanding: Money } } = {};
+      DPD_BUCKETS.forEach(bucket => {
+        totals[bucket] = { loans: 0, outstanding: Money.ZERO };
+      });
+
+      (data || []).forEach((loan: any) => {
+        const bucket: DPDBucket = loan.dpd_bucket || 'current';
+        const outstanding = Money.sumOf((loan.emis || [])
+          .filter((emi: any) => emi.status !== 'paid' && emi.status !== 'closed' && emi.status !== 'restructured')
+          .map((emi: any) => emi.principal_component ?? emi.amount));
+
+        totals[bucket].loans++;
+        totals[bucket].outstanding = totals[bucket].outstanding.add(outstanding);
+      });
+
+      const totalOutstanding = Money.sum(DPD_BUCKETS.map(bucket => totals[bucket].outstanding));
+      const npaRatio = totalOutstanding.isPositive()
+        ? (totals.npa.outstanding.toNumber() / totalOutstanding.toNumber()) * 100
+        : 0;
+
+      return {
+        success: true,
+        data: {
+          buckets: DPD_BUCKETS.map(bucket => ({
+            bucket,
+            loans: totals[bucket].loans,
+            outstanding_principal: totals[bucket].outstanding.toNumber()
+          })),
+          total_outstanding: totalOutstanding.toNumber(),
+          npa_ratio: Number(npaRatio.toFixed(2))
+        }
+      };
+
+    } catch (error) {
+      console.error('Delinquency summary error:', error);
+      return {
+        success: false,
+        error: 'Failed to calculate the DPD summary.'
+      };
+    }
+  }
+
   /**
    * Get overdue loans summary
    * @returns Promise with overdue summary
@@ -285,7 +455,7 @@ export class AnalyticsService {
       }
 
       const count = data?.length || 0;
-      const amount = data?.reduce((sum, emi) => sum + (emi.amount || 0), 0) || 0;
+      const amount = Money.sumOf((data || []).map(emi => emi.amount || 0)).toNumber();
 
       return {
         success: true,
@@ -389,7 +559,9 @@ export class AnalyticsService {
         }
         
         monthlyData[month].count++;
-        monthlyData[month].amount += loan.principal_amount || 0;
+        monthlyData[month].amount = Money.of(monthlyData[month].amount)
+          .add(Money.of(loan.principal_amount || 0))
+          .toNumber();
       });
 
       // Convert to array format
@@ -412,4 +584,35 @@ export class AnalyticsService {
       };
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Sum gross loss and recoveries for a group of written-off loans
+   */
+  private static summarizeLoss(loans: Array<{ grossLoss: number; recoveries: number }>): LossSummary {
+    const grossLoss = Money.sumOf(loans.map(loan => loan.grossLoss));
+    const recoveries = Money.sumOf(loans.map(loan => loan.recoveries));
+    const recoveryRate = grossLoss.isPositive() ? (recoveries.toNumber() / grossLoss.toNumber()) * 100 : 0;
+
+    return {
+      written_off_loans: loans.length,
+      gross_loss: grossLoss.toNumber(),
+      recoveries: recoveries.toNumber(),
+      net_loss: Money.max(Money.ZERO, grossLoss.subtract(recoveries)).toNumber(),
+      recovery_rate: Number(recoveryRate.toFixed(2))
+    };
+  }
+
+  /**
+   * Period a date falls in: 2024-03 (month), 2024-Q1 (quarter) or 2024 (year)
+   */
+  private static getPeriodKey(date: string, period: LossPeriod): string {
+    const [year, month] = date.split('-');
+    if (period === 'year') {
+      return year;
+    }
+    if (period === 'quarter') {
+      return `${year}-Q${Math.ceil(Number(month) / 3)}`;
+    }
+    return `${year}-${month}`;
+  }
+}
@@ -0,0 +1,63 @@
+// src/services/calculations/__tests__/delinquencyService.test.ts
+// Days past due and bucket/NPA classification
+
+import { DelinquencyEMI, DelinquencyService, NPA_THRESHOLD_DAYS } from '../delinquencyService';
+
+const emis: DelinquencyEMI[] = [
+  { emi_number: 1, due_date: '2024-01-01', status: 'paid' },
+  { emi_number: 2, due_date: '2024-02-01', status: 'overdue' },
+  { emi_number: 3, due_date: '2024-03-01', status: 'partially_paid' },
+  { emi_number: 4, due_date: '2024-04-01', status: 'pending' }
+];
+
+describe('DelinquencyService.classify', () => {
+  it('measures DPD from the oldest unpaid EMI past due', () => {
+    const result = DelinquencyService.classify(emis, new Date('2024-03-02'));
+    expect(result).toEqual({ dpd: 30, bucket: 'dpd_1_30', oldestUnpaidDueDate: '2024-02-01' });
+  });
+
+  it('is current when nothing unpaid is past due', () => {
+    const result = DelinquencyService.classify(emis.slice(0, 1), new Date('2024-03-02'));
+    expect(result).toEqual({ dpd: 0, bucket: 'current', oldestUnpaidDueDate: null });
+  });
+
+  it('does not count an EMI on its due date', () => {
+    const result = DelinquencyService.classify(
+      [{ emi_number: 1, due_date: '2024-02-01', status: 'pending' }],
+      new Date('2024-02-01')
+    );
+    expect(result.dpd).toBe(0);
+  });
+
+  it('ignores closed and restructured EMIs', () => {
+    const result = DelinquencyService.classify(
+      [
+        { emi_number: 1, due_date: '2024-01-01', status: 'restructured' },
+        { emi_number: 2, due_date: '2024-02-01', status: 'closed' }
+      ],
+      new Date('2024-06-01')
+    );
+    expect(result.bucket).toBe('current');
+  });
+
+  it('keeps an NPA loan in NPA until every overdue EMI is cleared', () => {
+    const asOf = new Date('2024-03-02');
+    expect(DelinquencyService.classify(emis, asOf, 'npa').bucket).toBe('npa');
+    expect(DelinquencyService.classify(emis.slice(0, 1), asOf, 'npa').bucket).toBe('current');
+  });
+});
+
+describe('DelinquencyService.getBucket', () => {
+  it.each([
+    [0, 'current'],
+    [1, 'dpd_1_30'],
+    [30, 'dpd_1_30'],
+    [31, 'dpd_31_60'],
+    [60, 'dpd_31_60'],
+    [61, 'dpd_61_90'],
+    [NPA_THRESHOLD_DAYS, 'dpd_61_90'],
+    [NPA_THRESHOLD_DAYS + 1, 'npa']
+  ])('puts %i days past due in %s', (dpd, bucket) => {
+    expect(DelinquencyService.getBucket(dpd)).toBe(bucket);
+  });
+});
@@ -0,0 +1,368 @@
+// src/services/calculations/__tests__/emiCalculationService.test.ts
+// Schedules, quotes and re-amortization from the EMI calculation engine
+
+import { EMICalculationService, EMIScheduleItem, LoanParameters } from '../emiCalculationService';
+import { Money } from '../../../utils/money';
+
+// Dates are built and read in local time, the same way the engine builds due dates
+const disbursedOn = new Date(2024, 0, 15);
+const loan: LoanParameters = { principal: 100000, annualInterestRate: 12, tenureMonths: 12 };
+
+const dueDates = (schedule: EMIScheduleItem[]): string[] =>
+  schedule.map(item => EMICalculationService.toDateKey(item.dueDate));
+const totalPrincipal = (schedule: EMIScheduleItem[]): number =>
+  Money.sumOf(schedule.map(item => item.principalComponent)).toNumber();
+
+describe('repayment frequencies', () => {
+  it('calculates a level monthly EMI that repays the principal exactly', () => {
+    const result = EMICalculationService.calculateEMI(loan, disbursedOn);
+
+    expect(result.emiAmount).toBe(8884.88);
+    expect(result.numberOfInstallments).toBe(12);
+    expect(totalPrincipal(result.schedule)).toBe(100000);
+    expect(result.schedule[11].outstandingPrincipal).toBe(0);
+    expect(result.schedule.every(item =>
+      Money.of(item.principalComponent).add(Money.of(item.interestComponent)).equals(Money.of(item.emiAmount))
+    )).toBe(true);
+  });
+
+  it.each([
+    ['daily', 365, '2024-01-16', '2024-01-17'],
+    ['weekly', 52, '2024-01-22', '2024-01-29'],
+    ['bi_weekly', 26, '2024-01-29', '2024-02-12'],
+    ['monthly', 12, '2024-02-15', '2024-03-15']
+  ] as const)('steps %s installments from the disbursement date', (frequency, installments, first, second) => {
+    const result = EMICalculationService.calculateEMI({ ...loan, repaymentFrequency: frequency }, disbursedOn);
+
+    expect(result.numberOfInstallments).toBe(installments);
+    expect(dueDates(result.schedule).slice(0, 2)).toEqual([first, second]);
+    expect(totalPrincipal(result.schedule)).toBe(100000);
+  });
+});
+
+describe('interest methods', () => {
+  it('charges flat interest on the original principal for the whole tenure', () => {
+    const result = EMICalculationService.calculateEMI({ ...loan, interestMethod: 'flat' }, disbursedOn);
+
+    expect(result.totalInterest).toBe(12000);
+    expect(result.emiAmount).toBe(9333.33);
+    expect(Money.sumOf(result.schedule.map(item => item.emiAmount)).toNumber()).toBe(112000);
+  });
+
+  it('collects interest only and repays the principal with the last installment', () => {
+    const result = EMICalculationService.calculateEMI({ ...loan, interestMethod: 'interest_only_bullet' }, disbursedOn);
+
+    expect(result.schedule.slice(0, 11).every(item => item.emiAmount === 1000 && item.principalComponent === 0)).toBe(true);
+    expect(result.schedule[11]).toMatchObject({ emiAmount: 101000, principalComponent: 100000, outstandingPrincipal: 0 });
+  });
+});
+
+describe('APR', () => {
+  it('annualizes the periodic rate when there are no fees', () => {
+    const { schedule } = EMICalculationService.calculateEMI(loan, disbursedOn);
+    expect(EMICalculationService.calculateAPR(100000, schedule, disbursedOn)).toBeCloseTo(12.68, 1);
+  });
+
+  it('rises when fees reduce the amount the borrower receives', () => {
+    const { schedule } = EMICalculationService.calculateEMI(loan, disbursedOn);
+    const withoutFees = EMICalculationService.calculateAPR(100000, schedule, disbursedOn);
+    expect(EMICalculationService.calculateAPR(100000, schedule, disbursedOn, 2000)).toBeGreaterThan(withoutFees);
+  });
+
+  it('includes upfront charges in the schedule summary', () => {
+    const result = EMICalculationService.calculateEMI(
+      { ...loan, upfrontCharges: { processingFee: 2000 } },
+      disbursedOn
+    );
+
+    expect(result.summary.effectiveInterestRate).toBe(
+      EMICalculationService.calculateAPR(100000, result.schedule, disbursedOn, result.charges.totalCharges)
+    );
+    expect(result.summary.effectiveInterestRate).toBeGreaterThan(12.68);
+  });
+
+  it('needs at least two cash flows', () => {
+    expect(() => EMICalculationService.calculateXIRR([{ amount: -100, date: disbursedOn }])).toThrow();
+  });
+});
+
+describe('part-prepayment', () => {
+  const { schedule } = EMICalculationService.calculateEMI(loan, disbursedOn);
+
+  it('keeps the EMI and shortens the tenure', () => {
+    const result = EMICalculationService.calculatePrepayment(schedule, 20000, 3, loan, 'reduce_tenure');
+
+    expect(result.outstandingAfter).toBe(Money.of(result.outstandingBefore).subtract(Money.of(20000)).toNumber());
+    expect(result.newEMIAmount).toBe(8884.88);
+    expect(result.revisedSchedule.length).toBeLessThan(9);
+    expect(totalPrincipal(result.revisedSchedule)).toBe(result.outstandingAfter);
+    expect(result.comparison.interestSaved).toBeGreaterThan(0);
+  });
+
+  it('keeps the tenure and lowers the EMI', () => {
+    const result = EMICalculationService.calculatePrepayment(schedule, 20000, 3, loan, 'reduce_emi');
+
+    expect(result.revisedSchedule).toHaveLength(9);
+    expect(result.revisedSchedule[0].emiNumber).toBe(4);
+    expect(result.newEMIAmount).toBeLessThan(8884.88);
+    expect(dueDates(result.revisedSchedule)).toEqual(dueDates(schedule.slice(3)));
+    expect(totalPrincipal(result.revisedSchedule)).toBe(result.outstandingAfter);
+  });
+
+  it('closes the loan when the whole outstanding is prepaid', () => {
+    const outstanding = schedule[2].outstandingPrincipal;
+    const result = EMICalculationService.calculatePrepayment(schedule, outstanding, 3, loan);
+
+    expect(result.loanClosed).toBe(true);
+    expect(result.revisedSchedule).toHaveLength(0);
+  });
+
+  it('rejects a prepayment above the outstanding principal', () => {
+    expect(() => EMICalculationService.calculatePrepayment(schedule, 200000, 3, loan)).toThrow(/outstanding principal/);
+  });
+});
+
+describe('foreclosure quote', () => {
+  it('adds accrued interest, dues, charges and the foreclosure charge to the principal', () => {
+    const quote = EMICalculationService.calculateForeclosureQuote(
+      50000,
+      12,
+      new Date(2024, 5, 1),
+      new Date(2024, 5, 11),
+      2,
+      1000,
+      250
+    );
+
+    expect(quote).toMatchObject({
+      outstandingPrincipal: 50000,
+      accruedDays: 10,
+      accruedInterest: 164.38,
+      overdueAmount: 1000,
+      outstandingCharges: 250,
+      foreclosureCharge: 1000,
+      totalPayable: 52414.38
+    });
+  });
+
+  it('accrues no interest before the interest start date', () => {
+    const quote = EMICalculationService.calculateForeclosureQuote(50000, 12, new Date(2024, 5, 11), new Date(2024, 5, 1));
+    expect(quote).toMatchObject({ accruedDays: 0, accruedInterest: 0, totalPayable: 50000 });
+  });
+});
+
+describe('late-payment penalty', () => {
+  const policy = { grace_days: 5, penal_rate: 24, flat_fee: 100 };
+
+  it('charges nothing within the grace period', () => {
+    expect(EMICalculationService.calculateLatePenalty(10000, 5, policy)).toBe(0);
+  });
+
+  it('charges the flat fee plus penal interest from the due date', () => {
+    expect(EMICalculationService.calculateLatePenalty(10000, 30, policy)).toBe(297.26);
+  });
+
+  it('limits the penalty to the cap', () => {
+    expect(EMICalculationService.calculateLatePenalty(10000, 300, { ...policy, cap: 500 })).toBe(500);
+  });
+});
+
+describe('moratorium and first EMI date', () => {
+  it('capitalizes moratorium interest and starts amortizing after it', () => {
+    const result = EMICalculationService.calculateEMI({ ...loan, moratoriumMonths: 3 }, disbursedOn);
+
+    expect(result.moratorium.capitalizedInterest).toBe(3030.1);
+    expect(result.schedule).toHaveLength(12);
+    expect(dueDates(result.schedule)[0]).toBe('2024-05-15');
+    expect(totalPrincipal(result.schedule)).toBe(103030.1);
+  });
+
+  it('collects interest-only installments during an interest-only moratorium', () => {
+    const result = EMICalculationService.calculateEMI(
+      { ...loan, moratoriumMonths: 3, moratoriumTreatment: 'interest_only' },
+      disbursedOn
+    );
+
+    expect(result.schedule).toHaveLength(15);
+    expect(result.schedule.slice(0, 3).every(item => item.isMoratorium && item.emiAmount === 1000)).toBe(true);
+    expect(dueDates(result.schedule).slice(2, 4)).toEqual(['2024-04-15', '2024-05-15']);
+  });
+
+  it('charges broken-period interest with a later first EMI date', () => {
+    const result = EMICalculationService.calculateEMI({ ...loan, firstEMIDate: new Date(2024, 2, 1) }, disbursedOn);
+
+    expect(result.moratorium.brokenPeriodInterest).toBe(493.15);
+    expect(result.schedule[0].interestComponent).toBe(1493.15);
+    expect(dueDates(result.schedule).slice(0, 3)).toEqual(['2024-03-01', '2024-04-01', '2024-05-01']);
+  });
+
+  it('keeps month-end due dates on the month end', () => {
+    const result = EMICalculationService.calculateEMI(loan, new Date(2025, 0, 31));
+
+    expect(dueDates(result.schedule)).toEqual([
+      '2025-02-28', '2025-03-31', '2025-04-30', '2025-05-31', '2025-06-30', '2025-07-31',
+      '2025-08-31', '2025-09-30', '2025-10-31', '2025-11-30', '2025-12-31', '2026-01-31'
+    ]);
+  });
+
+  it('steps from the day of an explicit month-end first EMI date', () => {
+    const result = EMICalculationService.calculateEMI(
+      { ...loan, firstEMIDate: new Date(2024, 0, 31) },
+      new Date(2024, 0, 2)
+    );
+
+    expect(dueDates(result.schedule).slice(0, 3)).toEqual(['2024-01-31', '2024-02-29', '2024-03-31']);
+  });
+
+  it('rejects a first EMI date before the disbursement', () => {
+    const validation = EMICalculationService.validateLoanParameters(
+      { ...loan, firstEMIDate: new Date(2023, 0, 1) },
+      disbursedOn
+    );
+    expect(validation.isValid).toBe(false);
+  });
+});
+
+describe('rate change', () => {
+  const { schedule } = EMICalculationService.calculateEMI(loan, disbursedOn);
+
+  it('re-amortizes the remaining principal at the new rate over the same due dates', () => {
+    const result = EMICalculationService.calculateRateChange(schedule, 7, 14, loan);
+
+    expect(result.outstandingPrincipal).toBe(schedule[5].outstandingPrincipal);
+    expect(result.revisedSchedule).toHaveLength(6);
+    expect(result.revisedSchedule[0].emiNumber).toBe(7);
+    expect(dueDates(result.revisedSchedule)).toEqual(dueDates(schedule.slice(6)));
+    expect(result.newEMIAmount).toBeGreaterThan(result.previousEMIAmount);
+    expect(totalPrincipal(result.revisedSchedule)).toBe(result.outstandingPrincipal);
+    expect(result.comparison.interestDifference).toBeGreaterThan(0);
+  });
+
+  it('rejects an EMI number outside the schedule', () => {
+    expect(() => EMICalculationService.calculateRateChange(schedule, 13, 14, loan)).toThrow();
+  });
+
+  it('rejects a negative rate', () => {
+    expect(() => EMICalculationService.calculateRateChange(schedule, 7, -1, loan)).toThrow();
+  });
+});
+
+describe('upfront charges', () => {
+  const upfrontCharges = { processingFee: 2000 };
+
+  it('deducts the fee and GST from the amount paid out', () => {
+    const { charges } = EMICalculationService.calculateEMI({ ...loan, upfrontCharges }, disbursedOn);
+
+    expect(charges).toMatchObject({
+      gstOnFees: 360,
+      totalCharges: 2360,
+      loanPrincipal: 100000,
+      netDisbursement: 97640
+    });
+  });
+
+  it('adds financed charges to the principal the schedule repays', () => {
+    const result = EMICalculationService.calculateEMI(
+      { ...loan, upfrontCharges: { ...upfrontCharges, treatment: 'financed' } },
+      disbursedOn
+    );
+
+    expect(result.charges).toMatchObject({ loanPrincipal: 102360, netDisbursement: 100000 });
+    expect(totalPrincipal(result.schedule)).toBe(102360);
+  });
+});
+
+describe('repayment structures', () => {
+  it('raises the EMI at each step on a step-up loan', () => {
+    const result = EMICalculationService.calculateEMI(
+      { ...loan, repaymentStructure: 'step_up', stepPercent: 10, stepIntervalMonths: 6 },
+      disbursedOn
+    );
+    const amounts = result.schedule.map(item => item.emiAmount);
+
+    expect(amounts[6]).toBeCloseTo(amounts[0] * 1.1, 1);
+    expect(totalPrincipal(result.schedule)).toBe(100000);
+  });
+
+  it('lowers the EMI at each step on a step-down loan', () => {
+    const result = EMICalculationService.calculateEMI(
+      { ...loan, repaymentStructure: 'step_down', stepPercent: 10, stepIntervalMonths: 6 },
+      disbursedOn
+    );
+    const amounts = result.schedule.map(item => item.emiAmount);
+
+    expect(amounts[6]).toBeCloseTo(amounts[0] * 0.9, 1);
+    expect(totalPrincipal(result.schedule)).toBe(100000);
+  });
+
+  it('repays the balloon with the final installment', () => {
+    const result = EMICalculationService.calculateEMI(
+      { ...loan, repaymentStructure: 'balloon', balloonPercent: 30 },
+      disbursedOn
+    );
+
+    expect(result.balloonAmount).toBeCloseTo(30000, 0);
+    expect(result.schedule[11].emiAmount).toBe(Money.of(result.emiAmount).add(Money.of(result.balloonAmount)).toNumber());
+    expect(totalPrincipal(result.schedule)).toBe(100000);
+  });
+
+  it('refuses to flatten a stepped or balloon schedule on a rate change or part-prepayment', () => {
+    const params: LoanParameters = { ...loan, repaymentStructure: 'balloon', balloonPercent: 30 };
+    const { schedule } = EMICalculationService.calculateEMI(params, disbursedOn);
+
+    expect(() => EMICalculationService.calculateRateChange(schedule, 7, 14, params)).toThrow(/level EMI/);
+    expect(() => EMICalculationService.calculatePrepayment(schedule, 10000, 3, params, 'reduce_emi')).toThrow(/level EMI/);
+    expect(EMICalculationService.calculatePrepayment(schedule, schedule[2].outstandingPrincipal, 3, params).loanClosed).toBe(true);
+  });
+});
+
+describe('business day adjustment', () => {
+  // Sundays off, plus a holiday on Monday 19 February 2024
+  const businessCalendar = { weeklyOffDays: [0], holidays: ['2024-02-19'] };
+  const sunday = EMICalculationService.parseDateKey('2024-02-18');
+
+  it('reads date keys as local dates', () => {
+    expect(sunday.getDay()).toBe(0);
+    expect(EMICalculationService.toDateKey(sunday)).toBe('2024-02-18');
+    expect(EMICalculationService.isBusinessDay(sunday, businessCalendar)).toBe(false);
+    expect(EMICalculationService.isBusinessDay(EMICalculationService.parseDateKey('2024-02-20'), businessCalendar)).toBe(true);
+  });
+
+  it('rolls forward past weekly offs and holidays', () => {
+    const adjusted = EMICalculationService.adjustToBusinessDay(sunday, businessCalendar, 'next_business_day');
+    expect(EMICalculationService.toDateKey(adjusted)).toBe('2024-02-20');
+  });
+
+  it('rolls back to the previous business day', () => {
+    const adjusted = EMICalculationService.adjustToBusinessDay(sunday, businessCalendar, 'previous_business_day');
+    expect(EMICalculationService.toDateKey(adjusted)).toBe('2024-02-17');
+  });
+
+  it('moves only the dates that fall on a non-collection day', () => {
+    const result = EMICalculationService.calculateEMI(
+      { ...loan, businessCalendar, dueDateAdjustment: 'next_business_day' },
+      new Date(2024, 0, 18)
+    );
+    expect(dueDates(result.schedule).slice(0, 3)).toEqual(['2024-02-20', '2024-03-18', '2024-04-18']);
+  });
+});
+
+describe('tranche disbursement', () => {
+  const { schedule } = EMICalculationService.calculateEMI(loan, disbursedOn);
+
+  it('adds the tranche from the next installment and re-amortizes over the same due dates', () => {
+    const result = EMICalculationService.calculateTrancheDisbursement(schedule, 50000, new Date(2024, 3, 1), loan);
+
+    expect(result.effectiveEmiNumber).toBe(3);
+    expect(result.outstandingAfter).toBe(Money.of(result.outstandingBefore).add(Money.of(50000)).toNumber());
+    expect(dueDates(result.revisedSchedule)).toEqual(dueDates(schedule.slice(2)));
+    expect(totalPrincipal(result.revisedSchedule)).toBe(result.outstandingAfter);
+    expect(result.brokenPeriodInterest).toBeGreaterThan(0);
+  });
+
+  it('rejects a tranche after the last installment', () => {
+    expect(() =>
+      EMICalculationService.calculateTrancheDisbursement(schedule, 50000, new Date(2025, 1, 1), loan)
+    ).toThrow();
+  });
+});
@@ -0,0 +1,122 @@
+// src/services/calculations/__tests__/paymentAllocationService.test.ts
+// Chronological payment allocation through the waterfall
+
+import { AllocationEMI, PaymentAllocationService } from '../paymentAllocationService';
+
+const emis = (): AllocationEMI[] => [
+  { id: 'emi-1', emi_number: 1, due_date: '2024-02-01', amount: 1000, interest_component: 200 },
+  { id: 'emi-2', emi_number: 2, due_date: '2024-03-01', amount: 1000, interest_component: 180 },
+  { id: 'emi-3', emi_number: 3, due_date: '2024-04-01', amount: 1000, interest_component: 160 }
+];
+
+const asOf = new Date('2024-03-15');
+
+describe('PaymentAllocationService.allocate', () => {
+  it('clears the oldest EMI first and carries the rest forward', () => {
+    const result = PaymentAllocationService.allocate(
+      [{ id: 'pay-1', amount: 1500, payment_date: '2024-02-01' }],
+      emis(),
+      undefined,
+      asOf
+    );
+
+    const [first, second, third] = result.emis;
+    expect(first).toMatchObject({ status: 'paid', paid_amount: 1000, paid_date: '2024-02-01' });
+    expect(second).toMatchObject({ status: 'partially_paid', paid_interest: 180, paid_principal: 320 });
+    expect(third).toMatchObject({ status: 'pending', paid_amount: 0 });
+    expect(result.unallocated).toBe(0);
+  });
+
+  it('applies payments in date order regardless of input order', () => {
+    const result = PaymentAllocationService.allocate(
+      [
+        { id: 'late', amount: 1000, payment_date: '2024-03-01' },
+        { id: 'early', amount: 1000, payment_date: '2024-02-01' }
+      ],
+      emis(),
+      undefined,
+      asOf
+    );
+
+    expect(result.lines.filter(line => line.emi_id === 'emi-1').every(line => line.payment_id === 'early')).toBe(true);
+    expect(result.emis[1]).toMatchObject({ status: 'paid', paid_date: '2024-03-01' });
+  });
+
+  it('settles charges before interest and principal by default', () => {
+    const withCharge = emis();
+    withCharge[0].charges = [{ id: 'penalty-1', amount: 50 }];
+
+    const result = PaymentAllocationService.allocate(
+      [{ id: 'pay-1', amount: 100, payment_date: '2024-02-10' }],
+      withCharge,
+      undefined,
+      asOf
+    );
+
+    expect(result.lines).toEqual([
+      { payment_id: 'pay-1', emi_id: 'emi-1', charge_id: 'penalty-1', component: 'charges', amount: 50 },
+      { payment_id: 'pay-1', emi_id: 'emi-1', component: 'interest', amount: 50 }
+    ]);
+    expect(result.charges).toEqual([{ charge_id: 'penalty-1', paid_amount: 50 }]);
+  });
+
+  it('follows a configured waterfall', () => {
+    const withCharge = emis();
+    withCharge[0].charges = [{ id: 'penalty-1', amount: 50 }];
+
+    const result = PaymentAllocationService.allocate(
+      [{ id: 'pay-1', amount: 900, payment_date: '2024-02-10' }],
+      withCharge,
+      ['principal', 'interest', 'charges'],
+      asOf
+    );
+
+    expect(result.emis[0]).toMatchObject({ paid_principal: 800, paid_interest: 100, paid_charges: 0 });
+    expect(result.charges).toEqual([{ charge_id: 'penalty-1', paid_amount: 0 }]);
+  });
+
+  it('fills in components missing from a configured waterfall', () => {
+    const result = PaymentAllocationService.allocate(
+      [{ id: 'pay-1', amount: 1000, payment_date: '2024-02-01' }],
+      emis(),
+      ['principal'],
+      asOf
+    );
+
+    expect(result.emis[0]).toMatchObject({ status: 'paid', paid_principal: 800, paid_interest: 200 });
+  });
+
+  it('marks unpaid EMIs past due as overdue', () => {
+    const result = PaymentAllocationService.allocate([], emis(), undefined, asOf);
+    expect(result.emis.map(emi => emi.status)).toEqual(['overdue', 'overdue', 'pending']);
+  });
+
+  it('skips closed EMIs and reports any excess as unallocated', () => {
+    const schedule = emis();
+    schedule[0].status = 'closed';
+
+    const result = PaymentAllocationService.allocate(
+      [{ id: 'pay-1', amount: 2500, payment_date: '2024-02-01' }],
+      schedule,
+      undefined,
+      asOf
+    );
+
+    expect(result.emis.map(emi => emi.emi_id)).toEqual(['emi-2', 'emi-3']);
+    expect(result.unallocated).toBe(500);
+  });
+
+  it('splits amounts exactly in paise', () => {
+    const result = PaymentAllocationService.allocate(
+      [
+        { id: 'pay-1', amount: 0.1, payment_date: '2024-02-01' },
+        { id: 'pay-2', amount: 0.2, payment_date: '2024-02-02' }
+      ],
+      emis(),
+      undefined,
+      asOf
+    );
+
+    expect(result.emis[0].paid_interest).toBe(0.3);
+  });
+});
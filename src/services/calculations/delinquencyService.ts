@@ -0,0 +1,76 @@
+// src/services/calculations/delinquencyService.ts
+// Delinquency engine - days past due (DPD) and bucket/NPA classification for a loan
+// Pure calculation: callers load EMIs (with collection-adjusted due dates) and persist the result
+
+import { DPDBucket, EMIStatus } from '../../types';
+
+// Buckets in order of increasing delinquency
+export const DPD_BUCKETS: DPDBucket[] = ['current', 'dpd_1_30', 'dpd_31_60', 'dpd_61_90', 'npa'];
+
+// Days past due at which a loan is classified NPA
+export const NPA_THRESHOLD_DAYS = 90;
+
+export interface DelinquencyEMI {
+  emi_number: number;
+  due_date: string;
+  status: EMIStatus;
+}
+
+export interface DelinquencyResult {
+  dpd: number;
+  bucket: DPDBucket;
+  oldestUnpaidDueDate: string | null;
+}
+
+export class DelinquencyService {
+
+  /**
+   * Classify a loan from its oldest unpaid EMI.
+   * A loan already classified NPA stays NPA until every overdue EMI is
+   * cleared; partial catch-up alone does not upgrade it.
+   * @param emis Loan EMIs; archived and settled EMIs are ignored
+   * @param asOfDate Date DPD is measured at (default: today)
+   * @param previousBucket The loan's current classification, if any
+   * @returns Days past due, bucket and the due date DPD runs from
+   */
+  static classify(
+    emis: DelinquencyEMI[],
+    asOfDate: Date = new Date(),
+    previousBucket?: DPDBucket
+  ): DelinquencyResult {
+    const asOf = asOfDate.toISOString().split('T')[0];
+
+    const oldestUnpaid = emis
+      .filter(emi => emi.status !== 'paid' && emi.status !== 'closed' && emi.status !== 'restructured')
+      .filter(emi => emi.due_date < asOf)
+      .sort((a, b) => a.due_date.localeCompare(b.due_date) || a.emi_number - b.emi_number)[0];
+
+    const dpd = oldestUnpaid ? this.daysBetween(oldestUnpaid.due_date, asOf) : 0;
+    const bucket = previousBucket === 'npa' && dpd > 0 ? 'npa' : this.getBucket(dpd);
+
+    return {
+      dpd,
+      bucket,
+      oldestUnpaidDueDate: oldestUnpaid ? oldestUnpaid.due_date : null
+    };
+  }
+
+  /**
+   * Bucket for a number of days past due
+   */
+  static getBucket(dpd: number): DPDBucket {
+    if (dpd <= 0) return 'current';
+    if (dpd <= 30) return 'dpd_1_30';
+    if (dpd <= 60) return 'dpd_31_60';
+    if (dpd <= NPA_THRESHOLD_DAYS) return 'dpd_61_90';
+    return 'npa';
+  }
+
+  /**
+   * Whole days from one YYYY-MM-DD date to another
+   */
+  private static daysBetween(from: string, to: string): number {
+    const ms = new Date(to).getTime() - new Date(from).getTime();
+    return Math.max(0, Math.round(ms / (1000 * 60 * 60 * 24)));
+  }
+}
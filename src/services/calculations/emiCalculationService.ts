@@ -2,16 +2,69 @@
 // Enterprise-grade EMI calculation engine with comprehensive loan mathematics
 // Handles all loan calculation scenarios with precision and validation
 
+import {
+  ChargeTreatment,
+  DueDateAdjustment,
+  InterestMethod,
+  MoratoriumTreatment,
+  PenaltyPolicy,
+  RepaymentFrequency,
+  RepaymentStructure
+} from '../../types';
+import { Money, roundMoney } from '../../utils/money';
+
 export interface LoanParameters {
     principal: number;
     annualInterestRate: number;
     tenureMonths: number;
+    repaymentFrequency?: RepaymentFrequency; // Default: monthly
+    interestMethod?: InterestMethod; // Default: reducing_balance
+    repaymentStructure?: RepaymentStructure; // Default: level (reducing_balance only otherwise)
+    stepPercent?: number; // % the EMI rises (step_up) or falls (step_down) at each step
+    stepIntervalMonths?: number; // Months between steps
+    balloonPercent?: number; // % of principal repaid with the final installment (balloon)
+    moratoriumMonths?: number; // Deferral before amortization starts (not part of tenureMonths)
+    moratoriumTreatment?: MoratoriumTreatment; // Default: capitalize
+    firstEMIDate?: Date; // First amortizing EMI; default: one period after the moratorium ends
+    upfrontCharges?: UpfrontChargeParameters; // Fees and insurance collected at disbursement
+    businessCalendar?: BusinessCalendar; // Non-collection days for the loan's branch/region
+    dueDateAdjustment?: DueDateAdjustment; // Default: none
+  }
+  
+  export interface BusinessCalendar {
+    weeklyOffDays: number[]; // 0 = Sunday ... 6 = Saturday
+    holidays: string[]; // YYYY-MM-DD
+  }
+  
+  export interface UpfrontChargeParameters {
+    processingFee?: number; // Flat processing fee, excluding GST
+    insurancePremium?: number; // Optional credit-life insurance premium
+    gstRate?: number; // GST percentage on the processing fee (default: 18)
+    treatment?: ChargeTreatment; // Default: deducted from the disbursement
+  }
+  
+  export interface UpfrontChargesBreakdown {
+    processingFee: number;
+    insurancePremium: number;
+    gstRate: number;
+    gstOnFees: number;
+    totalCharges: number; // Processing fee + GST + insurance
+    treatment: ChargeTreatment;
+    loanPrincipal: number; // Principal amortized by the schedule (includes financed charges)
+    netDisbursement: number; // Amount paid out to the borrower
   }
   
   export interface EMICalculationResult {
     emiAmount: number;
     totalAmount: number;
     totalInterest: number;
+    numberOfInstallments: number;
+    repaymentFrequency: RepaymentFrequency;
+    interestMethod: InterestMethod;
+    repaymentStructure: RepaymentStructure;
+    balloonAmount: number; // Principal repaid with the final installment (balloon only)
+    moratorium: MoratoriumDetails;
+    charges: UpfrontChargesBreakdown;
     schedule: EMIScheduleItem[];
     summary: LoanSummary;
   }
@@ -23,15 +76,100 @@ export interface LoanParameters {
     principalComponent: number;
     interestComponent: number;
     outstandingPrincipal: number;
+    isMoratorium?: boolean; // Interest-only installment collected during the moratorium
+  }
+  
+  export interface MoratoriumDetails {
+    moratoriumMonths: number;
+    treatment: MoratoriumTreatment;
+    moratoriumPeriods: number; // Repayment periods the moratorium defers
+    moratoriumInstallments: number; // Interest-only installments collected (0 when capitalized)
+    capitalizedInterest: number; // Interest added to principal at the end of the moratorium
+    brokenPeriodInterest: number; // Interest adjustment when the first EMI date is moved
+    firstEMIDate: Date; // Due date of the first amortizing EMI
+    customFirstEMIDate: boolean; // First EMI date was set explicitly rather than defaulted
   }
   
   export interface LoanSummary {
     principal: number;
     totalInterest: number;
     totalAmount: number;
-    monthlyEMI: number;
+    monthlyEMI: number; // Installment amount at the loan's repayment frequency
     effectiveInterestRate: number;
     tenureMonths: number;
+    numberOfInstallments: number;
+    repaymentFrequency: RepaymentFrequency;
+    interestMethod: InterestMethod;
+  }
+  
+  export type PrepaymentOption = 'reduce_tenure' | 'reduce_emi';
+  
+  export interface PrepaymentResult {
+    option: PrepaymentOption;
+    prepaymentAmount: number;
+    prepaymentMonth: number;
+    outstandingBefore: number;
+    outstandingAfter: number;
+    loanClosed: boolean;
+    newEMIAmount: number;
+    revisedSchedule: EMIScheduleItem[]; // Remaining installments after the prepayment
+    comparison: {
+      originalRemainingInstallments: number;
+      revisedRemainingInstallments: number;
+      originalRemainingInterest: number;
+      revisedRemainingInterest: number;
+      interestSaved: number;
+    };
+  }
+  
+  export interface RateChangeResult {
+    effectiveEmiNumber: number;
+    previousRate: number;
+    newRate: number;
+    outstandingPrincipal: number; // Principal re-amortized at the new rate
+    previousEMIAmount: number;
+    newEMIAmount: number;
+    revisedSchedule: EMIScheduleItem[]; // Installments from the effective EMI onward
+    comparison: {
+      originalRemainingInterest: number;
+      revisedRemainingInterest: number;
+      interestDifference: number; // Positive when the new rate costs more
+    };
+  }
+  
+  export interface TrancheDisbursementResult {
+    effectiveEmiNumber: number; // First installment that includes the tranche
+    trancheAmount: number;
+    disbursementDate: Date;
+    outstandingBefore: number;
+    outstandingAfter: number; // Principal re-amortized including the tranche
+    brokenPeriodInterest: number; // Interest on the tranche up to the first revised due date
+    previousEMIAmount: number;
+    newEMIAmount: number;
+    revisedSchedule: EMIScheduleItem[]; // Installments from the effective EMI onward
+  }
+  
+  export interface ForeclosureQuote {
+    quoteDate: Date;
+    outstandingPrincipal: number;
+    accruedInterest: number;
+    accruedDays: number;
+    overdueAmount: number; // Unpaid installments already due
+    outstandingCharges: number; // Unpaid penalty and bounce charges from the charges ledger
+    foreclosureChargeRate: number;
+    foreclosureCharge: number;
+    totalPayable: number;
+  }
+  
+  export interface LoanLimits {
+    minPrincipal: number;
+    maxPrincipal: number;
+    minInterestRate: number;
+    maxInterestRate: number;
+    minTenureMonths: number;
+    maxTenureMonths: number;
+    repaymentFrequencies?: RepaymentFrequency[]; // Allowed frequencies (default: all)
+    interestMethods?: InterestMethod[]; // Allowed interest methods (default: all)
   }
   
   export interface ValidationResult {
@@ -42,13 +180,34 @@ export interface LoanParameters {
   
   export class EMICalculationService {
   
-    // Business validation constants
+    // System-wide validation limits; loan products can only narrow them
     private static readonly MIN_PRINCIPAL = 1000; // Minimum loan amount
     private static readonly MAX_PRINCIPAL = 10000000; // Maximum loan amount (1 Crore)
     private static readonly MIN_INTEREST_RATE = 0.1; // Minimum 0.1% annual
     private static readonly MAX_INTEREST_RATE = 36; // Maximum 36% annual (regulatory limit)
     private static readonly MIN_TENURE = 1; // Minimum 1 month
     private static readonly MAX_TENURE = 360; // Maximum 30 years
+    private static readonly MAX_MORATORIUM_MONTHS = 24; // Maximum deferral before repayment starts
+    private static readonly DEFAULT_GST_RATE = 18; // GST % on processing fees
+    private static readonly MAX_STEP_PERCENT = 50; // Largest EMI change allowed at a single step
+    private static readonly MAX_BALLOON_PERCENT = 50; // Largest share of principal left to the final installment
+    private static readonly MAX_DUE_DATE_SHIFT_DAYS = 31; // Give up adjusting past a month of non-business days
+
+    // Repayment periods per year for each supported frequency
+    private static readonly PERIODS_PER_YEAR: Record<RepaymentFrequency, number> = {
+      daily: 365,
+      weekly: 52,
+      bi_weekly: 26,
+      monthly: 12
+    };
+
+    // Maximum tenure (months) allowed for each frequency - short-cycle products stay short
+    private static readonly MAX_TENURE_BY_FREQUENCY: Record<RepaymentFrequency, number> = {
+      daily: 12,
+      weekly: 36,
+      bi_weekly: 60,
+      monthly: 360
+    };
   
     /**
      * Calculate EMI and generate complete loan schedule
@@ -62,138 +221,509 @@ export interface LoanParameters {
     ): EMICalculationResult {
       
       // Validate parameters
-      const validation = this.validateLoanParameters(params);
+      const validation = this.validateLoanParameters(params, startDate);
       if (!validation.isValid) {
         throw new Error(`Invalid loan parameters: ${validation.errors.join(', ')}`);
       }
   
-      const { principal, annualInterestRate, tenureMonths } = params;
+      const { annualInterestRate, tenureMonths } = params;
+      const frequency = params.repaymentFrequency || 'monthly';
+      const interestMethod = params.interestMethod || 'reducing_balance';
       
-      // Convert annual rate to monthly rate
-      const monthlyRate = annualInterestRate / (12 * 100);
+      // Financed charges are added to the principal the schedule amortizes
+      const charges = this.calculateUpfrontCharges(params.principal, params.upfrontCharges);
+      const principal = charges.loanPrincipal;
       
-      // Calculate EMI using standard formula: P * r * (1+r)^n / ((1+r)^n - 1)
-      let emiAmount: number;
+      // Convert annual rate to per-period rate and tenure to installment count
+      const periodicRate = this.getPeriodicRate(annualInterestRate, frequency);
+      const numberOfInstallments = this.getNumberOfInstallments(tenureMonths, frequency);
       
-      if (monthlyRate === 0) {
-        // Handle zero interest case
-        emiAmount = principal / tenureMonths;
-      } else {
-        const factor = Math.pow(1 + monthlyRate, tenureMonths);
-        emiAmount = (principal * monthlyRate * factor) / (factor - 1);
-      }
-  
-      // Round EMI to 2 decimal places
-      emiAmount = Math.round(emiAmount * 100) / 100;
+      // Moratorium: capitalized interest is amortized along with the principal
+      const moratorium = this.calculateMoratorium({ ...params, principal }, periodicRate, startDate);
+      const amortizedPrincipal = Money.of(principal).add(Money.of(moratorium.capitalizedInterest));
+      
+      // Round each installment to a whole paisa (level EMIs are all the same)
+      const installmentAmounts = this.calculateInstallmentAmounts(
+        { ...params, principal: amortizedPrincipal.toNumber() },
+        periodicRate,
+        numberOfInstallments
+      ).map(amount => Money.of(amount));
+      const emiAmount = installmentAmounts[0];
       
       // Generate EMI schedule
       const schedule = this.generateEMISchedule(
-        principal,
-        emiAmount,
-        monthlyRate,
-        tenureMonths,
-        startDate
+        amortizedPrincipal,
+        installmentAmounts,
+        periodicRate,
+        numberOfInstallments,
+        startDate,
+        frequency,
+        interestMethod,
+        Money.of(this.calculateFlatInterest(amortizedPrincipal.toNumber(), annualInterestRate, tenureMonths)),
+        { ...moratorium, principal },
+        date => this.adjustToBusinessDay(date, params.businessCalendar, params.dueDateAdjustment)
       );
   
-      // Calculate totals from schedule for accuracy
-      const totalAmount = schedule.reduce((sum, item) => sum + item.emiAmount, 0);
-      const totalInterest = totalAmount - principal;
+      // Totals are summed in paise so they reconcile exactly with the principal
+      const totalAmount = Money.sumOf(schedule.map(item => item.emiAmount));
+      const repaymentStructure = this.getRepaymentStructure(params);
+      const lastInstallment = schedule[schedule.length - 1];
+      const balloonAmount = repaymentStructure === 'balloon'
+        ? Money.of(lastInstallment.emiAmount).subtract(emiAmount)
+        : Money.ZERO;
+      const totalInterest = totalAmount.subtract(Money.of(principal));
   
       // Create summary
       const summary: LoanSummary = {
         principal,
-        totalInterest: Math.round(totalInterest * 100) / 100,
-        totalAmount: Math.round(totalAmount * 100) / 100,
-        monthlyEMI: emiAmount,
-        effectiveInterestRate: this.calculateEffectiveRate(principal, totalInterest, tenureMonths),
-        tenureMonths
+        totalInterest: totalInterest.toNumber(),
+        totalAmount: totalAmount.toNumber(),
+        monthlyEMI: emiAmount.toNumber(),
+        effectiveInterestRate: this.calculateAPR(principal, schedule, startDate, charges.totalCharges),
+        tenureMonths,
+        numberOfInstallments: schedule.length,
+        repaymentFrequency: frequency,
+        interestMethod
       };
   
       return {
-        emiAmount,
+        emiAmount: summary.monthlyEMI,
         totalAmount: summary.totalAmount,
         totalInterest: summary.totalInterest,
+        numberOfInstallments: schedule.length,
+        repaymentFrequency: frequency,
+        interestMethod,
+        repaymentStructure,
+        balloonAmount: balloonAmount.toNumber(),
+        moratorium,
+        charges,
         schedule,
         summary
       };
     }
   
+    /**
+     * Work out the upfront charges collected at disbursement
+     * - deducted: charges come out of the amount paid to the borrower
+     * - financed: charges are added to the loan principal and repaid through the EMIs
+     * GST applies to the processing fee; the insurance premium is passed through to the insurer.
+     * @param principal Loan amount requested
+     * @param upfrontCharges Fee, insurance and GST configuration (optional)
+     * @returns Charges breakdown with the amortized principal and net disbursement
+     */
+    static calculateUpfrontCharges(
+      principal: number,
+      upfrontCharges: UpfrontChargeParameters = {}
+    ): UpfrontChargesBreakdown {
+      const treatment = upfrontCharges.treatment || 'deducted';
+      const gstRate = upfrontCharges.gstRate ?? this.DEFAULT_GST_RATE;
+  
+      const requested = Money.of(principal);
+      const processingFee = Money.of(upfrontCharges.processingFee || 0);
+      const insurancePremium = Money.of(upfrontCharges.insurancePremium || 0);
+      const gstOnFees = processingFee.multiply(gstRate / 100);
+      const totalCharges = processingFee.add(gstOnFees).add(insurancePremium);
+  
+      return {
+        processingFee: processingFee.toNumber(),
+        insurancePremium: insurancePremium.toNumber(),
+        gstRate,
+        gstOnFees: gstOnFees.toNumber(),
+        totalCharges: totalCharges.toNumber(),
+        treatment,
+        loanPrincipal: (treatment === 'financed' ? requested.add(totalCharges) : requested).toNumber(),
+        netDisbursement: (treatment === 'financed' ? requested : requested.subtract(totalCharges)).toNumber()
+      };
+    }
+  
+    /**
+     * Calculate the regular installment amount for the loan's interest method
+     * - reducing_balance: P * r * (1+r)^n / ((1+r)^n - 1)
+     * - flat: (P + flat interest) / n
+     * - interest_only_bullet: P * r (principal is repaid with the last installment)
+     * @param params Loan parameters
+     * @param periodicRate Interest rate per repayment period
+     * @param numberOfInstallments Number of installments
+     * @returns Unrounded installment amount
+     */
+    private static calculateInstallmentAmount(
+      params: LoanParameters,
+      periodicRate: number,
+      numberOfInstallments: number
+    ): number {
+      const { principal, annualInterestRate, tenureMonths } = params;
+  
+      switch (params.interestMethod || 'reducing_balance') {
+        case 'flat':
+          return (principal + this.calculateFlatInterest(principal, annualInterestRate, tenureMonths)) / numberOfInstallments;
+  
+        case 'interest_only_bullet':
+          return principal * periodicRate;
+  
+        case 'reducing_balance':
+        default: {
+          if (periodicRate === 0) {
+            // Handle zero interest case
+            return principal / numberOfInstallments;
+          }
+          const factor = Math.pow(1 + periodicRate, numberOfInstallments);
+          return (principal * periodicRate * factor) / (factor - 1);
+        }
+      }
+    }
+  
+    /**
+     * Calculate every regular installment for the loan's repayment structure
+     * - level: the same EMI throughout
+     * - step_up / step_down: the EMI changes by stepPercent every stepIntervalMonths;
+     *   the base EMI is solved so the installments' present value equals the principal
+     * - balloon: level EMIs amortize the principal less the discounted balloon,
+     *   which is repaid with the final installment
+     * Structures other than level apply to reducing-balance loans only.
+     * @param params Loan parameters
+     * @param periodicRate Interest rate per repayment period
+     * @param numberOfInstallments Number of installments
+     * @returns Unrounded installment amounts, excluding the balloon
+     */
+    static calculateInstallmentAmounts(
+      params: LoanParameters,
+      periodicRate: number,
+      numberOfInstallments: number
+    ): number[] {
+      const structure = this.getRepaymentStructure(params);
+  
+      if (structure === 'balloon') {
+        const balloon = params.principal * ((params.balloonPercent || 0) / 100);
+        const discountedBalloon = balloon / Math.pow(1 + periodicRate, numberOfInstallments);
+        const emi = this.calculateInstallmentAmount(
+          { ...params, principal: params.principal - discountedBalloon },
+          periodicRate,
+          numberOfInstallments
+        );
+        return Array(numberOfInstallments).fill(emi);
+      }
+  
+      if (structure === 'step_up' || structure === 'step_down') {
+        const stepPercent = params.stepPercent || 0;
+        const growth = 1 + (structure === 'step_up' ? stepPercent : -stepPercent) / 100;
+        const stepPeriods = this.getNumberOfInstallments(
+          params.stepIntervalMonths || 12,
+          params.repaymentFrequency || 'monthly'
+        );
+        const multipliers = Array.from({ length: numberOfInstallments }, (_, k) =>
+          Math.pow(growth, Math.floor(k / stepPeriods))
+        );
+        const presentValue = multipliers.reduce(
+          (sum, multiplier, k) => sum + multiplier / Math.pow(1 + periodicRate, k + 1),
+          0
+        );
+        const baseEMI = params.principal / presentValue;
+        return multipliers.map(multiplier => baseEMI * multiplier);
+      }
+  
+      const emi = this.calculateInstallmentAmount(params, periodicRate, numberOfInstallments);
+      return Array(numberOfInstallments).fill(emi);
+    }
+  
+    /**
+     * Resolve the repayment structure; flat and bullet loans always repay level installments
+     */
+    private static getRepaymentStructure(params: LoanParameters): RepaymentStructure {
+      if ((params.interestMethod || 'reducing_balance') !== 'reducing_balance') {
+        return 'level';
+      }
+      return params.repaymentStructure || 'level';
+    }
+  
+    /**
+     * Work out the deferral before amortization starts
+     * - capitalize: interest compounds each period and is added to the principal
+     * - interest_only: interest is collected each period, principal is untouched
+     * Moving the first EMI date away from its default adds (or removes) simple
+     * daily interest for the broken period, collected with the first EMI.
+     * @param params Loan parameters
+     * @param periodicRate Interest rate per repayment period
+     * @param startDate Disbursement date
+     * @returns Moratorium details
+     */
+    static calculateMoratorium(
+      params: LoanParameters,
+      periodicRate: number,
+      startDate: Date
+    ): MoratoriumDetails {
+      const frequency = params.repaymentFrequency || 'monthly';
+      const treatment = params.moratoriumTreatment || 'capitalize';
+      const moratoriumMonths = params.moratoriumMonths || 0;
+      const moratoriumPeriods = moratoriumMonths > 0
+        ? this.getNumberOfInstallments(moratoriumMonths, frequency)
+        : 0;
+  
+      const capitalizedInterest = treatment === 'capitalize'
+        ? Money.of(params.principal).multiply(Math.pow(1 + periodicRate, moratoriumPeriods) - 1)
+        : Money.ZERO;
+  
+      const defaultFirstEMIDate = this.addPeriods(startDate, frequency, moratoriumPeriods + 1);
+      const firstEMIDate = params.firstEMIDate ? new Date(params.firstEMIDate) : defaultFirstEMIDate;
+  
+      // Broken period: days the first EMI moved from its default date
+      const brokenDays = Math.round((firstEMIDate.getTime() - defaultFirstEMIDate.getTime()) / (24 * 60 * 60 * 1000));
+      const brokenPeriodInterest = Money.of(params.principal)
+        .add(capitalizedInterest)
+        .multiply((params.annualInterestRate / 100) * (brokenDays / 365));
+  
+      return {
+        moratoriumMonths,
+        treatment,
+        moratoriumPeriods,
+        moratoriumInstallments: treatment === 'interest_only' ? moratoriumPeriods : 0,
+        capitalizedInterest: capitalizedInterest.toNumber(),
+        brokenPeriodInterest: brokenPeriodInterest.toNumber(),
+        firstEMIDate,
+        customFirstEMIDate: !!params.firstEMIDate
+      };
+    }
+  
+    /**
+     * Calculate total flat-rate interest charged on the original principal
+     * @param principal Loan principal
+     * @param annualInterestRate Annual interest rate percentage
+     * @param tenureMonths Loan tenure in months
+     * @returns Total interest for the tenure
+     */
+    static calculateFlatInterest(
+      principal: number,
+      annualInterestRate: number,
+      tenureMonths: number
+    ): number {
+      return principal * (annualInterestRate / 100) * (tenureMonths / 12);
+    }
+  
     /**
      * Generate detailed EMI schedule with principal/interest breakdown
+     * Works in whole paise: each period's interest is rounded once and the last
+     * installment carries only the regular EMI's rounding remainder (plus any
+     * balloon), so the principal components add up to the principal exactly.
      * @param principal Loan principal
-     * @param emiAmount Monthly EMI
-     * @param monthlyRate Monthly interest rate
-     * @param tenureMonths Loan tenure
+     * @param installmentAmounts Regular amount of each installment
+     * @param periodicRate Interest rate per repayment period
+     * @param numberOfInstallments Number of installments
      * @param startDate Loan start date
+     * @param frequency Repayment frequency used to step due dates
+     * @param interestMethod Interest method driving the principal/interest split
+     * @param flatInterest Total flat interest (used by the flat method only)
+     * @param moratorium Deferral details and the original (pre-capitalization) principal
+     * @param adjustDueDate Moves each nominal due date onto a collection day (default: unchanged)
      * @returns Array of EMI schedule items
      */
     private static generateEMISchedule(
-      principal: number,
-      emiAmount: number,
-      monthlyRate: number,
-      tenureMonths: number,
-      startDate: Date
+      principal: Money,
+      installmentAmounts: Money[],
+      periodicRate: number,
+      numberOfInstallments: number,
+      startDate: Date,
+      frequency: RepaymentFrequency,
+      interestMethod: InterestMethod,
+      flatInterest: Money,
+      moratorium?: MoratoriumDetails & { principal: number },
+      adjustDueDate: (date: Date) => Date = date => date
     ): EMIScheduleItem[] {
       
       const schedule: EMIScheduleItem[] = [];
       let outstandingPrincipal = principal;
       
-      for (let i = 1; i <= tenureMonths; i++) {
-        // Calculate interest component for this month
-        const interestComponent = outstandingPrincipal * monthlyRate;
+      // Interest-only installments during the moratorium
+      const moratoriumInstallments = moratorium?.moratoriumInstallments || 0;
+      if (moratoriumInstallments > 0) {
+        const moratoriumPrincipal = Money.of(moratorium!.principal);
+        const interestComponent = moratoriumPrincipal.multiply(periodicRate);
+        for (let i = 1; i <= moratoriumInstallments; i++) {
+          schedule.push({
+            ...this.toScheduleItem(
+              i,
+              adjustDueDate(this.addPeriods(startDate, frequency, i)),
+              Money.ZERO,
+              interestComponent,
+              moratoriumPrincipal
+            ),
+            isMoratorium: true
+          });
+        }
+      }
+      
+      // Nominal dates are each counted from one anchor, never from the previous
+      // (month-end clamped or business-day adjusted) date: the disbursement date
+      // by default, or the first EMI date when one was set explicitly
+      const nominalDueDate = (i: number): Date => moratorium?.customFirstEMIDate
+        ? this.addPeriods(moratorium.firstEMIDate, frequency, i - 1)
+        : this.addPeriods(startDate, frequency, (moratorium?.moratoriumPeriods || 0) + i);
+      const brokenPeriodInterest = Money.of(moratorium?.brokenPeriodInterest || 0);
+      
+      // Flat interest is split so the per-installment parts add up to the total
+      const flatInterestParts = interestMethod === 'flat' ? flatInterest.allocate(numberOfInstallments) : [];
+      
+      for (let i = 1; i <= numberOfInstallments; i++) {
+        const emiNumber = moratoriumInstallments + i;
+        const dueDate = adjustDueDate(nominalDueDate(i));
         
-        // Calculate principal component
-        let principalComponent = emiAmount - interestComponent;
+        // First EMI carries any broken-period interest on top of the regular installment
+        const extraInterest = i === 1 ? brokenPeriodInterest : Money.ZERO;
+        const interestComponent = (interestMethod === 'flat'
+          ? flatInterestParts[i - 1]
+          : outstandingPrincipal.multiply(periodicRate)).add(extraInterest);
         
-        // Handle last EMI - adjust for rounding differences
-        if (i === tenureMonths) {
+        // Calculate principal component (interest-only loans repay principal at the end);
+        // the last installment clears whatever principal remains
+        let principalComponent: Money;
+        if (i === numberOfInstallments) {
           principalComponent = outstandingPrincipal;
-          const adjustedEMI = principalComponent + interestComponent;
-          
-          schedule.push({
-            emiNumber: i,
-            dueDate: this.addMonths(startDate, i),
-            emiAmount: Math.round(adjustedEMI * 100) / 100,
-            principalComponent: Math.round(principalComponent * 100) / 100,
-            interestComponent: Math.round(interestComponent * 100) / 100,
-            outstandingPrincipal: 0
-          });
-          
-          break;
+        } else if (interestMethod === 'interest_only_bullet') {
+          principalComponent = Money.ZERO;
+        } else {
+          principalComponent = installmentAmounts[i - 1].add(extraInterest).subtract(interestComponent);
         }
         
         // Update outstanding principal
-        outstandingPrincipal -= principalComponent;
+        outstandingPrincipal = outstandingPrincipal.subtract(principalComponent);
         
-        schedule.push({
-          emiNumber: i,
-          dueDate: this.addMonths(startDate, i),
-          emiAmount: emiAmount,
-          principalComponent: Math.round(principalComponent * 100) / 100,
-          interestComponent: Math.round(interestComponent * 100) / 100,
-          outstandingPrincipal: Math.round(outstandingPrincipal * 100) / 100
-        });
+        schedule.push(this.toScheduleItem(emiNumber, dueDate, principalComponent, interestComponent, outstandingPrincipal));
       }
       
       return schedule;
     }
   
     /**
-     * Calculate effective annual interest rate
-     * @param principal Loan principal
-     * @param totalInterest Total interest paid
+     * Build a schedule item from exact amounts; the installment is always
+     * the sum of its principal and interest components
+     */
+    private static toScheduleItem(
+      emiNumber: number,
+      dueDate: Date,
+      principalComponent: Money,
+      interestComponent: Money,
+      outstandingPrincipal: Money
+    ): EMIScheduleItem {
+      return {
+        emiNumber,
+        dueDate,
+        emiAmount: principalComponent.add(interestComponent).toNumber(),
+        principalComponent: principalComponent.toNumber(),
+        interestComponent: interestComponent.toNumber(),
+        outstandingPrincipal: outstandingPrincipal.toNumber()
+      };
+    }
+  
+    /**
+     * Get interest rate per repayment period
+     * @param annualInterestRate Annual interest rate percentage
+     * @param frequency Repayment frequency
+     * @returns Periodic rate as a fraction
+     */
+    static getPeriodicRate(annualInterestRate: number, frequency: RepaymentFrequency = 'monthly'): number {
+      return annualInterestRate / (this.PERIODS_PER_YEAR[frequency] * 100);
+    }
+  
+    /**
+     * Convert a tenure in months to the number of installments for a frequency
      * @param tenureMonths Loan tenure in months
-     * @returns Effective annual interest rate
+     * @param frequency Repayment frequency
+     * @returns Number of installments (at least 1)
      */
-    private static calculateEffectiveRate(
-      principal: number, 
-      totalInterest: number, 
-      tenureMonths: number
+    static getNumberOfInstallments(tenureMonths: number, frequency: RepaymentFrequency = 'monthly'): number {
+      if (frequency === 'monthly') {
+        return tenureMonths;
+      }
+      return Math.max(1, Math.round((tenureMonths * this.PERIODS_PER_YEAR[frequency]) / 12));
+    }
+  
+    /**
+     * Calculate APR (effective annual rate) from the actual dated cash flows.
+     * The borrower receives the principal net of upfront fees on the disbursement
+     * date and repays each scheduled installment on its due date.
+     * @param principal Loan principal
+     * @param schedule Dated repayment schedule
+     * @param disbursementDate Date the loan amount is paid out
+     * @param upfrontFees Fees deducted from the disbursement (default: 0)
+     * @returns Annualized rate percentage (XIRR)
+     */
+    static calculateAPR(
+      principal: number,
+      schedule: EMIScheduleItem[],
+      disbursementDate: Date,
+      upfrontFees: number = 0
     ): number {
-      const totalAmount = principal + totalInterest;
-      const tenureYears = tenureMonths / 12;
-      const effectiveRate = ((totalAmount / principal) ** (1 / tenureYears) - 1) * 100;
-      return Math.round(effectiveRate * 100) / 100;
+      const cashFlows = [
+        { amount: -(principal - upfrontFees), date: disbursementDate },
+        ...schedule.map(item => ({ amount: item.emiAmount, date: item.dueDate }))
+      ];
+  
+      const rate = this.calculateXIRR(cashFlows);
+      return Math.round(rate * 100 * 100) / 100;
+    }
+  
+    /**
+     * Solve the internal rate of return for irregularly dated cash flows (XIRR)
+     * Uses Newton-Raphson with a bisection fallback when Newton fails to converge.
+     * @param cashFlows Signed cash flows with their dates (first flow is the outlay)
+     * @returns Annual rate as a fraction
+     */
+    static calculateXIRR(cashFlows: Array<{ amount: number; date: Date }>): number {
+      if (cashFlows.length < 2) {
+        throw new Error('At least two cash flows are required to compute XIRR');
+      }
+  
+      const baseTime = cashFlows[0].date.getTime();
+      const years = cashFlows.map(cf => (cf.date.getTime() - baseTime) / (365 * 24 * 60 * 60 * 1000));
+  
+      const npv = (rate: number): number =>
+        cashFlows.reduce((sum, cf, i) => sum + cf.amount / Math.pow(1 + rate, years[i]), 0);
+  
+      const npvDerivative = (rate: number): number =>
+        cashFlows.reduce((sum, cf, i) => sum - (years[i] * cf.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+  
+      const tolerance = 1e-7;
+  
+      // Newton-Raphson
+      let rate = 0.1;
+      for (let i = 0; i < 100; i++) {
+        const value = npv(rate);
+        const derivative = npvDerivative(rate);
+        if (Math.abs(value) < tolerance) {
+          return rate;
+        }
+        if (derivative === 0 || !isFinite(derivative)) {
+          break;
+        }
+        const nextRate = rate - value / derivative;
+        if (!isFinite(nextRate) || nextRate <= -1) {
+          break;
+        }
+        if (Math.abs(nextRate - rate) < tolerance) {
+          return nextRate;
+        }
+        rate = nextRate;
+      }
+  
+      // Bisection fallback
+      let low = -0.9999;
+      let high = 100;
+      let npvLow = npv(low);
+      if (npvLow * npv(high) > 0) {
+        throw new Error('Unable to compute XIRR for the given cash flows');
+      }
+      for (let i = 0; i < 200; i++) {
+        const mid = (low + high) / 2;
+        const npvMid = npv(mid);
+        if (Math.abs(npvMid) < tolerance || (high - low) / 2 < tolerance) {
+          return mid;
+        }
+        if (npvMid * npvLow < 0) {
+          high = mid;
+        } else {
+          low = mid;
+          npvLow = npvMid;
+        }
+      }
+      return (low + high) / 2;
     }
   
     /**
@@ -210,7 +740,7 @@ export interface LoanParameters {
     ): number {
       const maxTotalEMI = monthlyIncome * foir;
       const availableForNewEMI = maxTotalEMI - existingEMIs;
-      return Math.max(0, Math.round(availableForNewEMI * 100) / 100);
+      return Math.max(0, roundMoney(availableForNewEMI));
     }
   
     /**
@@ -234,102 +764,565 @@ export interface LoanParameters {
       const factor = Math.pow(1 + monthlyRate, tenureMonths);
       const maxPrincipal = (affordableEMI * (factor - 1)) / (monthlyRate * factor);
       
-      return Math.round(maxPrincipal * 100) / 100;
+      return roundMoney(maxPrincipal);
     }
   
     /**
-     * Calculate prepayment scenarios
-     * @param currentSchedule Current EMI schedule
+     * Calculate part-prepayment and re-amortize the remaining balance
+     * @param currentSchedule Current EMI schedule (not modified)
      * @param prepaymentAmount Prepayment amount
-     * @param prepaymentMonth Month of prepayment
-     * @returns Updated schedule after prepayment
+     * @param prepaymentMonth EMI number the prepayment is made with (0 = before the first EMI)
+     * @param params Rate, frequency, interest method and repayment structure of the loan
+     * @param option Keep the EMI and shorten tenure, or keep tenure and lower the EMI
+     * @returns Revised remaining schedule with interest comparison
      */
     static calculatePrepayment(
       currentSchedule: EMIScheduleItem[],
       prepaymentAmount: number,
-      prepaymentMonth: number
-    ): EMIScheduleItem[] {
-      if (prepaymentMonth <= 0 || prepaymentMonth > currentSchedule.length) {
+      prepaymentMonth: number,
+      params: Pick<LoanParameters, 'annualInterestRate' | 'repaymentFrequency' | 'interestMethod' | 'repaymentStructure'>,
+      option: PrepaymentOption = 'reduce_tenure'
+    ): PrepaymentResult {
+      if (prepaymentMonth < 0 || prepaymentMonth >= currentSchedule.length) {
         throw new Error('Invalid prepayment month');
       }
   
-      const newSchedule = [...currentSchedule];
-      const prepaymentIndex = prepaymentMonth - 1;
-      
-      // Reduce outstanding principal from prepayment month
-      let outstandingReduction = prepaymentAmount;
-      
-      for (let i = prepaymentIndex; i < newSchedule.length; i++) {
-        const item = newSchedule[i];
-        
-        if (outstandingReduction >= item.outstandingPrincipal) {
-          // Loan can be closed early
-          outstandingReduction -= item.outstandingPrincipal;
-          newSchedule.splice(i); // Remove remaining EMIs
+      if (!prepaymentAmount || prepaymentAmount <= 0) {
+        throw new Error('Prepayment amount must be greater than zero');
+      }
+  
+      const interestMethod = params.interestMethod || 'reducing_balance';
+      if (interestMethod === 'interest_only_bullet' && option === 'reduce_tenure') {
+        throw new Error('Interest-only loans can only reduce the EMI on prepayment');
+      }
+  
+      const periodicRate = this.getPeriodicRate(params.annualInterestRate, params.repaymentFrequency || 'monthly');
+      const remainingItems = currentSchedule.slice(prepaymentMonth);
+      const firstRemaining = remainingItems[0];
+  
+      const outstandingBefore = prepaymentMonth === 0
+        ? firstRemaining.outstandingPrincipal + firstRemaining.principalComponent
+        : currentSchedule[prepaymentMonth - 1].outstandingPrincipal;
+      if (Money.of(prepaymentAmount).greaterThan(Money.of(outstandingBefore))) {
+        throw new Error(`Prepayment cannot exceed the outstanding principal of ₹${roundMoney(outstandingBefore).toLocaleString()}`);
+      }
+
+      const outstandingAfter = Money.max(
+        Money.ZERO,
+        Money.of(outstandingBefore).subtract(Money.of(prepaymentAmount))
+      ).toNumber();
+
+      // Re-amortizing as level installments would flatten a stepped or balloon schedule
+      if (outstandingAfter > 0 && (params.repaymentStructure || 'level') !== 'level') {
+        throw new Error('Part-prepayments are only available on level EMI loans; prepay the full outstanding to close the loan');
+      }
+  
+      const originalRemainingInterest = Money.sumOf(remainingItems.map(item => item.interestComponent));
+  
+      let revisedSchedule: EMIScheduleItem[] = [];
+      let newEMIAmount = 0;
+  
+      if (outstandingAfter > 0) {
+        const remainingCount = remainingItems.length;
+  
+        if (option === 'reduce_emi') {
+          newEMIAmount = this.calculateRemainingInstallment(
+            outstandingAfter,
+            params.annualInterestRate,
+            periodicRate,
+            interestMethod,
+            remainingCount
+          );
+        } else {
+          // Keep the regular installment amount; the schedule simply ends earlier
+          newEMIAmount = firstRemaining.emiAmount;
+        }
+  
+        revisedSchedule = this.reamortizeBalance(
+          outstandingAfter,
+          newEMIAmount,
+          periodicRate,
+          interestMethod,
+          remainingItems.map(item => item.dueDate),
+          firstRemaining.emiNumber
+        );
+      }
+  
+      const revisedRemainingInterest = Money.sumOf(revisedSchedule.map(item => item.interestComponent));
+  
+      return {
+        option,
+        prepaymentAmount,
+        prepaymentMonth,
+        outstandingBefore: roundMoney(outstandingBefore),
+        outstandingAfter,
+        loanClosed: outstandingAfter === 0,
+        newEMIAmount,
+        revisedSchedule,
+        comparison: {
+          originalRemainingInstallments: remainingItems.length,
+          revisedRemainingInstallments: revisedSchedule.length,
+          originalRemainingInterest: originalRemainingInterest.toNumber(),
+          revisedRemainingInterest: revisedRemainingInterest.toNumber(),
+          interestSaved: originalRemainingInterest.subtract(revisedRemainingInterest).toNumber()
+        }
+      };
+    }
+  
+    /**
+     * Reprice a floating-rate loan from an EMI onward
+     * The remaining principal is re-amortized at the new rate over the same due dates.
+     * @param currentSchedule Current EMI schedule (not modified)
+     * @param effectiveEmiNumber First EMI number the new rate applies to
+     * @param newAnnualInterestRate New annual interest rate percentage
+     * @param params Current rate, frequency, interest method and repayment structure of the loan
+     * @returns Revised schedule from the effective EMI with interest comparison
+     */
+    static calculateRateChange(
+      currentSchedule: EMIScheduleItem[],
+      effectiveEmiNumber: number,
+      newAnnualInterestRate: number,
+      params: Pick<LoanParameters, 'annualInterestRate' | 'repaymentFrequency' | 'interestMethod' | 'repaymentStructure'>
+    ): RateChangeResult {
+      const index = currentSchedule.findIndex(item => item.emiNumber === effectiveEmiNumber);
+      if (index < 0) {
+        throw new Error('Invalid effective EMI number');
+      }
+  
+      if (isNaN(newAnnualInterestRate) || newAnnualInterestRate < 0) {
+        throw new Error('Interest rate must be non-negative');
+      } else if (newAnnualInterestRate > this.MAX_INTEREST_RATE) {
+        throw new Error(`Interest rate cannot exceed ${this.MAX_INTEREST_RATE}% (regulatory limit)`);
+      }
+
+      // Re-amortizing as level installments would flatten a stepped or balloon schedule
+      if ((params.repaymentStructure || 'level') !== 'level') {
+        throw new Error('Rate changes are only available on level EMI loans');
+      }
+  
+      const interestMethod = params.interestMethod || 'reducing_balance';
+      const periodicRate = this.getPeriodicRate(newAnnualInterestRate, params.repaymentFrequency || 'monthly');
+      const remainingItems = currentSchedule.slice(index);
+      const firstRemaining = remainingItems[0];
+  
+      const outstandingPrincipal = index === 0
+        ? firstRemaining.outstandingPrincipal + firstRemaining.principalComponent
+        : currentSchedule[index - 1].outstandingPrincipal;
+  
+      const newEMIAmount = this.calculateRemainingInstallment(
+        outstandingPrincipal,
+        newAnnualInterestRate,
+        periodicRate,
+        interestMethod,
+        remainingItems.length
+      );
+  
+      const revisedSchedule = this.reamortizeBalance(
+        outstandingPrincipal,
+        newEMIAmount,
+        periodicRate,
+        interestMethod,
+        remainingItems.map(item => item.dueDate),
+        effectiveEmiNumber
+      );
+  
+      const originalRemainingInterest = Money.sumOf(remainingItems.map(item => item.interestComponent));
+      const revisedRemainingInterest = Money.sumOf(revisedSchedule.map(item => item.interestComponent));
+  
+      return {
+        effectiveEmiNumber,
+        previousRate: params.annualInterestRate,
+        newRate: newAnnualInterestRate,
+        outstandingPrincipal: roundMoney(outstandingPrincipal),
+        previousEMIAmount: firstRemaining.emiAmount,
+        newEMIAmount,
+        revisedSchedule,
+        comparison: {
+          originalRemainingInterest: originalRemainingInterest.toNumber(),
+          revisedRemainingInterest: revisedRemainingInterest.toNumber(),
+          interestDifference: revisedRemainingInterest.subtract(originalRemainingInterest).toNumber()
+        }
+      };
+    }
+  
+    /**
+     * Add a further tranche to a partly disbursed loan
+     * The tranche joins the outstanding principal from the first installment due after
+     * it is paid out, and the remaining installments are re-amortized over the same due dates.
+     * Interest on the tranche only runs from its disbursement date, so the first revised
+     * installment carries broken-period interest on it instead of a full period.
+     * @param currentSchedule Current EMI schedule (not modified)
+     * @param trancheAmount Amount disbursed in this tranche
+     * @param disbursementDate Date the tranche is paid out
+     * @param params Rate, frequency and interest method of the loan
+     * @returns Revised schedule from the first installment after the disbursement
+     */
+    static calculateTrancheDisbursement(
+      currentSchedule: EMIScheduleItem[],
+      trancheAmount: number,
+      disbursementDate: Date,
+      params: Pick<LoanParameters, 'annualInterestRate' | 'repaymentFrequency' | 'interestMethod'>
+    ): TrancheDisbursementResult {
+      if (!trancheAmount || trancheAmount <= 0) {
+        throw new Error('Tranche amount must be greater than zero');
+      }
+  
+      const index = currentSchedule.findIndex(item => item.dueDate.getTime() > disbursementDate.getTime());
+      if (index < 0) {
+        throw new Error('No installments remain after the disbursement date');
+      }
+  
+      const interestMethod = params.interestMethod || 'reducing_balance';
+      const periodicRate = this.getPeriodicRate(params.annualInterestRate, params.repaymentFrequency || 'monthly');
+      const remainingItems = currentSchedule.slice(index);
+      const firstRemaining = remainingItems[0];
+  
+      const outstandingBefore = index === 0
+        ? firstRemaining.outstandingPrincipal + firstRemaining.principalComponent
+        : currentSchedule[index - 1].outstandingPrincipal;
+      const tranche = Money.of(trancheAmount);
+      const outstandingAfter = Money.of(outstandingBefore).add(tranche).toNumber();
+  
+      const newEMIAmount = this.calculateRemainingInstallment(
+        outstandingAfter,
+        params.annualInterestRate,
+        periodicRate,
+        interestMethod,
+        remainingItems.length
+      );
+  
+      const revisedSchedule = this.reamortizeBalance(
+        outstandingAfter,
+        newEMIAmount,
+        periodicRate,
+        interestMethod,
+        remainingItems.map(item => item.dueDate),
+        firstRemaining.emiNumber
+      );
+  
+      // Swap the tranche's full-period interest in the first revised installment for broken-period interest
+      const msPerDay = 24 * 60 * 60 * 1000;
+      const brokenDays = Math.max(0, Math.round((firstRemaining.dueDate.getTime() - disbursementDate.getTime()) / msPerDay));
+      const brokenPeriodInterest = Money.of(this.calculatePeriodicInterest(trancheAmount, params.annualInterestRate, brokenDays));
+      const first = revisedSchedule[0];
+      const firstInterest = Money.max(
+        Money.ZERO,
+        Money.of(first.interestComponent).subtract(tranche.multiply(periodicRate)).add(brokenPeriodInterest)
+      );
+      revisedSchedule[0] = this.toScheduleItem(
+        first.emiNumber,
+        first.dueDate,
+        Money.of(first.principalComponent),
+        firstInterest,
+        Money.of(first.outstandingPrincipal)
+      );
+  
+      return {
+        effectiveEmiNumber: firstRemaining.emiNumber,
+        trancheAmount: tranche.toNumber(),
+        disbursementDate,
+        outstandingBefore: roundMoney(outstandingBefore),
+        outstandingAfter,
+        brokenPeriodInterest: brokenPeriodInterest.toNumber(),
+        previousEMIAmount: firstRemaining.emiAmount,
+        newEMIAmount,
+        revisedSchedule
+      };
+    }
+  
+    /**
+     * Calculate the installment that repays an outstanding balance over the remaining installments
+     * @param outstanding Principal to repay
+     * @param annualInterestRate Annual interest rate percentage
+     * @param periodicRate Interest rate per repayment period
+     * @param interestMethod Interest method of the loan
+     * @param remainingCount Number of remaining installments
+     * @returns Installment amount rounded to 2 decimal places
+     */
+    private static calculateRemainingInstallment(
+      outstanding: number,
+      annualInterestRate: number,
+      periodicRate: number,
+      interestMethod: InterestMethod,
+      remainingCount: number
+    ): number {
+      let installment: number;
+      switch (interestMethod) {
+        case 'flat':
+          installment = outstanding / remainingCount + outstanding * periodicRate;
+          break;
+        case 'interest_only_bullet':
+          installment = outstanding * periodicRate;
           break;
+        default:
+          installment = this.calculateInstallmentAmount(
+            { principal: outstanding, annualInterestRate, tenureMonths: remainingCount, interestMethod },
+            periodicRate,
+            remainingCount
+          );
+      }
+      return roundMoney(installment);
+    }
+  
+    /**
+     * Re-amortize an outstanding balance over existing due dates
+     * Stops early once the balance is repaid; the last used due date clears any remainder.
+     * @param outstanding Principal to amortize
+     * @param installmentAmount Regular installment amount
+     * @param periodicRate Interest rate per repayment period
+     * @param interestMethod Interest method of the loan
+     * @param dueDates Available due dates (maximum number of installments)
+     * @param firstEmiNumber EMI number of the first revised installment
+     * @returns Revised schedule items
+     */
+    private static reamortizeBalance(
+      outstanding: number,
+      installmentAmount: number,
+      periodicRate: number,
+      interestMethod: InterestMethod,
+      dueDates: Date[],
+      firstEmiNumber: number
+    ): EMIScheduleItem[] {
+      const schedule: EMIScheduleItem[] = [];
+      const installment = Money.of(installmentAmount);
+      let balance = Money.of(outstanding);
+      const flatInterest = balance.multiply(periodicRate);
+  
+      for (let i = 0; i < dueDates.length && balance.isPositive(); i++) {
+        const isLast = i === dueDates.length - 1;
+        const interestComponent = interestMethod === 'flat' ? flatInterest : balance.multiply(periodicRate);
+  
+        let principalComponent: Money;
+        if (interestMethod === 'interest_only_bullet') {
+          principalComponent = isLast ? balance : Money.ZERO;
         } else {
-          // Reduce outstanding principal
-          item.outstandingPrincipal -= outstandingReduction;
-          item.outstandingPrincipal = Math.round(item.outstandingPrincipal * 100) / 100;
-          outstandingReduction = 0;
-          
-          // Recalculate subsequent EMIs if needed
-          // For simplicity, keeping same EMI amount but tenure will reduce
+          principalComponent = isLast
+            ? balance
+            : Money.min(balance, Money.max(Money.ZERO, installment.subtract(interestComponent)));
         }
+  
+        balance = balance.subtract(principalComponent);
+  
+        schedule.push(this.toScheduleItem(
+          firstEmiNumber + i,
+          new Date(dueDates[i]),
+          principalComponent,
+          interestComponent,
+          balance
+        ));
       }
-      
-      return newSchedule;
+  
+      return schedule;
+    }
+  
+    /**
+     * System-wide limits every loan and loan product must stay within
+     * @returns Principal, rate and tenure bounds with every frequency and method allowed
+     */
+    static getSystemLimits(): LoanLimits {
+      return {
+        minPrincipal: this.MIN_PRINCIPAL,
+        maxPrincipal: this.MAX_PRINCIPAL,
+        minInterestRate: this.MIN_INTEREST_RATE,
+        maxInterestRate: this.MAX_INTEREST_RATE,
+        minTenureMonths: this.MIN_TENURE,
+        maxTenureMonths: this.MAX_TENURE,
+        repaymentFrequencies: Object.keys(this.PERIODS_PER_YEAR) as RepaymentFrequency[],
+        interestMethods: ['reducing_balance', 'flat', 'interest_only_bullet']
+      };
     }
   
     /**
      * Validate loan parameters against business rules
      * @param params Loan parameters to validate
+     * @param startDate Disbursement date, used to check the first EMI date (default: today)
+     * @param limits Loan product limits; system limits when not set. A product's
+     * minimum rate is enforced, whereas the system minimum only warns.
      * @returns Validation result with errors and warnings
      */
-    static validateLoanParameters(params: LoanParameters): ValidationResult {
+    static validateLoanParameters(
+      params: LoanParameters,
+      startDate: Date = new Date(),
+      limits?: LoanLimits
+    ): ValidationResult {
       const errors: string[] = [];
       const warnings: string[] = [];
+      const bounds = limits || this.getSystemLimits();
   
       // Principal validation
       if (!params.principal || params.principal <= 0) {
         errors.push('Principal amount must be greater than zero');
-      } else if (params.principal < this.MIN_PRINCIPAL) {
-        errors.push(`Principal amount must be at least ₹${this.MIN_PRINCIPAL.toLocaleString()}`);
-      } else if (params.principal > this.MAX_PRINCIPAL) {
-        errors.push(`Principal amount cannot exceed ₹${this.MAX_PRINCIPAL.toLocaleString()}`);
+      } else if (params.principal < bounds.minPrincipal) {
+        errors.push(`Principal amount must be at least ₹${bounds.minPrincipal.toLocaleString()}`);
+      } else if (params.principal > bounds.maxPrincipal) {
+        errors.push(`Principal amount cannot exceed ₹${bounds.maxPrincipal.toLocaleString()}`);
       }
   
       // Interest rate validation
       if (!params.annualInterestRate || params.annualInterestRate < 0) {
         errors.push('Interest rate must be non-negative');
+      } else if (limits && params.annualInterestRate < limits.minInterestRate) {
+        errors.push(`Interest rate must be at least ${limits.minInterestRate}% for this product`);
       } else if (params.annualInterestRate < this.MIN_INTEREST_RATE) {
         warnings.push(`Interest rate is very low (${params.annualInterestRate}%). Please verify.`);
       } else if (params.annualInterestRate > this.MAX_INTEREST_RATE) {
         errors.push(`Interest rate cannot exceed ${this.MAX_INTEREST_RATE}% (regulatory limit)`);
+      } else if (params.annualInterestRate > bounds.maxInterestRate) {
+        errors.push(`Interest rate cannot exceed ${bounds.maxInterestRate}% for this product`);
+      }
+  
+      // Frequency validation
+      const frequency = params.repaymentFrequency || 'monthly';
+      const maxTenure = this.MAX_TENURE_BY_FREQUENCY[frequency];
+      if (maxTenure === undefined) {
+        errors.push(`Unsupported repayment frequency: ${frequency}`);
+      } else if (bounds.repaymentFrequencies && !bounds.repaymentFrequencies.includes(frequency)) {
+        errors.push(`This product does not offer ${frequency.replace('_', '-')} repayment`);
       }
   
       // Tenure validation
       if (!params.tenureMonths || params.tenureMonths <= 0) {
         errors.push('Tenure must be greater than zero');
-      } else if (params.tenureMonths < this.MIN_TENURE) {
-        errors.push(`Minimum tenure is ${this.MIN_TENURE} month`);
+      } else if (params.tenureMonths < bounds.minTenureMonths) {
+        errors.push(`Minimum tenure is ${bounds.minTenureMonths} month${bounds.minTenureMonths === 1 ? '' : 's'}`);
       } else if (params.tenureMonths > this.MAX_TENURE) {
         errors.push(`Maximum tenure is ${this.MAX_TENURE} months (30 years)`);
+      } else if (params.tenureMonths > bounds.maxTenureMonths) {
+        errors.push(`Maximum tenure is ${bounds.maxTenureMonths} months for this product`);
+      } else if (maxTenure !== undefined && params.tenureMonths > maxTenure) {
+        errors.push(`Maximum tenure for ${frequency.replace('_', '-')} repayment is ${maxTenure} months`);
+      }
+  
+      // Interest method validation
+      const interestMethod = params.interestMethod || 'reducing_balance';
+      if (!['flat', 'reducing_balance', 'interest_only_bullet'].includes(interestMethod)) {
+        errors.push(`Unsupported interest method: ${interestMethod}`);
+      } else if (bounds.interestMethods && !bounds.interestMethods.includes(interestMethod)) {
+        errors.push(`This product does not offer ${interestMethod.replace(/_/g, ' ')} interest`);
+      }
+  
+      // Repayment structure validation
+      const repaymentStructure = params.repaymentStructure || 'level';
+      if (!['level', 'step_up', 'step_down', 'balloon'].includes(repaymentStructure)) {
+        errors.push(`Unsupported repayment structure: ${repaymentStructure}`);
+      } else if (repaymentStructure !== 'level' && interestMethod !== 'reducing_balance') {
+        errors.push('Step and balloon repayment structures require the reducing balance method');
+      } else if (repaymentStructure === 'step_up' || repaymentStructure === 'step_down') {
+        const stepPercent = params.stepPercent || 0;
+        const stepIntervalMonths = params.stepIntervalMonths || 0;
+        if (stepPercent <= 0 || stepPercent > this.MAX_STEP_PERCENT) {
+          errors.push(`Step percentage must be greater than 0% and at most ${this.MAX_STEP_PERCENT}%`);
+        }
+        if (!Number.isInteger(stepIntervalMonths) || stepIntervalMonths < 1 || stepIntervalMonths >= params.tenureMonths) {
+          errors.push('Step interval must be a whole number of months shorter than the tenure');
+        }
+      } else if (repaymentStructure === 'balloon') {
+        const balloonPercent = params.balloonPercent || 0;
+        if (balloonPercent <= 0 || balloonPercent > this.MAX_BALLOON_PERCENT) {
+          errors.push(`Balloon must be greater than 0% and at most ${this.MAX_BALLOON_PERCENT}% of the principal`);
+        }
+      }
+  
+      // Structured schedules must pay each period's interest and clear the principal
+      if (repaymentStructure !== 'level' && errors.length === 0 && params.principal > 0) {
+        const amortization = this.checkAmortization(params);
+        if (!amortization.fullyAmortizes) {
+          errors.push(repaymentStructure === 'step_up'
+            ? 'Early step-up installments do not cover the interest due. Reduce the step percentage or lengthen the step interval.'
+            : repaymentStructure === 'step_down'
+              ? 'Later step-down installments do not cover the interest due. Reduce the step percentage or lengthen the step interval.'
+              : 'Balloon schedule does not fully amortize the principal');
+        }
+      }
+  
+      // Moratorium validation
+      const moratoriumMonths = params.moratoriumMonths || 0;
+      if (moratoriumMonths < 0 || !Number.isInteger(moratoriumMonths)) {
+        errors.push('Moratorium must be a whole number of months');
+      } else if (moratoriumMonths > this.MAX_MORATORIUM_MONTHS) {
+        errors.push(`Maximum moratorium is ${this.MAX_MORATORIUM_MONTHS} months`);
+      }
+  
+      // Due date adjustment validation
+      const dueDateAdjustment = params.dueDateAdjustment || 'none';
+      if (!['next_business_day', 'previous_business_day', 'none'].includes(dueDateAdjustment)) {
+        errors.push(`Unsupported due date adjustment: ${dueDateAdjustment}`);
+      } else if (params.businessCalendar) {
+        const offDays = params.businessCalendar.weeklyOffDays;
+        if (offDays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+          errors.push('Weekly off days must be between 0 (Sunday) and 6 (Saturday)');
+        } else if (new Set(offDays).size >= 7) {
+          errors.push('Holiday calendar must leave at least one business day each week');
+        }
+      }
+  
+      const moratoriumTreatment = params.moratoriumTreatment || 'capitalize';
+      if (!['capitalize', 'interest_only'].includes(moratoriumTreatment)) {
+        errors.push(`Unsupported moratorium treatment: ${moratoriumTreatment}`);
+      }
+  
+      if (params.firstEMIDate && maxTenure !== undefined && moratoriumMonths >= 0) {
+        const moratoriumPeriods = moratoriumMonths > 0 ? this.getNumberOfInstallments(moratoriumMonths, frequency) : 0;
+        const moratoriumEnd = this.addPeriods(startDate, frequency, moratoriumPeriods);
+        const latestFirstEMIDate = this.addPeriods(moratoriumEnd, frequency, 2);
+        if (params.firstEMIDate <= moratoriumEnd) {
+          errors.push(moratoriumPeriods > 0
+            ? 'First EMI date must be after the moratorium ends'
+            : 'First EMI date must be after the disbursement date');
+        } else if (params.firstEMIDate > latestFirstEMIDate) {
+          errors.push('First EMI date cannot be more than one repayment period after its default date');
+        }
+      }
+  
+      // Upfront charges validation
+      const upfrontCharges = params.upfrontCharges || {};
+      if ((upfrontCharges.processingFee || 0) < 0 || (upfrontCharges.insurancePremium || 0) < 0) {
+        errors.push('Processing fee and insurance premium must be non-negative');
+      } else if (upfrontCharges.gstRate !== undefined && (upfrontCharges.gstRate < 0 || upfrontCharges.gstRate > 100)) {
+        errors.push('GST rate must be between 0% and 100%');
+      } else if (upfrontCharges.treatment && !['deducted', 'financed'].includes(upfrontCharges.treatment)) {
+        errors.push(`Unsupported charges treatment: ${upfrontCharges.treatment}`);
+      } else if (params.principal > 0) {
+        const charges = this.calculateUpfrontCharges(params.principal, upfrontCharges);
+        if (charges.treatment === 'deducted' && charges.netDisbursement <= 0) {
+          errors.push('Upfront charges must be less than the loan amount');
+        } else if (charges.treatment === 'financed' && charges.loanPrincipal > bounds.maxPrincipal) {
+          errors.push(`Loan amount including financed charges cannot exceed ₹${bounds.maxPrincipal.toLocaleString()}`);
+        }
       }
   
       // Business logic warnings
-      if (params.principal && params.annualInterestRate && params.tenureMonths) {
-        const monthlyRate = params.annualInterestRate / (12 * 100);
-        if (monthlyRate > 0) {
-          const factor = Math.pow(1 + monthlyRate, params.tenureMonths);
-          const emi = (params.principal * monthlyRate * factor) / (factor - 1);
-          const totalInterest = (emi * params.tenureMonths) - params.principal;
+      if (params.principal && params.annualInterestRate && params.tenureMonths && maxTenure !== undefined) {
+        const periodicRate = this.getPeriodicRate(params.annualInterestRate, frequency);
+        const installments = this.getNumberOfInstallments(params.tenureMonths, frequency);
+        if (periodicRate > 0) {
+          let totalInterest: number;
+          if (interestMethod === 'interest_only_bullet') {
+            totalInterest = params.principal * periodicRate * installments;
+          } else if (repaymentStructure !== 'level') {
+            totalInterest = this.checkAmortization(params).totalInterest;
+          } else {
+            const emi = this.calculateInstallmentAmount(params, periodicRate, installments);
+            totalInterest = (emi * installments) - params.principal;
+          }
           const interestRatio = totalInterest / params.principal;
   
           if (interestRatio > 1) {
             warnings.push('Total interest exceeds principal amount. Consider reducing tenure or rate.');
           }
         }
+  
+        if (interestMethod === 'flat') {
+          warnings.push('Flat-rate interest is charged on the original principal for the full tenure.');
+        }
+  
+        if (moratoriumMonths > 0 && moratoriumTreatment === 'capitalize') {
+          warnings.push('Moratorium interest is capitalized and increases the amount repaid.');
+        }
+
+        if (repaymentStructure === 'balloon' && errors.length === 0) {
+          warnings.push(`${params.balloonPercent}% of the principal is due with the final installment.`);
+        }
       }
   
       return {
@@ -339,6 +1332,51 @@ export interface LoanParameters {
       };
     }
   
+    /**
+     * Run a structured schedule on unrounded amounts to check it amortizes:
+     * no installment may fall short of the interest due (negative amortization)
+     * and the principal left before the final installment must be covered by it.
+     * @param params Loan parameters
+     * @returns Whether the schedule fully amortizes and its total interest
+     */
+    private static checkAmortization(params: LoanParameters): {
+      fullyAmortizes: boolean;
+      totalInterest: number;
+    } {
+      const frequency = params.repaymentFrequency || 'monthly';
+      const periodicRate = this.getPeriodicRate(params.annualInterestRate, frequency);
+      const installments = this.getNumberOfInstallments(params.tenureMonths, frequency);
+      const amounts = this.calculateInstallmentAmounts(params, periodicRate, installments);
+  
+      let outstanding = params.principal;
+      let totalInterest = 0;
+      let coversInterest = true;
+  
+      amounts.forEach((amount, index) => {
+        const interest = outstanding * periodicRate;
+        totalInterest += interest;
+        // The final installment also repays whatever principal is left (the balloon)
+        const payment = index === amounts.length - 1 ? outstanding + interest : amount;
+        if (payment < interest - 0.005) {
+          coversInterest = false;
+        }
+        outstanding -= payment - interest;
+      });
+  
+      // Only a balloon may leave principal for the final installment beyond its regular EMI
+      const finalExcess = amounts.length > 0
+        ? (totalInterest + params.principal) - amounts.reduce((sum, amount) => sum + amount, 0)
+        : params.principal;
+      const expectedExcess = params.repaymentStructure === 'balloon'
+        ? params.principal * ((params.balloonPercent || 0) / 100)
+        : 0;
+  
+      return {
+        fullyAmortizes: coversInterest && Math.abs(finalExcess - expectedExcess) < 0.01 * Math.max(1, installments),
+        totalInterest
+      };
+    }
+
     /**
      * Generate loan number with business logic
      * @param lenderCode Lender identifier
@@ -359,6 +1397,106 @@ export interface LoanParameters {
       return parts.join('-');
     }
   
+    /**
+     * Utility function to step a date forward by a number of repayment periods
+     * @param date Base date
+     * @param frequency Repayment frequency
+     * @param periods Number of periods to add
+     * @returns New date with periods added
+     */
+    private static addPeriods(date: Date, frequency: RepaymentFrequency, periods: number): Date {
+      switch (frequency) {
+        case 'daily':
+          return this.addDays(date, periods);
+        case 'weekly':
+          return this.addDays(date, periods * 7);
+        case 'bi_weekly':
+          return this.addDays(date, periods * 14);
+        case 'monthly':
+        default:
+          return this.addMonths(date, periods);
+      }
+    }
+  
+    /**
+     * Move a due date onto a business day
+     * - next_business_day: roll forward past weekly offs and holidays
+     * - previous_business_day: roll back to the last business day
+     * - none: leave the date where it falls
+     * Interest is still charged per period; only the collection date moves.
+     * @param date Nominal due date
+     * @param calendar Weekly off days and holidays (no adjustment without one)
+     * @param adjustment Adjustment policy (default: none)
+     * @returns Adjusted due date
+     */
+    static adjustToBusinessDay(
+      date: Date,
+      calendar?: BusinessCalendar,
+      adjustment: DueDateAdjustment = 'none'
+    ): Date {
+      if (!calendar || adjustment === 'none') {
+        return new Date(date);
+      }
+  
+      const step = adjustment === 'previous_business_day' ? -1 : 1;
+      for (let shift = 0; shift <= this.MAX_DUE_DATE_SHIFT_DAYS; shift++) {
+        // Calendar-day steps, the same way due dates are generated
+        const candidate = this.addDays(date, step * shift);
+        if (this.isBusinessDay(candidate, calendar)) {
+          return candidate;
+        }
+      }
+      return new Date(date);
+    }
+  
+    /**
+     * Check whether a date is a collection day on the calendar.
+     * Dates are compared by their local YYYY-MM-DD key, matching how due dates are built.
+     * @param date Date to check
+     * @param calendar Weekly off days and holidays
+     * @returns True when the branch can collect on the date
+     */
+    static isBusinessDay(date: Date, calendar: BusinessCalendar): boolean {
+      return !calendar.weeklyOffDays.includes(date.getDay()) &&
+        !calendar.holidays.includes(this.toDateKey(date));
+    }
+  
+    /**
+     * Format a date as its local YYYY-MM-DD key
+     * @param date Date to format
+     * @returns Date key, e.g. 2024-06-30
+     */
+    static toDateKey(date: Date): string {
+      return [
+        date.getFullYear(),
+        (date.getMonth() + 1).toString().padStart(2, '0'),
+        date.getDate().toString().padStart(2, '0')
+      ].join('-');
+    }
+  
+    /**
+     * Parse a stored YYYY-MM-DD key as local midnight on that day
+     * (new Date(key) would read it as UTC and land on the previous day west of UTC)
+     * @param dateKey Date key, e.g. 2024-06-30
+     * @returns Local date for the key
+     */
+    static parseDateKey(dateKey: string): Date {
+      const [year, month, day] = dateKey.split('T')[0].split('-').map(Number);
+      return new Date(year, month - 1, day);
+    }
+  
+    /**
+     * Utility function to add days to a date
+     * @param date Base date
+     * @param days Number of days to add
+     * @returns New date with days added
+     */
+    private static addDays(date: Date, days: number): Date {
+      const result = new Date(date);
+      result.setDate(result.getDate() + days);
+      return result;
+    }
+  
     /**
      * Utility function to add months to a date
      * @param date Base date
@@ -390,8 +1528,50 @@ export interface LoanParameters {
       days: number
     ): number {
       const dailyRate = annualRate / (365 * 100);
-      const interest = principal * dailyRate * days;
-      return Math.round(interest * 100) / 100;
+      return Money.of(principal).multiply(dailyRate * days).toNumber();
+    }
+  
+    /**
+     * Calculate foreclosure (pre-closure) quote
+     * @param outstandingPrincipal Principal outstanding after the last due installment
+     * @param annualRate Annual interest rate
+     * @param interestFromDate Date interest was last charged up to (last due date or disbursement)
+     * @param quoteDate Date the loan is to be closed (default: today)
+     * @param foreclosureChargeRate Charge as % of outstanding principal (default: 0)
+     * @param overdueAmount Unpaid installments already due (default: 0)
+     * @param outstandingCharges Unpaid charges on the loan's EMIs (default: 0)
+     * @returns Foreclosure quote breakdown
+     */
+    static calculateForeclosureQuote(
+      outstandingPrincipal: number,
+      annualRate: number,
+      interestFromDate: Date,
+      quoteDate: Date = new Date(),
+      foreclosureChargeRate: number = 0,
+      overdueAmount: number = 0,
+      outstandingCharges: number = 0
+    ): ForeclosureQuote {
+      const msPerDay = 1000 * 60 * 60 * 24;
+      const accruedDays = Math.max(0, Math.floor((quoteDate.getTime() - interestFromDate.getTime()) / msPerDay));
+      const principal = Money.of(outstandingPrincipal);
+      const accruedInterest = Money.of(this.calculatePeriodicInterest(outstandingPrincipal, annualRate, accruedDays));
+      const foreclosureCharge = principal.multiply(foreclosureChargeRate / 100);
+      const overdue = Money.of(overdueAmount);
+      const charges = Money.of(outstandingCharges);
+  
+      const totalPayable = Money.sum([charges, overdue, accruedInterest, principal, foreclosureCharge]);
+  
+      return {
+        quoteDate,
+        outstandingPrincipal: principal.toNumber(),
+        accruedInterest: accruedInterest.toNumber(),
+        accruedDays,
+        overdueAmount: overdue.toNumber(),
+        outstandingCharges: charges.toNumber(),
+        foreclosureChargeRate,
+        foreclosureCharge: foreclosureCharge.toNumber(),
+        totalPayable: totalPayable.toNumber()
+      };
     }
   
     /**
@@ -408,4 +1588,34 @@ export interface LoanParameters {
     ): number {
       return this.calculatePeriodicInterest(overdueAmount, penaltyRate, overdueDays);
     }
+  
+    /**
+     * Calculate late-payment penalty for an overdue EMI under a penalty policy
+     * Nothing is charged within the grace period; after that penal interest runs
+     * from the due date, plus any flat fee, limited to the policy cap.
+     * @param overdueAmount Unpaid EMI amount
+     * @param overdueDays Days since the EMI due date
+     * @param policy Penalty policy of the loan
+     * @returns Penalty amount accrued to date
+     */
+    static calculateLatePenalty(
+      overdueAmount: number,
+      overdueDays: number,
+      policy: PenaltyPolicy
+    ): number {
+      if (overdueAmount <= 0 || overdueDays <= policy.grace_days) {
+        return 0;
+      }
+  
+      let penalty = Money.of(policy.flat_fee || 0);
+      if (policy.penal_rate) {
+        penalty = penalty.add(Money.of(this.calculatePenaltyInterest(overdueAmount, policy.penal_rate, overdueDays)));
+      }
+  
+      if (policy.cap !== undefined && policy.cap !== null) {
+        penalty = Money.min(penalty, Money.of(policy.cap));
+      }
+  
+      return penalty.toNumber();
+    }
   }
\ No newline at end of file
@@ -0,0 +1,212 @@
+// src/services/calculations/paymentAllocationService.ts
+// Payment allocation engine - applies payments to EMIs chronologically through a waterfall
+// Pure calculation: callers load payments/EMIs/charges and persist the result
+
+import { AllocationComponent, EMIStatus } from '../../types';
+import { Money } from '../../utils/money';
+
+export const DEFAULT_ALLOCATION_WATERFALL: AllocationComponent[] = ['charges', 'interest', 'principal'];
+
+export interface AllocationPayment {
+  id: string;
+  amount: number;
+  payment_date: string;
+}
+
+export interface AllocationCharge {
+  id: string;
+  amount: number;
+}
+
+export interface AllocationEMI {
+  id: string;
+  emi_number: number;
+  due_date: string;
+  amount: number;
+  interest_component?: number | null;
+  status?: EMIStatus;
+  charges?: AllocationCharge[];
+}
+
+export interface PaymentAllocationLine {
+  payment_id: string;
+  emi_id: string;
+  charge_id?: string;
+  component: AllocationComponent;
+  amount: number;
+}
+
+export interface EMIAllocationState {
+  emi_id: string;
+  paid_charges: number;
+  paid_interest: number;
+  paid_principal: number;
+  paid_amount: number; // Interest + principal paid against the EMI amount
+  status: EMIStatus;
+  paid_date: string | null; // Date of the payment that cleared the EMI
+}
+
+export interface ChargeAllocationState {
+  charge_id: string;
+  paid_amount: number;
+}
+
+export interface AllocationResult {
+  lines: PaymentAllocationLine[];
+  emis: EMIAllocationState[];
+  charges: ChargeAllocationState[];
+  unallocated: number; // Excess paid beyond every EMI and charge
+}
+
+export class PaymentAllocationService {
+
+  /**
+   * Allocate payments to EMIs in payment-date order.
+   * Each payment settles the oldest open EMI first; within an EMI the
+   * waterfall decides the order charges, interest and principal are cleared.
+   * @param payments Payments to allocate (any order)
+   * @param emis Loan EMIs with their charges
+   * @param waterfall Component order within an EMI (default: charges → interest → principal)
+   * @param asOfDate Date used to flag unpaid EMIs as overdue (default: today)
+   * @returns Allocation lines per payment plus resulting EMI and charge state
+   */
+  static allocate(
+    payments: AllocationPayment[],
+    emis: AllocationEMI[],
+    waterfall: AllocationComponent[] = DEFAULT_ALLOCATION_WATERFALL,
+    asOfDate: Date = new Date()
+  ): AllocationResult {
+    const order = this.normalizeWaterfall(waterfall);
+    const asOf = asOfDate.toISOString().split('T')[0];
+
+    const sortedPayments = [...payments].sort((a, b) => a.payment_date.localeCompare(b.payment_date));
+    const openEMIs = [...emis]
+      .filter(emi => emi.status !== 'closed')
+      .sort((a, b) => a.emi_number - b.emi_number);
+
+    // Running state per EMI and charge, in exact money
+    const emiState = new Map<string, {
+      charges: Money;
+      interest: Money;
+      principal: Money;
+      paidDate: string | null;
+    }>();
+    const chargePaid = new Map<string, Money>();
+    for (const emi of openEMIs) {
+      emiState.set(emi.id, {
+        charges: Money.ZERO,
+        interest: Money.ZERO,
+        principal: Money.ZERO,
+        paidDate: null
+      });
+      for (const charge of emi.charges || []) {
+        chargePaid.set(charge.id, Money.ZERO);
+      }
+    }
+
+    const lines: PaymentAllocationLine[] = [];
+    let unallocated = Money.ZERO;
+
+    for (const payment of sortedPayments) {
+      let remaining = Money.of(payment.amount);
+
+      for (const emi of openEMIs) {
+        if (!remaining.isPositive()) break;
+
+        const state = emiState.get(emi.id)!;
+        const emiAmount = Money.of(emi.amount);
+        const interestDue = Money.of(emi.interest_component || 0);
+        const principalDue = emiAmount.subtract(interestDue);
+
+        for (const component of order) {
+          if (!remaining.isPositive()) break;
+
+          if (component === 'charges') {
+            for (const charge of emi.charges || []) {
+              const due = Money.of(charge.amount).subtract(chargePaid.get(charge.id)!);
+              const applied = Money.min(remaining, due);
+              if (!applied.isPositive()) continue;
+
+              chargePaid.set(charge.id, chargePaid.get(charge.id)!.add(applied));
+              state.charges = state.charges.add(applied);
+              remaining = remaining.subtract(applied);
+              lines.push({ payment_id: payment.id, emi_id: emi.id, charge_id: charge.id, component, amount: applied.toNumber() });
+              if (!remaining.isPositive()) break;
+            }
+          } else {
+            const isInterest = component === 'interest';
+            const due = isInterest
+              ? interestDue.subtract(state.interest)
+              : principalDue.subtract(state.principal);
+            const applied = Money.min(remaining, due);
+            if (!applied.isPositive()) continue;
+
+            if (isInterest) {
+              state.interest = state.interest.add(applied);
+            } else {
+              state.principal = state.principal.add(applied);
+            }
+            remaining = remaining.subtract(applied);
+            lines.push({ payment_id: payment.id, emi_id: emi.id, component, amount: applied.toNumber() });
+          }
+        }
+
+        if (!state.paidDate && !state.interest.add(state.principal).lessThan(emiAmount)) {
+          state.paidDate = payment.payment_date;
+        }
+      }
+
+      unallocated = unallocated.add(remaining);
+    }
+
+    // Resolve final EMI statuses
+    const emiResults: EMIAllocationState[] = openEMIs.map(emi => {
+      const state = emiState.get(emi.id)!;
+      const paid = state.interest.add(state.principal);
+
+      let status: EMIStatus;
+      if (!paid.lessThan(Money.of(emi.amount))) {
+        status = 'paid';
+      } else if (paid.isPositive()) {
+        status = 'partially_paid';
+      } else if (emi.due_date < asOf) {
+        status = 'overdue';
+      } else {
+        status = 'pending';
+      }
+
+      return {
+        emi_id: emi.id,
+        paid_charges: state.charges.toNumber(),
+        paid_interest: state.interest.toNumber(),
+        paid_principal: state.principal.toNumber(),
+        paid_amount: paid.toNumber(),
+        status,
+        paid_date: state.paidDate
+      };
+    });
+
+    return {
+      lines,
+      emis: emiResults,
+      charges: Array.from(chargePaid.entries()).map(([charge_id, paid]) => ({ charge_id, paid_amount: paid.toNumber() })),
+      unallocated: unallocated.toNumber()
+    };
+  }
+
+  /**
+   * Ensure the waterfall lists every component exactly once, keeping the
+   * configured order and appending anything missing in default order
+   */
+  private static normalizeWaterfall(waterfall: AllocationComponent[]): AllocationComponent[] {
+    const order = waterfall.filter((component, index) =>
+      DEFAULT_ALLOCATION_WATERFALL.includes(component) && waterfall.indexOf(component) === index
+    );
+    for (const component of DEFAULT_ALLOCATION_WATERFALL) {
+      if (!order.includes(component)) {
+        order.push(component);
+      }
+    }
+    return order;
+  }
+}
@@ -0,0 +1,5 @@
+// src/services/lifecycle/index.ts
+// Barrel exports for scheduled loan lifecycle services
+
+export { LifecycleService } from './lifecycleService';
+export type { LifecycleJobResult, LifecycleJobFailure } from './lifecycleService';
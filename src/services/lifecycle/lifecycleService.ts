@@ -0,0 +1,117 @@
+// src/services/lifecycle/lifecycleService.ts
+// Daily loan lifecycle job - overdue marking, penalty accrual, DPD and auto-default
+// Runs outside the app (see scripts/loanLifecycleJob.ts) with a service role client
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase, setSupabaseClient } from '../supabase/client';
+import { LoanService } from '../loans/loanService';
+import { ApiResponse } from '../../types';
+
+export interface LifecycleJobFailure {
+  loan_id: string;
+  loan_number: string;
+  error: string;
+}
+
+export interface LifecycleJobResult {
+  as_of_date: string;
+  loans_processed: number;
+  loans_defaulted: number; // Moved from active to defaulted on this run
+  loans_completed: number; // Found fully paid on this run
+  npa_loans: number;
+  failures: LifecycleJobFailure[];
+}
+
+export class LifecycleService {
+  // Loans read per page; each loan is then updated on its own
+  private static readonly BATCH_SIZE = 100;
+
+  /**
+   * Run the lifecycle step for every active and defaulted loan.
+   * A failure on one loan is recorded and the run carries on with the rest.
+   * @param asOfDate Date EMIs, penalties and DPD are evaluated at (default: today)
+   * @param client Client to run against, e.g. the service role client in scripts/supabaseAdmin.ts
+   * @returns Promise with counts for the run and the loans that failed
+   */
+  static async runDailyJob(
+    asOfDate: Date = new Date(),
+    client?: SupabaseClient
+  ): Promise<ApiResponse<LifecycleJobResult>> {
+    try {
+      if (client) {
+        setSupabaseClient(client);
+      }
+
+      const result: LifecycleJobResult = {
+        as_of_date: asOfDate.toISOString().split('T')[0],
+        loans_processed: 0,
+        loans_defaulted: 0,
+        loans_completed: 0,
+        npa_loans: 0,
+        failures: []
+      };
+
+      // Page by id so loans leaving the active set mid-run do not shift later pages
+      let lastId: string | null = null;
+
+      while (true) {
+        let query = supabase
+          .from('loans')
+          .select('id, loan_number')
+          .in('status', ['active', 'defaulted'])
+          .is('deleted_at', null)
+          .order('id', { ascending: true })
+          .limit(this.BATCH_SIZE);
+
+        if (lastId) {
+          query = query.gt('id', lastId);
+        }
+
+        const { data: loans, error } = await query;
+
+        if (error) {
+          throw error;
+        }
+
+        if (!loans || loans.length === 0) {
+          break;
+        }
+
+        for (const loan of loans) {
+          const loanResult = await LoanService.refreshLoanLifecycle(loan.id, asOfDate);
+          result.loans_processed++;
+
+          if (!loanResult.success || !loanResult.data) {
+            result.failures.push({
+              loan_id: loan.id,
+              loan_number: loan.loan_number,
+              error: loanResult.error || 'Unknown error'
+            });
+            continue;
+          }
+
+          if (loanResult.data.autoDefaulted) result.loans_defaulted++;
+          if (loanResult.data.status === 'completed') result.loans_completed++;
+          if (loanResult.data.bucket === 'npa') result.npa_loans++;
+        }
+
+        lastId = loans[loans.length - 1].id;
+        if (loans.length < this.BATCH_SIZE) {
+          break;
+        }
+      }
+
+      return {
+        success: true,
+        data: result
+      };
+
+    } catch (error) {
+      console.error('Lifecycle job error:', error);
+      return {
+        success: false,
+        error: 'Failed to run the loan lifecycle job.'
+      };
+    }
+  }
+}
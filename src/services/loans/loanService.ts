@@ -2,27 +2,114 @@
 // ENTERPRISE FIX: Complete loan data with EMIs and payments for real-time progress tracking
 // This fixes the MyLoansScreen progress calculation issue
 
-import { supabase } from '../supabase/config';
-import { EMICalculationService, LoanParameters } from '../calculations/emiCalculationService';
+import { supabase } from '../supabase/client';
+import {
+  BusinessCalendar,
+  EMICalculationService,
+  EMICalculationResult,
+  EMIScheduleItem,
+  ForeclosureQuote,
+  LoanParameters,
+  PrepaymentOption,
+  PrepaymentResult,
+  RateChangeResult,
+  TrancheDisbursementResult
+} from '../calculations/emiCalculationService';
+import {
+  DEFAULT_ALLOCATION_WATERFALL,
+  PaymentAllocationService
+} from '../calculations/paymentAllocationService';
+import {
+  DelinquencyEMI,
+  DelinquencyResult,
+  DelinquencyService,
+  NPA_THRESHOLD_DAYS
+} from '../calculations/delinquencyService';
+import { ProductService } from '../products/productService';
+import { Money } from '../../utils/money';
 import { 
   Loan, 
+  LoanProduct,
   Borrower, 
   EMI, 
+  EMICharge,
   Payment, 
+  PaymentAllocation,
+  PaymentAdjustmentAction,
+  ChequeStatus,
   LoanStatus,
   EMIStatus,
+  DPDBucket,
   PaymentMethod,
+  RepaymentFrequency,
+  InterestMethod,
+  MoratoriumTreatment,
+  PenaltyPolicy,
+  ExposurePolicy,
+  LoanRestructure,
+  LoanRateChange,
+  LoanDisbursement,
+  LoanParty,
+  LoanPartyRole,
+  LoanPartyDocument,
+  LoanCollateral,
+  LoanWriteOff,
+  LoanRecovery,
+  CollateralType,
+  DisbursementMode,
+  RateType,
+  ChargeTreatment,
+  RepaymentStructure,
+  DueDateAdjustment,
   ApiResponse, 
   PaginatedResponse 
 } from '../../types';
 
 export interface CreateLoanForm {
   borrower_id: string;
+  product_id?: string; // Product limits, fees and penalty policy apply when set
   principal_amount: number;
   interest_rate: number;
+  rate_type?: RateType;
   tenure_months: number;
+  repayment_frequency?: RepaymentFrequency;
+  interest_method?: InterestMethod;
+  repayment_structure?: RepaymentStructure; // Default: level EMIs
+  step_percent?: number;
+  step_interval_months?: number;
+  balloon_percent?: number;
+  processing_fee?: number; // Excluding GST
+  insurance_premium?: number;
+  gst_rate?: number; // GST % on the processing fee; service default when not set
+  charges_treatment?: ChargeTreatment; // Default: deducted from the disbursement
+  moratorium_months?: number;
+  moratorium_treatment?: MoratoriumTreatment;
+  first_emi_date?: string;
+  holiday_calendar_id?: string; // Branch/region calendar for due dates
+  due_date_adjustment?: DueDateAdjustment; // Default: none
+  penalty_policy?: PenaltyPolicy; // Ignored when a product is selected
+  top_up_of_loan_id?: string; // Active loan to settle from this loan's disbursement
+  parties?: LoanPartyForm[]; // Co-borrowers and guarantors
+  collaterals?: CollateralForm[]; // Assets pledged; principal is capped by their LTV
   purpose?: string;
-  collateral_details?: string;
+}
+
+export interface CollateralForm {
+  collateral_type: CollateralType;
+  description: string;
+  valuation: number;
+  valuation_date: string;
+  photo_urls?: string[];
+}
+
+export interface LoanPartyForm {
+  role: LoanPartyRole;
+  full_name: string;
+  phone: string;
+  email?: string;
+  address?: string;
+  relationship: string;
+  kyc_documents?: LoanPartyDocument[];
 }
 
 export interface CreateBorrowerForm {
@@ -46,18 +133,155 @@ export interface RecordPaymentForm {
   notes?: string;
 }
 
+export interface PaymentCorrectionForm {
+  payment_id: string; // The payment being corrected
+  amount: number;
+  payment_date: string;
+  payment_method: PaymentMethod;
+  reference_number?: string;
+  notes?: string;
+  reason: string;
+}
+
+export interface PrepaymentForm {
+  loan_id: string;
+  amount: number;
+  payment_date: string;
+  payment_method: PaymentMethod;
+  option: PrepaymentOption;
+  reference_number?: string;
+  notes?: string;
+}
+
+export interface ForeclosureForm {
+  loan_id: string;
+  payment_date: string;
+  payment_method: PaymentMethod;
+  closure_reason: string;
+  reference_number?: string;
+  notes?: string;
+}
+
+export interface RestructureForm {
+  loan_id: string;
+  interest_rate: number;
+  tenure_months: number;
+  repayment_frequency?: RepaymentFrequency;
+  interest_method?: InterestMethod;
+  moratorium_months?: number;
+  moratorium_treatment?: MoratoriumTreatment;
+  reason: string;
+}
+
+export interface RestructurePreview {
+  outstandingPrincipal: number;
+  overdueInterest: number;
+  accruedInterest: number;
+  restructuredPrincipal: number; // Principal carried into the new schedule
+  supersededEMIs: number;
+  firstEMINumber: number;
+  calculation: EMICalculationResult;
+}
+
+export interface RateChangeForm {
+  loan_id: string;
+  new_rate: number;
+  effective_emi_number: number;
+  reason?: string;
+}
+
+export interface LoanLifecycleResult {
+  status: LoanStatus;
+  dpd: number;
+  bucket: DPDBucket;
+  autoDefaulted: boolean; // Moved from active to defaulted on this run
+}
+
+export interface WriteOffForm {
+  loan_id: string;
+  reason: string;
+}
+
+export interface WriteOffPreview {
+  principal: number;
+  interest: number; // Overdue interest plus interest accrued to the as-of date
+  charges: number; // Unpaid late-payment charges
+  total: number;
+}
+
+export interface RecoveryForm {
+  loan_id: string;
+  amount: number;
+  recovery_date: string;
+  payment_method: PaymentMethod;
+  reference_number?: string;
+  notes?: string;
+}
+
+export interface DisburseLoanForm {
+  loan_id: string;
+  amount: number; // Principal released: the full sanctioned amount or one tranche
+  disbursement_date: string;
+  disbursement_mode: DisbursementMode;
+  reference_number?: string;
+}
+
 export interface LoanFilters {
   status?: LoanStatus;
   lender_id?: string;
   borrower_id?: string;
   search?: string;
   overdue_only?: boolean;
+  dpd_bucket?: DPDBucket;
   date_from?: string;
   date_to?: string;
 }
 
+// Charges ledger row joined to the status of the EMI it was raised on
+type LedgerChargeRow = Pick<EMICharge, 'id' | 'amount' | 'paid_amount'> & {
+  emi: Pick<EMI, 'status'> | null;
+};
+
 export class LoanService {
 
+  // Loans at or above this principal need a super admin to approve them
+  private static readonly SUPER_ADMIN_APPROVAL_THRESHOLD =
+    Number(process.env.EXPO_PUBLIC_SUPER_ADMIN_APPROVAL_THRESHOLD) || 500000;
+
+  // Days past due beyond which the lifecycle job moves an active loan to defaulted
+  // (server-side setting, so not an EXPO_PUBLIC_ variable)
+  private static readonly AUTO_DEFAULT_DPD =
+    Number(process.env.AUTO_DEFAULT_DPD) || NPA_THRESHOLD_DAYS;
+
+  // Default foreclosure charge (% of outstanding principal) when the loan has none set
+  private static readonly DEFAULT_FORECLOSURE_CHARGE_RATE = 2;
+
+  // Default late-payment policy when the loan has none set
+  private static readonly DEFAULT_PENALTY_POLICY: PenaltyPolicy = {
+    grace_days: 3,
+    penal_rate: 24,
+    flat_fee: 0,
+    bounce_charge: 500
+  };
+
+  // Default exposure rules when the lender has none set
+  private static readonly DEFAULT_EXPOSURE_POLICY: ExposurePolicy = {
+    max_concurrent_loans: 2,
+    foir: 0.4
+  };
+
+  // Maximum loan-to-value (% of valuation) lent against each collateral type
+  private static readonly MAX_LTV_PERCENT: Record<CollateralType, number> = {
+    gold: 75,
+    vehicle: 80,
+    property: 70,
+    fixed_deposit: 90,
+    other: 50
+  };
+
+  // Valuations older than this must be refreshed before lending against them
+  private static readonly MAX_VALUATION_AGE_DAYS = 180;
+
   /**
    * Create new borrower profile
    */
@@ -167,20 +391,84 @@ export class LoanService {
   }
 
   /**
-   * Create new loan with EMI schedule generation
+   * Submit a loan application for approval (maker step).
+   * The EMI schedule is generated only when a second approver activates the loan.
    */
   static async createLoan(
     loanData: CreateLoanForm,
     currentUserId: string
   ): Promise<ApiResponse<Loan>> {
     try {
+      for (const party of loanData.parties || []) {
+        const partyValidation = this.validateLoanPartyData(party);
+        if (!partyValidation.isValid) {
+          return {
+            success: false,
+            error: partyValidation.message
+          };
+        }
+      }
+
+      let product: LoanProduct | null = null;
+      if (loanData.product_id) {
+        const productResult = await ProductService.getProductById(loanData.product_id);
+        if (!productResult.success || !productResult.data) {
+          return {
+            success: false,
+            error: productResult.error || 'Loan product not found.'
+          };
+        }
+        if (!productResult.data.active) {
+          return {
+            success: false,
+            error: `${productResult.data.name} is no longer offered.`
+          };
+        }
+        product = productResult.data;
+      }
+
       const loanParams: LoanParameters = {
         principal: loanData.principal_amount,
         annualInterestRate: loanData.interest_rate,
-        tenureMonths: loanData.tenure_months
+        tenureMonths: loanData.tenure_months,
+        repaymentFrequency: loanData.repayment_frequency || 'monthly',
+        interestMethod: loanData.interest_method || 'reducing_balance',
+        repaymentStructure: loanData.repayment_structure || 'level',
+        stepPercent: loanData.step_percent,
+        stepIntervalMonths: loanData.step_interval_months,
+        balloonPercent: loanData.balloon_percent,
+        moratoriumMonths: loanData.moratorium_months || 0,
+        moratoriumTreatment: loanData.moratorium_treatment || 'capitalize',
+        firstEMIDate: loanData.first_emi_date ? EMICalculationService.parseDateKey(loanData.first_emi_date) : undefined,
+        // Product fees are fixed by the catalog, not negotiated per loan
+        upfrontCharges: product
+          ? ProductService.getUpfrontCharges(product, loanData.principal_amount)
+          : {
+            processingFee: loanData.processing_fee || 0,
+            insurancePremium: loanData.insurance_premium || 0,
+            gstRate: loanData.gst_rate,
+            treatment: loanData.charges_treatment || 'deducted'
+          }
       };
 
-      const validation = EMICalculationService.validateLoanParameters(loanParams);
+      if (loanData.holiday_calendar_id) {
+        const businessCalendar = await this.getBusinessCalendar(loanData.holiday_calendar_id);
+        if (!businessCalendar) {
+          return {
+            success: false,
+            error: 'Holiday calendar not found.'
+          };
+        }
+        loanParams.businessCalendar = businessCalendar;
+        loanParams.dueDateAdjustment = loanData.due_date_adjustment || 'next_business_day';
+      }
+
+      const startDate = new Date();
+      const validation = EMICalculationService.validateLoanParameters(
+        loanParams,
+        startDate,
+        product ? ProductService.getLimits(product) : undefined
+      );
       if (!validation.isValid) {
         return {
           success: false,
@@ -207,23 +495,64 @@ export class LoanService {
         };
       }
 
-      // Check if borrower has any active loans
-      const { data: activeLoans } = await supabase
-        .from('loans')
-        .select('id')
-        .eq('borrower_id', loanData.borrower_id)
-        .in('status', ['active', 'pending_approval'])
-        .is('deleted_at', null);
+      if (product) {
+        const eligibility = ProductService.checkEligibility(product, borrower as Borrower);
+        if (!eligibility.isValid) {
+          return {
+            success: false,
+            error: eligibility.message
+          };
+        }
+      }
+
+      // Indicative schedule and APR as of submission; both are recalculated on disbursement
+      const emiCalculation = EMICalculationService.calculateEMI(loanParams, startDate);
+      const { charges } = emiCalculation;
+
+      if (loanData.collaterals && loanData.collaterals.length > 0) {
+        const collateralCheck = this.checkCollateral(loanData.collaterals, charges.loanPrincipal, startDate);
+        if (!collateralCheck.isValid) {
+          return {
+            success: false,
+            error: collateralCheck.message
+          };
+        }
+      }
+
+      // A top-up settles the previous loan, so that loan no longer counts towards exposure
+      if (loanData.top_up_of_loan_id) {
+        const topUp = await this.checkTopUpEligibility(
+          loanData.top_up_of_loan_id,
+          loanData.borrower_id,
+          charges.netDisbursement
+        );
+        if (!topUp.isValid) {
+          return {
+            success: false,
+            error: topUp.message
+          };
+        }
+      }
 
-      if (activeLoans && activeLoans.length > 0) {
+      const exposure = await this.checkExposure(
+        borrower as Borrower,
+        currentUserId,
+        charges.loanPrincipal,
+        this.toMonthlyInstallment(emiCalculation.summary.monthlyEMI, emiCalculation.repaymentFrequency),
+        loanData.top_up_of_loan_id
+      );
+      if (!exposure.isValid) {
         return {
           success: false,
-          error: 'Borrower already has an active loan. Please close existing loan first.'
+          error: exposure.message
         };
       }
-
-      // Calculate EMI schedule
-      const emiCalculation = EMICalculationService.calculateEMI(loanParams);
+      const apr = EMICalculationService.calculateAPR(
+        charges.loanPrincipal,
+        emiCalculation.schedule,
+        startDate,
+        charges.totalCharges
+      );
 
       // Generate unique loan number
       const timestamp = Date.now().toString();
@@ -234,14 +563,37 @@ export class LoanService {
         .from('loans')
         .insert({
           borrower_id: loanData.borrower_id,
+          product_id: product?.id || null,
           loan_number: loanNumber,
-          principal_amount: loanData.principal_amount,
+          principal_amount: charges.loanPrincipal,
           interest_rate: loanData.interest_rate,
+          rate_type: loanData.rate_type || 'fixed',
           tenure_months: loanData.tenure_months,
-          status: 'active',
-          approved_by: currentUserId,
-          approved_at: new Date().toISOString(),
-          disbursed_at: new Date().toISOString()
+          repayment_frequency: emiCalculation.repaymentFrequency,
+          interest_method: emiCalculation.interestMethod,
+          repayment_structure: emiCalculation.repaymentStructure,
+          step_percent: emiCalculation.repaymentStructure.startsWith('step_') ? loanData.step_percent : null,
+          step_interval_months: emiCalculation.repaymentStructure.startsWith('step_') ? loanData.step_interval_months : null,
+          balloon_percent: emiCalculation.repaymentStructure === 'balloon' ? loanData.balloon_percent : null,
+          processing_fee: charges.processingFee,
+          insurance_premium: charges.insurancePremium,
+          gst_on_fees: charges.gstOnFees,
+          charges_treatment: charges.treatment,
+          net_disbursement: charges.netDisbursement,
+          apr,
+          moratorium_months: emiCalculation.moratorium.moratoriumMonths,
+          moratorium_treatment: emiCalculation.moratorium.treatment,
+          // Only an explicit first EMI date is kept; the default follows the approval date
+          first_emi_date: loanData.first_emi_date || null,
+          holiday_calendar_id: loanData.holiday_calendar_id || null,
+          due_date_adjustment: loanParams.dueDateAdjustment || 'none',
+          // Product loans take the product's policy; a custom policy is only for loans without one
+          penalty_policy: (product ? product.penalty_policy : loanData.penalty_policy) || this.DEFAULT_PENALTY_POLICY,
+          top_up_of_loan_id: loanData.top_up_of_loan_id || null,
+          status: 'pending_approval',
+          submitted_by: currentUserId,
+          submitted_at: startDate.toISOString(),
+          requires_super_admin_approval: charges.loanPrincipal >= this.SUPER_ADMIN_APPROVAL_THRESHOLD
         })
         .select()
         .single();
@@ -254,27 +606,55 @@ export class LoanService {
         };
       }
 
-      // Generate EMI schedule
-      const emiInserts = emiCalculation.schedule.map(item => ({
-        loan_id: newLoan.id,
-        emi_number: item.emiNumber,
-        due_date: item.dueDate.toISOString().split('T')[0],
-        amount: item.emiAmount,
-        status: 'pending' as EMIStatus
-      }));
+      if (loanData.parties && loanData.parties.length > 0) {
+        const { error: partiesError } = await supabase
+          .from('loan_parties')
+          .insert(loanData.parties.map(party => ({
+            loan_id: newLoan.id,
+            role: party.role,
+            full_name: party.full_name.trim(),
+            phone: party.phone.trim(),
+            email: party.email?.trim() || null,
+            address: party.address?.trim() || null,
+            relationship: party.relationship.trim(),
+            kyc_documents: party.kyc_documents || [],
+            kyc_status: 'pending'
+          })));
 
-      const { error: emiError } = await supabase
-        .from('emis')
-        .insert(emiInserts);
+        if (partiesError) {
+          console.error('Loan parties creation error:', partiesError);
+          // Rollback loan creation
+          await supabase.from('loans').delete().eq('id', newLoan.id);
+          return {
+            success: false,
+            error: 'Failed to save co-borrowers and guarantors.'
+          };
+        }
+      }
 
-      if (emiError) {
-        console.error('EMI creation error:', emiError);
-        // Rollback loan creation
-        await supabase.from('loans').delete().eq('id', newLoan.id);
-        return {
-          success: false,
-          error: 'Failed to generate EMI schedule.'
-        };
+      if (loanData.collaterals && loanData.collaterals.length > 0) {
+        const { error: collateralError } = await supabase
+          .from('loan_collaterals')
+          .insert(loanData.collaterals.map(collateral => ({
+            loan_id: newLoan.id,
+            collateral_type: collateral.collateral_type,
+            description: collateral.description.trim(),
+            valuation: Money.of(collateral.valuation).toNumber(),
+            valuation_date: collateral.valuation_date,
+            photo_urls: collateral.photo_urls || [],
+            lien_status: 'pending'
+          })));
+
+        if (collateralError) {
+          console.error('Loan collateral creation error:', collateralError);
+          // Rollback loan creation
+          await supabase.from('loan_parties').delete().eq('loan_id', newLoan.id);
+          await supabase.from('loans').delete().eq('id', newLoan.id);
+          return {
+            success: false,
+            error: 'Failed to save collateral records.'
+          };
+        }
       }
 
       // Get complete loan data
@@ -287,8 +667,10 @@ export class LoanService {
               user_profiles(*)
             )
           ),
-          emis(*),
-          payments(*)
+          emis(*, charges:emi_charges(*)),
+          payments(*),
+          parties:loan_parties(*),
+          collaterals:loan_collaterals(*)
         `)
         .eq('id', newLoan.id)
         .single();
@@ -316,161 +698,397 @@ export class LoanService {
   }
 
   /**
-   * Get borrowers for a specific lender - FIXED WITH EXPLICIT FOREIGN KEYS
+   * Approve a pending loan (checker step). The loan is sanctioned for
+   * disbursement; its EMI schedule is generated when the money is paid out.
    */
-  static async getBorrowersByLender(
-    lenderId: string,
-    search?: string
-  ): Promise<ApiResponse<Borrower[]>> {
+  static async approveLoan(
+    loanId: string,
+    approverId: string,
+    comments?: string
+  ): Promise<ApiResponse<Loan>> {
     try {
-      // FIXED: Explicitly specify which foreign key relationship to use
-      const { data, error } = await supabase
-        .from('borrowers')
-        .select(`
-          *,
-          user:users!borrowers_user_id_fkey(*,
-            user_profiles(*)
-          ),
-          loans(id, status, principal_amount, created_at)
-        `)
-        .eq('lender_id', lenderId)
-        .is('deleted_at', null)
-        .order('created_at', { ascending: false });
+      const { data: loan, error: loanError } = await supabase
+        .from('loans')
+        .select('*')
+        .eq('id', loanId)
+        .single();
 
-      if (error) {
-        console.error('Get borrowers error:', error);
-        throw error;
+      if (loanError || !loan) {
+        return {
+          success: false,
+          error: 'Loan not found.'
+        };
       }
 
-      let result = data as Borrower[] || [];
+      const authority = await this.checkApprovalAuthority(loan as Loan, approverId);
+      if (!authority.isValid) {
+        return {
+          success: false,
+          error: authority.message
+        };
+      }
 
-      // Apply search filter on client side for simplicity
-      if (search && search.trim()) {
-        const searchLower = search.toLowerCase().trim();
-        result = result.filter(borrower => {
-          const user = (borrower as any).user;
-          if (!user) return false;
-          
-          return (
-            user.full_name?.toLowerCase().includes(searchLower) ||
-            user.email?.toLowerCase().includes(searchLower) ||
-            user.phone?.toLowerCase().includes(searchLower)
-          );
-        });
+      // The status guard stops a second approver reviewing it twice
+      const { data: approvedLoan, error: updateError } = await supabase
+        .from('loans')
+        .update({
+          status: 'approved' as LoanStatus,
+          approved_by: approverId,
+          approved_at: new Date().toISOString(),
+          disbursed_amount: 0,
+          approval_comments: comments?.trim() || null
+        })
+        .eq('id', loanId)
+        .eq('status', 'pending_approval')
+        .select()
+        .single();
+
+      if (updateError || !approvedLoan) {
+        console.error('Approve loan error:', updateError);
+        return {
+          success: false,
+          error: 'Failed to approve the loan. It may already have been reviewed.'
+        };
       }
 
       return {
         success: true,
-        data: result
+        data: approvedLoan as Loan
       };
 
     } catch (error) {
-      console.error('Get borrowers error:', error);
+      console.error('Approve loan error:', error);
       return {
         success: false,
-        error: 'Failed to load borrowers list.'
+        error: 'An unexpected error occurred while approving the loan.'
       };
     }
   }
 
   /**
-   * ENTERPRISE FIX: Get paginated loans list with COMPLETE EMI and payment data
-   * This fixes the MyLoansScreen progress calculation issue
+   * Disburse an approved loan, in full or as its next tranche.
+   * The first disbursement activates the loan with an EMI schedule running from
+   * the disbursement date on the amount paid out. Each later tranche joins the
+   * outstanding principal and the unpaid EMIs are re-amortized, so interest only
+   * accrues on what has been disbursed so far.
    */
-  static async getLoans(
-    page: number = 1,
-    limit: number = 20,
-    filters?: LoanFilters
-  ): Promise<ApiResponse<PaginatedResponse<Loan>>> {
+  static async disburseLoan(
+    disbursementData: DisburseLoanForm,
+    disbursedBy: string
+  ): Promise<ApiResponse<LoanDisbursement>> {
     try {
-      let query = supabase
+      const { data: loan, error: loanError } = await supabase
         .from('loans')
-        .select(`
-          *,
-          borrower:borrowers(*,
-            user:users!borrowers_user_id_fkey(full_name, email, phone,
-              user_profiles(address)
-            )
-          ),
-          emis(*),
-          payments(*)
-        `, { count: 'exact' })
-        .is('deleted_at', null);
-
-      // Apply filters
-      if (filters?.status) {
-        query = query.eq('status', filters.status);
-      }
+        .select('*, emis(*), disbursements:loan_disbursements(*)')
+        .eq('id', disbursementData.loan_id)
+        .single();
 
-      if (filters?.borrower_id) {
-        query = query.eq('borrower_id', filters.borrower_id);
+      if (loanError || !loan) {
+        return {
+          success: false,
+          error: 'Loan not found.'
+        };
       }
 
-      if (filters?.search) {
-        query = query.ilike('loan_number', `%${filters.search}%`);
+      const disbursementDate = new Date(disbursementData.disbursement_date);
+      const eligibility = this.checkDisbursementEligibility(loan as Loan, disbursementData.amount, disbursementDate);
+      if (!eligibility.isValid) {
+        return {
+          success: false,
+          error: eligibility.message
+        };
       }
 
-      if (filters?.date_from) {
-        query = query.gte('created_at', filters.date_from);
-      }
+      const isFirstTranche = loan.status === 'approved';
+      const amount = Money.of(disbursementData.amount);
+      const disbursedAmount = Money.of(loan.disbursed_amount || 0).add(amount);
 
-      if (filters?.date_to) {
-        query = query.lte('created_at', filters.date_to);
+      // Upfront charges deducted at source come out of the first tranche
+      const deductedCharges = isFirstTranche
+        ? Money.of(loan.principal_amount).subtract(Money.of(loan.net_disbursement ?? loan.principal_amount))
+        : Money.ZERO;
+      let netAmount = amount.subtract(deductedCharges);
+      if (!netAmount.isPositive()) {
+        return {
+          success: false,
+          error: `The first disbursement must exceed the ₹${deductedCharges.toNumber().toLocaleString()} of charges deducted from it.`
+        };
       }
 
-      // Calculate pagination
-      const offset = (page - 1) * limit;
-      
-      const { data, error, count } = await query
-        .order('created_at', { ascending: false })
-        .range(offset, offset + limit - 1);
+      // A top-up pays off the previous loan out of its own disbursement
+      let topUpSettlement: Money | undefined;
+      if (isFirstTranche && loan.top_up_of_loan_id) {
+        if (!disbursedAmount.equals(Money.of(loan.principal_amount))) {
+          return {
+            success: false,
+            error: 'Top-up loans must be disbursed in full.'
+          };
+        }
 
-      if (error) {
-        throw error;
-      }
+        const quoteResult = await this.getForeclosureQuote(loan.top_up_of_loan_id, disbursementDate);
+        if (!quoteResult.success || !quoteResult.data) {
+          return {
+            success: false,
+            error: quoteResult.error || 'Failed to calculate the amount needed to close the previous loan.'
+          };
+        }
 
-      const totalPages = Math.ceil((count || 0) / limit);
+        topUpSettlement = Money.of(quoteResult.data.totalPayable);
+        netAmount = netAmount.subtract(topUpSettlement);
+        if (!netAmount.isPositive()) {
+          return {
+            success: false,
+            error: `The disbursement must exceed the ₹${topUpSettlement.toNumber().toLocaleString()} needed to close the previous loan.`
+          };
+        }
+      }
+
+      let emiCalculation: EMICalculationResult | undefined;
+      let tranche: TrancheDisbursementResult | undefined;
+
+      if (isFirstTranche) {
+        // Schedule runs from the disbursement date on the amount paid out
+        const loanParams: LoanParameters = {
+          ...this.getLoanParameters(loan as Loan),
+          principal: amount.toNumber(),
+          businessCalendar: await this.getBusinessCalendar(loan.holiday_calendar_id),
+          dueDateAdjustment: loan.due_date_adjustment || 'none'
+        };
+
+        const validation = EMICalculationService.validateLoanParameters(loanParams, disbursementDate);
+        if (!validation.isValid) {
+          return {
+            success: false,
+            error: `Loan terms are not valid for this disbursement: ${validation.errors.join(', ')}`
+          };
+        }
+
+        emiCalculation = EMICalculationService.calculateEMI(loanParams, disbursementDate);
+      } else {
+        tranche = EMICalculationService.calculateTrancheDisbursement(
+          this.buildScheduleFromEMIs(loan as Loan),
+          amount.toNumber(),
+          disbursementDate,
+          this.getLoanParameters(loan as Loan)
+        );
+
+        // The tranche can only be spread over instalments nothing has been collected against
+        const effectiveEmiNumber = tranche.effectiveEmiNumber;
+        const revisedEMIs = this.getCurrentEMIs(loan as Loan).filter(emi => emi.emi_number >= effectiveEmiNumber);
+        if (revisedEMIs.some(emi => emi.status === 'paid' || (emi.paid_amount || 0) > 0)) {
+          return {
+            success: false,
+            error: 'A tranche can only be added to EMIs that have not been paid.'
+          };
+        }
+      }
+
+      // Record the disbursement event
+      const { data: disbursement, error: disbursementError } = await supabase
+        .from('loan_disbursements')
+        .insert({
+          loan_id: loan.id,
+          tranche_number: (loan.disbursements || []).length + 1,
+          amount: amount.toNumber(),
+          net_amount: netAmount.toNumber(),
+          disbursement_mode: disbursementData.disbursement_mode,
+          reference_number: disbursementData.reference_number?.trim() || null,
+          disbursement_date: disbursementData.disbursement_date,
+          effective_emi_number: tranche ? tranche.effectiveEmiNumber : 1,
+          top_up_settlement: topUpSettlement ? topUpSettlement.toNumber() : null,
+          disbursed_by: disbursedBy
+        })
+        .select()
+        .single();
+
+      if (disbursementError) {
+        console.error('Disbursement record error:', disbursementError);
+        return {
+          success: false,
+          error: 'Failed to record disbursement.'
+        };
+      }
+
+      if (emiCalculation) {
+        // Generate EMI schedule
+        const emiInserts = emiCalculation.schedule.map(item => ({
+          loan_id: loan.id,
+          emi_number: item.emiNumber,
+          due_date: item.dueDate.toISOString().split('T')[0],
+          amount: item.emiAmount,
+          principal_component: item.principalComponent,
+          interest_component: item.interestComponent,
+          interest_rate: loan.interest_rate,
+          status: 'pending' as EMIStatus
+        }));
+
+        const { error: emiError } = await supabase
+          .from('emis')
+          .insert(emiInserts);
+
+        if (emiError) {
+          console.error('EMI creation error:', emiError);
+          // Rollback disbursement record
+          await supabase.from('loan_disbursements').delete().eq('id', disbursement.id);
+          return {
+            success: false,
+            error: 'Failed to generate EMI schedule.'
+          };
+        }
+
+        // APR is only meaningful for the cash flows of a full disbursement
+        const isFullyDisbursed = disbursedAmount.equals(Money.of(loan.principal_amount));
+        const apr = isFullyDisbursed
+          ? EMICalculationService.calculateAPR(
+              amount.toNumber(),
+              emiCalculation.schedule,
+              disbursementDate,
+              deductedCharges.toNumber()
+            )
+          : loan.apr;
+
+        // Activate the loan; the status guard stops a second disbursement activating it twice
+        const { data: activatedLoan, error: updateError } = await supabase
+          .from('loans')
+          .update({
+            status: 'active' as LoanStatus,
+            disbursed_at: disbursementDate.toISOString(),
+            disbursed_amount: disbursedAmount.toNumber(),
+            first_emi_date: emiCalculation.moratorium.firstEMIDate.toISOString().split('T')[0],
+            apr
+          })
+          .eq('id', loan.id)
+          .eq('status', 'approved')
+          .select()
+          .single();
+
+        if (updateError || !activatedLoan) {
+          console.error('Activate loan error:', updateError);
+          // Rollback EMI generation and the disbursement record
+          await supabase.from('emis').delete().eq('loan_id', loan.id);
+          await supabase.from('loan_disbursements').delete().eq('id', disbursement.id);
+          return {
+            success: false,
+            error: 'Failed to activate the loan. It may already have been disbursed.'
+          };
+        }
+
+        // Pledged assets are held from the moment money goes out
+        const { error: lienError } = await supabase
+          .from('loan_collaterals')
+          .update({ lien_status: 'marked' })
+          .eq('loan_id', loan.id)
+          .eq('lien_status', 'pending');
+
+        if (lienError) {
+          console.error('Mark collateral lien error:', lienError);
+        }
+
+        if (loan.top_up_of_loan_id) {
+          const settlement = await this.forecloseLoan({
+            loan_id: loan.top_up_of_loan_id,
+            payment_date: disbursementData.disbursement_date,
+            payment_method: disbursementData.disbursement_mode,
+            closure_reason: `Closed by top-up loan ${loan.loan_number}`,
+            reference_number: loan.loan_number
+          }, disbursedBy);
+
+          if (!settlement.success) {
+            return {
+              success: false,
+              error: `Loan disbursed but failed to close the previous loan: ${settlement.error}`
+            };
+          }
+        }
+      } else if (tranche) {
+        // Rows re-amortized below, kept so a failed update can put them back
+        const revisedNumbers = tranche.revisedSchedule.map(item => item.emiNumber);
+        const previousEMIs = ((loan.emis || []) as EMI[])
+          .filter(emi => revisedNumbers.includes(emi.emi_number))
+          .map(emi => ({
+            id: emi.id,
+            amount: emi.amount,
+            principal_component: emi.principal_component,
+            interest_component: emi.interest_component
+          }));
+
+        // Re-amortize the remaining instalments in place
+        for (const item of tranche.revisedSchedule) {
+          const { error: emiError } = await supabase
+            .from('emis')
+            .update({
+              amount: item.emiAmount,
+              principal_component: item.principalComponent,
+              interest_component: item.interestComponent
+            })
+            .eq('loan_id', loan.id)
+            .eq('emi_number', item.emiNumber);
+
+          if (emiError) {
+            console.error('Tranche EMI update error:', emiError);
+            // Rollback re-amortized EMIs and the disbursement record so the lender can retry
+            await this.restoreEMIs(previousEMIs);
+            await supabase.from('loan_disbursements').delete().eq('id', disbursement.id);
+            return {
+              success: false,
+              error: 'Failed to apply revised EMI schedule.'
+            };
+          }
+        }
+
+        const { error: updateError } = await supabase
+          .from('loans')
+          .update({ disbursed_amount: disbursedAmount.toNumber() })
+          .eq('id', loan.id);
+
+        if (updateError) {
+          console.error('Tranche loan update error:', updateError);
+          // Rollback re-amortized EMIs and the disbursement record so the lender can retry
+          await this.restoreEMIs(previousEMIs);
+          await supabase.from('loan_disbursements').delete().eq('id', disbursement.id);
+          return {
+            success: false,
+            error: 'Failed to update the disbursed amount.'
+          };
+        }
+
+        await this.updateEMIStatus(loan.id);
+      }
 
       return {
         success: true,
-        data: {
-          data: data as Loan[] || [],
-          count: count || 0,
-          page,
-          limit,
-          total_pages: totalPages
-        }
+        data: disbursement as LoanDisbursement
       };
 
     } catch (error) {
-      console.error('Get loans error:', error);
+      console.error('Disburse loan error:', error);
       return {
         success: false,
-        error: 'Failed to load loans list.'
+        error: 'An unexpected error occurred while disbursing the loan.'
       };
     }
   }
 
   /**
-   * Record payment against loan with enhanced EMI status update
+   * Reject a pending loan application with the approver's comments
    */
-  static async recordPayment(
-    paymentData: RecordPaymentForm,
-    recordedBy: string
-  ): Promise<ApiResponse<Payment>> {
+  static async rejectLoan(
+    loanId: string,
+    approverId: string,
+    comments: string
+  ): Promise<ApiResponse<Loan>> {
     try {
-      if (paymentData.amount <= 0) {
+      if (!comments.trim()) {
         return {
           success: false,
-          error: 'Payment amount must be greater than zero.'
+          error: 'Please give a reason for rejecting the loan.'
         };
       }
 
-      // Get loan details
       const { data: loan, error: loanError } = await supabase
         .from('loans')
-        .select('*, emis(*)')
-        .eq('id', paymentData.loan_id)
+        .select('*')
+        .eq('id', loanId)
         .single();
 
       if (loanError || !loan) {
@@ -480,202 +1098,3667 @@ export class LoanService {
         };
       }
 
-      if (loan.status !== 'active') {
+      const authority = await this.checkApprovalAuthority(loan as Loan, approverId);
+      if (!authority.isValid) {
         return {
           success: false,
-          error: 'Cannot record payment for inactive loan.'
+          error: authority.message
         };
       }
 
-      // Record payment
-      const { data: newPayment, error: paymentError } = await supabase
-        .from('payments')
-        .insert({
-          loan_id: paymentData.loan_id,
-          amount: paymentData.amount,
-          payment_date: paymentData.payment_date,
-          payment_method: paymentData.payment_method,
-          reference_number: paymentData.reference_number,
-          notes: paymentData.notes,
-          recorded_by: recordedBy
+      const { data: rejectedLoan, error: updateError } = await supabase
+        .from('loans')
+        .update({
+          status: 'rejected' as LoanStatus,
+          rejected_by: approverId,
+          rejected_at: new Date().toISOString(),
+          approval_comments: comments.trim()
         })
+        .eq('id', loanId)
+        .eq('status', 'pending_approval')
         .select()
         .single();
 
-      if (paymentError) {
+      if (updateError || !rejectedLoan) {
+        console.error('Reject loan error:', updateError);
         return {
           success: false,
-          error: 'Failed to record payment.'
+          error: 'Failed to reject the loan. It may already have been reviewed.'
         };
       }
 
-      // Update EMI status based on all payments
-      await this.updateEMIStatus(paymentData.loan_id);
-
       return {
         success: true,
-        data: newPayment as Payment
+        data: rejectedLoan as Loan
       };
 
     } catch (error) {
-      console.error('Record payment error:', error);
+      console.error('Reject loan error:', error);
       return {
         success: false,
-        error: 'An unexpected error occurred while recording payment.'
+        error: 'An unexpected error occurred while rejecting the loan.'
       };
     }
   }
 
   /**
-   * Get loan details with complete information
+   * Get loan applications the user can review: everything for a super admin,
+   * below-threshold loans submitted by someone else for a senior lender
    */
-  static async getLoanDetails(loanId: string): Promise<ApiResponse<Loan>> {
+  static async getPendingApprovals(approverId: string): Promise<ApiResponse<Loan[]>> {
     try {
-      const { data, error } = await supabase
+      const { data: approver } = await supabase
+        .from('users')
+        .select('role, can_approve_loans')
+        .eq('id', approverId)
+        .single();
+
+      const isSuperAdmin = approver?.role === 'super_admin';
+      if (!isSuperAdmin && !(approver?.role === 'lender' && approver.can_approve_loans)) {
+        return { success: true, data: [] };
+      }
+
+      let query = supabase
         .from('loans')
         .select(`
           *,
           borrower:borrowers(*,
-            user:users!borrowers_user_id_fkey(*,
-              user_profiles(*)
-            )
-          ),
-          emis(*),
-          payments(*,
-            recorded_by_user:users!payments_recorded_by_fkey(full_name)
+            user:users!borrowers_user_id_fkey(full_name, email, phone)
           )
         `)
-        .eq('id', loanId)
-        .single();
+        .eq('status', 'pending_approval')
+        .neq('submitted_by', approverId)
+        .is('deleted_at', null);
+
+      if (!isSuperAdmin) {
+        query = query.eq('requires_super_admin_approval', false);
+      }
+
+      const { data, error } = await query.order('submitted_at', { ascending: true });
 
       if (error) {
-        return {
-          success: false,
-          error: 'Loan not found.'
-        };
+        throw error;
       }
 
       return {
         success: true,
-        data: data as Loan
+        data: (data || []) as Loan[]
       };
 
     } catch (error) {
-      console.error('Get loan details error:', error);
+      console.error('Get pending approvals error:', error);
       return {
         success: false,
-        error: 'Failed to load loan details.'
+        error: 'Failed to load loans awaiting approval.'
       };
     }
   }
 
   /**
-   * ENHANCED EMI STATUS UPDATE: Properly allocates payments to EMIs in chronological order
+   * Get borrowers for a specific lender - FIXED WITH EXPLICIT FOREIGN KEYS
    */
-  private static async updateEMIStatus(loanId: string): Promise<void> {
+  static async getBorrowersByLender(
+    lenderId: string,
+    search?: string
+  ): Promise<ApiResponse<Borrower[]>> {
     try {
-      // Get all payments for this loan
-      const { data: payments } = await supabase
-        .from('payments')
-        .select('amount, payment_date')
-        .eq('loan_id', loanId)
-        .order('payment_date', { ascending: true });
-
-      // Get all EMIs for this loan in order
-      const { data: emis } = await supabase
-        .from('emis')
-        .select('*')
-        .eq('loan_id', loanId)
-        .order('emi_number', { ascending: true });
-
-      if (!emis || !payments) return;
+      // FIXED: Explicitly specify which foreign key relationship to use
+      const { data, error } = await supabase
+        .from('borrowers')
+        .select(`
+          *,
+          user:users!borrowers_user_id_fkey(*,
+            user_profiles(*)
+          ),
+          loans(id, status, principal_amount, created_at)
+        `)
+        .eq('lender_id', lenderId)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: false });
 
-      // Calculate total amount paid
-      const totalPaid = payments.reduce((sum, p) => sum + p.amount, 0);
-      
-      let remainingAmount = totalPaid;
-      const today = new Date().toISOString().split('T')[0];
+      if (error) {
+        console.error('Get borrowers error:', error);
+        throw error;
+      }
 
-      // Allocate payments to EMIs in chronological order
-      for (const emi of emis) {
-        let newStatus: EMIStatus = 'pending';
-        let paidAmount = 0;
-        let paidDate = null;
-
-        if (remainingAmount >= emi.amount) {
-          // Full EMI paid
-          newStatus = 'paid';
-          paidAmount = emi.amount;
-          paidDate = today;
-          remainingAmount -= emi.amount;
-        } else if (remainingAmount > 0) {
-          // Partial payment
-          newStatus = 'partially_paid';
-          paidAmount = remainingAmount;
-          remainingAmount = 0;
-        } else if (emi.due_date < today) {
-          // No payment but overdue
-          newStatus = 'overdue';
-          paidAmount = 0;
-        } else {
-          // Pending (not due yet)
-          newStatus = 'pending';
-          paidAmount = 0;
-        }
+      let result = data as Borrower[] || [];
 
-        // Update EMI record
-        await supabase
-          .from('emis')
-          .update({
-            status: newStatus,
-            paid_amount: paidAmount,
-            paid_date: paidDate
-          })
-          .eq('id', emi.id);
+      // Apply search filter on client side for simplicity
+      if (search && search.trim()) {
+        const searchLower = search.toLowerCase().trim();
+        result = result.filter(borrower => {
+          const user = (borrower as any).user;
+          if (!user) return false;
+          
+          return (
+            user.full_name?.toLowerCase().includes(searchLower) ||
+            user.email?.toLowerCase().includes(searchLower) ||
+            user.phone?.toLowerCase().includes(searchLower)
+          );
+        });
       }
 
-      // Check if loan is fully paid
-      if (remainingAmount === 0 && totalPaid > 0) {
-        const allEMIsPaid = emis.every(emi => emi.amount <= (emi.paid_amount || 0));
-        
-        if (allEMIsPaid) {
-          await supabase
-            .from('loans')
-            .update({ status: 'completed' })
-            .eq('id', loanId);
-        }
-      }
+      return {
+        success: true,
+        data: result
+      };
 
     } catch (error) {
-      console.error('Update EMI status error:', error);
+      console.error('Get borrowers error:', error);
+      return {
+        success: false,
+        error: 'Failed to load borrowers list.'
+      };
     }
   }
 
   /**
-   * Validate borrower data
+   * ENTERPRISE FIX: Get paginated loans list with COMPLETE EMI and payment data
+   * This fixes the MyLoansScreen progress calculation issue
    */
-  private static validateBorrowerData(borrowerData: CreateBorrowerForm): {
-    isValid: boolean;
-    message?: string;
-  } {
-    if (!borrowerData.full_name?.trim()) {
-      return { isValid: false, message: 'Full name is required.' };
-    }
+  static async getLoans(
+    page: number = 1,
+    limit: number = 20,
+    filters?: LoanFilters
+  ): Promise<ApiResponse<PaginatedResponse<Loan>>> {
+    try {
+      let query = supabase
+        .from('loans')
+        .select(`
+          *,
+          borrower:borrowers(*,
+            user:users!borrowers_user_id_fkey(full_name, email, phone,
+              user_profiles(address)
+            )
+          ),
+          emis(*, charges:emi_charges(*)),
+          payments(*),
+          parties:loan_parties(*),
+          collaterals:loan_collaterals(*),
+          write_offs:loan_write_offs(*),
+          recoveries:loan_recoveries(*)
+        `, { count: 'exact' })
+        .is('deleted_at', null);
 
-    if (!borrowerData.email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(borrowerData.email)) {
-      return { isValid: false, message: 'Valid email address is required.' };
-    }
+      // Apply filters
+      if (filters?.status) {
+        query = query.eq('status', filters.status);
+      }
 
-    if (!borrowerData.phone || !/^\+?[\d\s\-\(\)]{10,}$/.test(borrowerData.phone)) {
-      return { isValid: false, message: 'Valid phone number is required.' };
-    }
+      if (filters?.borrower_id) {
+        query = query.eq('borrower_id', filters.borrower_id);
+      }
 
-    if (!borrowerData.address?.trim()) {
-      return { isValid: false, message: 'Address is required.' };
-    }
+      if (filters?.dpd_bucket) {
+        query = query.eq('dpd_bucket', filters.dpd_bucket);
+      }
 
-    if (!borrowerData.employment_type?.trim()) {
-      return { isValid: false, message: 'Employment type is required.' };
+      if (filters?.search) {
+        query = query.ilike('loan_number', `%${filters.search}%`);
+      }
+
+      if (filters?.date_from) {
+        query = query.gte('created_at', filters.date_from);
+      }
+
+      if (filters?.date_to) {
+        query = query.lte('created_at', filters.date_to);
+      }
+
+      // Calculate pagination
+      const offset = (page - 1) * limit;
+      
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      const totalPages = Math.ceil((count || 0) / limit);
+
+      return {
+        success: true,
+        data: {
+          data: data as Loan[] || [],
+          count: count || 0,
+          page,
+          limit,
+          total_pages: totalPages
+        }
+      };
+
+    } catch (error) {
+      console.error('Get loans error:', error);
+      return {
+        success: false,
+        error: 'Failed to load loans list.'
+      };
+    }
+  }
+
+  /**
+   * Record payment against loan with enhanced EMI status update
+   */
+  static async recordPayment(
+    paymentData: RecordPaymentForm,
+    recordedBy: string
+  ): Promise<ApiResponse<Payment>> {
+    try {
+      if (paymentData.amount <= 0) {
+        return {
+          success: false,
+          error: 'Payment amount must be greater than zero.'
+        };
+      }
+
+      // Get loan details
+      const { data: loan, error: loanError } = await supabase
+        .from('loans')
+        .select('*, emis(*)')
+        .eq('id', paymentData.loan_id)
+        .single();
+
+      if (loanError || !loan) {
+        return {
+          success: false,
+          error: 'Loan not found.'
+        };
+      }
+
+      if (loan.status !== 'active') {
+        return {
+          success: false,
+          error: 'Cannot record payment for inactive loan.'
+        };
+      }
+
+      // Record payment
+      const { data: newPayment, error: paymentError } = await supabase
+        .from('payments')
+        .insert({
+          loan_id: paymentData.loan_id,
+          amount: paymentData.amount,
+          payment_date: paymentData.payment_date,
+          payment_method: paymentData.payment_method,
+          reference_number: paymentData.reference_number,
+          notes: paymentData.notes,
+          recorded_by: recordedBy,
+          // Cheques are held out of allocation until they clear
+          cheque_status: paymentData.payment_method === 'cheque' ? 'received' : undefined
+        })
+        .select()
+        .single();
+
+      if (paymentError) {
+        return {
+          success: false,
+          error: 'Failed to record payment.'
+        };
+      }
+
+      // Update EMI status based on all payments
+      await this.updateEMIStatus(paymentData.loan_id);
+
+      return {
+        success: true,
+        data: newPayment as Payment
+      };
+
+    } catch (error) {
+      console.error('Record payment error:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred while recording payment.'
+      };
+    }
+  }
+
+  /**
+   * Void a payment entered in error. The record is kept but no longer counts
+   * towards the loan, and EMIs are re-allocated without it.
+   */
+  static async voidPayment(
+    paymentId: string,
+    reason: string,
+    performedBy: string
+  ): Promise<ApiResponse<Payment>> {
+    return this.adjustPayment(paymentId, 'void', reason, performedBy);
+  }
+
+  /**
+   * Reverse a payment that was received but did not hold, such as a bounced
+   * cheque or a returned transfer
+   */
+  static async reversePayment(
+    paymentId: string,
+    reason: string,
+    performedBy: string
+  ): Promise<ApiResponse<Payment>> {
+    return this.adjustPayment(paymentId, 'reversal', reason, performedBy);
+  }
+
+  /**
+   * Correct a payment recorded with the wrong details: a replacement entry is
+   * posted and the original voided, linked to it in the audit trail
+   */
+  static async correctPayment(
+    correctionData: PaymentCorrectionForm,
+    performedBy: string
+  ): Promise<ApiResponse<Payment>> {
+    try {
+      if (correctionData.amount <= 0) {
+        return {
+          success: false,
+          error: 'Payment amount must be greater than zero.'
+        };
+      }
+
+      if (!correctionData.reason?.trim()) {
+        return {
+          success: false,
+          error: 'Please give a reason for the correction.'
+        };
+      }
+
+      const { data: original, error: paymentError } = await supabase
+        .from('payments')
+        .select('*, loan:loans!payments_loan_id_fkey(*, collaterals:loan_collaterals(*))')
+        .eq('id', correctionData.payment_id)
+        .single();
+
+      if (paymentError || !original) {
+        return {
+          success: false,
+          error: 'Payment not found.'
+        };
+      }
+
+      const eligibility = this.checkPaymentAdjustment(original as Payment, original.loan as Loan);
+      if (!eligibility.isValid) {
+        return {
+          success: false,
+          error: eligibility.message
+        };
+      }
+
+      const { data: replacement, error: replacementError } = await supabase
+        .from('payments')
+        .insert({
+          loan_id: original.loan_id,
+          amount: correctionData.amount,
+          payment_date: correctionData.payment_date,
+          payment_method: correctionData.payment_method,
+          reference_number: correctionData.reference_number,
+          notes: correctionData.notes,
+          recorded_by: performedBy,
+          replaces_payment_id: original.id,
+          // A corrected cheque keeps its clearing state
+          cheque_status: correctionData.payment_method !== 'cheque'
+            ? undefined
+            : original.payment_method === 'cheque' ? original.cheque_status : 'received'
+        })
+        .select()
+        .single();
+
+      if (replacementError || !replacement) {
+        return {
+          success: false,
+          error: 'Failed to record the corrected payment.'
+        };
+      }
+
+      const result = await this.adjustPayment(
+        original.id,
+        'correction',
+        correctionData.reason,
+        performedBy,
+        replacement.id
+      );
+
+      if (!result.success) {
+        // Rollback the replacement so the original stays the only entry
+        await supabase.from('payments').delete().eq('id', replacement.id);
+        return {
+          success: false,
+          error: result.error
+        };
+      }
+
+      return {
+        success: true,
+        data: replacement as Payment
+      };
+
+    } catch (error) {
+      console.error('Correct payment error:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred while correcting the payment.'
+      };
+    }
+  }
+
+  /**
+   * Get a lender's cheque payments still in clearing, oldest first
+   */
+  static async getChequesInClearing(lenderId: string): Promise<ApiResponse<Payment[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('payments')
+        .select(`
+          *,
+          loan:loans!payments_loan_id_fkey!inner(id, loan_number, status,
+            borrower:borrowers!inner(lender_id,
+              user:users!borrowers_user_id_fkey(full_name, phone)
+            )
+          )
+        `)
+        .eq('payment_method', 'cheque')
+        .in('cheque_status', ['received', 'deposited'])
+        .or('status.is.null,status.eq.posted')
+        .eq('loan.borrower.lender_id', lenderId)
+        .order('payment_date', { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      return {
+        success: true,
+        data: (data || []) as Payment[]
+      };
+
+    } catch (error) {
+      console.error('Get cheques in clearing error:', error);
+      return {
+        success: false,
+        error: 'Failed to load cheques in clearing.'
+      };
+    }
+  }
+
+  /**
+   * Mark a received cheque as deposited with the bank
+   */
+  static async depositCheque(
+    paymentId: string,
+    depositDate: string
+  ): Promise<ApiResponse<Payment>> {
+    try {
+      const { data: payment, error: paymentError } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('id', paymentId)
+        .single();
+
+      if (paymentError || !payment) {
+        return {
+          success: false,
+          error: 'Payment not found.'
+        };
+      }
+
+      const transition = this.checkChequeTransition(payment as Payment, ['received'], depositDate);
+      if (!transition.isValid) {
+        return {
+          success: false,
+          error: transition.message
+        };
+      }
+
+      const { data: deposited, error } = await supabase
+        .from('payments')
+        .update({
+          cheque_status: 'deposited' as ChequeStatus,
+          cheque_deposited_at: depositDate
+        })
+        .eq('id', paymentId)
+        .eq('cheque_status', 'received')
+        .select()
+        .single();
+
+      if (error || !deposited) {
+        return {
+          success: false,
+          error: 'Failed to update the cheque. It may already have been updated.'
+        };
+      }
+
+      return {
+        success: true,
+        data: deposited as Payment
+      };
+
+    } catch (error) {
+      console.error('Deposit cheque error:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred while updating the cheque.'
+      };
+    }
+  }
+
+  /**
+   * Mark a cheque as cleared and allocate it to the loan's EMIs
+   */
+  static async clearCheque(
+    paymentId: string,
+    clearedDate: string
+  ): Promise<ApiResponse<Payment>> {
+    try {
+      const { data: payment, error: paymentError } = await supabase
+        .from('payments')
+        .select('*, loan:loans!payments_loan_id_fkey(id, status)')
+        .eq('id', paymentId)
+        .single();
+
+      if (paymentError || !payment) {
+        return {
+          success: false,
+          error: 'Payment not found.'
+        };
+      }
+
+      const transition = this.checkChequeTransition(payment as Payment, ['received', 'deposited'], clearedDate);
+      if (!transition.isValid) {
+        return {
+          success: false,
+          error: transition.message
+        };
+      }
+
+      if (payment.loan?.status === 'written_off') {
+        return {
+          success: false,
+          error: 'This loan has been written off. Void the cheque and record it as a recovery instead.'
+        };
+      }
+
+      const { data: cleared, error } = await supabase
+        .from('payments')
+        .update({
+          cheque_status: 'cleared' as ChequeStatus,
+          cheque_cleared_at: clearedDate
+        })
+        .eq('id', paymentId)
+        .in('cheque_status', ['received', 'deposited'])
+        .select()
+        .single();
+
+      if (error || !cleared) {
+        return {
+          success: false,
+          error: 'Failed to update the cheque. It may already have been updated.'
+        };
+      }
+
+      // The cheque now counts towards the loan
+      await this.updateEMIStatus(payment.loan_id);
+
+      return {
+        success: true,
+        data: cleared as Payment
+      };
+
+    } catch (error) {
+      console.error('Clear cheque error:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred while updating the cheque.'
+      };
+    }
+  }
+
+  /**
+   * Record a bounced cheque. The payment is reversed, undoing any allocation
+   * it had, and a bounce charge is raised on the EMI it was meant to pay.
+   */
+  static async bounceCheque(
+    paymentId: string,
+    bouncedDate: string,
+    reason: string,
+    performedBy: string
+  ): Promise<ApiResponse<{ payment: Payment; bounceCharge: number }>> {
+    try {
+      if (!reason?.trim()) {
+        return {
+          success: false,
+          error: 'Please give the reason the cheque was returned.'
+        };
+      }
+
+      const { data: payment, error: paymentError } = await supabase
+        .from('payments')
+        .select(`
+          *,
+          loan:loans!payments_loan_id_fkey(*, emis(*), collaterals:loan_collaterals(*)),
+          allocations:payment_allocations(*)
+        `)
+        .eq('id', paymentId)
+        .single();
+
+      if (paymentError || !payment) {
+        return {
+          success: false,
+          error: 'Payment not found.'
+        };
+      }
+
+      const loan = payment.loan as Loan;
+      const transition = this.checkChequeTransition(
+        payment as Payment,
+        ['received', 'deposited', 'cleared'],
+        bouncedDate
+      );
+      if (!transition.isValid) {
+        return {
+          success: false,
+          error: transition.message
+        };
+      }
+
+      const eligibility = this.checkPaymentAdjustment(payment as Payment, loan);
+      if (!eligibility.isValid) {
+        return {
+          success: false,
+          error: eligibility.message
+        };
+      }
+
+      const previousStatus: ChequeStatus | null = payment.cheque_status || null;
+      const { error: bounceError } = await supabase
+        .from('payments')
+        .update({
+          cheque_status: 'bounced' as ChequeStatus,
+          cheque_bounced_at: bouncedDate
+        })
+        .eq('id', paymentId);
+
+      if (bounceError) {
+        return {
+          success: false,
+          error: 'Failed to update the cheque.'
+        };
+      }
+
+      // Charge the EMI the cheque paid first, else the oldest one still open
+      const bounceCharge = Money.of(
+        loan.penalty_policy?.bounce_charge ?? this.DEFAULT_PENALTY_POLICY.bounce_charge ?? 0
+      );
+      const openEMIs = this.getCurrentEMIs(loan).filter(emi => emi.status !== 'closed');
+      const paidEMIIds = new Set(((payment.allocations || []) as PaymentAllocation[]).map(line => line.emi_id));
+      const chargeEMI = openEMIs.find(emi => paidEMIIds.has(emi.id))
+        || openEMIs.find(emi => emi.status !== 'paid')
+        || openEMIs[openEMIs.length - 1];
+
+      let chargeId: string | null = null;
+      if (bounceCharge.isPositive() && chargeEMI) {
+        const { data: charge, error: chargeError } = await supabase
+          .from('emi_charges')
+          .insert({
+            loan_id: loan.id,
+            emi_id: chargeEMI.id,
+            charge_type: 'bounce_charge',
+            amount: bounceCharge.toNumber(),
+            paid_amount: 0,
+            accrued_through: bouncedDate,
+            payment_id: paymentId
+          })
+          .select('id')
+          .single();
+
+        if (chargeError || !charge) {
+          console.error('Raise bounce charge error:', chargeError);
+          // Rollback cheque status
+          await supabase
+            .from('payments')
+            .update({ cheque_status: previousStatus, cheque_bounced_at: null })
+            .eq('id', paymentId);
+          return {
+            success: false,
+            error: 'Failed to raise the bounce charge.'
+          };
+        }
+        chargeId = charge.id;
+      }
+
+      // Reverse the payment; allocation is re-run with the bounce charge in place
+      const reversal = await this.adjustPayment(paymentId, 'reversal', reason, performedBy);
+
+      if (!reversal.success || !reversal.data) {
+        // Rollback bounce charge and cheque status
+        if (chargeId) {
+          await supabase.from('emi_charges').delete().eq('id', chargeId);
+        }
+        await supabase
+          .from('payments')
+          .update({ cheque_status: previousStatus, cheque_bounced_at: null })
+          .eq('id', paymentId);
+        return {
+          success: false,
+          error: reversal.error
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          payment: reversal.data,
+          bounceCharge: chargeId ? bounceCharge.toNumber() : 0
+        }
+      };
+
+    } catch (error) {
+      console.error('Bounce cheque error:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred while recording the bounced cheque.'
+      };
+    }
+  }
+
+  /**
+   * Preview a part-prepayment against the loan's current schedule
+   */
+  static async previewPrepayment(
+    loanId: string,
+    amount: number,
+    option: PrepaymentOption
+  ): Promise<ApiResponse<PrepaymentResult>> {
+    try {
+      const { data: loan, error: loanError } = await supabase
+        .from('loans')
+        .select('*, emis(*)')
+        .eq('id', loanId)
+        .single();
+
+      if (loanError || !loan) {
+        return {
+          success: false,
+          error: 'Loan not found.'
+        };
+      }
+
+      const eligibility = this.checkPrepaymentEligibility(loan as Loan);
+      if (!eligibility.isValid) {
+        return {
+          success: false,
+          error: eligibility.message
+        };
+      }
+
+      const prepayment = EMICalculationService.calculatePrepayment(
+        this.buildScheduleFromEMIs(loan as Loan),
+        amount,
+        eligibility.paidEMIs,
+        this.getLoanParameters(loan as Loan),
+        option
+      );
+
+      return {
+        success: true,
+        data: prepayment
+      };
+
+    } catch (error) {
+      console.error('Preview prepayment error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to calculate prepayment.'
+      };
+    }
+  }
+
+  /**
+   * Record a part-prepayment and apply the re-amortized schedule to the loan's EMIs
+   */
+  static async applyPrepayment(
+    prepaymentData: PrepaymentForm,
+    recordedBy: string
+  ): Promise<ApiResponse<{ payment: Payment; prepayment: PrepaymentResult }>> {
+    try {
+      const preview = await this.previewPrepayment(
+        prepaymentData.loan_id,
+        prepaymentData.amount,
+        prepaymentData.option
+      );
+
+      if (!preview.success || !preview.data) {
+        return {
+          success: false,
+          error: preview.error || 'Failed to calculate prepayment.'
+        };
+      }
+
+      const prepayment = preview.data;
+
+      // Record prepayment - kept out of regular EMI allocation
+      const { data: newPayment, error: paymentError } = await supabase
+        .from('payments')
+        .insert({
+          loan_id: prepaymentData.loan_id,
+          amount: prepaymentData.amount,
+          payment_date: prepaymentData.payment_date,
+          payment_method: prepaymentData.payment_method,
+          payment_type: 'prepayment',
+          reference_number: prepaymentData.reference_number,
+          notes: prepaymentData.notes,
+          recorded_by: recordedBy
+        })
+        .select()
+        .single();
+
+      if (paymentError) {
+        return {
+          success: false,
+          error: 'Failed to record prepayment.'
+        };
+      }
+
+      const { data: loanRate } = await supabase
+        .from('loans')
+        .select('interest_rate')
+        .eq('id', prepaymentData.loan_id)
+        .single();
+
+      // Replace the unpaid part of the schedule with the revised one
+      // (eligibility guarantees every unpaid EMI is still pending). The old rows
+      // are archived first and only deleted once the revised rows are in.
+      const { data: replacedEMIs, error: archiveError } = await supabase
+        .from('emis')
+        .update({ status: 'restructured' as EMIStatus })
+        .eq('loan_id', prepaymentData.loan_id)
+        .eq('status', 'pending')
+        .select('id');
+
+      if (archiveError) {
+        console.error('Archive pending EMIs error:', archiveError);
+        // Rollback payment so the lender can retry
+        await supabase.from('payments').delete().eq('id', newPayment.id);
+        return {
+          success: false,
+          error: 'Failed to apply revised EMI schedule.'
+        };
+      }
+
+      const replacedIds = (replacedEMIs || []).map(emi => emi.id);
+
+      const revisedInserts = prepayment.revisedSchedule.map(item => ({
+        loan_id: prepaymentData.loan_id,
+        emi_number: item.emiNumber,
+        due_date: item.dueDate.toISOString().split('T')[0],
+        amount: item.emiAmount,
+        principal_component: item.principalComponent,
+        interest_component: item.interestComponent,
+        interest_rate: loanRate?.interest_rate,
+        status: 'pending' as EMIStatus
+      }));
+
+      const { error: emiError } = revisedInserts.length > 0
+        ? await supabase.from('emis').insert(revisedInserts)
+        : { error: null };
+
+      if (emiError) {
+        console.error('Prepayment schedule update error:', emiError);
+        // Rollback: restore the original pending EMIs and the payment
+        if (replacedIds.length > 0) {
+          await supabase
+            .from('emis')
+            .update({ status: 'pending' as EMIStatus })
+            .in('id', replacedIds);
+        }
+        await supabase.from('payments').delete().eq('id', newPayment.id);
+        return {
+          success: false,
+          error: 'Failed to apply revised EMI schedule.'
+        };
+      }
+
+      if (replacedIds.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('emis')
+          .delete()
+          .in('id', replacedIds);
+
+        if (deleteError) {
+          // The archived rows are outside the schedule, so the loan stays consistent
+          console.error('Delete replaced EMIs error:', deleteError);
+        }
+      }
+
+      await this.updateEMIStatus(prepaymentData.loan_id);
+
+      // Close the loan only once late-payment charges are settled as well
+      if (prepayment.loanClosed) {
+        const chargesOutstanding = await this.getChargesOutstanding(prepaymentData.loan_id);
+        if (!chargesOutstanding.isPositive()) {
+          await supabase
+            .from('loans')
+            .update({ status: 'completed' as LoanStatus })
+            .eq('id', prepaymentData.loan_id)
+            .eq('status', 'active');
+        }
+      }
+
+      return {
+        success: true,
+        data: {
+          payment: newPayment as Payment,
+          prepayment
+        }
+      };
+
+    } catch (error) {
+      console.error('Apply prepayment error:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred while applying prepayment.'
+      };
+    }
+  }
+
+  /**
+   * Release the lien on a completed loan's collateral so the assets can be
+   * returned to the borrower
+   */
+  static async releaseCollateral(
+    loanId: string,
+    releasedBy: string
+  ): Promise<ApiResponse<LoanCollateral[]>> {
+    try {
+      const { data: loan, error: loanError } = await supabase
+        .from('loans')
+        .select('id, status')
+        .eq('id', loanId)
+        .single();
+
+      if (loanError || !loan) {
+        return {
+          success: false,
+          error: 'Loan not found.'
+        };
+      }
+
+      if (loan.status !== 'completed') {
+        return {
+          success: false,
+          error: 'Collateral can only be released once the loan is completed.'
+        };
+      }
+
+      const { data: released, error } = await supabase
+        .from('loan_collaterals')
+        .update({
+          lien_status: 'released',
+          released_at: new Date().toISOString(),
+          released_by: releasedBy
+        })
+        .eq('loan_id', loanId)
+        .neq('lien_status', 'released')
+        .select();
+
+      if (error) {
+        throw error;
+      }
+
+      if (!released || released.length === 0) {
+        return {
+          success: false,
+          error: 'No collateral is held against this loan.'
+        };
+      }
+
+      return {
+        success: true,
+        data: released as LoanCollateral[]
+      };
+
+    } catch (error) {
+      console.error('Release collateral error:', error);
+      return {
+        success: false,
+        error: 'Failed to release collateral.'
+      };
+    }
+  }
+
+  /**
+   * Get foreclosure quote: outstanding principal, interest accrued to the quote
+   * date, unpaid dues and charges, and the foreclosure charge
+   */
+  static async getForeclosureQuote(
+    loanId: string,
+    quoteDate: Date = new Date()
+  ): Promise<ApiResponse<ForeclosureQuote>> {
+    try {
+      const { data: loan, error: loanError } = await supabase
+        .from('loans')
+        .select('*, emis(*, charges:emi_charges(*))')
+        .eq('id', loanId)
+        .single();
+
+      if (loanError || !loan) {
+        return {
+          success: false,
+          error: 'Loan not found.'
+        };
+      }
+
+      if (loan.status !== 'active') {
+        return {
+          success: false,
+          error: 'Only active loans can be foreclosed.'
+        };
+      }
+
+      const schedule = this.buildScheduleFromEMIs(loan as Loan);
+      const emis = this.getCurrentEMIs(loan as Loan);
+      const quoteDay = quoteDate.toISOString().split('T')[0];
+
+      // Principal already collected against each EMI, e.g. instalments paid ahead
+      const { data: principalLines, error: allocationError } = await supabase
+        .from('payment_allocations')
+        .select('emi_id, amount')
+        .eq('loan_id', loanId)
+        .eq('component', 'principal');
+
+      if (allocationError) {
+        throw allocationError;
+      }
+
+      const principalCollected = (emi?: EMI): Money => Money.sumOf(
+        ((principalLines || []) as Pick<PaymentAllocation, 'emi_id' | 'amount'>[])
+          .filter(line => line.emi_id === emi?.id)
+          .map(line => line.amount)
+      );
+
+      // Installments due on or before the quote date are collected as dues;
+      // interest accrues from the last due date on the principal the later
+      // installments have not collected yet
+      const dueEMIs = emis.filter(emi => emi.due_date <= quoteDay);
+      const lastDueItem = dueEMIs.length > 0 ? schedule[dueEMIs.length - 1] : null;
+
+      const outstandingPrincipal = Money.sum(schedule
+        .slice(dueEMIs.length)
+        .map((item, index) => Money.max(
+          Money.ZERO,
+          Money.of(item.principalComponent).subtract(principalCollected(emis[dueEMIs.length + index]))
+        ))
+      ).toNumber();
+      const interestFromDate = lastDueItem
+        ? lastDueItem.dueDate
+        : new Date(loan.disbursed_at || loan.created_at);
+      const overdueAmount = Money.sum(dueEMIs
+        .filter(emi => emi.status !== 'paid' && emi.status !== 'closed')
+        .map(emi => Money.of(emi.amount).subtract(Money.of(emi.paid_amount || 0)))
+      ).toNumber();
+
+      // Penalty and bounce charges still owed on the current schedule
+      const outstandingCharges = Money.sum(emis
+        .flatMap(emi => emi.charges || [])
+        .map(charge => Money.max(Money.ZERO, Money.of(charge.amount).subtract(Money.of(charge.paid_amount || 0))))
+      ).toNumber();
+
+      const quote = EMICalculationService.calculateForeclosureQuote(
+        outstandingPrincipal,
+        loan.interest_rate,
+        interestFromDate,
+        quoteDate,
+        loan.foreclosure_charge_rate ?? this.DEFAULT_FORECLOSURE_CHARGE_RATE,
+        overdueAmount,
+        outstandingCharges
+      );
+
+      return {
+        success: true,
+        data: quote
+      };
+
+    } catch (error) {
+      console.error('Get foreclosure quote error:', error);
+      return {
+        success: false,
+        error: 'Failed to calculate foreclosure quote.'
+      };
+    }
+  }
+
+  /**
+   * Foreclose loan: record the settlement payment, close remaining EMIs
+   * and complete the loan with a closure reason
+   */
+  static async forecloseLoan(
+    foreclosureData: ForeclosureForm,
+    recordedBy: string
+  ): Promise<ApiResponse<{ payment: Payment; quote: ForeclosureQuote }>> {
+    try {
+      if (!foreclosureData.closure_reason?.trim()) {
+        return {
+          success: false,
+          error: 'Closure reason is required.'
+        };
+      }
+
+      const quoteResult = await this.getForeclosureQuote(
+        foreclosureData.loan_id,
+        new Date(foreclosureData.payment_date)
+      );
+
+      if (!quoteResult.success || !quoteResult.data) {
+        return {
+          success: false,
+          error: quoteResult.error || 'Failed to calculate foreclosure quote.'
+        };
+      }
+
+      const quote = quoteResult.data;
+
+      // Record settlement payment
+      const { data: newPayment, error: paymentError } = await supabase
+        .from('payments')
+        .insert({
+          loan_id: foreclosureData.loan_id,
+          amount: quote.totalPayable,
+          payment_date: foreclosureData.payment_date,
+          payment_method: foreclosureData.payment_method,
+          payment_type: 'foreclosure',
+          reference_number: foreclosureData.reference_number,
+          notes: foreclosureData.notes,
+          recorded_by: recordedBy
+        })
+        .select()
+        .single();
+
+      if (paymentError) {
+        return {
+          success: false,
+          error: 'Failed to record settlement payment.'
+        };
+      }
+
+      // The settlement includes the outstanding charges, so mark them collected
+      const { data: charges, error: chargesError } = await supabase
+        .from('emi_charges')
+        .select('id, amount, paid_amount, emi:emis(status)')
+        .eq('loan_id', foreclosureData.loan_id)
+        .overrideTypes<LedgerChargeRow[], { merge: false }>();
+
+      const settledCharges: { id: string; paid_amount: number }[] = [];
+      const restoreCharges = async () => {
+        for (const charge of settledCharges) {
+          await supabase
+            .from('emi_charges')
+            .update({ paid_amount: charge.paid_amount })
+            .eq('id', charge.id);
+        }
+      };
+
+      let chargeError = chargesError;
+      for (const charge of charges || []) {
+        if (chargeError) break;
+        if (charge.emi?.status === 'restructured' || (charge.paid_amount || 0) >= charge.amount) continue;
+
+        const { error } = await supabase
+          .from('emi_charges')
+          .update({ paid_amount: charge.amount })
+          .eq('id', charge.id);
+
+        chargeError = error;
+        if (!error) {
+          settledCharges.push({ id: charge.id, paid_amount: charge.paid_amount || 0 });
+        }
+      }
+
+      if (chargeError) {
+        console.error('Settle charges error:', chargeError);
+        // Rollback charge collections and settlement payment
+        await restoreCharges();
+        await supabase.from('payments').delete().eq('id', newPayment.id);
+        return {
+          success: false,
+          error: 'Failed to settle outstanding charges.'
+        };
+      }
+
+      // Close all EMIs that were not fully paid (archived EMIs stay archived)
+      const { error: emiError } = await supabase
+        .from('emis')
+        .update({ status: 'closed' as EMIStatus })
+        .eq('loan_id', foreclosureData.loan_id)
+        .not('status', 'in', '(paid,restructured)');
+
+      if (emiError) {
+        console.error('Close EMIs error:', emiError);
+        // Rollback charge collections and settlement payment
+        await restoreCharges();
+        await supabase.from('payments').delete().eq('id', newPayment.id);
+        return {
+          success: false,
+          error: 'Failed to close remaining EMIs.'
+        };
+      }
+
+      const { error: loanError } = await supabase
+        .from('loans')
+        .update({
+          status: 'completed' as LoanStatus,
+          closure_reason: foreclosureData.closure_reason.trim(),
+          closed_at: foreclosureData.payment_date
+        })
+        .eq('id', foreclosureData.loan_id);
+
+      if (loanError) {
+        console.error('Complete loan error:', loanError);
+        return {
+          success: false,
+          error: 'Settlement recorded but failed to close the loan.'
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          payment: newPayment as Payment,
+          quote
+        }
+      };
+
+    } catch (error) {
+      console.error('Foreclose loan error:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred while foreclosing the loan.'
+      };
+    }
+  }
+
+  /**
+   * Preview a write-off: the principal, interest and charges still owed on a
+   * defaulted loan as of the given date
+   */
+  static async previewWriteOff(
+    loanId: string,
+    asOfDate: Date = new Date()
+  ): Promise<ApiResponse<WriteOffPreview>> {
+    try {
+      const { data: loan, error: loanError } = await supabase
+        .from('loans')
+        .select('*, emis(*, charges:emi_charges(*))')
+        .eq('id', loanId)
+        .single();
+
+      if (loanError || !loan) {
+        return {
+          success: false,
+          error: 'Loan not found.'
+        };
+      }
+
+      if (loan.status !== 'defaulted') {
+        return {
+          success: false,
+          error: 'Only defaulted loans can be written off.'
+        };
+      }
+
+      return {
+        success: true,
+        data: this.calculateWriteOff(loan as Loan, asOfDate)
+      };
+
+    } catch (error) {
+      console.error('Preview write-off error:', error);
+      return {
+        success: false,
+        error: 'Failed to calculate the write-off.'
+      };
+    }
+  }
+
+  /**
+   * Request a write-off of a defaulted loan. The amounts are fixed at the
+   * request; the loan is only written off once another officer approves it.
+   */
+  static async requestWriteOff(
+    writeOffData: WriteOffForm,
+    requestedBy: string
+  ): Promise<ApiResponse<LoanWriteOff>> {
+    try {
+      if (!writeOffData.reason?.trim()) {
+        return {
+          success: false,
+          error: 'Write-off reason is required.'
+        };
+      }
+
+      const previewResult = await this.previewWriteOff(writeOffData.loan_id);
+      if (!previewResult.success || !previewResult.data) {
+        return {
+          success: false,
+          error: previewResult.error || 'Failed to calculate the write-off.'
+        };
+      }
+
+      const preview = previewResult.data;
+      if (!Money.of(preview.total).isPositive()) {
+        return {
+          success: false,
+          error: 'Nothing is outstanding on this loan to write off.'
+        };
+      }
+
+      const { data: pendingWriteOffs } = await supabase
+        .from('loan_write_offs')
+        .select('id')
+        .eq('loan_id', writeOffData.loan_id)
+        .eq('status', 'pending');
+
+      if (pendingWriteOffs && pendingWriteOffs.length > 0) {
+        return {
+          success: false,
+          error: 'A write-off request for this loan is already awaiting approval.'
+        };
+      }
+
+      const { data: writeOff, error } = await supabase
+        .from('loan_write_offs')
+        .insert({
+          loan_id: writeOffData.loan_id,
+          principal_written_off: preview.principal,
+          interest_written_off: preview.interest,
+          charges_written_off: preview.charges,
+          total_written_off: preview.total,
+          reason: writeOffData.reason.trim(),
+          status: 'pending',
+          requested_by: requestedBy,
+          requested_at: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error || !writeOff) {
+        console.error('Request write-off error:', error);
+        return {
+          success: false,
+          error: 'Failed to submit the write-off request.'
+        };
+      }
+
+      return {
+        success: true,
+        data: writeOff as LoanWriteOff
+      };
+
+    } catch (error) {
+      console.error('Request write-off error:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred while requesting the write-off.'
+      };
+    }
+  }
+
+  /**
+   * Approve a pending write-off and move the loan to written off
+   */
+  static async approveWriteOff(
+    writeOffId: string,
+    approverId: string,
+    comments?: string
+  ): Promise<ApiResponse<LoanWriteOff>> {
+    try {
+      const { data: writeOff, error: writeOffError } = await supabase
+        .from('loan_write_offs')
+        .select('*')
+        .eq('id', writeOffId)
+        .single();
+
+      if (writeOffError || !writeOff) {
+        return {
+          success: false,
+          error: 'Write-off request not found.'
+        };
+      }
+
+      const authority = await this.checkWriteOffAuthority(writeOff as LoanWriteOff, approverId);
+      if (!authority.isValid) {
+        return {
+          success: false,
+          error: authority.message
+        };
+      }
+
+      // The status guard stops a second approver reviewing it twice
+      const { data: approvedWriteOff, error: updateError } = await supabase
+        .from('loan_write_offs')
+        .update({
+          status: 'approved',
+          reviewed_by: approverId,
+          reviewed_at: new Date().toISOString(),
+          review_comments: comments?.trim() || null
+        })
+        .eq('id', writeOffId)
+        .eq('status', 'pending')
+        .select()
+        .single();
+
+      if (updateError || !approvedWriteOff) {
+        console.error('Approve write-off error:', updateError);
+        return {
+          success: false,
+          error: 'Failed to approve the write-off. It may already have been reviewed.'
+        };
+      }
+
+      const { error: loanError } = await supabase
+        .from('loans')
+        .update({
+          status: 'written_off' as LoanStatus,
+          written_off_at: new Date().toISOString().split('T')[0]
+        })
+        .eq('id', writeOff.loan_id)
+        .eq('status', 'defaulted');
+
+      if (loanError) {
+        console.error('Write off loan error:', loanError);
+        // Rollback approval so the request can be reviewed again
+        await supabase
+          .from('loan_write_offs')
+          .update({ status: 'pending', reviewed_by: null, reviewed_at: null, review_comments: null })
+          .eq('id', writeOffId);
+        return {
+          success: false,
+          error: 'Failed to write off the loan.'
+        };
+      }
+
+      return {
+        success: true,
+        data: approvedWriteOff as LoanWriteOff
+      };
+
+    } catch (error) {
+      console.error('Approve write-off error:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred while approving the write-off.'
+      };
+    }
+  }
+
+  /**
+   * Reject a pending write-off; the loan stays defaulted
+   */
+  static async rejectWriteOff(
+    writeOffId: string,
+    approverId: string,
+    comments: string
+  ): Promise<ApiResponse<LoanWriteOff>> {
+    try {
+      if (!comments.trim()) {
+        return {
+          success: false,
+          error: 'Please give a reason for rejecting the write-off.'
+        };
+      }
+
+      const { data: writeOff, error: writeOffError } = await supabase
+        .from('loan_write_offs')
+        .select('*')
+        .eq('id', writeOffId)
+        .single();
+
+      if (writeOffError || !writeOff) {
+        return {
+          success: false,
+          error: 'Write-off request not found.'
+        };
+      }
+
+      const authority = await this.checkWriteOffAuthority(writeOff as LoanWriteOff, approverId);
+      if (!authority.isValid) {
+        return {
+          success: false,
+          error: authority.message
+        };
+      }
+
+      const { data: rejectedWriteOff, error: updateError } = await supabase
+        .from('loan_write_offs')
+        .update({
+          status: 'rejected',
+          reviewed_by: approverId,
+          reviewed_at: new Date().toISOString(),
+          review_comments: comments.trim()
+        })
+        .eq('id', writeOffId)
+        .eq('status', 'pending')
+        .select()
+        .single();
+
+      if (updateError || !rejectedWriteOff) {
+        console.error('Reject write-off error:', updateError);
+        return {
+          success: false,
+          error: 'Failed to reject the write-off. It may already have been reviewed.'
+        };
+      }
+
+      return {
+        success: true,
+        data: rejectedWriteOff as LoanWriteOff
+      };
+
+    } catch (error) {
+      console.error('Reject write-off error:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred while rejecting the write-off.'
+      };
+    }
+  }
+
+  /**
+   * Record an amount recovered on a written-off loan. Recoveries are kept
+   * apart from EMI payments and do not reopen the loan.
+   */
+  static async recordRecovery(
+    recoveryData: RecoveryForm,
+    recordedBy: string
+  ): Promise<ApiResponse<LoanRecovery>> {
+    try {
+      if (recoveryData.amount <= 0) {
+        return {
+          success: false,
+          error: 'Recovery amount must be greater than zero.'
+        };
+      }
+
+      const { data: loan, error: loanError } = await supabase
+        .from('loans')
+        .select('id, status, written_off_at')
+        .eq('id', recoveryData.loan_id)
+        .single();
+
+      if (loanError || !loan) {
+        return {
+          success: false,
+          error: 'Loan not found.'
+        };
+      }
+
+      if (loan.status !== 'written_off') {
+        return {
+          success: false,
+          error: 'Recoveries can only be recorded on written-off loans.'
+        };
+      }
+
+      const today = new Date().toISOString().split('T')[0];
+      if (recoveryData.recovery_date > today) {
+        return {
+          success: false,
+          error: 'Recovery date cannot be in the future.'
+        };
+      }
+
+      if (loan.written_off_at && recoveryData.recovery_date < loan.written_off_at) {
+        return {
+          success: false,
+          error: 'Recovery date cannot be before the loan was written off.'
+        };
+      }
+
+      const { data: recovery, error } = await supabase
+        .from('loan_recoveries')
+        .insert({
+          loan_id: recoveryData.loan_id,
+          amount: recoveryData.amount,
+          recovery_date: recoveryData.recovery_date,
+          payment_method: recoveryData.payment_method,
+          reference_number: recoveryData.reference_number,
+          notes: recoveryData.notes,
+          recorded_by: recordedBy
+        })
+        .select()
+        .single();
+
+      if (error || !recovery) {
+        console.error('Record recovery error:', error);
+        return {
+          success: false,
+          error: 'Failed to record the recovery.'
+        };
+      }
+
+      return {
+        success: true,
+        data: recovery as LoanRecovery
+      };
+
+    } catch (error) {
+      console.error('Record recovery error:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred while recording the recovery.'
+      };
+    }
+  }
+
+  /**
+   * Preview a restructure: the balance carried forward (outstanding principal,
+   * overdue interest and interest accrued since the last due date) and the
+   * fresh schedule on the new terms
+   */
+  static async previewRestructure(
+    restructureData: RestructureForm,
+    restructureDate: Date = new Date()
+  ): Promise<ApiResponse<RestructurePreview>> {
+    try {
+      const { data: loan, error: loanError } = await supabase
+        .from('loans')
+        .select('*, emis(*)')
+        .eq('id', restructureData.loan_id)
+        .single();
+
+      if (loanError || !loan) {
+        return {
+          success: false,
+          error: 'Loan not found.'
+        };
+      }
+
+      if (loan.status !== 'active' && loan.status !== 'defaulted') {
+        return {
+          success: false,
+          error: 'Only active or defaulted loans can be restructured.'
+        };
+      }
+
+      const emis = this.getCurrentEMIs(loan as Loan);
+      const unpaidEMIs = emis.filter(emi => emi.status !== 'paid' && emi.status !== 'closed');
+      if (unpaidEMIs.length === 0) {
+        return {
+          success: false,
+          error: 'All EMIs are already paid.'
+        };
+      }
+
+      const base = this.calculateRestructureBase(loan as Loan, restructureDate);
+
+      const loanParams: LoanParameters = {
+        principal: base.restructuredPrincipal,
+        annualInterestRate: restructureData.interest_rate,
+        tenureMonths: restructureData.tenure_months,
+        repaymentFrequency: restructureData.repayment_frequency || loan.repayment_frequency || 'monthly',
+        interestMethod: restructureData.interest_method || loan.interest_method || 'reducing_balance',
+        moratoriumMonths: restructureData.moratorium_months || 0,
+        moratoriumTreatment: restructureData.moratorium_treatment || 'capitalize',
+        businessCalendar: await this.getBusinessCalendar(loan.holiday_calendar_id),
+        dueDateAdjustment: loan.due_date_adjustment || 'none'
+      };
+
+      const validation = EMICalculationService.validateLoanParameters(loanParams, restructureDate);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: `Invalid restructure terms: ${validation.errors.join(', ')}`
+        };
+      }
+
+      const allEMIs = (loan as Loan).emis || [];
+      const firstEMINumber = allEMIs.reduce((max, emi) => Math.max(max, emi.emi_number), 0) + 1;
+
+      return {
+        success: true,
+        data: {
+          ...base,
+          supersededEMIs: unpaidEMIs.length,
+          firstEMINumber,
+          calculation: EMICalculationService.calculateEMI(loanParams, restructureDate)
+        }
+      };
+
+    } catch (error) {
+      console.error('Preview restructure error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to calculate restructure.'
+      };
+    }
+  }
+
+  /**
+   * Restructure loan: archive the unpaid EMIs, generate a fresh schedule on
+   * the new terms and record the restructure event against the loan.
+   * Unpaid late-payment charges on archived EMIs are waived, not capitalized.
+   */
+  static async restructureLoan(
+    restructureData: RestructureForm,
+    restructuredBy: string
+  ): Promise<ApiResponse<{ restructure: LoanRestructure; preview: RestructurePreview }>> {
+    try {
+      if (!restructureData.reason?.trim()) {
+        return {
+          success: false,
+          error: 'Restructure reason is required.'
+        };
+      }
+
+      const restructureDate = new Date();
+      const previewResult = await this.previewRestructure(restructureData, restructureDate);
+      if (!previewResult.success || !previewResult.data) {
+        return {
+          success: false,
+          error: previewResult.error || 'Failed to calculate restructure.'
+        };
+      }
+
+      const preview = previewResult.data;
+      const { calculation } = preview;
+
+      const { data: loan } = await supabase
+        .from('loans')
+        .select('*, emis(*)')
+        .eq('id', restructureData.loan_id)
+        .single();
+
+      if (!loan) {
+        return {
+          success: false,
+          error: 'Loan not found.'
+        };
+      }
+
+      const supersededIds = this.getCurrentEMIs(loan as Loan)
+        .filter(emi => emi.status !== 'paid' && emi.status !== 'closed')
+        .map(emi => emi.id);
+
+      // Record restructure event with the previous and new terms
+      const { data: restructure, error: restructureError } = await supabase
+        .from('loan_restructures')
+        .insert({
+          loan_id: restructureData.loan_id,
+          reason: restructureData.reason.trim(),
+          restructured_by: restructuredBy,
+          restructured_at: restructureDate.toISOString(),
+          outstanding_principal: preview.outstandingPrincipal,
+          overdue_interest: preview.overdueInterest,
+          accrued_interest: preview.accruedInterest,
+          restructured_principal: preview.restructuredPrincipal,
+          previous_interest_rate: loan.interest_rate,
+          previous_tenure_months: loan.tenure_months,
+          previous_repayment_frequency: loan.repayment_frequency || 'monthly',
+          previous_interest_method: loan.interest_method || 'reducing_balance',
+          new_interest_rate: restructureData.interest_rate,
+          new_tenure_months: restructureData.tenure_months,
+          new_repayment_frequency: calculation.repaymentFrequency,
+          new_interest_method: calculation.interestMethod,
+          superseded_emi_count: supersededIds.length,
+          first_emi_number: preview.firstEMINumber
+        })
+        .select()
+        .single();
+
+      if (restructureError) {
+        console.error('Restructure record error:', restructureError);
+        return {
+          success: false,
+          error: 'Failed to record restructure.'
+        };
+      }
+
+      // Generate the new schedule after the existing EMI numbers
+      const emiInserts = calculation.schedule.map((item, index) => ({
+        loan_id: restructureData.loan_id,
+        emi_number: preview.firstEMINumber + index,
+        due_date: item.dueDate.toISOString().split('T')[0],
+        amount: item.emiAmount,
+        principal_component: item.principalComponent,
+        interest_component: item.interestComponent,
+        interest_rate: restructureData.interest_rate,
+        status: 'pending' as EMIStatus
+      }));
+
+      const { error: emiError } = await supabase
+        .from('emis')
+        .insert(emiInserts);
+
+      if (emiError) {
+        console.error('Restructure EMI creation error:', emiError);
+        // Rollback restructure record
+        await supabase.from('loan_restructures').delete().eq('id', restructure.id);
+        return {
+          success: false,
+          error: 'Failed to generate restructured EMI schedule.'
+        };
+      }
+
+      // Archive superseded EMIs - kept for history and their collected payments
+      const { error: archiveError } = await supabase
+        .from('emis')
+        .update({
+          status: 'restructured' as EMIStatus,
+          superseded_by: restructure.id
+        })
+        .in('id', supersededIds);
+
+      if (archiveError) {
+        console.error('Archive EMIs error:', archiveError);
+        // Rollback new schedule and restructure record
+        await supabase
+          .from('emis')
+          .delete()
+          .eq('loan_id', restructureData.loan_id)
+          .gte('emi_number', preview.firstEMINumber);
+        await supabase.from('loan_restructures').delete().eq('id', restructure.id);
+        return {
+          success: false,
+          error: 'Failed to archive superseded EMIs.'
+        };
+      }
+
+      // Move the loan onto the new terms
+      const { error: loanError } = await supabase
+        .from('loans')
+        .update({
+          interest_rate: restructureData.interest_rate,
+          tenure_months: restructureData.tenure_months,
+          repayment_frequency: calculation.repaymentFrequency,
+          interest_method: calculation.interestMethod,
+          repayment_structure: calculation.repaymentStructure,
+          moratorium_months: calculation.moratorium.moratoriumMonths,
+          moratorium_treatment: calculation.moratorium.treatment,
+          first_emi_date: calculation.moratorium.firstEMIDate.toISOString().split('T')[0],
+          status: 'active' as LoanStatus,
+          restructure_count: (loan.restructure_count || 0) + 1,
+          last_restructured_at: restructureDate.toISOString()
+        })
+        .eq('id', restructureData.loan_id);
+
+      if (loanError) {
+        console.error('Restructure loan update error:', loanError);
+        return {
+          success: false,
+          error: 'Schedule restructured but failed to update loan terms.'
+        };
+      }
+
+      await this.updateEMIStatus(restructureData.loan_id);
+
+      return {
+        success: true,
+        data: {
+          restructure: restructure as LoanRestructure,
+          preview
+        }
+      };
+
+    } catch (error) {
+      console.error('Restructure loan error:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred while restructuring the loan.'
+      };
+    }
+  }
+
+  /**
+   * Preview a rate change on a floating-rate loan from an EMI onward
+   */
+  static async previewRateChange(
+    loanId: string,
+    newRate: number,
+    effectiveEmiNumber: number
+  ): Promise<ApiResponse<RateChangeResult>> {
+    try {
+      const { data: loan, error: loanError } = await supabase
+        .from('loans')
+        .select('*, emis(*)')
+        .eq('id', loanId)
+        .single();
+
+      if (loanError || !loan) {
+        return {
+          success: false,
+          error: 'Loan not found.'
+        };
+      }
+
+      if (loan.status !== 'active') {
+        return {
+          success: false,
+          error: 'Rate changes are only allowed on active loans.'
+        };
+      }
+
+      if ((loan.rate_type || 'fixed') !== 'floating') {
+        return {
+          success: false,
+          error: 'Only floating-rate loans can be repriced.'
+        };
+      }
+
+      // The new rate can only apply to instalments nothing has been collected against
+      const repricedEMIs = this.getCurrentEMIs(loan as Loan).filter(emi => emi.emi_number >= effectiveEmiNumber);
+      if (repricedEMIs.length === 0) {
+        return {
+          success: false,
+          error: 'Effective EMI not found in the current schedule.'
+        };
+      }
+      if (repricedEMIs.some(emi => emi.status === 'paid' || (emi.paid_amount || 0) > 0)) {
+        return {
+          success: false,
+          error: 'The new rate can only apply to EMIs that have not been paid.'
+        };
+      }
+
+      const rateChange = EMICalculationService.calculateRateChange(
+        this.buildScheduleFromEMIs(loan as Loan),
+        effectiveEmiNumber,
+        newRate,
+        this.getLoanParameters(loan as Loan)
+      );
+
+      return {
+        success: true,
+        data: rateChange
+      };
+
+    } catch (error) {
+      console.error('Preview rate change error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to calculate rate change.'
+      };
+    }
+  }
+
+  /**
+   * Apply a rate change: re-amortize the remaining principal at the new rate,
+   * record the change in the loan's rate history and move the loan to the new rate
+   */
+  static async applyRateChange(
+    rateChangeData: RateChangeForm,
+    changedBy: string
+  ): Promise<ApiResponse<{ rateChange: LoanRateChange; result: RateChangeResult }>> {
+    try {
+      const preview = await this.previewRateChange(
+        rateChangeData.loan_id,
+        rateChangeData.new_rate,
+        rateChangeData.effective_emi_number
+      );
+
+      if (!preview.success || !preview.data) {
+        return {
+          success: false,
+          error: preview.error || 'Failed to calculate rate change.'
+        };
+      }
+
+      const result = preview.data;
+
+      // Rows touched below, kept so a failed reprice can put them back
+      const repricedNumbers = result.revisedSchedule.map(item => item.emiNumber);
+      const { data: previousEMIs, error: previousEMIsError } = await supabase
+        .from('emis')
+        .select('id, emi_number, amount, principal_component, interest_component, interest_rate')
+        .eq('loan_id', rateChangeData.loan_id);
+
+      if (previousEMIsError || !previousEMIs) {
+        return {
+          success: false,
+          error: 'Failed to load the current EMI schedule.'
+        };
+      }
+
+      const touchedEMIs = previousEMIs.filter(emi =>
+        repricedNumbers.includes(emi.emi_number) ||
+        (emi.emi_number < result.effectiveEmiNumber && emi.interest_rate === null)
+      );
+
+      // Record rate history entry
+      const { data: rateChange, error: rateChangeError } = await supabase
+        .from('loan_rate_changes')
+        .insert({
+          loan_id: rateChangeData.loan_id,
+          effective_emi_number: result.effectiveEmiNumber,
+          previous_rate: result.previousRate,
+          new_rate: result.newRate,
+          previous_emi_amount: result.previousEMIAmount,
+          new_emi_amount: result.newEMIAmount,
+          reason: rateChangeData.reason?.trim() || null,
+          changed_by: changedBy
+        })
+        .select()
+        .single();
+
+      if (rateChangeError) {
+        console.error('Rate change record error:', rateChangeError);
+        return {
+          success: false,
+          error: 'Failed to record rate change.'
+        };
+      }
+
+      // Instalments before the change keep the rate they were scheduled at
+      await supabase
+        .from('emis')
+        .update({ interest_rate: result.previousRate })
+        .eq('loan_id', rateChangeData.loan_id)
+        .lt('emi_number', result.effectiveEmiNumber)
+        .is('interest_rate', null);
+
+      // Reprice the remaining instalments in place
+      for (const item of result.revisedSchedule) {
+        const { error: emiError } = await supabase
+          .from('emis')
+          .update({
+            amount: item.emiAmount,
+            principal_component: item.principalComponent,
+            interest_component: item.interestComponent,
+            interest_rate: result.newRate
+          })
+          .eq('loan_id', rateChangeData.loan_id)
+          .eq('emi_number', item.emiNumber);
+
+        if (emiError) {
+          console.error('Reprice EMI error:', emiError);
+          // Rollback repriced EMIs and the rate history entry so the lender can retry
+          await this.restoreEMIs(touchedEMIs);
+          await supabase.from('loan_rate_changes').delete().eq('id', rateChange.id);
+          return {
+            success: false,
+            error: 'Failed to apply revised EMI schedule.'
+          };
+        }
+      }
+
+      const { error: loanError } = await supabase
+        .from('loans')
+        .update({ interest_rate: result.newRate })
+        .eq('id', rateChangeData.loan_id);
+
+      if (loanError) {
+        console.error('Rate change loan update error:', loanError);
+        // Rollback repriced EMIs and the rate history entry so the lender can retry
+        await this.restoreEMIs(touchedEMIs);
+        await supabase.from('loan_rate_changes').delete().eq('id', rateChange.id);
+        return {
+          success: false,
+          error: 'Failed to update the loan rate.'
+        };
+      }
+
+      await this.updateEMIStatus(rateChangeData.loan_id);
+
+      return {
+        success: true,
+        data: {
+          rateChange: rateChange as LoanRateChange,
+          result
+        }
+      };
+
+    } catch (error) {
+      console.error('Apply rate change error:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred while applying the rate change.'
+      };
+    }
+  }
+
+  /**
+   * Get loan details with complete information
+   */
+  static async getLoanDetails(loanId: string): Promise<ApiResponse<Loan>> {
+    try {
+      const { data, error } = await supabase
+        .from('loans')
+        .select(`
+          *,
+          borrower:borrowers(*,
+            user:users!borrowers_user_id_fkey(*,
+              user_profiles(*)
+            )
+          ),
+          emis(*, charges:emi_charges(*)),
+          payments(*,
+            recorded_by_user:users!payments_recorded_by_fkey(full_name),
+            allocations:payment_allocations(*),
+            adjustments:payment_adjustments!payment_adjustments_payment_id_fkey(*)
+          ),
+          restructures:loan_restructures(*),
+          rate_changes:loan_rate_changes(*),
+          disbursements:loan_disbursements(*,
+            disbursed_by_user:users!loan_disbursements_disbursed_by_fkey(full_name)
+          ),
+          product:loan_products(*),
+          parties:loan_parties(*),
+          collaterals:loan_collaterals(*),
+          write_offs:loan_write_offs(*,
+            requested_by_user:users!loan_write_offs_requested_by_fkey(full_name)
+          ),
+          recoveries:loan_recoveries(*),
+          dpd_history:loan_dpd_history(*)
+        `)
+        .eq('id', loanId)
+        .single();
+
+      if (error) {
+        return {
+          success: false,
+          error: 'Loan not found.'
+        };
+      }
+
+      return {
+        success: true,
+        data: data as Loan
+      };
+
+    } catch (error) {
+      console.error('Get loan details error:', error);
+      return {
+        success: false,
+        error: 'Failed to load loan details.'
+      };
+    }
+  }
+
+  /**
+   * Daily lifecycle step for one loan. Active loans have their EMIs re-marked,
+   * penalties accrued and DPD reclassified, and move to defaulted once past the
+   * auto-default DPD. Defaulted loans take no payments, so only their DPD ages.
+   */
+  static async refreshLoanLifecycle(
+    loanId: string,
+    asOfDate: Date = new Date()
+  ): Promise<ApiResponse<LoanLifecycleResult>> {
+    try {
+      const { data: loan, error: loanError } = await supabase
+        .from('loans')
+        .select('status')
+        .eq('id', loanId)
+        .single();
+
+      if (loanError || !loan) {
+        return {
+          success: false,
+          error: 'Loan not found.'
+        };
+      }
+
+      if (loan.status === 'defaulted') {
+        const result = await this.refreshDelinquency(loanId, asOfDate);
+        if (!result.success || !result.data) {
+          return {
+            success: false,
+            error: result.error
+          };
+        }
+        return {
+          success: true,
+          data: { status: 'defaulted', dpd: result.data.dpd, bucket: result.data.bucket, autoDefaulted: false }
+        };
+      }
+
+      if (loan.status !== 'active') {
+        return {
+          success: false,
+          error: 'Only active or defaulted loans go through the lifecycle job.'
+        };
+      }
+
+      const emiResult = await this.updateEMIStatus(loanId, asOfDate);
+      if (!emiResult.success) {
+        return {
+          success: false,
+          error: emiResult.error
+        };
+      }
+
+      const { data: refreshed, error: refreshError } = await supabase
+        .from('loans')
+        .select('status, dpd, dpd_bucket')
+        .eq('id', loanId)
+        .single();
+
+      if (refreshError || !refreshed) {
+        throw refreshError;
+      }
+
+      const dpd = refreshed.dpd || 0;
+      const bucket: DPDBucket = refreshed.dpd_bucket || 'current';
+
+      if (refreshed.status !== 'active' || dpd <= this.AUTO_DEFAULT_DPD) {
+        return {
+          success: true,
+          data: { status: refreshed.status, dpd, bucket, autoDefaulted: false }
+        };
+      }
+
+      // The status guard skips loans closed or defaulted since they were read
+      const { data: defaulted, error: defaultError } = await supabase
+        .from('loans')
+        .update({
+          status: 'defaulted' as LoanStatus,
+          defaulted_at: asOfDate.toISOString().split('T')[0]
+        })
+        .eq('id', loanId)
+        .eq('status', 'active')
+        .select('id');
+
+      if (defaultError) {
+        throw defaultError;
+      }
+
+      const autoDefaulted = !!defaulted && defaulted.length > 0;
+      return {
+        success: true,
+        data: { status: autoDefaulted ? 'defaulted' : refreshed.status, dpd, bucket, autoDefaulted }
+      };
+
+    } catch (error) {
+      console.error('Refresh loan lifecycle error:', error);
+      return {
+        success: false,
+        error: 'Failed to run the lifecycle update for the loan.'
+      };
+    }
+  }
+
+  /**
+   * Reclassify a loan's DPD as of a date without re-running payment allocation.
+   * DPD ages every day with no payment activity, so this is run on a schedule.
+   */
+  static async refreshDelinquency(
+    loanId: string,
+    asOfDate: Date = new Date()
+  ): Promise<ApiResponse<DelinquencyResult>> {
+    try {
+      const { data: loan, error: loanError } = await supabase
+        .from('loans')
+        .select('status, dpd_bucket, npa_since, holiday_calendar_id, due_date_adjustment, emis(*)')
+        .eq('id', loanId)
+        .single();
+
+      if (loanError || !loan) {
+        return {
+          success: false,
+          error: 'Loan not found.'
+        };
+      }
+
+      if (loan.status !== 'active' && loan.status !== 'defaulted') {
+        return {
+          success: false,
+          error: 'Only active or defaulted loans are classified by DPD.'
+        };
+      }
+
+      const businessCalendar = await this.getBusinessCalendar(loan.holiday_calendar_id);
+      const emis = ((loan.emis || []) as EMI[]).map(emi => ({
+        ...emi,
+        due_date: EMICalculationService.toDateKey(EMICalculationService.adjustToBusinessDay(
+          EMICalculationService.parseDateKey(emi.due_date),
+          businessCalendar,
+          loan.due_date_adjustment || 'none'
+        ))
+      }));
+
+      return {
+        success: true,
+        data: await this.recordDelinquency(loanId, loan, emis, asOfDate)
+      };
+
+    } catch (error) {
+      console.error('Refresh delinquency error:', error);
+      return {
+        success: false,
+        error: 'Failed to classify the loan.'
+      };
+    }
+  }
+
+  /**
+   * EMI STATUS UPDATE: Re-runs payment allocation for the loan.
+   * Payments are applied chronologically through the loan's waterfall, the
+   * per-payment breakdown is stored, and each EMI's paid_date comes from the
+   * payment that cleared it. Penalties are then accrued on EMIs still unpaid.
+   * Callers that must not carry on from a stale allocation check the result.
+   */
+  private static async updateEMIStatus(loanId: string, asOfDate: Date = new Date()): Promise<ApiResponse<void>> {
+    try {
+      const { data: loan } = await supabase
+        .from('loans')
+        .select('loan_number, status, dpd_bucket, npa_since, penalty_policy, allocation_waterfall, holiday_calendar_id, due_date_adjustment')
+        .eq('id', loanId)
+        .single();
+
+      // EMIs falling on a non-collection day are only late after the adjusted date
+      const businessCalendar = await this.getBusinessCalendar(loan?.holiday_calendar_id);
+      const collectionDueDate = (emi: EMI): string => EMICalculationService.toDateKey(
+        EMICalculationService.adjustToBusinessDay(
+          EMICalculationService.parseDateKey(emi.due_date),
+          businessCalendar,
+          loan?.due_date_adjustment || 'none'
+        )
+      );
+
+      // Get all collected EMI payments for this loan (prepayments, settlements,
+      // voided or reversed payments and cheques still in clearing are not allocated)
+      const { data: allPayments, error: paymentsError } = await supabase
+        .from('payments')
+        .select('id, amount, payment_date, payment_type, payment_method, status, cheque_status')
+        .eq('loan_id', loanId)
+        .order('payment_date', { ascending: true });
+
+      const payments = allPayments?.filter(p =>
+        (p.payment_type || 'emi') === 'emi' && this.isCollectedPayment(p)
+      );
+
+      // Get all EMIs for this loan in order
+      const { data: emis, error: emisError } = await supabase
+        .from('emis')
+        .select('*')
+        .eq('loan_id', loanId)
+        .order('emi_number', { ascending: true });
+
+      // Get charges ledger for this loan
+      const { data: charges, error: chargesError } = await supabase
+        .from('emi_charges')
+        .select('*')
+        .eq('loan_id', loanId);
+
+      if (paymentsError || emisError || chargesError || !emis || !payments) {
+        console.error('Update EMI status load error:', paymentsError || emisError || chargesError);
+        return {
+          success: false,
+          error: 'Failed to load EMIs and payments for the loan.'
+        };
+      }
+
+      const ledger = (charges || []) as EMICharge[];
+      const archivedIds = new Set(
+        (emis as EMI[]).filter(emi => emi.status === 'restructured').map(emi => emi.id)
+      );
+
+      const allocation = PaymentAllocationService.allocate(
+        payments,
+        (emis as EMI[]).map(emi => {
+          const emiCharges = ledger.filter(charge => charge.emi_id === emi.id);
+          if (!archivedIds.has(emi.id)) {
+            return { ...emi, due_date: collectionDueDate(emi), charges: emiCharges };
+          }
+          // Archived EMIs absorb only what was collected before the restructure
+          const paid = Money.of(emi.paid_amount || 0);
+          return {
+            ...emi,
+            due_date: collectionDueDate(emi),
+            amount: paid.toNumber(),
+            interest_component: Money.min(Money.of(emi.interest_component || 0), paid).toNumber(),
+            charges: emiCharges.map(charge => ({ ...charge, amount: charge.paid_amount }))
+          };
+        }),
+        loan?.allocation_waterfall || DEFAULT_ALLOCATION_WATERFALL,
+        asOfDate
+      );
+
+      // Persist EMI state
+      const updatedEMIs: EMI[] = [];
+      for (const emi of emis as EMI[]) {
+        const state = allocation.emis.find(e => e.emi_id === emi.id);
+        if (!state || archivedIds.has(emi.id)) {
+          updatedEMIs.push(emi);
+          continue;
+        }
+
+        if (
+          emi.status !== state.status ||
+          (emi.paid_amount || 0) !== state.paid_amount ||
+          (emi.paid_date || null) !== state.paid_date
+        ) {
+          const { error: emiError } = await supabase
+            .from('emis')
+            .update({
+              status: state.status,
+              paid_amount: state.paid_amount,
+              paid_date: state.paid_date
+            })
+            .eq('id', emi.id);
+
+          if (emiError) {
+            throw emiError;
+          }
+        }
+
+        updatedEMIs.push({
+          ...emi,
+          status: state.status,
+          paid_amount: state.paid_amount,
+          paid_date: state.paid_date || undefined
+        });
+      }
+
+      // Persist charge collections
+      for (const chargeState of allocation.charges) {
+        const charge = ledger.find(c => c.id === chargeState.charge_id);
+        if (charge && !archivedIds.has(charge.emi_id) && charge.paid_amount !== chargeState.paid_amount) {
+          await supabase
+            .from('emi_charges')
+            .update({ paid_amount: chargeState.paid_amount })
+            .eq('id', charge.id);
+        }
+      }
+
+      // Replace the per-payment allocation breakdown
+      await supabase
+        .from('payment_allocations')
+        .delete()
+        .eq('loan_id', loanId);
+
+      if (allocation.lines.length > 0) {
+        const { error: allocationError } = await supabase
+          .from('payment_allocations')
+          .insert(allocation.lines.map(line => ({ loan_id: loanId, ...line })));
+
+        if (allocationError) {
+          console.error('Save payment allocations error:', allocationError);
+        }
+      }
+
+      // Reclassify DPD from the oldest EMI still unpaid
+      if (loan) {
+        await this.recordDelinquency(
+          loanId,
+          loan,
+          updatedEMIs.map(emi => ({ ...emi, due_date: collectionDueDate(emi) })),
+          asOfDate
+        );
+      }
+
+      // Guarantors hear about each EMI that falls overdue
+      const today = asOfDate.toISOString().split('T')[0];
+      await this.notifyGuarantorsOfOverdue(
+        loanId,
+        loan?.loan_number || '',
+        updatedEMIs.filter(emi =>
+          !archivedIds.has(emi.id) &&
+          (emi.status === 'overdue' || emi.status === 'partially_paid') &&
+          collectionDueDate(emi) < today
+        )
+      );
+
+      // Accrue late-payment penalties on EMIs still unpaid past due
+      const chargesOutstanding = Money.sum(ledger
+        .filter(charge => !archivedIds.has(charge.emi_id))
+        .map(charge => {
+          const paid = allocation.charges.find(c => c.charge_id === charge.id)?.paid_amount || 0;
+          return Money.of(charge.amount).subtract(Money.of(paid));
+        })
+      ).add(Money.of(await this.accruePenalties(
+        loanId,
+        updatedEMIs.map(emi => ({ ...emi, due_date: collectionDueDate(emi) })),
+        ledger,
+        loan?.penalty_policy || this.DEFAULT_PENALTY_POLICY,
+        asOfDate
+      )));
+
+      // Check if loan is fully paid
+      const allEMIsPaid = updatedEMIs.every(emi =>
+        emi.status === 'paid' || emi.status === 'closed' || emi.status === 'restructured'
+      );
+      // Only loans still being repaid complete; written-off and closed loans keep their status
+      if (allEMIsPaid && !chargesOutstanding.isPositive() && payments.length > 0) {
+        await supabase
+          .from('loans')
+          .update({ status: 'completed' })
+          .eq('id', loanId)
+          .in('status', ['active', 'defaulted']);
+      }
+
+      return {
+        success: true
+      };
+
+    } catch (error) {
+      console.error('Update EMI status error:', error);
+      return {
+        success: false,
+        error: 'Failed to update EMI status.'
+      };
+    }
+  }
+
+  /**
+   * Take a payment out of the loan's allocation and record who did it and why.
+   * A loan the payment had auto-completed is reopened before EMIs are re-run;
+   * allocation completes it again if it is still fully paid.
+   */
+  private static async adjustPayment(
+    paymentId: string,
+    action: PaymentAdjustmentAction,
+    reason: string,
+    performedBy: string,
+    replacementPaymentId?: string
+  ): Promise<ApiResponse<Payment>> {
+    try {
+      if (!reason?.trim()) {
+        return {
+          success: false,
+          error: 'Please give a reason for the adjustment.'
+        };
+      }
+
+      const { data: payment, error: paymentError } = await supabase
+        .from('payments')
+        .select('*, loan:loans!payments_loan_id_fkey(*, collaterals:loan_collaterals(*))')
+        .eq('id', paymentId)
+        .single();
+
+      if (paymentError || !payment) {
+        return {
+          success: false,
+          error: 'Payment not found.'
+        };
+      }
+
+      const loan = payment.loan as Loan;
+      const eligibility = this.checkPaymentAdjustment(payment as Payment, loan);
+      if (!eligibility.isValid) {
+        return {
+          success: false,
+          error: eligibility.message
+        };
+      }
+
+      // Reopen an auto-completed loan first so a failure leaves nothing half-applied
+      const reopened = loan.status === 'completed';
+      if (reopened) {
+        const { error: reopenError } = await supabase
+          .from('loans')
+          .update({ status: 'active' as LoanStatus })
+          .eq('id', loan.id)
+          .eq('status', 'completed');
+
+        if (reopenError) {
+          console.error('Reopen loan error:', reopenError);
+          return {
+            success: false,
+            error: 'Failed to reopen the completed loan.'
+          };
+        }
+      }
+
+      // Guard on posted so two officers cannot adjust the same payment
+      const { data: adjusted, error: updateError } = await supabase
+        .from('payments')
+        .update({
+          status: action === 'reversal' ? 'reversed' : 'voided',
+          adjusted_by: performedBy,
+          adjusted_at: new Date().toISOString(),
+          adjustment_reason: reason.trim()
+        })
+        .eq('id', paymentId)
+        .or('status.is.null,status.eq.posted')
+        .select()
+        .single();
+
+      if (updateError || !adjusted) {
+        if (reopened) {
+          await supabase.from('loans').update({ status: 'completed' as LoanStatus }).eq('id', loan.id);
+        }
+        return {
+          success: false,
+          error: 'Failed to update the payment. It may already have been adjusted.'
+        };
+      }
+
+      const { error: auditError } = await supabase
+        .from('payment_adjustments')
+        .insert({
+          payment_id: paymentId,
+          loan_id: loan.id,
+          action,
+          reason: reason.trim(),
+          performed_by: performedBy,
+          replacement_payment_id: replacementPaymentId
+        });
+
+      if (auditError) {
+        console.error('Record payment adjustment error:', auditError);
+        // Rollback payment status
+        await supabase
+          .from('payments')
+          .update({
+            status: 'posted',
+            adjusted_by: null,
+            adjusted_at: null,
+            adjustment_reason: null
+          })
+          .eq('id', paymentId);
+        if (reopened) {
+          await supabase.from('loans').update({ status: 'completed' as LoanStatus }).eq('id', loan.id);
+        }
+        return {
+          success: false,
+          error: 'Failed to record the adjustment.'
+        };
+      }
+
+      // Re-run allocation without the adjusted payment
+      await this.updateEMIStatus(loan.id);
+
+      return {
+        success: true,
+        data: adjusted as Payment
+      };
+
+    } catch (error) {
+      console.error('Adjust payment error:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred while adjusting the payment.'
+      };
+    }
+  }
+
+  /**
+   * Store a loan's DPD and bucket, and log the move when the bucket changes.
+   * EMIs must carry their collection-adjusted due dates.
+   */
+  private static async recordDelinquency(
+    loanId: string,
+    loan: { status: LoanStatus; dpd_bucket?: DPDBucket | null; npa_since?: string | null },
+    emis: DelinquencyEMI[],
+    asOfDate: Date = new Date()
+  ): Promise<DelinquencyResult> {
+    const previousBucket: DPDBucket = loan.dpd_bucket || 'current';
+    const result = DelinquencyService.classify(emis, asOfDate, previousBucket);
+
+    // Completed and written-off loans keep their last classification
+    if (loan.status !== 'active' && loan.status !== 'defaulted') {
+      return result;
+    }
+
+    const asOf = asOfDate.toISOString().split('T')[0];
+    const { error } = await supabase
+      .from('loans')
+      .update({
+        dpd: result.dpd,
+        dpd_bucket: result.bucket,
+        dpd_as_of: asOf,
+        npa_since: result.bucket === 'npa' ? loan.npa_since || asOf : null
+      })
+      .eq('id', loanId);
+
+    if (error) {
+      console.error('Save DPD classification error:', error);
+      return result;
+    }
+
+    if (result.bucket !== previousBucket) {
+      const { error: historyError } = await supabase
+        .from('loan_dpd_history')
+        .insert({
+          loan_id: loanId,
+          previous_bucket: previousBucket,
+          bucket: result.bucket,
+          dpd: result.dpd,
+          as_of_date: asOf
+        });
+
+      if (historyError) {
+        console.error('Save DPD history error:', historyError);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Queue overdue notices for the loan's guarantors, once per guarantor,
+   * EMI and channel. Delivery is handled outside the app.
+   */
+  private static async notifyGuarantorsOfOverdue(
+    loanId: string,
+    loanNumber: string,
+    overdueEMIs: EMI[]
+  ): Promise<void> {
+    if (overdueEMIs.length === 0) return;
+
+    try {
+      const { data: guarantors } = await supabase
+        .from('loan_parties')
+        .select('*')
+        .eq('loan_id', loanId)
+        .eq('role', 'guarantor');
+
+      if (!guarantors || guarantors.length === 0) return;
+
+      const { data: sent } = await supabase
+        .from('loan_party_notifications')
+        .select('loan_party_id, emi_id, channel')
+        .eq('loan_id', loanId)
+        .in('emi_id', overdueEMIs.map(emi => emi.id));
+
+      const alreadySent = new Set(
+        (sent || []).map(n => `${n.loan_party_id}:${n.emi_id}:${n.channel}`)
+      );
+
+      const notifications = [];
+      for (const guarantor of guarantors as LoanParty[]) {
+        for (const emi of overdueEMIs) {
+          const due = Money.of(emi.amount).subtract(Money.of(emi.paid_amount || 0));
+          const message = `Loan ${loanNumber}, which you have guaranteed, has an overdue EMI #${emi.emi_number} ` +
+            `of ₹${due.toNumber().toLocaleString()} that was due on ${emi.due_date}.`;
+          const recipients: Array<['sms' | 'email', string | undefined]> = [
+            ['sms', guarantor.phone],
+            ['email', guarantor.email]
+          ];
+
+          for (const [channel, recipient] of recipients) {
+            if (!recipient || alreadySent.has(`${guarantor.id}:${emi.id}:${channel}`)) continue;
+            notifications.push({
+              loan_id: loanId,
+              loan_party_id: guarantor.id,
+              emi_id: emi.id,
+              channel,
+              recipient,
+              message,
+              status: 'queued'
+            });
+          }
+        }
+      }
+
+      if (notifications.length > 0) {
+        const { error } = await supabase
+          .from('loan_party_notifications')
+          .insert(notifications);
+
+        if (error) {
+          console.error('Queue guarantor notifications error:', error);
+        }
+      }
+
+    } catch (error) {
+      console.error('Notify guarantors error:', error);
+    }
+  }
+
+  /**
+   * Accrue late-payment penalties into the charges ledger.
+   * Accrued amounts only ever grow; a penalty is frozen once its EMI is paid.
+   * @returns Newly accrued (unpaid) penalty amount
+   */
+  private static async accruePenalties(
+    loanId: string,
+    emis: EMI[],
+    charges: EMICharge[],
+    policy: PenaltyPolicy,
+    asOfDate: Date = new Date()
+  ): Promise<number> {
+    const asOf = asOfDate.toISOString().split('T')[0];
+    let newlyAccrued = Money.ZERO;
+
+    for (const emi of emis) {
+      const isUnpaid = emi.status === 'overdue' || emi.status === 'partially_paid';
+      if (!isUnpaid || emi.due_date >= asOf) continue;
+
+      const overdueDays = Math.floor(
+        (new Date(asOf).getTime() - new Date(emi.due_date).getTime()) / (1000 * 60 * 60 * 24)
+      );
+      const penalty = Money.of(EMICalculationService.calculateLatePenalty(
+        Money.of(emi.amount).subtract(Money.of(emi.paid_amount || 0)).toNumber(),
+        overdueDays,
+        policy
+      ));
+
+      const existing = charges.find(c => c.emi_id === emi.id && c.charge_type === 'penalty');
+
+      if (existing) {
+        const existingAmount = Money.of(existing.amount);
+        if (penalty.greaterThan(existingAmount)) {
+          await supabase
+            .from('emi_charges')
+            .update({ amount: penalty.toNumber(), accrued_through: asOf })
+            .eq('id', existing.id);
+          newlyAccrued = newlyAccrued.add(penalty.subtract(existingAmount));
+        }
+      } else if (penalty.isPositive()) {
+        const { error } = await supabase
+          .from('emi_charges')
+          .insert({
+            loan_id: loanId,
+            emi_id: emi.id,
+            charge_type: 'penalty',
+            amount: penalty.toNumber(),
+            paid_amount: 0,
+            accrued_through: asOf
+          });
+
+        if (error) {
+          console.error('Accrue penalty error:', error);
+        } else {
+          newlyAccrued = newlyAccrued.add(penalty);
+        }
+      }
+    }
+
+    return newlyAccrued.toNumber();
+  }
+
+  /**
+   * Build calculation parameters from a stored loan record
+   */
+  static getLoanParameters(loan: Loan): LoanParameters {
+    return {
+      principal: loan.principal_amount,
+      annualInterestRate: loan.interest_rate,
+      tenureMonths: loan.tenure_months,
+      repaymentFrequency: loan.repayment_frequency || 'monthly',
+      interestMethod: loan.interest_method || 'reducing_balance',
+      repaymentStructure: loan.repayment_structure || 'level',
+      stepPercent: loan.step_percent,
+      stepIntervalMonths: loan.step_interval_months,
+      balloonPercent: loan.balloon_percent,
+      moratoriumMonths: loan.moratorium_months || 0,
+      moratoriumTreatment: loan.moratorium_treatment || 'capitalize',
+      firstEMIDate: loan.first_emi_date ? EMICalculationService.parseDateKey(loan.first_emi_date) : undefined
+    };
+  }
+
+  /**
+   * Get total payable, paid and outstanding amounts for a loan.
+   * The stored EMI schedule is the source of truth; the calculation service
+   * is used only when the schedule has not been loaded.
+   */
+  static getLoanBalance(loan: Loan): {
+    totalPayable: number;
+    totalPaid: number;
+    outstanding: number;
+  } {
+    const emis = loan.emis || [];
+    // Voided, reversed and uncleared cheque payments are kept for the record but not collected
+    const payments = (loan.payments || []).filter(payment => this.isCollectedPayment(payment));
+
+    // Prepayments and settlements are paid outside the EMI schedule, so they add
+    // to what was payable; EMIs closed by a settlement are no longer due
+    const paidOutsideSchedule = Money.sumOf(payments
+      .filter(payment => (payment.payment_type || 'emi') !== 'emi')
+      .map(payment => payment.amount));
+
+    // Late-payment charges accrued in the charges ledger are payable too;
+    // on EMIs archived by a restructure only what was collected still counts
+    const chargesAccrued = Money.sumOf(emis
+      .flatMap(emi => (emi.charges || []).map(charge =>
+        emi.status === 'restructured' ? charge.paid_amount : charge.amount
+      )));
+
+    let totalPayable = Money.sumOf(emis
+      .filter(emi => emi.status !== 'closed')
+      .map(emi => emi.status === 'restructured' ? emi.paid_amount || 0 : emi.amount)
+    ).add(paidOutsideSchedule).add(chargesAccrued);
+    if (emis.length === 0) {
+      try {
+        const startDate = new Date(loan.disbursed_at || loan.created_at);
+        totalPayable = Money.of(EMICalculationService.calculateEMI(this.getLoanParameters(loan), startDate).totalAmount);
+      } catch (error) {
+        totalPayable = Money.of(loan.principal_amount);
+      }
+    }
+
+    const totalPaid = Money.sumOf(payments.map(payment => payment.amount));
+
+    return {
+      totalPayable: totalPayable.toNumber(),
+      totalPaid: totalPaid.toNumber(),
+      outstanding: Money.max(Money.ZERO, totalPayable.subtract(totalPaid)).toNumber()
+    };
+  }
+
+  /**
+   * Loan-to-value against pledged collateral and the most that can be lent
+   * against it under each asset type's LTV limit
+   */
+  static calculateLoanToValue(
+    principal: number,
+    collaterals: Array<Pick<CollateralForm, 'collateral_type' | 'valuation'>>
+  ): {
+    ltvPercent: number;
+    maxEligible: number;
+  } {
+    const totalValuation = Money.sumOf(collaterals.map(collateral => collateral.valuation || 0));
+    const maxEligible = Money.sum(collaterals.map(collateral =>
+      Money.of(collateral.valuation || 0).multiply((this.MAX_LTV_PERCENT[collateral.collateral_type] || 0) / 100)
+    ));
+
+    return {
+      ltvPercent: totalValuation.isPositive()
+        ? Math.round((principal / totalValuation.toNumber()) * 10000) / 100
+        : 0,
+      maxEligible: maxEligible.toNumber()
+    };
+  }
+
+  /**
+   * Whether a payment counts towards the loan: posted and, for cheques,
+   * cleared. Cheques recorded before clearing was tracked count as cleared.
+   */
+  static isCollectedPayment(payment: Pick<Payment, 'status' | 'payment_method' | 'cheque_status'>): boolean {
+    return (payment.status || 'posted') === 'posted' &&
+      (payment.payment_method !== 'cheque' || (payment.cheque_status || 'cleared') === 'cleared');
+  }
+
+  /**
+   * Amount written off on a loan, recovered since and the net loss
+   */
+  static getRecoverySummary(loan: Loan): {
+    writtenOff: number;
+    recovered: number;
+    netLoss: number;
+  } {
+    const writtenOff = Money.sumOf((loan.write_offs || [])
+      .filter(writeOff => writeOff.status === 'approved')
+      .map(writeOff => writeOff.total_written_off));
+    const recovered = Money.sumOf((loan.recoveries || []).map(recovery => recovery.amount));
+
+    return {
+      writtenOff: writtenOff.toNumber(),
+      recovered: recovered.toNumber(),
+      netLoss: Money.max(Money.ZERO, writtenOff.subtract(recovered)).toNumber()
+    };
+  }
+
+  /**
+   * Rebuild the calculation schedule from stored EMI rows.
+   * Falls back to regenerating the schedule for loans created before
+   * principal/interest components were stored.
+   */
+  private static buildScheduleFromEMIs(loan: Loan): EMIScheduleItem[] {
+    const emis = this.getCurrentEMIs(loan);
+    const hasComponents = emis.length > 0 && emis.every(emi => emi.principal_component !== undefined && emi.principal_component !== null);
+
+    if (!hasComponents) {
+      const startDate = new Date(loan.disbursed_at || loan.created_at);
+      return EMICalculationService.calculateEMI(this.getLoanParameters(loan), startDate).schedule;
+    }
+
+    // Principal still owed before the first stored EMI
+    let outstanding = Money.sumOf(emis.map(emi => emi.principal_component || 0));
+
+    return emis.map(emi => {
+      outstanding = outstanding.subtract(Money.of(emi.principal_component || 0));
+      return {
+        emiNumber: emi.emi_number,
+        dueDate: new Date(emi.due_date),
+        emiAmount: emi.amount,
+        principalComponent: emi.principal_component || 0,
+        interestComponent: emi.interest_component || 0,
+        outstandingPrincipal: Money.max(Money.ZERO, outstanding).toNumber()
+      };
+    });
+  }
+
+  /**
+   * Check a user may review a pending loan: it must be someone other than the
+   * submitting officer, and a super admin when the loan is above the threshold
+   */
+  private static async checkApprovalAuthority(loan: Loan, approverId: string): Promise<{
+    isValid: boolean;
+    message?: string;
+  }> {
+    if (loan.status !== 'pending_approval') {
+      return { isValid: false, message: 'Only loans pending approval can be reviewed.' };
+    }
+
+    if (loan.submitted_by === approverId) {
+      return { isValid: false, message: 'A loan must be reviewed by someone other than the officer who submitted it.' };
+    }
+
+    const { data: approver } = await supabase
+      .from('users')
+      .select('role, can_approve_loans')
+      .eq('id', approverId)
+      .single();
+
+    if (!approver) {
+      return { isValid: false, message: 'Approver not found.' };
+    }
+
+    if (approver.role === 'super_admin') {
+      return { isValid: true };
+    }
+
+    if (approver.role !== 'lender' || !approver.can_approve_loans) {
+      return { isValid: false, message: 'You are not authorized to review loan applications.' };
+    }
+
+    if (loan.requires_super_admin_approval) {
+      return {
+        isValid: false,
+        message: `Loans of ₹${this.SUPER_ADMIN_APPROVAL_THRESHOLD.toLocaleString()} or more need super admin approval.`
+      };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Check a user may review a pending write-off: someone other than the
+   * requesting officer with approval rights, and a super admin above the threshold
+   */
+  private static async checkWriteOffAuthority(writeOff: LoanWriteOff, approverId: string): Promise<{
+    isValid: boolean;
+    message?: string;
+  }> {
+    if (writeOff.status !== 'pending') {
+      return { isValid: false, message: 'Only write-offs pending approval can be reviewed.' };
+    }
+
+    if (writeOff.requested_by === approverId) {
+      return { isValid: false, message: 'A write-off must be reviewed by someone other than the officer who requested it.' };
+    }
+
+    const { data: approver } = await supabase
+      .from('users')
+      .select('role, can_approve_loans')
+      .eq('id', approverId)
+      .single();
+
+    if (!approver) {
+      return { isValid: false, message: 'Approver not found.' };
+    }
+
+    if (approver.role === 'super_admin') {
+      return { isValid: true };
+    }
+
+    if (approver.role !== 'lender' || !approver.can_approve_loans) {
+      return { isValid: false, message: 'You are not authorized to review write-offs.' };
+    }
+
+    if (writeOff.total_written_off >= this.SUPER_ADMIN_APPROVAL_THRESHOLD) {
+      return {
+        isValid: false,
+        message: `Write-offs of ₹${this.SUPER_ADMIN_APPROVAL_THRESHOLD.toLocaleString()} or more need super admin approval.`
+      };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Work out what a write-off covers: outstanding principal, overdue and
+   * accrued interest, and late-payment charges not yet collected
+   */
+  private static calculateWriteOff(loan: Loan, asOfDate: Date): WriteOffPreview {
+    const base = this.calculateRestructureBase(loan, asOfDate);
+    const interest = Money.of(base.overdueInterest).add(Money.of(base.accruedInterest));
+    const charges = Money.sum(this.getCurrentEMIs(loan)
+      .flatMap(emi => emi.charges || [])
+      .map(charge => Money.max(Money.ZERO, Money.of(charge.amount).subtract(Money.of(charge.paid_amount || 0))))
+    );
+    const principal = Money.of(base.outstandingPrincipal);
+
+    return {
+      principal: principal.toNumber(),
+      interest: interest.toNumber(),
+      charges: charges.toNumber(),
+      total: principal.add(interest).add(charges).toNumber()
+    };
+  }
+
+  /**
+   * Check an active loan can be topped up: it belongs to the borrower, has no other
+   * top-up in progress, and the new loan pays out more than it takes to close it
+   */
+  private static async checkTopUpEligibility(
+    previousLoanId: string,
+    borrowerId: string,
+    netDisbursement: number
+  ): Promise<{
+    isValid: boolean;
+    message?: string;
+  }> {
+    const { data: previousLoan } = await supabase
+      .from('loans')
+      .select('id, loan_number, borrower_id, status')
+      .eq('id', previousLoanId)
+      .single();
+
+    if (!previousLoan || previousLoan.borrower_id !== borrowerId) {
+      return { isValid: false, message: 'The loan to top up was not found for this borrower.' };
+    }
+
+    if (previousLoan.status !== 'active') {
+      return { isValid: false, message: 'Only active loans can be topped up.' };
+    }
+
+    const { data: pendingTopUps } = await supabase
+      .from('loans')
+      .select('id')
+      .eq('top_up_of_loan_id', previousLoanId)
+      .in('status', ['pending_approval', 'approved'])
+      .is('deleted_at', null);
+
+    if (pendingTopUps && pendingTopUps.length > 0) {
+      return { isValid: false, message: `A top-up of ${previousLoan.loan_number} is already in progress.` };
+    }
+
+    const quoteResult = await this.getForeclosureQuote(previousLoanId);
+    if (!quoteResult.success || !quoteResult.data) {
+      return { isValid: false, message: quoteResult.error || 'Failed to calculate the amount needed to close the loan.' };
+    }
+
+    if (netDisbursement <= quoteResult.data.totalPayable) {
+      return {
+        isValid: false,
+        message: `The net disbursement must exceed the ₹${quoteResult.data.totalPayable.toLocaleString()} needed to close ${previousLoan.loan_number}.`
+      };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Validate pledged collateral and cap the principal at the loan-to-value
+   * limit of each asset type
+   */
+  private static checkCollateral(
+    collaterals: CollateralForm[],
+    principal: number,
+    asOfDate: Date
+  ): {
+    isValid: boolean;
+    message?: string;
+  } {
+    const asOf = asOfDate.toISOString().split('T')[0];
+    const oldestValuation = new Date(asOfDate);
+    oldestValuation.setDate(oldestValuation.getDate() - this.MAX_VALUATION_AGE_DAYS);
+
+    for (const collateral of collaterals) {
+      if (!this.MAX_LTV_PERCENT[collateral.collateral_type]) {
+        return { isValid: false, message: `Unsupported collateral type: ${collateral.collateral_type}.` };
+      }
+
+      if (!collateral.description?.trim()) {
+        return { isValid: false, message: 'Each collateral needs a description.' };
+      }
+
+      if (!(collateral.valuation > 0)) {
+        return { isValid: false, message: `Valuation is required for ${collateral.description}.` };
+      }
+
+      const valuationDate = new Date(collateral.valuation_date);
+      if (isNaN(valuationDate.getTime()) || collateral.valuation_date > asOf) {
+        return { isValid: false, message: `Valuation date for ${collateral.description} must be a past date.` };
+      }
+
+      if (valuationDate < oldestValuation) {
+        return {
+          isValid: false,
+          message: `Valuation of ${collateral.description} is older than ${this.MAX_VALUATION_AGE_DAYS} days. Please revalue it.`
+        };
+      }
+    }
+
+    const { maxEligible, ltvPercent } = this.calculateLoanToValue(principal, collaterals);
+    if (Money.of(principal).greaterThan(Money.of(maxEligible))) {
+      return {
+        isValid: false,
+        message: `Loan-to-value of ${ltvPercent}% is too high. At most ₹${maxEligible.toLocaleString()} can be lent against the pledged collateral.`
+      };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Check a new loan against the lender's exposure rules: the number of open
+   * loans, the total outstanding principal and the borrower's repayment capacity
+   * (FOIR) across every open loan's EMIs
+   */
+  private static async checkExposure(
+    borrower: Borrower,
+    lenderId: string,
+    newPrincipal: number,
+    newMonthlyInstallment: number,
+    settledLoanId?: string
+  ): Promise<{
+    isValid: boolean;
+    message?: string;
+  }> {
+    const { data: lender } = await supabase
+      .from('users')
+      .select('exposure_policy')
+      .eq('id', lenderId)
+      .single();
+
+    const policy: ExposurePolicy = {
+      ...this.DEFAULT_EXPOSURE_POLICY,
+      ...(lender?.exposure_policy || {})
+    };
+
+    const { data: openLoans, error } = await supabase
+      .from('loans')
+      .select('*, emis(*)')
+      .eq('borrower_id', borrower.id)
+      .in('status', ['active', 'pending_approval', 'approved'])
+      .is('deleted_at', null);
+
+    if (error) {
+      console.error('Load open loans error:', error);
+      return { isValid: false, message: 'Failed to check the borrower\'s existing loans.' };
+    }
+
+    const existingLoans = ((openLoans || []) as Loan[]).filter(loan => loan.id !== settledLoanId);
+
+    if (existingLoans.length >= policy.max_concurrent_loans) {
+      return {
+        isValid: false,
+        message: `Borrower already has ${existingLoans.length} open loan(s); the limit is ${policy.max_concurrent_loans}.`
+      };
+    }
+
+    if (policy.max_total_exposure) {
+      const totalExposure = Money.sum(existingLoans.map(loan => this.getOutstandingPrincipal(loan)))
+        .add(Money.of(newPrincipal));
+      if (totalExposure.greaterThan(Money.of(policy.max_total_exposure))) {
+        return {
+          isValid: false,
+          message: `Total exposure of ₹${totalExposure.toNumber().toLocaleString()} would exceed the ₹${policy.max_total_exposure.toLocaleString()} limit for a borrower.`
+        };
+      }
+    }
+
+    if (borrower.monthly_income) {
+      const existingEMIs = Money.sum(existingLoans.map(loan => Money.of(this.getMonthlyObligation(loan)))).toNumber();
+      const affordableEMI = EMICalculationService.calculateAffordability(borrower.monthly_income, existingEMIs, policy.foir);
+      if (newMonthlyInstallment > affordableEMI) {
+        return {
+          isValid: false,
+          message: `The new EMI of ₹${newMonthlyInstallment.toLocaleString()} a month exceeds the borrower's remaining repayment capacity of ₹${affordableEMI.toLocaleString()} a month.`
+        };
+      }
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Principal a loan still exposes the lender to: the sanctioned amount until it
+   * is disbursed, then the principal scheduled on EMIs not yet paid
+   */
+  private static getOutstandingPrincipal(loan: Loan): Money {
+    if (loan.status !== 'active') {
+      return Money.of(loan.principal_amount);
+    }
+    return Money.sumOf(this.getCurrentEMIs(loan)
+      .filter(emi => emi.status !== 'paid' && emi.status !== 'closed')
+      .map(emi => emi.principal_component ?? emi.amount));
+  }
+
+  /**
+   * Monthly EMI obligation of an open loan: its next unpaid EMI, or the
+   * indicative EMI for a loan not yet disbursed
+   */
+  private static getMonthlyObligation(loan: Loan): number {
+    const frequency = loan.repayment_frequency || 'monthly';
+    const nextEMI = this.getCurrentEMIs(loan).find(emi => emi.status !== 'paid' && emi.status !== 'closed');
+    if (nextEMI) {
+      return this.toMonthlyInstallment(nextEMI.amount, frequency);
+    }
+    if (loan.status === 'active') {
+      return 0;
+    }
+    const params = this.getLoanParameters(loan);
+    try {
+      const indicative = EMICalculationService.calculateEMI(params, new Date());
+      return this.toMonthlyInstallment(indicative.emiAmount, frequency);
+    } catch (error) {
+      // Terms valid at submission can fail today's checks (e.g. a first EMI date now past);
+      // estimate the installment from the amount, rate and tenure alone
+      const [installment] = EMICalculationService.calculateInstallmentAmounts(
+        params,
+        EMICalculationService.getPeriodicRate(params.annualInterestRate, frequency),
+        EMICalculationService.getNumberOfInstallments(params.tenureMonths, frequency)
+      );
+      return this.toMonthlyInstallment(installment || 0, frequency);
+    }
+  }
+
+  /**
+   * Convert an installment at any repayment frequency to its monthly equivalent
+   */
+  private static toMonthlyInstallment(installment: number, frequency: RepaymentFrequency): number {
+    const installmentsPerYear = EMICalculationService.getNumberOfInstallments(12, frequency);
+    return Money.of(installment).multiply(installmentsPerYear / 12).toNumber();
+  }
+
+  /**
+   * Check a disbursement fits the loan: approved or part-disbursed, within the
+   * undisbursed amount, and dated between the previous tranche and today
+   */
+  private static checkDisbursementEligibility(loan: Loan, amount: number, disbursementDate: Date): {
+    isValid: boolean;
+    message?: string;
+  } {
+    if (loan.status !== 'approved' && loan.status !== 'active') {
+      return { isValid: false, message: 'Only approved loans can be disbursed.' };
+    }
+
+    if (!amount || amount <= 0) {
+      return { isValid: false, message: 'Disbursement amount must be greater than zero.' };
+    }
+
+    if (isNaN(disbursementDate.getTime())) {
+      return { isValid: false, message: 'Please enter a valid disbursement date.' };
+    }
+
+    if (disbursementDate > new Date()) {
+      return { isValid: false, message: 'Disbursement date cannot be in the future.' };
+    }
+
+    // Loans activated before disbursements were tracked were paid out in full
+    const undisbursed = Money.of(loan.principal_amount).subtract(
+      Money.of(loan.disbursed_amount ?? (loan.status === 'approved' ? 0 : loan.principal_amount))
+    );
+    if (!undisbursed.isPositive()) {
+      return { isValid: false, message: 'The loan has already been fully disbursed.' };
+    }
+
+    if (Money.of(amount).greaterThan(undisbursed)) {
+      return {
+        isValid: false,
+        message: `Only ₹${undisbursed.toNumber().toLocaleString()} of the sanctioned amount remains to be disbursed.`
+      };
+    }
+
+    // Re-amortizing a tranche would flatten a stepped or balloon schedule
+    const isPartial = Money.of(amount).lessThan(undisbursed) || loan.status === 'active';
+    if (isPartial && (loan.repayment_structure || 'level') !== 'level') {
+      return { isValid: false, message: 'Tranche disbursements are only available on level EMI loans.' };
+    }
+
+    if (loan.status === 'active') {
+      const lastDisbursement = [...(loan.disbursements || [])]
+        .sort((a, b) => b.disbursement_date.localeCompare(a.disbursement_date))[0];
+      if (lastDisbursement && disbursementDate < new Date(lastDisbursement.disbursement_date)) {
+        return { isValid: false, message: 'A tranche cannot be dated before the previous disbursement.' };
+      }
+
+      const dueDate = disbursementDate.toISOString().split('T')[0];
+      if (!this.getCurrentEMIs(loan).some(emi => emi.due_date > dueDate)) {
+        return { isValid: false, message: 'No EMIs remain after this date to spread the tranche over.' };
+      }
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Load a holiday calendar as the calculation service's business calendar
+   * @returns Undefined when no calendar is set or it cannot be loaded
+   */
+  private static async getBusinessCalendar(calendarId?: string | null): Promise<BusinessCalendar | undefined> {
+    if (!calendarId) return undefined;
+
+    const { data: calendar, error } = await supabase
+      .from('holiday_calendars')
+      .select('weekly_off_days, holidays(holiday_date)')
+      .eq('id', calendarId)
+      .single();
+
+    if (error || !calendar) {
+      console.error('Load holiday calendar error:', error);
+      return undefined;
+    }
+
+    return {
+      weeklyOffDays: calendar.weekly_off_days || [],
+      holidays: (calendar.holidays || []).map((holiday: { holiday_date: string }) => holiday.holiday_date)
+    };
+  }
+
+  /**
+   * Get the loan's current schedule: EMIs in order, excluding those archived by a restructure
+   */
+  private static getCurrentEMIs(loan: Loan): EMI[] {
+    return (loan.emis || [])
+      .filter(emi => emi.status !== 'restructured')
+      .sort((a, b) => a.emi_number - b.emi_number);
+  }
+
+  /**
+   * Work out the balance carried into a restructured schedule.
+   * Payments on partially paid EMIs are treated as clearing interest first.
+   */
+  private static calculateRestructureBase(loan: Loan, asOfDate: Date): {
+    outstandingPrincipal: number;
+    overdueInterest: number;
+    accruedInterest: number;
+    restructuredPrincipal: number;
+  } {
+    const schedule = this.buildScheduleFromEMIs(loan);
+    const emis = this.getCurrentEMIs(loan);
+    const asOf = asOfDate.toISOString().split('T')[0];
+
+    let outstandingPrincipal = Money.ZERO;
+    let overdueInterest = Money.ZERO;
+    let notDuePrincipal = Money.ZERO;
+
+    for (const emi of emis) {
+      if (emi.status === 'paid' || emi.status === 'closed') continue;
+
+      const item = schedule.find(s => s.emiNumber === emi.emi_number);
+      const principal = Money.of(item ? item.principalComponent : emi.principal_component || 0);
+      const interest = Money.of(item ? item.interestComponent : emi.interest_component || 0);
+
+      const paid = Money.of(emi.paid_amount || 0);
+      const paidInterest = Money.min(paid, interest);
+      const principalDue = Money.max(Money.ZERO, principal.subtract(paid.subtract(paidInterest)));
+
+      outstandingPrincipal = outstandingPrincipal.add(principalDue);
+      if (emi.due_date <= asOf) {
+        overdueInterest = overdueInterest.add(interest.subtract(paidInterest));
+      } else {
+        notDuePrincipal = notDuePrincipal.add(principalDue);
+      }
+    }
+
+    // Interest on principal not yet due runs from the last due date
+    const lastDue = emis.filter(emi => emi.due_date <= asOf).pop();
+    const interestFromDate = new Date(lastDue ? lastDue.due_date : loan.disbursed_at || loan.created_at);
+    const accruedDays = Math.max(0, Math.floor((asOfDate.getTime() - interestFromDate.getTime()) / (1000 * 60 * 60 * 24)));
+    const accruedInterest = EMICalculationService.calculatePeriodicInterest(notDuePrincipal.toNumber(), loan.interest_rate, accruedDays);
+
+    return {
+      outstandingPrincipal: outstandingPrincipal.toNumber(),
+      overdueInterest: overdueInterest.toNumber(),
+      accruedInterest,
+      restructuredPrincipal: outstandingPrincipal.add(overdueInterest).add(Money.of(accruedInterest)).toNumber()
+    };
+  }
+
+  /**
+   * Check a loan can take a part-prepayment and count its cleared EMIs
+   */
+  private static checkPrepaymentEligibility(loan: Loan): {
+    isValid: boolean;
+    message?: string;
+    paidEMIs: number;
+  } {
+    if (loan.status !== 'active') {
+      return { isValid: false, message: 'Prepayment is only allowed on active loans.', paidEMIs: 0 };
+    }
+
+    const emis = this.getCurrentEMIs(loan);
+    const today = new Date().toISOString().split('T')[0];
+
+    const hasArrears = emis.some(emi =>
+      emi.status === 'overdue' ||
+      emi.status === 'partially_paid' ||
+      (emi.status === 'pending' && emi.due_date < today)
+    );
+    if (hasArrears) {
+      return { isValid: false, message: 'Clear overdue and partially paid EMIs before prepayment.', paidEMIs: 0 };
+    }
+
+    // Interest-only installments due before the first EMI date are not re-amortized
+    const inMoratorium = !!loan.first_emi_date && emis.some(emi =>
+      emi.status !== 'paid' && emi.due_date < loan.first_emi_date!
+    );
+    if (inMoratorium) {
+      return { isValid: false, message: 'Prepayment is available once the moratorium ends.', paidEMIs: 0 };
+    }
+
+    const paidEMIs = emis.filter(emi => emi.status === 'paid').length;
+    if (paidEMIs >= emis.length) {
+      return { isValid: false, message: 'All EMIs are already paid.', paidEMIs };
+    }
+
+    return { isValid: true, paidEMIs };
+  }
+
+  /**
+   * Put EMI rows back to the values read before an in-place update
+   */
+  private static async restoreEMIs(rows: ({ id: string } & Partial<EMI>)[]): Promise<void> {
+    for (const { id, ...values } of rows) {
+      const { error } = await supabase
+        .from('emis')
+        .update(values)
+        .eq('id', id);
+
+      if (error) {
+        console.error('Restore EMI error:', error);
+      }
+    }
+  }
+
+  /**
+   * Unpaid amount in the loan's charges ledger. Charges on EMIs archived by a
+   * restructure are left out, as in the EMI status update.
+   */
+  private static async getChargesOutstanding(loanId: string): Promise<Money> {
+    const { data: charges, error } = await supabase
+      .from('emi_charges')
+      .select('id, amount, paid_amount, emi:emis(status)')
+      .eq('loan_id', loanId)
+      .overrideTypes<LedgerChargeRow[], { merge: false }>();
+
+    if (error) {
+      throw error;
+    }
+
+    return Money.sum((charges || [])
+      .filter(charge => charge.emi?.status !== 'restructured')
+      .map(charge => Money.of(charge.amount).subtract(Money.of(charge.paid_amount || 0)))
+    );
+  }
+
+  /**
+   * Check a cheque can move on from its current clearing state on the given date
+   */
+  private static checkChequeTransition(
+    payment: Payment,
+    fromStatuses: ChequeStatus[],
+    actionDate: string
+  ): {
+    isValid: boolean;
+    message?: string;
+  } {
+    if (payment.payment_method !== 'cheque') {
+      return { isValid: false, message: 'This payment was not made by cheque.' };
+    }
+
+    if ((payment.status || 'posted') !== 'posted') {
+      return { isValid: false, message: 'This payment has already been voided or reversed.' };
+    }
+
+    // Cheques recorded before clearing was tracked count as cleared
+    const chequeStatus = payment.cheque_status || 'cleared';
+    if (!fromStatuses.includes(chequeStatus)) {
+      return { isValid: false, message: `This cheque is already ${chequeStatus}.` };
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    if (!actionDate || actionDate > today) {
+      return { isValid: false, message: 'Please enter a valid date, not later than today.' };
+    }
+
+    const lastEvent = payment.cheque_cleared_at || payment.cheque_deposited_at || payment.payment_date;
+    if (actionDate < lastEvent.split('T')[0]) {
+      return { isValid: false, message: `Date cannot be before ${lastEvent.split('T')[0]}.` };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Check a payment can still be voided, reversed or corrected. Settlements and
+   * prepayments rebuilt the schedule, and loans closed by settlement, written
+   * off or with collateral released stay as they are.
+   */
+  private static checkPaymentAdjustment(payment: Payment, loan: Loan): {
+    isValid: boolean;
+    message?: string;
+  } {
+    if ((payment.status || 'posted') !== 'posted') {
+      return { isValid: false, message: 'This payment has already been voided or reversed.' };
+    }
+
+    if ((payment.payment_type || 'emi') !== 'emi') {
+      return { isValid: false, message: 'Prepayments and settlements changed the schedule and cannot be adjusted.' };
+    }
+
+    if (loan.status !== 'active' && loan.status !== 'defaulted' && loan.status !== 'completed') {
+      return { isValid: false, message: 'Payments can only be adjusted on active, defaulted or completed loans.' };
+    }
+
+    if (loan.status === 'completed' && loan.closure_reason) {
+      return { isValid: false, message: 'This loan was closed by settlement; its payments can no longer be adjusted.' };
+    }
+
+    if ((loan.collaterals || []).some(collateral => collateral.lien_status === 'released')) {
+      return { isValid: false, message: 'Collateral on this loan has been released; its payments can no longer be adjusted.' };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Validate borrower data
+   */
+  private static validateBorrowerData(borrowerData: CreateBorrowerForm): {
+    isValid: boolean;
+    message?: string;
+  } {
+    if (!borrowerData.full_name?.trim()) {
+      return { isValid: false, message: 'Full name is required.' };
+    }
+
+    if (!borrowerData.email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(borrowerData.email)) {
+      return { isValid: false, message: 'Valid email address is required.' };
+    }
+
+    if (!borrowerData.phone || !/^\+?[\d\s\-\(\)]{10,}$/.test(borrowerData.phone)) {
+      return { isValid: false, message: 'Valid phone number is required.' };
+    }
+
+    if (!borrowerData.address?.trim()) {
+      return { isValid: false, message: 'Address is required.' };
+    }
+
+    if (!borrowerData.employment_type?.trim()) {
+      return { isValid: false, message: 'Employment type is required.' };
     }
 
     if (!borrowerData.monthly_income || borrowerData.monthly_income <= 0) {
@@ -688,4 +4771,36 @@ export class LoanService {
 
     return { isValid: true };
   }
+
+  /**
+   * Validate co-borrower or guarantor data
+   */
+  private static validateLoanPartyData(partyData: LoanPartyForm): {
+    isValid: boolean;
+    message?: string;
+  } {
+    const label = partyData.role === 'guarantor' ? 'Guarantor' : 'Co-borrower';
+
+    if (!partyData.full_name?.trim()) {
+      return { isValid: false, message: `${label} name is required.` };
+    }
+
+    if (!partyData.phone || !/^\+?[\d\s\-\(\)]{10,}$/.test(partyData.phone)) {
+      return { isValid: false, message: `Valid phone number is required for ${partyData.full_name}.` };
+    }
+
+    if (partyData.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(partyData.email)) {
+      return { isValid: false, message: `Email address for ${partyData.full_name} is not valid.` };
+    }
+
+    if (!partyData.relationship?.trim()) {
+      return { isValid: false, message: `Relationship to the borrower is required for ${partyData.full_name}.` };
+    }
+
+    if ((partyData.kyc_documents || []).some(doc => !doc.document_number?.trim())) {
+      return { isValid: false, message: `Document number is required for each KYC document of ${partyData.full_name}.` };
+    }
+
+    return { isValid: true };
+  }
 }
\ No newline at end of file
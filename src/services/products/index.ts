@@ -0,0 +1,5 @@
+// src/services/products/index.ts
+// Barrel exports for loan product services
+
+export { ProductService } from './productService';
+export type { LoanProductForm, ProductFilters } from './productService';
@@ -0,0 +1,488 @@
+// src/services/products/productService.ts
+// Loan products catalog: the rate, tenure and principal ranges, fees, penalty
+// policy and borrower criteria a loan is offered on, maintained by super admins
+
+import { supabase } from '../supabase/client';
+import {
+  EMICalculationService,
+  LoanLimits,
+  UpfrontChargeParameters
+} from '../calculations/emiCalculationService';
+import { Money } from '../../utils/money';
+import {
+  LoanProduct,
+  Borrower,
+  RepaymentFrequency,
+  InterestMethod,
+  ChargeTreatment,
+  PenaltyPolicy,
+  ProductEligibility,
+  ApiResponse
+} from '../../types';
+
+export interface LoanProductForm {
+  name: string;
+  code: string;
+  description?: string;
+  min_principal: number;
+  max_principal: number;
+  min_interest_rate: number;
+  max_interest_rate: number;
+  min_tenure_months: number;
+  max_tenure_months: number;
+  repayment_frequencies: RepaymentFrequency[];
+  interest_methods: InterestMethod[];
+  processing_fee_rate?: number;
+  insurance_rate?: number;
+  gst_rate?: number;
+  charges_treatment?: ChargeTreatment; // Default: deducted from the disbursement
+  penalty_policy?: PenaltyPolicy;
+  eligibility?: ProductEligibility;
+  active?: boolean;
+}
+
+export interface ProductFilters {
+  active_only?: boolean;
+  search?: string;
+}
+
+export class ProductService {
+
+  /**
+   * Get loan products, ordered by name
+   */
+  static async getProducts(filters: ProductFilters = {}): Promise<ApiResponse<LoanProduct[]>> {
+    try {
+      let query = supabase
+        .from('loan_products')
+        .select('*')
+        .is('deleted_at', null);
+
+      if (filters.active_only) {
+        query = query.eq('active', true);
+      }
+
+      if (filters.search?.trim()) {
+        const search = filters.search.trim();
+        query = query.or(`name.ilike.%${search}%,code.ilike.%${search}%`);
+      }
+
+      const { data, error } = await query.order('name', { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      return {
+        success: true,
+        data: (data || []) as LoanProduct[]
+      };
+
+    } catch (error) {
+      console.error('Get products error:', error);
+      return {
+        success: false,
+        error: 'Failed to load loan products.'
+      };
+    }
+  }
+
+  /**
+   * Get a single loan product
+   */
+  static async getProductById(productId: string): Promise<ApiResponse<LoanProduct>> {
+    try {
+      const { data, error } = await supabase
+        .from('loan_products')
+        .select('*')
+        .eq('id', productId)
+        .is('deleted_at', null)
+        .single();
+
+      if (error || !data) {
+        return {
+          success: false,
+          error: 'Loan product not found.'
+        };
+      }
+
+      return {
+        success: true,
+        data: data as LoanProduct
+      };
+
+    } catch (error) {
+      console.error('Get product error:', error);
+      return {
+        success: false,
+        error: 'Failed to load loan product.'
+      };
+    }
+  }
+
+  /**
+   * Create a loan product
+   */
+  static async createProduct(
+    productData: LoanProductForm,
+    createdBy: string
+  ): Promise<ApiResponse<LoanProduct>> {
+    try {
+      const validation = this.validateProductData(productData);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.message || 'Invalid product data provided.'
+        };
+      }
+
+      const code = productData.code.trim().toUpperCase();
+      const { data: existing } = await supabase
+        .from('loan_products')
+        .select('id')
+        .eq('code', code)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (existing) {
+        return {
+          success: false,
+          error: `A product with code ${code} already exists.`
+        };
+      }
+
+      const { data, error } = await supabase
+        .from('loan_products')
+        .insert({
+          ...this.toProductRecord(productData),
+          active: productData.active ?? true,
+          created_by: createdBy
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Product creation error:', error);
+        return {
+          success: false,
+          error: 'Failed to create loan product.'
+        };
+      }
+
+      return {
+        success: true,
+        data: data as LoanProduct
+      };
+
+    } catch (error) {
+      console.error('Create product error:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred while creating the product.'
+      };
+    }
+  }
+
+  /**
+   * Update a loan product. Loans already submitted keep the terms they were
+   * validated against; changes apply to new applications only.
+   */
+  static async updateProduct(
+    productId: string,
+    productData: LoanProductForm
+  ): Promise<ApiResponse<LoanProduct>> {
+    try {
+      const validation = this.validateProductData(productData);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.message || 'Invalid product data provided.'
+        };
+      }
+
+      const code = productData.code.trim().toUpperCase();
+      const { data: existing } = await supabase
+        .from('loan_products')
+        .select('id')
+        .eq('code', code)
+        .neq('id', productId)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+      if (existing) {
+        return {
+          success: false,
+          error: `A product with code ${code} already exists.`
+        };
+      }
+
+      const { data, error } = await supabase
+        .from('loan_products')
+        .update({
+          ...this.toProductRecord(productData),
+          ...(productData.active !== undefined ? { active: productData.active } : {})
+        })
+        .eq('id', productId)
+        .is('deleted_at', null)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Product update error:', error);
+        return {
+          success: false,
+          error: 'Failed to update loan product.'
+        };
+      }
+
+      return {
+        success: true,
+        data: data as LoanProduct
+      };
+
+    } catch (error) {
+      console.error('Update product error:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred while updating the product.'
+      };
+    }
+  }
+
+  /**
+   * Offer or withdraw a product for new loans
+   */
+  static async setProductActive(productId: string, active: boolean): Promise<ApiResponse<LoanProduct>> {
+    try {
+      const { data, error } = await supabase
+        .from('loan_products')
+        .update({ active })
+        .eq('id', productId)
+        .is('deleted_at', null)
+        .select()
+        .single();
+
+      if (error || !data) {
+        throw error;
+      }
+
+      return {
+        success: true,
+        data: data as LoanProduct
+      };
+
+    } catch (error) {
+      console.error('Set product active error:', error);
+      return {
+        success: false,
+        error: `Failed to ${active ? 'activate' : 'deactivate'} loan product.`
+      };
+    }
+  }
+
+  /**
+   * Soft-delete a product. Products with open loans can only be deactivated.
+   */
+  static async deleteProduct(productId: string): Promise<ApiResponse<null>> {
+    try {
+      const { data: openLoans } = await supabase
+        .from('loans')
+        .select('id')
+        .eq('product_id', productId)
+        .in('status', ['active', 'pending_approval', 'approved'])
+        .is('deleted_at', null);
+
+      if (openLoans && openLoans.length > 0) {
+        return {
+          success: false,
+          error: `The product has ${openLoans.length} open loan(s). Deactivate it instead.`
+        };
+      }
+
+      const { error } = await supabase
+        .from('loan_products')
+        .update({ deleted_at: new Date().toISOString(), active: false })
+        .eq('id', productId);
+
+      if (error) {
+        throw error;
+      }
+
+      return {
+        success: true,
+        data: null
+      };
+
+    } catch (error) {
+      console.error('Delete product error:', error);
+      return {
+        success: false,
+        error: 'Failed to delete loan product.'
+      };
+    }
+  }
+
+  /**
+   * Validation limits for loans on a product
+   */
+  static getLimits(product: LoanProduct): LoanLimits {
+    return {
+      minPrincipal: product.min_principal,
+      maxPrincipal: product.max_principal,
+      minInterestRate: product.min_interest_rate,
+      maxInterestRate: product.max_interest_rate,
+      minTenureMonths: product.min_tenure_months,
+      maxTenureMonths: product.max_tenure_months,
+      repaymentFrequencies: product.repayment_frequencies,
+      interestMethods: product.interest_methods
+    };
+  }
+
+  /**
+   * Upfront charges a product levies on a loan amount
+   * @param product Loan product
+   * @param principal Loan amount requested
+   * @returns Charge parameters for the calculation service
+   */
+  static getUpfrontCharges(product: LoanProduct, principal: number): UpfrontChargeParameters {
+    const amount = Money.of(principal || 0);
+    return {
+      processingFee: amount.multiply((product.processing_fee_rate || 0) / 100).toNumber(),
+      insurancePremium: amount.multiply((product.insurance_rate || 0) / 100).toNumber(),
+      gstRate: product.gst_rate ?? undefined,
+      treatment: product.charges_treatment || 'deducted'
+    };
+  }
+
+  /**
+   * Check a borrower meets a product's eligibility criteria
+   */
+  static checkEligibility(product: LoanProduct, borrower: Borrower): {
+    isValid: boolean;
+    message?: string;
+  } {
+    const eligibility = product.eligibility || {};
+
+    if (eligibility.min_credit_score && (borrower.credit_score || 0) < eligibility.min_credit_score) {
+      return {
+        isValid: false,
+        message: `${product.name} needs a credit score of at least ${eligibility.min_credit_score}.`
+      };
+    }
+
+    if (eligibility.min_monthly_income && (borrower.monthly_income || 0) < eligibility.min_monthly_income) {
+      return {
+        isValid: false,
+        message: `${product.name} needs a monthly income of at least ₹${eligibility.min_monthly_income.toLocaleString()}.`
+      };
+    }
+
+    const employmentTypes = eligibility.employment_types || [];
+    if (employmentTypes.length > 0 && !employmentTypes.includes(borrower.employment_type || '')) {
+      return {
+        isValid: false,
+        message: `${product.name} is only offered to ${employmentTypes.join(', ')} borrowers.`
+      };
+    }
+
+    return { isValid: true };
+  }
+
+  /**
+   * Map form data to the stored product columns
+   */
+  private static toProductRecord(productData: LoanProductForm) {
+    return {
+      name: productData.name.trim(),
+      code: productData.code.trim().toUpperCase(),
+      description: productData.description?.trim() || null,
+      min_principal: productData.min_principal,
+      max_principal: productData.max_principal,
+      min_interest_rate: productData.min_interest_rate,
+      max_interest_rate: productData.max_interest_rate,
+      min_tenure_months: productData.min_tenure_months,
+      max_tenure_months: productData.max_tenure_months,
+      repayment_frequencies: productData.repayment_frequencies,
+      interest_methods: productData.interest_methods,
+      processing_fee_rate: productData.processing_fee_rate || 0,
+      insurance_rate: productData.insurance_rate || 0,
+      gst_rate: productData.gst_rate ?? null,
+      charges_treatment: productData.charges_treatment || 'deducted',
+      penalty_policy: productData.penalty_policy || null,
+      eligibility: productData.eligibility || {}
+    };
+  }
+
+  /**
+   * Validate product data; every range must sit inside the system limits
+   */
+  private static validateProductData(productData: LoanProductForm): {
+    isValid: boolean;
+    message?: string;
+  } {
+    const system = EMICalculationService.getSystemLimits();
+
+    if (!productData.name?.trim()) {
+      return { isValid: false, message: 'Product name is required.' };
+    }
+
+    if (!/^[A-Za-z0-9-]{2,20}$/.test(productData.code?.trim() || '')) {
+      return { isValid: false, message: 'Product code must be 2-20 letters, numbers or hyphens.' };
+    }
+
+    if (!(productData.min_principal > 0) || !(productData.max_principal >= productData.min_principal)) {
+      return { isValid: false, message: 'Principal range must have a positive minimum no greater than the maximum.' };
+    }
+
+    if (productData.min_principal < system.minPrincipal || productData.max_principal > system.maxPrincipal) {
+      return {
+        isValid: false,
+        message: `Principal range must be within ₹${system.minPrincipal.toLocaleString()} - ₹${system.maxPrincipal.toLocaleString()}.`
+      };
+    }
+
+    if (!(productData.min_interest_rate >= 0) || !(productData.max_interest_rate >= productData.min_interest_rate)) {
+      return { isValid: false, message: 'Interest rate range must have a minimum no greater than the maximum.' };
+    }
+
+    if (productData.max_interest_rate > system.maxInterestRate) {
+      return { isValid: false, message: `Interest rate cannot exceed ${system.maxInterestRate}% (regulatory limit).` };
+    }
+
+    if (!Number.isInteger(productData.min_tenure_months) || !Number.isInteger(productData.max_tenure_months) ||
+        productData.min_tenure_months < system.minTenureMonths ||
+        productData.max_tenure_months > system.maxTenureMonths ||
+        productData.max_tenure_months < productData.min_tenure_months) {
+      return {
+        isValid: false,
+        message: `Tenure range must be whole months within ${system.minTenureMonths} - ${system.maxTenureMonths}.`
+      };
+    }
+
+    if (!productData.repayment_frequencies?.length ||
+        productData.repayment_frequencies.some(frequency => !system.repaymentFrequencies!.includes(frequency))) {
+      return { isValid: false, message: 'Select at least one supported repayment frequency.' };
+    }
+
+    if (!productData.interest_methods?.length ||
+        productData.interest_methods.some(method => !system.interestMethods!.includes(method))) {
+      return { isValid: false, message: 'Select at least one supported interest method.' };
+    }
+
+    const feeRates = [productData.processing_fee_rate || 0, productData.insurance_rate || 0];
+    if (feeRates.some(rate => rate < 0 || rate >= 100)) {
+      return { isValid: false, message: 'Fee and insurance rates must be between 0% and 100%.' };
+    }
+
+    if (productData.gst_rate !== undefined && (productData.gst_rate < 0 || productData.gst_rate > 100)) {
+      return { isValid: false, message: 'GST rate must be between 0% and 100%.' };
+    }
+
+    const policy = productData.penalty_policy;
+    if (policy && (policy.grace_days < 0 || (policy.penal_rate || 0) < 0 || (policy.flat_fee || 0) < 0 || (policy.bounce_charge || 0) < 0)) {
+      return { isValid: false, message: 'Penalty policy values must be non-negative.' };
+    }
+
+    return { isValid: true };
+  }
+}
@@ -0,0 +1,30 @@
+// src/services/supabase/client.ts
+// Active Supabase client shared by the services
+// The app registers its client in config.ts; Node scripts register their own (see scripts/supabaseAdmin.ts)
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+let activeClient: SupabaseClient | null = null;
+
+// Register the client the services should use
+export const setSupabaseClient = (client: SupabaseClient): void => {
+  activeClient = client;
+};
+
+// Get the registered client, failing loudly if nothing registered one yet
+export const getSupabaseClient = (): SupabaseClient => {
+  if (!activeClient) {
+    throw new Error('Supabase client has not been configured');
+  }
+  return activeClient;
+};
+
+// Resolves the registered client on every access, so services can import it at module level
+// without pulling in React Native when they run under Node
+export const supabase = new Proxy({} as SupabaseClient, {
+  get: (_target, property) => {
+    const client = getSupabaseClient();
+    const value = Reflect.get(client, property, client);
+    return typeof value === 'function' ? value.bind(client) : value;
+  },
+});
@@ -8,6 +8,7 @@ import * as SecureStore from 'expo-secure-store';
 import Constants from 'expo-constants';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
+import { setSupabaseClient } from './client';
 
 // Get environment variables from Expo Constants
 const supabaseUrl = Constants.expoConfig?.extra?.supabaseUrl || process.env.EXPO_PUBLIC_SUPABASE_URL;
@@ -110,6 +111,9 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   },
 });
 
+// Services resolve their client through ./client
+setSupabaseClient(supabase);
+
 // Helper function to check if Supabase is properly configured
 export const checkSupabaseConnection = async (): Promise<boolean> => {
   try {
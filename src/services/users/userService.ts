@@ -700,7 +700,7 @@ static async resendVerificationEmail(email: string): Promise<ApiResponse<null>>
           .from('loans')
           .select('id')
           .eq('borrower_id', borrowerRecord.id)
-          .in('status', ['active', 'pending_approval'])
+          .in('status', ['active', 'pending_approval', 'approved'])
           .is('deleted_at', null);
 
         if (loans && loans.length > 0) {
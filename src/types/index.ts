@@ -4,16 +4,56 @@
 
 export type UserRole = 'super_admin' | 'lender' | 'borrower';
 
-export type LoanStatus = 'active' | 'completed' | 'defaulted' | 'pending_approval';
+export type LoanStatus = 'active' | 'completed' | 'defaulted' | 'written_off' | 'pending_approval' | 'approved' | 'rejected';
 
-export type EMIStatus = 'pending' | 'paid' | 'overdue' | 'partially_paid';
+export type EMIStatus = 'pending' | 'paid' | 'overdue' | 'partially_paid' | 'closed' | 'restructured';
 
 export type PaymentMethod = 'cash' | 'bank_transfer' | 'upi' | 'cheque';
 
+export type DisbursementMode = 'cash' | 'bank_transfer' | 'upi';
+
+export type PaymentType = 'emi' | 'prepayment' | 'foreclosure';
+
+export type PaymentStatus = 'posted' | 'voided' | 'reversed';
+
+export type PaymentAdjustmentAction = 'void' | 'reversal' | 'correction';
+
+export type ChequeStatus = 'received' | 'deposited' | 'cleared' | 'bounced';
+
+export type ChargeType = 'penalty' | 'bounce_charge';
+
+export type AllocationComponent = 'charges' | 'interest' | 'principal';
+
+export type RepaymentFrequency = 'daily' | 'weekly' | 'bi_weekly' | 'monthly';
+
+export type InterestMethod = 'flat' | 'reducing_balance' | 'interest_only_bullet';
+
+export type MoratoriumTreatment = 'capitalize' | 'interest_only';
+
+export type RateType = 'fixed' | 'floating';
+
+export type ChargeTreatment = 'deducted' | 'financed';
+
+export type RepaymentStructure = 'level' | 'step_up' | 'step_down' | 'balloon';
+
+export type DueDateAdjustment = 'next_business_day' | 'previous_business_day' | 'none';
+
 export type DocumentType = 'aadhar' | 'pan' | 'salary_slip' | 'bank_statement' | 'photo';
 
 export type KYCStatus = 'pending' | 'verified' | 'rejected';
 
+export type LoanPartyRole = 'co_borrower' | 'guarantor';
+
+export type CollateralType = 'gold' | 'vehicle' | 'property' | 'fixed_deposit' | 'other';
+
+export type LienStatus = 'pending' | 'marked' | 'released';
+
+export type WriteOffStatus = 'pending' | 'approved' | 'rejected';
+
+export type LossPeriod = 'month' | 'quarter' | 'year';
+
+export type DPDBucket = 'current' | 'dpd_1_30' | 'dpd_31_60' | 'dpd_61_90' | 'npa';
+
 // Database table interfaces matching our SQL schema
 export interface User {
   id: string;
@@ -25,6 +65,8 @@ export interface User {
   updated_at: string;
   deleted_at?: string;
   active?: boolean;
+  can_approve_loans?: boolean; // Senior lender allowed to check other officers' loans
+  exposure_policy?: ExposurePolicy; // Lender's per-borrower limits; system default when not set
 email_verified?: boolean;
 pending_approval?: boolean;
 verification_token?: string;
@@ -62,18 +104,224 @@ export interface Loan {
   borrower_id: string;
   loan_number: string; // Unique loan identifier
   principal_amount: number;
-  interest_rate: number; // Annual interest rate percentage
+  interest_rate: number; // Annual interest rate percentage (current rate for floating loans)
+  rate_type?: RateType; // Defaults to fixed for legacy loans
   tenure_months: number;
+  repayment_frequency?: RepaymentFrequency; // Defaults to monthly for legacy loans
+  interest_method?: InterestMethod; // Defaults to reducing_balance for legacy loans
+  repayment_structure?: RepaymentStructure; // Defaults to level EMIs
+  step_percent?: number; // % change in the EMI at each step (step-up/step-down)
+  step_interval_months?: number; // Months between EMI steps
+  balloon_percent?: number; // % of principal repaid with the final EMI (balloon)
+  processing_fee?: number; // Upfront processing fee, excluding GST
+  insurance_premium?: number; // Credit-life insurance premium collected upfront
+  gst_on_fees?: number; // GST charged on the processing fee
+  charges_treatment?: ChargeTreatment; // Whether upfront charges were deducted or financed
+  net_disbursement?: number; // Amount actually paid out to the borrower
+  apr?: number; // Annualized rate (XIRR) including fees, for disclosure
+  moratorium_months?: number; // Deferral before amortization starts
+  moratorium_treatment?: MoratoriumTreatment;
+  first_emi_date?: string; // First amortizing EMI due date
+  holiday_calendar_id?: string; // Branch/region calendar used to adjust due dates
+  due_date_adjustment?: DueDateAdjustment; // Defaults to none (dates fall where they land)
   status: LoanStatus;
-  approved_by?: string; // lender_id who approved
+  submitted_by?: string; // Loan officer who submitted the application (maker)
+  submitted_at?: string;
+  requires_super_admin_approval?: boolean; // Amount at or above the approval threshold
+  approved_by?: string; // Approver (checker): a senior lender or super admin
   approved_at?: string;
+  rejected_by?: string;
+  rejected_at?: string;
+  approval_comments?: string; // Approver's comments on approval or rejection
+  disbursed_at?: string; // Date of the first disbursement; the schedule runs from it
+  disbursed_amount?: number; // Principal paid out so far; below principal_amount while tranches remain
+  foreclosure_charge_rate?: number; // % of outstanding principal charged on pre-closure
+  penalty_policy?: PenaltyPolicy; // Late-payment policy; system default when not set
+  allocation_waterfall?: AllocationComponent[]; // Order payments clear each EMI's components
+  closure_reason?: string;
+  closed_at?: string;
+  restructure_count?: number; // Times the loan has been restructured; flags restructured accounts
+  last_restructured_at?: string;
+  top_up_of_loan_id?: string; // Previous loan settled from this loan's disbursement
+  product_id?: string; // Loan product the terms were validated against
+  written_off_at?: string; // Date the write-off was approved; recoveries are tracked from then
+  dpd?: number; // Days past due of the oldest unpaid EMI, as of dpd_as_of
+  dpd_bucket?: DPDBucket; // Delinquency classification; current when not yet classified
+  dpd_as_of?: string;
+  npa_since?: string; // Date the loan was first classified NPA; cleared on upgrade
+  defaulted_at?: string; // Date the lifecycle job moved the loan to defaulted
   created_at: string;
   updated_at: string;
   deleted_at?: string;
   // Relations
   borrower?: Borrower;
+  product?: LoanProduct;
   emis?: EMI[];
   payments?: Payment[];
+  restructures?: LoanRestructure[];
+  rate_changes?: LoanRateChange[];
+  disbursements?: LoanDisbursement[];
+  parties?: LoanParty[];
+  collaterals?: LoanCollateral[];
+  write_offs?: LoanWriteOff[];
+  recoveries?: LoanRecovery[];
+  dpd_history?: LoanDPDHistory[];
+}
+
+// Disbursement event: the full sanctioned amount or one tranche of it
+export interface LoanDisbursement {
+  id: string;
+  loan_id: string;
+  tranche_number: number; // 1 for the first (or only) disbursement
+  amount: number; // Principal released
+  net_amount: number; // Paid out to the borrower after charges deducted at source
+  disbursement_mode: DisbursementMode;
+  reference_number?: string;
+  disbursement_date: string;
+  effective_emi_number: number; // First EMI that includes this amount
+  top_up_settlement?: number; // Used to close the previous loan (top-up loans)
+  disbursed_by: string;
+  created_at: string;
+  // Relations
+  disbursed_by_user?: User;
+}
+
+// Co-borrower or guarantor linked to a loan; not necessarily an app user
+export interface LoanParty {
+  id: string;
+  loan_id: string;
+  role: LoanPartyRole;
+  full_name: string;
+  phone: string;
+  email?: string;
+  address?: string;
+  relationship: string; // Relationship to the borrower, e.g. spouse, employer, group member
+  kyc_documents: LoanPartyDocument[];
+  kyc_status: KYCStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LoanPartyDocument {
+  document_type: DocumentType;
+  document_number: string;
+  file_url?: string;
+}
+
+// Asset pledged against a loan; the lien is marked on disbursement and released on completion
+export interface LoanCollateral {
+  id: string;
+  loan_id: string;
+  collateral_type: CollateralType;
+  description: string;
+  valuation: number; // Assessed market value
+  valuation_date: string;
+  photo_urls: string[];
+  lien_status: LienStatus;
+  released_at?: string;
+  released_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Change in a loan's DPD classification; one row per bucket move
+export interface LoanDPDHistory {
+  id: string;
+  loan_id: string;
+  previous_bucket: DPDBucket; // Unclassified loans count as current
+  bucket: DPDBucket;
+  dpd: number;
+  as_of_date: string;
+  created_at: string;
+}
+
+// Write-off of a defaulted loan: requested by one officer, approved by another
+export interface LoanWriteOff {
+  id: string;
+  loan_id: string;
+  principal_written_off: number;
+  interest_written_off: number; // Overdue interest plus interest accrued to the request date
+  charges_written_off: number; // Unpaid late-payment charges
+  total_written_off: number;
+  reason: string;
+  status: WriteOffStatus;
+  requested_by: string;
+  requested_at: string;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  review_comments?: string;
+  created_at: string;
+  updated_at: string;
+  // Relations
+  requested_by_user?: User;
+}
+
+// Amount collected on a written-off loan; kept apart from EMI payments
+export interface LoanRecovery {
+  id: string;
+  loan_id: string;
+  amount: number;
+  recovery_date: string;
+  payment_method: PaymentMethod;
+  reference_number?: string;
+  notes?: string;
+  recorded_by: string;
+  created_at: string;
+}
+
+// Overdue notice queued for a guarantor; delivery happens outside the app
+export interface LoanPartyNotification {
+  id: string;
+  loan_id: string;
+  loan_party_id: string;
+  emi_id: string;
+  channel: 'sms' | 'email';
+  recipient: string;
+  message: string;
+  status: 'queued' | 'sent' | 'failed';
+  created_at: string;
+}
+
+// Rate-change event on a floating-rate loan: the new rate applies from an EMI onward
+export interface LoanRateChange {
+  id: string;
+  loan_id: string;
+  effective_emi_number: number;
+  previous_rate: number;
+  new_rate: number;
+  previous_emi_amount: number;
+  new_emi_amount: number;
+  reason?: string;
+  changed_by: string;
+  created_at: string;
+  // Relations
+  changed_by_user?: User;
+}
+
+// Restructure event: terms before and after, and the balance carried into the new schedule
+export interface LoanRestructure {
+  id: string;
+  loan_id: string;
+  reason: string;
+  restructured_by: string;
+  restructured_at: string;
+  outstanding_principal: number;
+  overdue_interest: number;
+  accrued_interest: number;
+  restructured_principal: number; // Principal of the new schedule
+  previous_interest_rate: number;
+  previous_tenure_months: number;
+  previous_repayment_frequency?: RepaymentFrequency;
+  previous_interest_method?: InterestMethod;
+  new_interest_rate: number;
+  new_tenure_months: number;
+  new_repayment_frequency: RepaymentFrequency;
+  new_interest_method: InterestMethod;
+  superseded_emi_count: number;
+  first_emi_number: number; // First EMI of the new schedule
+  created_at: string;
+  // Relations
+  restructured_by_user?: User;
 }
 
 export interface EMI {
@@ -82,13 +330,103 @@ export interface EMI {
   emi_number: number; // 1, 2, 3... sequence
   due_date: string;
   amount: number;
+  principal_component?: number;
+  interest_component?: number;
+  interest_rate?: number; // Annual rate applied to this instalment
   status: EMIStatus;
   paid_date?: string;
   paid_amount?: number;
+  superseded_by?: string; // Restructure that archived this EMI
   created_at: string;
   updated_at: string;
   // Relations
   loan?: Loan;
+  charges?: EMICharge[];
+}
+
+export interface PenaltyPolicy {
+  grace_days: number; // Days after due date before any penalty applies
+  penal_rate?: number; // Annual penal interest % on the overdue amount
+  flat_fee?: number; // One-time late fee once grace is exceeded
+  cap?: number; // Maximum total penalty per EMI
+  bounce_charge?: number; // Fee raised when a cheque payment bounces
+}
+
+// Loan product: the terms loans can be offered on, maintained by super admins
+export interface LoanProduct {
+  id: string;
+  name: string;
+  code: string; // Short unique code, e.g. PL-STD
+  description?: string;
+  min_principal: number;
+  max_principal: number;
+  min_interest_rate: number; // Annual %
+  max_interest_rate: number;
+  min_tenure_months: number;
+  max_tenure_months: number;
+  repayment_frequencies: RepaymentFrequency[]; // Frequencies loans can be repaid at
+  interest_methods: InterestMethod[]; // Interest methods loans can use
+  processing_fee_rate: number; // % of principal, excluding GST
+  insurance_rate: number; // Credit-life insurance premium as % of principal
+  gst_rate?: number; // GST % on the processing fee; system default when not set
+  charges_treatment: ChargeTreatment;
+  penalty_policy?: PenaltyPolicy; // System default when not set
+  eligibility: ProductEligibility;
+  active: boolean; // Inactive products cannot be offered on new loans
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string;
+}
+
+// Borrower criteria a loan product can be offered to
+export interface ProductEligibility {
+  min_credit_score?: number;
+  min_monthly_income?: number;
+  employment_types?: string[]; // Any employment type when empty
+}
+
+// Per-borrower lending limits a lender applies when a new loan is submitted
+export interface ExposurePolicy {
+  max_concurrent_loans: number; // Open loans (submitted, approved or active) per borrower
+  max_total_exposure?: number; // Cap on outstanding principal across the borrower's loans
+  foir: number; // Share of monthly income all EMIs may take (0.4 = 40%)
+}
+
+// Holiday calendar for a branch or region: weekly off days plus dated holidays
+export interface HolidayCalendar {
+  id: string;
+  region_code: string;
+  name: string;
+  weekly_off_days: number[]; // 0 = Sunday ... 6 = Saturday
+  created_at: string;
+  updated_at: string;
+  // Relations
+  holidays?: Holiday[];
+}
+
+export interface Holiday {
+  id: string;
+  calendar_id: string;
+  holiday_date: string; // YYYY-MM-DD
+  name: string;
+  created_at: string;
+}
+
+// Charges ledger: charges accrued against an EMI, collected before the EMI itself
+export interface EMICharge {
+  id: string;
+  loan_id: string;
+  emi_id: string;
+  charge_type: ChargeType;
+  amount: number; // Accrued to date
+  paid_amount: number;
+  accrued_through?: string; // Date the amount was last accrued up to
+  payment_id?: string; // Bounced cheque a bounce charge was raised for
+  created_at: string;
+  updated_at: string;
+  // Relations
+  emi?: EMI;
 }
 
 export interface Payment {
@@ -97,14 +435,52 @@ export interface Payment {
   amount: number;
   payment_date: string;
   payment_method: PaymentMethod;
+  payment_type?: PaymentType; // Defaults to emi; prepayments are not allocated to EMIs
   reference_number?: string; // Transaction ID, cheque number, etc.
   notes?: string;
   recorded_by: string; // user_id who recorded this payment
+  status?: PaymentStatus; // Defaults to posted; voided and reversed payments are not allocated
+  adjusted_by?: string; // user_id who voided or reversed this payment
+  adjusted_at?: string;
+  adjustment_reason?: string;
+  replaces_payment_id?: string; // Set on a correction's replacement entry
+  cheque_status?: ChequeStatus; // Cheques only; allocated to EMIs once cleared
+  cheque_deposited_at?: string;
+  cheque_cleared_at?: string;
+  cheque_bounced_at?: string;
   created_at: string;
   updated_at: string;
   // Relations
   loan?: Loan;
   recorded_by_user?: User;
+  allocations?: PaymentAllocation[];
+  adjustments?: PaymentAdjustment[];
+}
+
+// Audit entry for a void, reversal or correction; the original payment is kept
+export interface PaymentAdjustment {
+  id: string;
+  payment_id: string;
+  loan_id: string;
+  action: PaymentAdjustmentAction;
+  reason: string;
+  performed_by: string; // user_id who made the change
+  replacement_payment_id?: string; // The corrected entry, for corrections
+  created_at: string;
+  // Relations
+  performed_by_user?: User;
+}
+
+// Breakdown of how a payment was applied to an EMI component or charge
+export interface PaymentAllocation {
+  id: string;
+  loan_id: string;
+  payment_id: string;
+  emi_id: string;
+  charge_id?: string;
+  component: AllocationComponent;
+  amount: number;
+  created_at: string;
 }
 
 export interface Document {
@@ -189,6 +565,7 @@ export type SuperAdminTabParamList = {
   Dashboard: undefined;
   ManageLenders: undefined;
   AllLoans: undefined;
+  LoanProducts: undefined;
   Analytics: undefined;
   Settings: undefined;
 };
@@ -282,6 +659,43 @@ export interface LenderPerformance {
   default_rate: number;
 }
 
+// Credit loss on written-off loans and what has been recovered against it
+export interface LossSummary {
+  written_off_loans: number;
+  gross_loss: number; // Total written off
+  recoveries: number;
+  net_loss: number; // Gross loss less recoveries
+  recovery_rate: number; // % of gross loss recovered
+}
+
+export interface LenderLossSummary extends LossSummary {
+  lender: User;
+}
+
+// Loss on loans written off in a period, with recoveries collected on them to date
+export interface PeriodLossSummary extends LossSummary {
+  period: string;
+}
+
+export interface LossAnalytics {
+  totals: LossSummary;
+  by_lender: LenderLossSummary[];
+  by_period: PeriodLossSummary[];
+}
+
+// Open loans and principal at risk in each DPD bucket
+export interface DPDBucketSummary {
+  bucket: DPDBucket;
+  loans: number;
+  outstanding_principal: number;
+}
+
+export interface DelinquencySummary {
+  buckets: DPDBucketSummary[];
+  total_outstanding: number;
+  npa_ratio: number; // % of outstanding principal in NPA
+}
+
 // Dashboard data interfaces
 export interface SuperAdminDashboard {
   analytics: LoanAnalytics;
@@ -310,9 +724,10 @@ export interface BorrowerDashboard {
 
 export type LenderStackParamList = {
   LenderTabs: undefined;
-  CreateLoanWizard: { borrowerId?: string };
+  CreateLoanWizard: { borrowerId?: string; topUpOfLoanId?: string };
   RecordPayment: { loanId?: string }; // NEW: Payment recording route
   EMIManagement: undefined; // NEW: EMI management route
+  ChequeClearing: undefined;
 
 
 };
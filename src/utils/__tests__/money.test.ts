@@ -0,0 +1,69 @@
+// src/utils/__tests__/money.test.ts
+// Exact paise arithmetic and rounding
+
+import { Money, roundMinor, roundMoney } from '../money';
+
+describe('roundMinor', () => {
+  it('rounds ties away from zero by default', () => {
+    expect(roundMinor(2.5)).toBe(3);
+    expect(roundMinor(-2.5)).toBe(-3);
+  });
+
+  it('rounds ties to even in half_even mode', () => {
+    expect(roundMinor(2.5, 'half_even')).toBe(2);
+    expect(roundMinor(3.5, 'half_even')).toBe(4);
+  });
+
+  it('ignores binary noise in the input', () => {
+    // 1.005 * 100 is 100.49999999999999 in floating point
+    expect(roundMinor(1.005 * 100)).toBe(101);
+  });
+});
+
+describe('Money', () => {
+  it('adds without floating point drift', () => {
+    expect(Money.of(0.1).add(Money.of(0.2)).toNumber()).toBe(0.3);
+    expect(Money.sumOf([0.1, 0.2, 0.3]).toNumber()).toBe(0.6);
+  });
+
+  it('rounds to the nearest paisa on the way in', () => {
+    expect(Money.of(10.005).toNumber()).toBe(10.01);
+    expect(roundMoney(10.004)).toBe(10);
+  });
+
+  it('rejects fractional minor units', () => {
+    expect(() => Money.fromMinor(1.5)).toThrow();
+  });
+
+  it('multiplies and divides with rounding', () => {
+    expect(Money.of(100).multiply(1 / 3).toNumber()).toBe(33.33);
+    expect(Money.of(100).divide(3).toNumber()).toBe(33.33);
+  });
+
+  it('allocates parts that add back up exactly', () => {
+    const parts = Money.of(100).allocate(3);
+    expect(parts.map(part => part.toNumber())).toEqual([33.34, 33.33, 33.33]);
+    expect(Money.sum(parts).toNumber()).toBe(100);
+  });
+
+  it('allocates negative amounts symmetrically', () => {
+    const parts = Money.of(-0.05).allocate(2);
+    expect(parts.map(part => part.toNumber())).toEqual([-0.03, -0.02]);
+  });
+
+  it('rejects allocating into a non-positive number of parts', () => {
+    expect(() => Money.of(10).allocate(0)).toThrow();
+  });
+
+  it('compares amounts', () => {
+    const small = Money.of(10);
+    const large = Money.of(20);
+    expect(Money.min(small, large)).toBe(small);
+    expect(Money.max(small, large)).toBe(large);
+    expect(large.greaterThan(small)).toBe(true);
+    expect(small.lessThan(large)).toBe(true);
+    expect(small.subtract(large).isNegative()).toBe(true);
+    expect(Money.ZERO.isZero()).toBe(true);
+    expect(Money.of(10).equals(Money.fromMinor(1000))).toBe(true);
+  });
+});
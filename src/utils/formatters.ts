@@ -1,19 +1,22 @@
 // src/utils/formatters.ts
 // Utility functions for formatting data consistently across the app
 
+import { Money } from './money';
+
 /**
  * Format currency values consistently across the app
- * @param amount Numeric amount to format
+ * @param amount Numeric amount or Money to format
  * @param currency Currency code (default: INR)
  * @returns Formatted currency string
  */
-export const formatCurrency = (amount: number, currency: string = 'INR'): string => {
+export const formatCurrency = (amount: number | Money, currency: string = 'INR'): string => {
+    const value = amount instanceof Money ? amount.toNumber() : Money.of(amount).toNumber();
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
       currency: currency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 2,
-    }).format(amount);
+    }).format(value);
   };
   
   /**
@@ -63,16 +66,20 @@ export const formatCurrency = (amount: number, currency: string = 'INR'): string
       // Loan statuses
       'active': 'success',
       'pending_approval': 'warning',
+      'approved': 'primary',
       'completed': 'primary',
       'defaulted': 'error',
+      'written_off': 'grey',
       
       // EMI statuses
       'paid': 'success',
       'pending': 'warning',
       'overdue': 'error',
       'partially_paid': 'warning',
+      'closed': 'primary',
+      'restructured': 'grey',
       
-      // KYC statuses
+      // KYC statuses (also rejected loan applications)
       'verified': 'success',
       'rejected': 'error',
     };
@@ -80,6 +87,204 @@ export const formatCurrency = (amount: number, currency: string = 'INR'): string
     return statusColors[status] || 'gray';
   };
   
+  /**
+   * Format repayment frequency for display
+   * @param frequency Repayment frequency key
+   * @returns Human readable frequency label
+   */
+  export const formatRepaymentFrequency = (frequency: string = 'monthly'): string => {
+    const labels: Record<string, string> = {
+      'daily': 'Daily',
+      'weekly': 'Weekly',
+      'bi_weekly': 'Fortnightly',
+      'monthly': 'Monthly',
+    };
+  
+    return labels[frequency] || 'Monthly';
+  };
+  
+  /**
+   * Format interest method for display
+   * @param method Interest method key
+   * @returns Human readable interest method label
+   */
+  export const formatInterestMethod = (method: string = 'reducing_balance'): string => {
+    const labels: Record<string, string> = {
+      'flat': 'Flat Rate',
+      'reducing_balance': 'Reducing Balance',
+      'interest_only_bullet': 'Interest Only + Bullet',
+    };
+  
+    return labels[method] || 'Reducing Balance';
+  };
+  
+  /**
+   * Format rate type for display
+   * @param rateType Rate type key
+   * @returns Human readable rate type label
+   */
+  export const formatRateType = (rateType: string = 'fixed'): string => {
+    const labels: Record<string, string> = {
+      'fixed': 'Fixed',
+      'floating': 'Floating',
+    };
+  
+    return labels[rateType] || 'Fixed';
+  };
+  
+  /**
+   * Format moratorium interest treatment for display
+   * @param treatment Moratorium treatment key
+   * @returns Human readable treatment label
+   */
+  export const formatMoratoriumTreatment = (treatment: string = 'capitalize'): string => {
+    const labels: Record<string, string> = {
+      'capitalize': 'Interest Capitalized',
+      'interest_only': 'Interest Only',
+    };
+  
+    return labels[treatment] || 'Interest Capitalized';
+  };
+  
+  /**
+   * Format repayment structure for display
+   * @param structure Repayment structure key
+   * @returns Human readable structure label
+   */
+  export const formatRepaymentStructure = (structure: string = 'level'): string => {
+    const labels: Record<string, string> = {
+      'level': 'Level EMI',
+      'step_up': 'Step-up',
+      'step_down': 'Step-down',
+      'balloon': 'Balloon',
+    };
+  
+    return labels[structure] || 'Level EMI';
+  };
+  
+  /**
+   * Format upfront charges treatment for display
+   * @param treatment Charges treatment key
+   * @returns Human readable treatment label
+   */
+  export const formatChargeTreatment = (treatment: string = 'deducted'): string => {
+    const labels: Record<string, string> = {
+      'deducted': 'Deducted from Disbursement',
+      'financed': 'Financed into Loan',
+    };
+  
+    return labels[treatment] || 'Deducted from Disbursement';
+  };
+  
+  /**
+   * Format disbursement mode for display
+   * @param mode Disbursement mode key
+   * @returns Human readable mode label
+   */
+  export const formatDisbursementMode = (mode: string = 'bank_transfer'): string => {
+    const labels: Record<string, string> = {
+      'cash': 'Cash',
+      'bank_transfer': 'Bank Transfer',
+      'upi': 'UPI',
+    };
+  
+    return labels[mode] || 'Bank Transfer';
+  };
+  
+  /**
+   * Format loan party role for display
+   * @param role Loan party role key
+   * @returns Human readable role label
+   */
+  export const formatLoanPartyRole = (role: string = 'guarantor'): string => {
+    const labels: Record<string, string> = {
+      'co_borrower': 'Co-borrower',
+      'guarantor': 'Guarantor',
+    };
+  
+    return labels[role] || 'Guarantor';
+  };
+  
+  /**
+   * Format collateral type for display
+   * @param type Collateral type key
+   * @returns Human readable collateral label
+   */
+  export const formatCollateralType = (type: string = 'other'): string => {
+    const labels: Record<string, string> = {
+      'gold': 'Gold',
+      'vehicle': 'Vehicle',
+      'property': 'Property',
+      'fixed_deposit': 'Fixed Deposit',
+      'other': 'Other',
+    };
+  
+    return labels[type] || 'Other';
+  };
+  
+  /**
+   * Format collateral lien status for display
+   * @param status Lien status key
+   * @returns Human readable lien status
+   */
+  export const formatLienStatus = (status: string = 'pending'): string => {
+    const labels: Record<string, string> = {
+      'pending': 'Lien Pending',
+      'marked': 'Lien Marked',
+      'released': 'Released',
+    };
+  
+    return labels[status] || 'Lien Pending';
+  };
+  
+  /**
+   * Format DPD bucket for display
+   * @param bucket DPD bucket key
+   * @returns Human readable bucket label
+   */
+  export const formatDPDBucket = (bucket: string = 'current'): string => {
+    const labels: Record<string, string> = {
+      'current': 'Current',
+      'dpd_1_30': '1-30 DPD',
+      'dpd_31_60': '31-60 DPD',
+      'dpd_61_90': '61-90 DPD',
+      'npa': 'NPA (90+ DPD)',
+    };
+  
+    return labels[bucket] || 'Current';
+  };
+  
+  /**
+   * Format payment status for display
+   * @param status Payment status key
+   * @returns Human readable payment status
+   */
+  export const formatPaymentStatus = (status: string = 'posted'): string => {
+    const labels: Record<string, string> = {
+      'posted': 'Posted',
+      'voided': 'Voided',
+      'reversed': 'Reversed',
+    };
+  
+    return labels[status] || 'Posted';
+  };
+  
+  /**
+   * Format cheque clearing status for display
+   * @param status Cheque status key
+   * @returns Human readable cheque status
+   */
+  export const formatChequeStatus = (status: string = 'received'): string => {
+    const labels: Record<string, string> = {
+      'received': 'Received',
+      'deposited': 'Deposited',
+      'cleared': 'Cleared',
+      'bounced': 'Bounced',
+    };
+  
+    return labels[status] || 'Received';
+  };
+  
   /**
    * Format phone number for display
    * @param phone Phone number string
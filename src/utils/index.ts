@@ -1,4 +1,5 @@
 // src/utils/index.ts
 // Barrel exports for utility functions
 
-export * from './formatters';
\ No newline at end of file
+export * from './formatters';
+export * from './money';
\ No newline at end of file
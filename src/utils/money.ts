@@ -0,0 +1,162 @@
+// src/utils/money.ts
+// Exact money arithmetic on integer minor units (paise)
+// Floats only appear at the edges: reading amounts in and formatting them out
+
+export type RoundingMode = 'half_up' | 'half_even';
+
+const MINOR_PER_MAJOR = 100;
+
+/**
+ * Round a fractional minor-unit value to a whole number of minor units
+ * - half_up: ties round away from zero (2.5 → 3, -2.5 → -3)
+ * - half_even: ties round to the nearest even unit (banker's rounding)
+ * @param value Fractional minor units
+ * @param mode Rounding mode (default: half_up)
+ * @returns Whole minor units
+ */
+export const roundMinor = (value: number, mode: RoundingMode = 'half_up'): number => {
+  // Strip binary noise such as 1.005 * 100 = 100.49999999999999
+  const normalized = parseFloat(value.toPrecision(12));
+  const floor = Math.floor(normalized);
+
+  if (Math.abs(normalized - floor - 0.5) > 1e-9) {
+    return Math.round(normalized) + 0;
+  }
+
+  if (mode === 'half_even') {
+    return floor % 2 === 0 ? floor : floor + 1;
+  }
+  return normalized >= 0 ? floor + 1 : floor;
+};
+
+/**
+ * Immutable money amount held as integer minor units
+ */
+export class Money {
+  static readonly ZERO = new Money(0);
+
+  private constructor(readonly minor: number) {}
+
+  /**
+   * Create from whole minor units
+   */
+  static fromMinor(minor: number): Money {
+    if (!Number.isInteger(minor)) {
+      throw new Error(`Money requires whole minor units, got ${minor}`);
+    }
+    return new Money(minor + 0);
+  }
+
+  /**
+   * Create from a major-unit amount (e.g. rupees), rounding to the nearest paisa
+   */
+  static of(amount: number, mode: RoundingMode = 'half_up'): Money {
+    return new Money(roundMinor(amount * MINOR_PER_MAJOR, mode));
+  }
+
+  /**
+   * Sum money amounts exactly
+   */
+  static sum(amounts: Money[]): Money {
+    return amounts.reduce((total, amount) => total.add(amount), Money.ZERO);
+  }
+
+  /**
+   * Sum stored major-unit amounts exactly
+   */
+  static sumOf(amounts: number[]): Money {
+    return Money.sum(amounts.map(amount => Money.of(amount)));
+  }
+
+  static min(a: Money, b: Money): Money {
+    return a.minor <= b.minor ? a : b;
+  }
+
+  static max(a: Money, b: Money): Money {
+    return a.minor >= b.minor ? a : b;
+  }
+
+  add(other: Money): Money {
+    return new Money(this.minor + other.minor);
+  }
+
+  subtract(other: Money): Money {
+    return new Money(this.minor - other.minor);
+  }
+
+  /**
+   * Multiply by a factor (rate, ratio) and round to a whole paisa
+   */
+  multiply(factor: number, mode: RoundingMode = 'half_up'): Money {
+    return new Money(roundMinor(this.minor * factor, mode));
+  }
+
+  /**
+   * Divide by a number and round to a whole paisa
+   */
+  divide(divisor: number, mode: RoundingMode = 'half_up'): Money {
+    if (divisor === 0) {
+      throw new Error('Cannot divide money by zero');
+    }
+    return new Money(roundMinor(this.minor / divisor, mode));
+  }
+
+  /**
+   * Split into equal parts that add back up exactly; leftover paise go to the earliest parts
+   */
+  allocate(parts: number): Money[] {
+    if (!Number.isInteger(parts) || parts <= 0) {
+      throw new Error('Money can only be split into a positive whole number of parts');
+    }
+    const base = Math.trunc(this.minor / parts);
+    const remainder = this.minor - base * parts;
+    const step = remainder >= 0 ? 1 : -1;
+    return Array.from({ length: parts }, (_, i) =>
+      new Money(base + (i < Math.abs(remainder) ? step : 0))
+    );
+  }
+
+  negate(): Money {
+    return new Money(-this.minor + 0);
+  }
+
+  isZero(): boolean {
+    return this.minor === 0;
+  }
+
+  isPositive(): boolean {
+    return this.minor > 0;
+  }
+
+  isNegative(): boolean {
+    return this.minor < 0;
+  }
+
+  equals(other: Money): boolean {
+    return this.minor === other.minor;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.minor > other.minor;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.minor < other.minor;
+  }
+
+  /**
+   * Major-unit amount for storage and display
+   */
+  toNumber(): number {
+    return this.minor / MINOR_PER_MAJOR;
+  }
+}
+
+/**
+ * Round a major-unit amount to the nearest paisa
+ * @param amount Amount in major units
+ * @param mode Rounding mode (default: half_up)
+ * @returns Amount rounded to 2 decimal places
+ */
+export const roundMoney = (amount: number, mode: RoundingMode = 'half_up'): number =>
+  Money.of(amount, mode).toNumber();